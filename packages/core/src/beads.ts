@@ -107,11 +107,81 @@ export function pickAssignee(entry: any): string | undefined {
   return undefined;
 }
 
+const SOURCE_LINE_PATTERN = /^Source:\s+(\S+:\d+(?:-\d+)?)\s*$/m;
+const SOURCE_ANCHOR_PATTERN = /^Source:\s+(\S+):(\d+)(?:-(\d+))?\s*$/gm;
+
+/** A file and 1-based, inclusive line range a bead is anchored to. */
+export interface SourceAnchor {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * bd has no file field, so beads created from code carry their location as a `Source: path:line`
+ * (or `path:start-end`) line in the description.
+ */
+export function formatSourceLine(path: string, line: number, endLine = line): string {
+  return endLine > line ? `Source: ${path}:${line}-${endLine}` : `Source: ${path}:${line}`;
+}
+
+/** The `path:line` from a `Source:` description line, if there is one. */
+export function parseSourceLine(description: string | undefined): string | undefined {
+  return description ? SOURCE_LINE_PATTERN.exec(description)?.[1] : undefined;
+}
+
+/** Every `Source:` anchor in a description, in order. */
+export function parseSourceAnchors(description: string | undefined): SourceAnchor[] {
+  if (!description) {
+    return [];
+  }
+  const anchors: SourceAnchor[] = [];
+  for (const match of description.matchAll(SOURCE_ANCHOR_PATTERN)) {
+    const startLine = Number(match[2]);
+    const endLine = match[3] ? Number(match[3]) : startLine;
+    if (startLine > 0) {
+      anchors.push({ path: match[1]!, startLine, endLine: Math.max(startLine, endLine) });
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Replace the `Source:` lines of a description with `anchors`. Existing lines are rewritten in
+ * place; extra anchors are appended after the last one (or after the text, separated by a blank line).
+ */
+export function setSourceAnchors(description: string | undefined, anchors: SourceAnchor[]): string {
+  const lines = (description ?? '').split('\n');
+  const pending = anchors.map((anchor) => formatSourceLine(anchor.path, anchor.startLine, anchor.endLine));
+  const kept: string[] = [];
+  let lastSourceIndex = -1;
+  for (const line of lines) {
+    if (/^Source:\s+\S+:\d+(?:-\d+)?\s*$/.test(line)) {
+      const replacement = pending.shift();
+      if (replacement !== undefined) {
+        kept.push(replacement);
+        lastSourceIndex = kept.length - 1;
+      }
+      continue;
+    }
+    kept.push(line);
+  }
+  if (pending.length === 0) {
+    return kept.join('\n').replace(/\n+$/, '');
+  }
+  if (lastSourceIndex >= 0) {
+    kept.splice(lastSourceIndex + 1, 0, ...pending);
+    return kept.join('\n');
+  }
+  const text = kept.join('\n').replace(/\s+$/, '');
+  return text ? `${text}\n\n${pending.join('\n')}` : pending.join('\n');
+}
+
 export function normalizeBead(entry: any, index = 0): BeadItemData {
   const { value: id, key: idKey } = pickFirstKey(entry, ['id', 'uuid', 'beadId']);
   const title = pickValue(entry, ['title', 'name'], id ?? `bead-${index}`) ?? `bead-${index}`;
   const description = pickValue(entry, ['description', 'desc', 'body']);
-  const filePath = pickValue(entry, ['file', 'path', 'filename']);
+  const filePath = pickValue(entry, ['file', 'path', 'filename']) ?? parseSourceLine(description);
   const status = pickValue(entry, ['status', 'state']);
   const tags = pickTags(entry);
   const assignee = pickAssignee(entry);
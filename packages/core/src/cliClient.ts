@@ -2,6 +2,8 @@ import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { CliExecutionPolicy, DEFAULT_CLI_POLICY, mergeCliPolicy } from './config';
 import { LogRedactionOptions, sanitizeCliOutput } from './security/sanitize';
+import type { BdCliSession } from './cliSession';
+import { isSessionClosedError, isSessionTimeoutError } from './cliSession';
 
 const execFileAsync = promisify(execFile);
 
@@ -33,6 +35,8 @@ export interface BdCliClientOptions {
   worktreeId?: string;
   maxBufferBytes?: number;
   execImplementation?: (command: string, args: string[], options: ExecOptions) => Promise<BdCliResult>;
+  /** Route commands through a long-lived bd process; falls back to one-shot exec when it dies. */
+  session?: BdCliSession;
 }
 
 export interface ExecOptions {
@@ -71,6 +75,10 @@ function isTransientProcessError(error: any): boolean {
 }
 
 function isRetriableError(error: any): boolean {
+  // A timed-out session request may still be running in the server; retrying could apply it twice.
+  if (isSessionTimeoutError(error)) {
+    return false;
+  }
   return isTimeoutError(error) || isTransientProcessError(error);
 }
 
@@ -78,6 +86,35 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function defaultExecImplementation(command: string, args: string[], options: ExecOptions): Promise<BdCliResult> {
+  return execFileAsync(command, args, options);
+}
+
+/**
+ * Wrap an exec implementation so requests go through the session first. When the session is
+ * (or becomes) unavailable, or the request needs a cwd or environment the session was not
+ * started with, the request runs as a one-shot process.
+ */
+export function createSessionExecImplementation(
+  session: BdCliSession,
+  fallback?: BdCliClientOptions['execImplementation']
+): NonNullable<BdCliClientOptions['execImplementation']> {
+  const oneShot = fallback ?? defaultExecImplementation;
+  return async (command, args, options) => {
+    if (!session.isAlive || !session.accepts(options)) {
+      return oneShot(command, args, options);
+    }
+    try {
+      return await session.exec(args, options);
+    } catch (error) {
+      if (isSessionClosedError(error)) {
+        return oneShot(command, args, options);
+      }
+      throw error;
+    }
+  };
+}
+
 export function buildSafeBdArgs(rawArgs: string[]): string[] {
   if (!Array.isArray(rawArgs)) {
     throw new Error('bd arguments must be an array');
@@ -131,9 +168,7 @@ export async function execCliWithPolicy(options: ExecCliOptions): Promise<BdCliR
   let attempt = 0;
   let lastError: unknown;
 
-  const runner = execImplementation
-    ? execImplementation
-    : (cmd: string, cliArgs: string[], execOptions: ExecOptions) => execFileAsync(cmd, cliArgs, execOptions);
+  const runner = execImplementation ?? defaultExecImplementation;
 
   while (attempt <= policy.retryCount) {
     try {
@@ -230,7 +265,12 @@ export class BdCliClient {
     const maxBuffer = options.maxBufferBytes ?? this.defaults.maxBufferBytes ?? policy.maxBufferBytes;
     if (maxBuffer !== undefined) execOptions.maxBuffer = maxBuffer;
     const impl = options.execImplementation ?? this.defaults.execImplementation;
-    if (impl) execOptions.execImplementation = impl;
+    const session = options.session ?? this.defaults.session;
+    if (session) {
+      execOptions.execImplementation = createSessionExecImplementation(session, impl);
+    } else if (impl) {
+      execOptions.execImplementation = impl;
+    }
     const worktreeId = this.resolveWorktreeId(options.worktreeId);
     if (worktreeId) execOptions.worktreeId = worktreeId;
 
@@ -0,0 +1,330 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import * as path from 'path';
+import type { BdCliResult, ExecOptions } from './cliClient';
+
+/**
+ * Long-lived bd process speaking newline-delimited JSON over stdio.
+ *
+ * Each request is written as `{"id":1,"args":["update","bd-1","--status","closed"]}` and the
+ * server answers with `{"id":1,"stdout":"...","stderr":"...","exitCode":0}` (or `"error"`).
+ * Responses may arrive out of order; they are matched back to callers by id. Anything the server
+ * writes to stderr outside a response is kept (the last few KB) for diagnostics.
+ *
+ * This is the protocol Beady expects from `bd serve --stdio`; it is not part of any released bd
+ * that Beady has been tested against. A bd without it exits or never answers, the session dies
+ * and every request falls back to one-shot execution.
+ */
+export interface BdCliSessionOptions {
+  commandPath: string;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Arguments used to start the session process. */
+  sessionArgs?: string[];
+  spawnImplementation?: (command: string, args: string[], options: { cwd?: string; env?: NodeJS.ProcessEnv }) => ChildProcessWithoutNullStreams;
+}
+
+export const DEFAULT_SESSION_ARGS = ['--no-daemon', 'serve', '--stdio'];
+
+const STDERR_TAIL_BYTES = 4096;
+/** Timeouts in a row, with no response in between, after which a server is treated as hung. */
+const MAX_CONSECUTIVE_TIMEOUTS = 3;
+
+/**
+ * Raised when a request outlives its timeout. The server may still run it, so the request must
+ * not be retried (a retried `create` would run twice).
+ */
+export class BdSessionTimeoutError extends Error {
+  readonly code = 'ESESSIONTIMEOUT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BdSessionTimeoutError';
+  }
+}
+
+/** Raised when the session process is gone; callers should fall back to one-shot exec. */
+export class BdSessionClosedError extends Error {
+  readonly code = 'ESESSIONCLOSED';
+
+  constructor(message = 'bd session is not running') {
+    super(message);
+    this.name = 'BdSessionClosedError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: BdCliResult) => void;
+  reject: (error: unknown) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export class BdCliSession {
+  private child: ChildProcessWithoutNullStreams | undefined;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private buffer = '';
+  private dead = false;
+  private disposed = false;
+  private responses = 0;
+  private consecutiveTimeouts = 0;
+  private stderrTail = '';
+
+  constructor(private readonly options: BdCliSessionOptions) {}
+
+  /** True until the process exits or fails to start. A dead session never restarts itself. */
+  get isAlive(): boolean {
+    return !this.dead && !this.disposed;
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /** Number of responses received; zero after death means the server is likely unsupported. */
+  get responseCount(): number {
+    return this.responses;
+  }
+
+  /** The last few KB the server wrote to stderr. */
+  get stderr(): string {
+    return this.stderrTail;
+  }
+
+  /**
+   * Whether a request with these options can run in this session. The process has a fixed cwd
+   * and environment, so requests asking for another one must run as one-shot processes.
+   */
+  accepts(execOptions: ExecOptions = {}): boolean {
+    if (execOptions.env && execOptions.env !== this.options.env) {
+      return false;
+    }
+    if (execOptions.cwd) {
+      return !!this.options.cwd && path.resolve(execOptions.cwd) === path.resolve(this.options.cwd);
+    }
+    return true;
+  }
+
+  /**
+   * Send one bd invocation through the session. Rejects with `BdSessionTimeoutError` when the
+   * timeout passes, which `execCliWithPolicy` never retries. A server that has never answered is
+   * taken to lack `serve --stdio`: the session dies and the request fails with
+   * `BdSessionClosedError`, so it runs one-shot instead. A server that stops answering is killed
+   * after a few timeouts in a row and replaced by the pool.
+   */
+  exec(args: string[], execOptions: ExecOptions = {}): Promise<BdCliResult> {
+    if (!this.isAlive) {
+      return Promise.reject(new BdSessionClosedError());
+    }
+
+    let child: ChildProcessWithoutNullStreams;
+    try {
+      child = this.ensureStarted();
+    } catch (error) {
+      this.markDead();
+      return Promise.reject(new BdSessionClosedError(error instanceof Error ? error.message : undefined));
+    }
+
+    const id = this.nextId++;
+    return new Promise<BdCliResult>((resolve, reject) => {
+      const maxBuffer = execOptions.maxBuffer;
+      const entry: PendingRequest = {
+        resolve: (result) => {
+          // Same limit a one-shot process gets from execFile.
+          if (maxBuffer && Math.max(result.stdout.length, result.stderr.length) > maxBuffer) {
+            reject(Object.assign(new Error('stdout maxBuffer length exceeded'), { code: 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER' }));
+            return;
+          }
+          resolve(result);
+        },
+        reject,
+      };
+      if (execOptions.timeout && execOptions.timeout > 0) {
+        entry.timer = setTimeout(() => {
+          this.pending.delete(id);
+          if (this.responses === 0) {
+            reject(new BdSessionClosedError(`bd session did not answer request ${id}`));
+            this.retire(new BdSessionClosedError('bd session never answered'));
+            return;
+          }
+          reject(new BdSessionTimeoutError(`bd session request ${id} timed out`));
+          this.consecutiveTimeouts += 1;
+          if (this.consecutiveTimeouts >= MAX_CONSECUTIVE_TIMEOUTS) {
+            // Requests still pending may have run, so they fail as timeouts rather than being retried.
+            this.retire(new BdSessionTimeoutError('bd session stopped answering'));
+          }
+        }, execOptions.timeout);
+      }
+      this.pending.set(id, entry);
+
+      try {
+        child.stdin.write(`${JSON.stringify({ id, args })}\n`);
+      } catch (error) {
+        this.settle(id, undefined, new BdSessionClosedError(error instanceof Error ? error.message : undefined));
+      }
+    });
+  }
+
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.failPending(new BdSessionClosedError('bd session disposed'));
+    if (this.child) {
+      this.child.stdin.end();
+      this.child.kill();
+      this.child = undefined;
+    }
+  }
+
+  private ensureStarted(): ChildProcessWithoutNullStreams {
+    if (this.child) {
+      return this.child;
+    }
+
+    const spawnImpl =
+      this.options.spawnImplementation ??
+      ((command: string, args: string[], spawnOptions: { cwd?: string; env?: NodeJS.ProcessEnv }) =>
+        spawn(command, args, { ...spawnOptions, stdio: 'pipe' }));
+    const spawnOptions: { cwd?: string; env?: NodeJS.ProcessEnv } = {};
+    if (this.options.cwd) spawnOptions.cwd = this.options.cwd;
+    if (this.options.env) spawnOptions.env = this.options.env;
+
+    const child = spawnImpl(this.options.commandPath, this.options.sessionArgs ?? DEFAULT_SESSION_ARGS, spawnOptions);
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => this.handleData(chunk));
+    // Always drain stderr: an unread pipe fills up and blocks the server.
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      this.stderrTail = (this.stderrTail + chunk).slice(-STDERR_TAIL_BYTES);
+    });
+    child.on('error', () => this.markDead());
+    child.on('exit', () => this.markDead());
+    child.stdin.on('error', () => this.markDead());
+    this.child = child;
+    return child;
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleLine(line);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  private handleLine(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (!message || typeof message.id !== 'number') {
+      return;
+    }
+    this.responses += 1;
+    this.consecutiveTimeouts = 0;
+
+    const stdout = typeof message.stdout === 'string' ? message.stdout : '';
+    const stderr = typeof message.stderr === 'string' ? message.stderr : '';
+    const exitCode = typeof message.exitCode === 'number' ? message.exitCode : 0;
+
+    if (typeof message.error === 'string' || exitCode !== 0) {
+      const error = Object.assign(new Error(message.error ?? (stderr || `bd exited with code ${exitCode}`)), {
+        code: exitCode,
+        stdout,
+        stderr,
+      });
+      this.settle(message.id, undefined, error);
+      return;
+    }
+
+    this.settle(message.id, { stdout, stderr });
+  }
+
+  private settle(id: number, result?: BdCliResult, error?: unknown): void {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(id);
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    if (error !== undefined) {
+      entry.reject(error);
+    } else {
+      entry.resolve(result ?? { stdout: '', stderr: '' });
+    }
+  }
+
+  /** Kill a server that is running but not answering; the session stays dead. */
+  private retire(error: Error): void {
+    const child = this.child;
+    this.failPending(error);
+    this.markDead();
+    if (child) {
+      child.stdin.end();
+      child.kill();
+    }
+  }
+
+  private markDead(): void {
+    if (this.dead) {
+      return;
+    }
+    this.dead = true;
+    this.child = undefined;
+    this.failPending(new BdSessionClosedError('bd session exited'));
+  }
+
+  private failPending(error: Error): void {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id, undefined, error);
+    }
+  }
+}
+
+/**
+ * One session per workspace root. Dead sessions are replaced lazily on the next lookup so a
+ * crashed or hung server only costs the requests that were in flight. A session that died (or
+ * timed out) before answering anything is kept (dead) so callers go straight to one-shot exec
+ * instead of respawning a server the installed bd does not support.
+ */
+export class BdCliSessionPool {
+  private readonly sessions = new Map<string, BdCliSession>();
+
+  constructor(private readonly factory: (root: string, commandPath: string) => BdCliSession) {}
+
+  get(root: string, commandPath = 'bd'): BdCliSession {
+    const key = `${commandPath}\u0000${root}`;
+    const existing = this.sessions.get(key);
+    if (existing && (existing.isAlive || existing.responseCount === 0)) {
+      return existing;
+    }
+    const session = this.factory(root, commandPath);
+    this.sessions.set(key, session);
+    return session;
+  }
+
+  disposeAll(): void {
+    for (const session of this.sessions.values()) {
+      session.dispose();
+    }
+    this.sessions.clear();
+  }
+}
+
+export function isSessionClosedError(error: unknown): boolean {
+  return error instanceof BdSessionClosedError || (error as any)?.code === 'ESESSIONCLOSED';
+}
+
+export function isSessionTimeoutError(error: unknown): boolean {
+  return error instanceof BdSessionTimeoutError || (error as any)?.code === 'ESESSIONTIMEOUT';
+}
@@ -1,4 +1,5 @@
 import { BeadItemData } from './beads';
+import type { BeadsStoreDelta } from './store/beadsStore';
 import { DependencyDirection, DependencyLink, DependencyType, extractDependencyLinks } from './dependencies';
 
 export interface DependencyTreeStrings {
@@ -29,6 +30,17 @@ export interface GraphEdgeData {
   targetTitle?: string;
 }
 
+/**
+ * Changes to post to an open graph after a store refresh instead of the whole graph. Every
+ * outgoing edge of the beads in `edgeSourceIds` is replaced by the edges listed in `edges`.
+ */
+export interface GraphPatch {
+  nodes: GraphNodeData[];
+  removedNodeIds: string[];
+  edgeSourceIds: string[];
+  edges: GraphEdgeData[];
+}
+
 export interface DependencyNeighbor {
   id: string;
   title?: string;
@@ -54,7 +66,7 @@ export interface DependencyAdjacency {
   downstream: DependencyNeighbor[];
 }
 
-export function collectDependencyEdges(items: BeadItemData[] | undefined): GraphEdgeData[] {
+export function collectDependencyEdges(items: BeadItemData[] | undefined, sourceIds?: Set<string>): GraphEdgeData[] {
   if (!items || items.length === 0) {
     return [];
   }
@@ -65,6 +77,9 @@ export function collectDependencyEdges(items: BeadItemData[] | undefined): Graph
   const edges: GraphEdgeData[] = [];
 
   items.forEach((item) => {
+    if (sourceIds && !sourceIds.has(item.id)) {
+      return;
+    }
     const deps = extractDependencyLinks(item.raw);
     deps.forEach((dep) => {
       const targetTitle = nodeTitles.get(dep.id) ?? dep.id;
@@ -92,6 +107,28 @@ export function mapBeadsToGraphNodes(items: BeadItemData[] | undefined): GraphNo
   }));
 }
 
+/**
+ * Graph changes for a store delta. Besides the added and changed beads' own edges, edges that
+ * point at a changed or removed bead are re-sent so their titles stay current.
+ */
+export function buildGraphPatch(items: BeadItemData[], delta: BeadsStoreDelta): GraphPatch {
+  const updated = [...delta.added, ...delta.changed];
+  const touched = new Set([...updated, ...delta.removed].map((item) => item.id));
+  const sources = new Set(updated.map((item) => item.id));
+  for (const item of items) {
+    if (!sources.has(item.id) && extractDependencyLinks(item.raw).some((dep) => touched.has(dep.id))) {
+      sources.add(item.id);
+    }
+  }
+
+  return {
+    nodes: mapBeadsToGraphNodes(updated),
+    removedNodeIds: delta.removed.map((item) => item.id),
+    edgeSourceIds: Array.from(sources),
+    edges: collectDependencyEdges(items, sources),
+  };
+}
+
 function buildDependencyIndex(items: BeadItemData[] | undefined) {
   const itemById = new Map<string, BeadItemData>();
   const upstreamById = new Map<string, DependencyLink[]>();
@@ -1,9 +1,13 @@
 export * from './beads';
 export * from './dependencies';
 export * from './graph';
+export * from './schedule';
 export * from './status';
+export * from './search';
 export * from './config';
 export * from './cliClient';
+export * from './cliSession';
 export * from './security/sanitize';
 export * from './store/beadsStore';
 export * from './store/watchers';
+export * from './writeLock';
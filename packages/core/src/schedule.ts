@@ -0,0 +1,265 @@
+import { BeadItemData } from './beads';
+import { extractDependencyLinks } from './dependencies';
+import { isDoneStatus } from './status';
+
+/**
+ * How much work a bead represents when measuring chains:
+ * - estimate: `estimated_minutes` from bd (beads without an estimate count as 60 minutes)
+ * - priority: P0 weighs 5 down to P4 weighing 1, so chains of urgent work rank first
+ * - count: every bead weighs 1 (longest chain by number of beads)
+ */
+export type ScheduleWeight = 'estimate' | 'priority' | 'count';
+
+export interface ScheduleOptions {
+  weight?: ScheduleWeight;
+  /** Only consider the work that must finish before this bead (e.g. an epic) can finish. */
+  targetId?: string;
+}
+
+export interface ScheduleNode {
+  id: string;
+  duration: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  /** How far the bead can slip without delaying the finish; 0 on the critical path. */
+  slack: number;
+}
+
+export interface ScheduleAnalysis {
+  /** Unfinished bead ids, each after everything it waits on. */
+  order: string[];
+  /** Bead ids left out because they sit on a dependency cycle. */
+  cyclic: string[];
+  nodes: Map<string, ScheduleNode>;
+  /** Longest weighted chain, first bead to last. */
+  criticalPath: string[];
+  totalDuration: number;
+}
+
+const DEFAULT_ESTIMATE_MINUTES = 60;
+const DEFAULT_PRIORITY = 2;
+
+/**
+ * Precedence edges between unfinished beads: a `blocks` dependency must finish before its
+ * dependent starts, and a child must finish before its parent epic does. `related` links do
+ * not constrain order.
+ */
+function buildPrecedence(items: BeadItemData[]): { ids: string[]; successors: Map<string, Set<string>>; predecessors: Map<string, Set<string>> } {
+  const open = new Map<string, BeadItemData>();
+  items.forEach((item) => {
+    if (item?.id && !isDoneStatus(item.status)) {
+      open.set(item.id, item);
+    }
+  });
+
+  const successors = new Map<string, Set<string>>();
+  const predecessors = new Map<string, Set<string>>();
+  const ids = Array.from(open.keys());
+  ids.forEach((id) => {
+    successors.set(id, new Set());
+    predecessors.set(id, new Set());
+  });
+
+  const addEdge = (before: string, after: string) => {
+    if (before === after || !open.has(before) || !open.has(after)) {
+      return;
+    }
+    successors.get(before)!.add(after);
+    predecessors.get(after)!.add(before);
+  };
+
+  open.forEach((item) => {
+    for (const link of extractDependencyLinks(item.raw)) {
+      if (link.type === 'blocks') {
+        addEdge(link.id, item.id);
+      } else if (link.type === 'parent-child') {
+        addEdge(item.id, link.id);
+      }
+    }
+  });
+
+  return { ids, successors, predecessors };
+}
+
+/**
+ * Order unfinished beads so every bead comes after the beads it waits on (Kahn's algorithm,
+ * ties kept in input order). Beads on a cycle cannot be ordered and are returned separately.
+ */
+export function topologicalOrder(items: BeadItemData[]): { order: string[]; cyclic: string[] } {
+  const { ids, successors, predecessors } = buildPrecedence(items);
+  const remaining = new Map(ids.map((id) => [id, predecessors.get(id)!.size]));
+  const queue = ids.filter((id) => remaining.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)!.forEach((next) => {
+      const count = remaining.get(next)! - 1;
+      remaining.set(next, count);
+      if (count === 0) {
+        queue.push(next);
+      }
+    });
+  }
+
+  const ordered = new Set(order);
+  return { order, cyclic: ids.filter((id) => !ordered.has(id)) };
+}
+
+export function getScheduleDuration(item: BeadItemData, weight: ScheduleWeight = 'estimate'): number {
+  const raw = item.raw as any;
+  if (weight === 'count') {
+    return 1;
+  }
+  if (weight === 'priority') {
+    const priority = Number.isInteger(raw?.priority) ? Math.min(4, Math.max(0, raw.priority)) : DEFAULT_PRIORITY;
+    return 5 - priority;
+  }
+  const estimate = Number(raw?.estimated_minutes ?? raw?.estimate);
+  return Number.isFinite(estimate) && estimate > 0 ? estimate : DEFAULT_ESTIMATE_MINUTES;
+}
+
+function collectPrerequisites(targetId: string, predecessors: Map<string, Set<string>>): Set<string> {
+  const scope = new Set<string>([targetId]);
+  const stack = [targetId];
+  while (stack.length > 0) {
+    predecessors.get(stack.pop()!)?.forEach((id) => {
+      if (!scope.has(id)) {
+        scope.add(id);
+        stack.push(id);
+      }
+    });
+  }
+  return scope;
+}
+
+/**
+ * Critical path analysis over unfinished beads: earliest/latest start and finish per bead, slack,
+ * and the longest weighted chain. With `targetId`, only that bead's prerequisites are scheduled
+ * and the path ends at it.
+ */
+export function analyzeSchedule(items: BeadItemData[], options: ScheduleOptions = {}): ScheduleAnalysis {
+  const weight = options.weight ?? 'estimate';
+  const { predecessors, successors } = buildPrecedence(items);
+  const { order: fullOrder, cyclic } = topologicalOrder(items);
+  const byId = new Map(items.map((item) => [item.id, item]));
+
+  const inScope = options.targetId && predecessors.has(options.targetId)
+    ? collectPrerequisites(options.targetId, predecessors)
+    : undefined;
+  if (options.targetId && !inScope) {
+    return { order: [], cyclic: [], nodes: new Map(), criticalPath: [], totalDuration: 0 };
+  }
+  const order = inScope ? fullOrder.filter((id) => inScope.has(id)) : fullOrder;
+  const scheduled = new Set(order);
+
+  const nodes = new Map<string, ScheduleNode>();
+  for (const id of order) {
+    const duration = getScheduleDuration(byId.get(id)!, weight);
+    let earliestStart = 0;
+    predecessors.get(id)!.forEach((prev) => {
+      const before = nodes.get(prev);
+      if (before) {
+        earliestStart = Math.max(earliestStart, before.earliestFinish);
+      }
+    });
+    nodes.set(id, {
+      id,
+      duration,
+      earliestStart,
+      earliestFinish: earliestStart + duration,
+      latestStart: 0,
+      latestFinish: 0,
+      slack: 0,
+    });
+  }
+
+  const totalDuration = options.targetId
+    ? nodes.get(options.targetId)?.earliestFinish ?? 0
+    : Array.from(nodes.values()).reduce((max, node) => Math.max(max, node.earliestFinish), 0);
+
+  for (const id of [...order].reverse()) {
+    const node = nodes.get(id)!;
+    let latestFinish = totalDuration;
+    successors.get(id)!.forEach((next) => {
+      const after = nodes.get(next);
+      if (after && scheduled.has(next)) {
+        latestFinish = Math.min(latestFinish, after.latestStart);
+      }
+    });
+    node.latestFinish = latestFinish;
+    node.latestStart = latestFinish - node.duration;
+    node.slack = node.latestStart - node.earliestStart;
+  }
+
+  // Walk back from the bead that finishes last through predecessors that finish exactly when it starts.
+  const criticalPath: string[] = [];
+  let current = options.targetId
+    ? nodes.get(options.targetId)
+    : order.map((id) => nodes.get(id)!).find((node) => node.earliestFinish === totalDuration && node.slack === 0);
+  while (current) {
+    criticalPath.unshift(current.id);
+    const start = current.earliestStart;
+    current = Array.from(predecessors.get(current.id)!)
+      .map((id) => nodes.get(id))
+      .find((node) => node !== undefined && node.earliestFinish === start && node.slack === 0);
+  }
+
+  return { order, cyclic: inScope ? cyclic.filter((id) => inScope.has(id)) : cyclic, nodes, criticalPath, totalDuration };
+}
+
+/**
+ * Beads that can be picked up now, matching `bd ready`: open or in progress, with no unfinished
+ * `blocks` dependency, and no ancestor epic that is itself blocked. Sorted by priority.
+ */
+export function computeReadySet(items: BeadItemData[]): BeadItemData[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const blocked = new Map<string, boolean>();
+
+  const isBlocked = (item: BeadItemData, visiting: Set<string>): boolean => {
+    const cached = blocked.get(item.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    if (visiting.has(item.id)) {
+      return false;
+    }
+    visiting.add(item.id);
+
+    let result = false;
+    for (const link of extractDependencyLinks(item.raw)) {
+      const target = byId.get(link.id);
+      if (!target) {
+        continue;
+      }
+      if (link.type === 'blocks' && !isDoneStatus(target.status)) {
+        result = true;
+      } else if (link.type === 'parent-child' && isBlocked(target, visiting)) {
+        result = true;
+      }
+      if (result) {
+        break;
+      }
+    }
+
+    blocked.set(item.id, result);
+    return result;
+  };
+
+  const priorityOf = (item: BeadItemData) => {
+    const priority = (item.raw as any)?.priority;
+    return Number.isInteger(priority) ? priority : DEFAULT_PRIORITY;
+  };
+
+  return items
+    .filter((item) => {
+      const status = item.status || 'open';
+      return (status === 'open' || status === 'in_progress') && !isBlocked(item, new Set());
+    })
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => priorityOf(a.item) - priorityOf(b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
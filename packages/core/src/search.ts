@@ -0,0 +1,630 @@
+import type { BeadItemData } from './beads';
+
+/**
+ * Field-qualified bead search, e.g.
+ * `status:open label:ui assignee:@me priority:<2 type:bug "exact phrase" -label:wontfix updated:>7d`.
+ */
+
+export const SEARCH_FIELDS = [
+  'status',
+  'label',
+  'assignee',
+  'priority',
+  'type',
+  'updated',
+  'created',
+  'id',
+  'title',
+  'description',
+  'notes',
+] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export type SearchComparator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface SearchClause {
+  /** Undefined for free text, which matches any indexed field. */
+  field?: SearchField;
+  value: string;
+  negate: boolean;
+  phrase: boolean;
+  comparator: SearchComparator;
+}
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  errors: string[];
+}
+
+export interface SearchOptions {
+  index?: BeadSearchIndex;
+  /** Substituted for `@me` in `assignee:` clauses. */
+  currentUser?: string;
+  now?: number;
+}
+
+export interface SearchResult {
+  item: BeadItemData;
+  score: number;
+}
+
+export interface SearchSuggestion {
+  label: string;
+  /** The full query text after accepting the suggestion. */
+  value: string;
+  kind: 'field' | 'value';
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  labels: 'label',
+  tag: 'label',
+  tags: 'label',
+  issue_type: 'type',
+  desc: 'description',
+};
+
+/** Relevance weight of a free-text hit per indexed field. */
+const FIELD_WEIGHTS = {
+  id: 8,
+  title: 5,
+  label: 4,
+  assignee: 3,
+  type: 2,
+  status: 2,
+  description: 1,
+  design: 1,
+  acceptance: 1,
+  notes: 1,
+} as const;
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+const TEXT_FIELDS: Partial<Record<SearchField, IndexedField[]>> = {
+  id: ['id'],
+  title: ['title'],
+  description: ['description', 'design', 'acceptance'],
+  notes: ['notes'],
+};
+
+const SUGGESTED_VALUES: Partial<Record<SearchField, string[]>> = {
+  priority: ['0', '1', '2', '3', '4', '<2', '>2'],
+  updated: ['<1d', '<7d', '>7d', '>30d'],
+  created: ['<1d', '<7d', '>7d', '>30d'],
+};
+
+const EXACT_ID_BONUS = 20;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+  m: 30 * 86_400_000,
+  y: 365 * 86_400_000,
+};
+
+function resolveField(name: string): SearchField | undefined {
+  const lower = name.toLowerCase();
+  if ((SEARCH_FIELDS as readonly string[]).includes(lower)) {
+    return lower as SearchField;
+  }
+  return FIELD_ALIASES[lower];
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+/** Split on whitespace outside double quotes. Unterminated quotes run to the end. */
+function splitQueryTerms(input: string): string[] {
+  return input.match(/(?:[^\s"]+|"[^"]*(?:"|$))+/g) ?? [];
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const errors: string[] = [];
+
+  for (const term of splitQueryTerms(input.trim())) {
+    let rest = term;
+    const negate = rest.startsWith('-') && rest.length > 1;
+    if (negate) {
+      rest = rest.slice(1);
+    }
+
+    let field: SearchField | undefined;
+    const colon = rest.indexOf(':');
+    if (colon > 0 && !rest.slice(0, colon).includes('"')) {
+      field = resolveField(rest.slice(0, colon));
+      if (field) {
+        rest = rest.slice(colon + 1);
+      }
+    }
+
+    let comparator: SearchComparator = '=';
+    if (field === 'priority' || field === 'updated' || field === 'created') {
+      const match = /^(<=|>=|<|>|=)/.exec(rest);
+      if (match) {
+        comparator = match[1] as SearchComparator;
+        rest = rest.slice(match[1]!.length);
+      }
+    }
+
+    const phrase = rest.startsWith('"');
+    const value = (phrase ? rest.replace(/^"|"$/g, '') : rest).toLowerCase();
+    if (!value) {
+      if (field) {
+        errors.push(`missing value for ${field}`);
+      }
+      continue;
+    }
+
+    if (field === 'priority' && !Number.isFinite(Number(value.replace(/^p/, '')))) {
+      errors.push(`invalid priority: ${value}`);
+      continue;
+    }
+    if ((field === 'updated' || field === 'created') && parseDateValue(value) === undefined) {
+      errors.push(`invalid date for ${field}: ${value}`);
+      continue;
+    }
+
+    const clause: SearchClause = { value, negate, phrase, comparator };
+    if (field) {
+      clause.field = field;
+    }
+    clauses.push(clause);
+  }
+
+  return { clauses, errors };
+}
+
+function parseDateValue(value: string): { ageMs: number } | { timestamp: number } | undefined {
+  const relative = /^(\d+)([hdwmy])$/.exec(value);
+  if (relative) {
+    return { ageMs: Number(relative[1]) * DURATION_UNITS_MS[relative[2]!]! };
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : { timestamp };
+}
+
+function compare(actual: number, comparator: SearchComparator, expected: number): boolean {
+  switch (comparator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+interface IndexedBead {
+  /** Workspace-scoped key, see searchIndexKey. */
+  key: string;
+  item: BeadItemData;
+  fields: Array<[IndexedField, string]>;
+  tokens: Map<string, number>;
+  labels: string[];
+}
+
+function buildDocument(item: BeadItemData, key: string = item.id): IndexedBead {
+  const raw = (item.raw ?? {}) as Record<string, any>;
+  const labels = Array.from(
+    new Set([...(Array.isArray(raw.labels) ? raw.labels : []), ...(item.tags ?? [])].map((label) => String(label).toLowerCase()))
+  );
+  const fields: Array<[IndexedField, string]> = [
+    ['id', item.id],
+    ['title', item.title],
+    ['label', labels.join(' ')],
+    ['assignee', item.assignee ?? raw.assignee ?? ''],
+    ['type', item.issueType ?? raw.issue_type ?? ''],
+    ['status', item.status ?? ''],
+    ['description', raw.description ?? item.description ?? ''],
+    ['design', raw.design ?? ''],
+    ['acceptance', raw.acceptance_criteria ?? ''],
+    ['notes', raw.notes ?? ''],
+  ];
+  const normalizedFields = fields
+    .map(([field, text]): [IndexedField, string] => [field, String(text).toLowerCase()])
+    .filter(([, text]) => text.length > 0);
+
+  const tokens = new Map<string, number>();
+  for (const [field, text] of normalizedFields) {
+    for (const token of tokenizeSearchText(text)) {
+      tokens.set(token, Math.max(tokens.get(token) ?? 0, FIELD_WEIGHTS[field]));
+    }
+  }
+  return { key, item, fields: normalizedFields, tokens, labels };
+}
+
+/**
+ * Index key of a bead. Ids are only unique within a workspace, so beads of other workspaces
+ * are keyed by workspace id plus bead id; the default workspace uses the bare id.
+ */
+export function searchIndexKey(id: string, workspaceId = ''): string {
+  return workspaceId ? `${workspaceId}\u0000${id}` : id;
+}
+
+// Substrings longer than this are looked up by their first characters and then checked directly.
+const MAX_SUFFIX_DEPTH = 12;
+
+interface SuffixTrieNode {
+  children: Map<string, SuffixTrieNode>;
+  /** Tokens with a suffix that ends at this node. */
+  tokens: Set<string>;
+}
+
+/**
+ * Trie over the (depth-capped) suffixes of every token, so the tokens containing a word are
+ * found by walking the word instead of scanning the whole vocabulary.
+ */
+class SuffixTrie {
+  private readonly root: SuffixTrieNode = { children: new Map(), tokens: new Set() };
+
+  add(token: string): void {
+    for (let start = 0; start < token.length; start++) {
+      let node = this.root;
+      for (const char of token.slice(start, start + MAX_SUFFIX_DEPTH)) {
+        let next = node.children.get(char);
+        if (!next) {
+          next = { children: new Map(), tokens: new Set() };
+          node.children.set(char, next);
+        }
+        node = next;
+      }
+      node.tokens.add(token);
+    }
+  }
+
+  remove(token: string): void {
+    for (let start = 0; start < token.length; start++) {
+      const path: Array<[SuffixTrieNode, string]> = [];
+      let node: SuffixTrieNode | undefined = this.root;
+      for (const char of token.slice(start, start + MAX_SUFFIX_DEPTH)) {
+        path.push([node, char]);
+        node = node.children.get(char);
+        if (!node) {
+          break;
+        }
+      }
+      if (!node) {
+        continue;
+      }
+      node.tokens.delete(token);
+      for (let i = path.length - 1; i >= 0; i--) {
+        const [parent, char] = path[i]!;
+        const child = parent.children.get(char)!;
+        if (child.tokens.size > 0 || child.children.size > 0) {
+          break;
+        }
+        parent.children.delete(char);
+      }
+    }
+  }
+
+  /** Tokens that contain `word`. */
+  find(word: string): string[] {
+    let node: SuffixTrieNode | undefined = this.root;
+    for (const char of word.slice(0, MAX_SUFFIX_DEPTH)) {
+      node = node.children.get(char);
+      if (!node) {
+        return [];
+      }
+    }
+    const found = new Set<string>();
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      current.tokens.forEach((token) => found.add(token));
+      current.children.forEach((child) => stack.push(child));
+    }
+    const tokens = Array.from(found);
+    return word.length > MAX_SUFFIX_DEPTH ? tokens.filter((token) => token.includes(word)) : tokens;
+  }
+}
+
+/**
+ * Inverted index over bead text fields. Free-text clauses narrow candidates through the token
+ * vocabulary before any bead is inspected; structured filters run on the candidates only.
+ */
+export class BeadSearchIndex {
+  private readonly documents = new Map<string, IndexedBead>();
+  private readonly keysByItem = new WeakMap<BeadItemData, string>();
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly vocabulary = new SuffixTrie();
+  private readonly fieldValues = {
+    label: new Map<string, number>(),
+    assignee: new Map<string, number>(),
+    type: new Map<string, number>(),
+  };
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  rebuild(items: BeadItemData[], workspaceId = ''): void {
+    Array.from(this.documents.keys()).forEach((key) => this.removeKey(key));
+    items.forEach((item) => this.add(item, workspaceId));
+  }
+
+  applyDelta(delta: { added: BeadItemData[]; changed: BeadItemData[]; removed: BeadItemData[] }, workspaceId = ''): void {
+    delta.removed.forEach((item) => this.remove(item.id, workspaceId));
+    delta.changed.forEach((item) => this.add(item, workspaceId));
+    delta.added.forEach((item) => this.add(item, workspaceId));
+  }
+
+  add(item: BeadItemData, workspaceId = ''): void {
+    const key = searchIndexKey(item.id, workspaceId);
+    this.removeKey(key);
+    const doc = buildDocument(item, key);
+    this.documents.set(key, doc);
+    this.keysByItem.set(item, key);
+    for (const [token, weight] of doc.tokens) {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(token, posting);
+        this.vocabulary.add(token);
+      }
+      posting.set(key, weight);
+    }
+    this.countValues(doc, 1);
+  }
+
+  remove(id: string, workspaceId = ''): void {
+    this.removeKey(searchIndexKey(id, workspaceId));
+  }
+
+  /** The indexed document, only while it still describes this exact bead instance. */
+  lookup(item: BeadItemData): IndexedBead | undefined {
+    const key = this.keysByItem.get(item);
+    const doc = key === undefined ? undefined : this.documents.get(key);
+    return doc && doc.item === item ? doc : undefined;
+  }
+
+  /**
+   * Keys (see searchIndexKey) of beads that can contain `text` as a substring of some field.
+   * Every word of the text must appear inside an indexed token, so the result is a superset of
+   * the true matches.
+   */
+  candidates(text: string): Set<string> | undefined {
+    const words = tokenizeSearchText(text);
+    if (words.length === 0) {
+      return undefined;
+    }
+    let result: Set<string> | undefined;
+    for (const word of words) {
+      const ids = new Set<string>();
+      for (const token of this.vocabulary.find(word)) {
+        this.postings.get(token)?.forEach((_weight, key) => ids.add(key));
+      }
+      result = result ? new Set([...result].filter((id) => ids.has(id))) : ids;
+      if (result.size === 0) {
+        break;
+      }
+    }
+    return result;
+  }
+
+  /** Known values for autocomplete, most frequent first. */
+  valuesFor(field: 'label' | 'assignee' | 'type'): string[] {
+    return Array.from(this.fieldValues[field].entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([value]) => value);
+  }
+
+  private removeKey(key: string): void {
+    const doc = this.documents.get(key);
+    if (!doc) {
+      return;
+    }
+    for (const token of doc.tokens.keys()) {
+      const posting = this.postings.get(token);
+      posting?.delete(key);
+      if (posting && posting.size === 0) {
+        this.postings.delete(token);
+        this.vocabulary.remove(token);
+      }
+    }
+    this.countValues(doc, -1);
+    this.documents.delete(key);
+  }
+
+  private countValues(doc: IndexedBead, step: 1 | -1): void {
+    const bump = (values: Map<string, number>, value: string) => {
+      if (!value) {
+        return;
+      }
+      const next = (values.get(value) ?? 0) + step;
+      if (next > 0) {
+        values.set(value, next);
+      } else {
+        values.delete(value);
+      }
+    };
+    doc.labels.forEach((label) => bump(this.fieldValues.label, label));
+    bump(this.fieldValues.assignee, fieldText(doc, 'assignee'));
+    bump(this.fieldValues.type, fieldText(doc, 'type'));
+  }
+}
+
+function fieldText(doc: IndexedBead, field: IndexedField): string {
+  return doc.fields.find(([name]) => name === field)?.[1] ?? '';
+}
+
+/** Relevance of a text clause: summed weight of every field containing it, 0 for no hit. */
+function scoreText(doc: IndexedBead, value: string, fields?: IndexedField[]): number {
+  let score = 0;
+  for (const [field, text] of doc.fields) {
+    if ((!fields || fields.includes(field)) && text.includes(value)) {
+      score += FIELD_WEIGHTS[field];
+    }
+  }
+  if (score > 0 && doc.item.id.toLowerCase() === value) {
+    score += EXACT_ID_BONUS;
+  }
+  return score;
+}
+
+function matchesFilter(doc: IndexedBead, clause: SearchClause, options: SearchOptions): boolean {
+  const raw = (doc.item.raw ?? {}) as Record<string, any>;
+  const anyOf = clause.value.split(',').filter(Boolean);
+
+  switch (clause.field) {
+    case 'status':
+      return anyOf.includes((doc.item.status ?? '').toLowerCase());
+    case 'label':
+      return anyOf.some((label) => doc.labels.includes(label));
+    case 'type':
+      return anyOf.includes(fieldText(doc, 'type'));
+    case 'assignee': {
+      const assignee = fieldText(doc, 'assignee');
+      return anyOf.some((value) => {
+        if (value === 'none') {
+          return !assignee;
+        }
+        const expected = value === '@me' ? (options.currentUser ?? '').toLowerCase() : value.replace(/^@/, '');
+        return !!expected && assignee === expected;
+      });
+    }
+    case 'priority': {
+      const priority = Number(raw.priority);
+      return Number.isFinite(priority) && compare(priority, clause.comparator, Number(clause.value.replace(/^p/, '')));
+    }
+    case 'updated':
+    case 'created': {
+      const stamp = Date.parse(clause.field === 'updated' ? raw.updated_at ?? doc.item.updatedAt : raw.created_at);
+      const target = parseDateValue(clause.value);
+      if (Number.isNaN(stamp) || !target) {
+        return false;
+      }
+      if ('ageMs' in target) {
+        const age = (options.now ?? Date.now()) - stamp;
+        return compare(age, clause.comparator === '=' ? '<=' : clause.comparator, target.ageMs);
+      }
+      if (clause.comparator === '=') {
+        return new Date(stamp).toISOString().startsWith(clause.value);
+      }
+      return compare(stamp, clause.comparator, target.timestamp);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Run a query over `items`. Matches are returned by descending relevance; ties keep input
+ * order. An index speeds up free-text clauses for beads it has seen in their current form.
+ */
+export function searchBeads(
+  items: BeadItemData[],
+  query: string | ParsedSearchQuery,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  if (parsed.clauses.length === 0) {
+    return items.map((item) => ({ item, score: 0 }));
+  }
+
+  const candidateSets = options.index
+    ? parsed.clauses
+        .filter((clause) => !clause.negate && (!clause.field || TEXT_FIELDS[clause.field]))
+        .map((clause) => options.index!.candidates(clause.value))
+        .filter((ids): ids is Set<string> => ids !== undefined)
+    : [];
+
+  const results: SearchResult[] = [];
+  for (const item of items) {
+    const indexed = options.index?.lookup(item);
+    if (indexed && candidateSets.some((keys) => !keys.has(indexed.key))) {
+      continue;
+    }
+    const doc = indexed ?? buildDocument(item);
+
+    let score = 0;
+    let matched = true;
+    for (const clause of parsed.clauses) {
+      const textFields = clause.field ? TEXT_FIELDS[clause.field] : undefined;
+      const isText = !clause.field || !!textFields;
+      const clauseScore = isText ? scoreText(doc, clause.value, textFields) : matchesFilter(doc, clause, options) ? 0 : -1;
+      const hit = isText ? clauseScore > 0 : clauseScore === 0;
+      if (hit === clause.negate) {
+        matched = false;
+        break;
+      }
+      if (!clause.negate) {
+        score += Math.max(clauseScore, 0);
+      }
+    }
+
+    if (matched) {
+      results.push({ item, score });
+    }
+  }
+
+  return results
+    .map((result, order) => ({ result, order }))
+    .sort((a, b) => b.result.score - a.result.score || a.order - b.order)
+    .map(({ result }) => result);
+}
+
+/**
+ * Completions for the term under the cursor (the end of `input`): field names, then known
+ * values once a field is typed. Quoted phrases get no suggestions.
+ */
+export function getSearchSuggestions(
+  input: string,
+  context: { index?: BeadSearchIndex; statuses?: string[] } = {}
+): SearchSuggestion[] {
+  const match = /(^|\s)(-?)([^\s]*)$/.exec(input);
+  const term = match?.[3] ?? '';
+  if (term.includes('"')) {
+    return [];
+  }
+  const prefix = input.slice(0, input.length - term.length);
+  const negation = match?.[2] ?? '';
+  const head = prefix.slice(0, prefix.length - negation.length);
+
+  const colon = term.indexOf(':');
+  if (colon < 0) {
+    const partial = term.toLowerCase();
+    return SEARCH_FIELDS.filter((field) => field.startsWith(partial) && field !== partial).map((field) => ({
+      label: `${negation}${field}:`,
+      value: `${head}${negation}${field}:`,
+      kind: 'field',
+    }));
+  }
+
+  const field = resolveField(term.slice(0, colon));
+  if (!field) {
+    return [];
+  }
+  const partial = term.slice(colon + 1).toLowerCase();
+  const lastComma = partial.lastIndexOf(',');
+  const listHead = partial.slice(0, lastComma + 1);
+  const needle = partial.slice(lastComma + 1);
+
+  let values: string[];
+  if (field === 'status') {
+    values = context.statuses ?? [];
+  } else if (field === 'label' || field === 'type') {
+    values = context.index?.valuesFor(field) ?? [];
+  } else if (field === 'assignee') {
+    values = ['@me', 'none', ...(context.index?.valuesFor('assignee') ?? [])];
+  } else {
+    values = SUGGESTED_VALUES[field] ?? [];
+  }
+
+  const fieldName = term.slice(0, colon);
+  return values
+    .filter((value) => value.startsWith(needle) && value !== needle)
+    .slice(0, 20)
+    .map((value) => {
+      const text = /\s/.test(value) && !listHead ? `"${value}"` : value;
+      return {
+        label: `${negation}${fieldName}:${listHead}${text}`,
+        value: `${head}${negation}${fieldName}:${listHead}${text} `,
+        kind: 'value',
+      };
+    });
+}
@@ -1,22 +1,192 @@
+import type { BeadItemData } from './beads';
+
 export const ALLOWED_STATUSES = ['open', 'in_progress', 'blocked', 'closed'] as const;
 export type BeadsStatus = (typeof ALLOWED_STATUSES)[number];
 
-const STATUS_PRIORITY: Record<string, number> = {
-  open: 0,
-  in_progress: 1,
-  blocked: 2,
-  closed: 3,
+/** Broad meaning of a status, used by rules that must work with custom status names. */
+export type StatusCategory = 'open' | 'active' | 'blocked' | 'done';
+
+export interface StatusDefinition {
+  id: string;
+  label?: string;
+  category?: StatusCategory;
+}
+
+/**
+ * Team-defined status set and transition rules, loaded from settings or `.beads/workflow.json`.
+ */
+export interface StatusWorkflow {
+  /** Statuses in sort priority order. */
+  statuses: StatusDefinition[];
+  /** Order of status sections in the tree; defaults to `statuses` order. */
+  sectionOrder?: string[];
+  /** Allowed targets per current status. Statuses without an entry may move to any status. */
+  transitions?: Record<string, string[]>;
+  /** Target statuses that cannot be entered while the bead has open blocking dependencies. */
+  requireResolvedBlockers?: string[];
+}
+
+export interface StatusChangeContext {
+  /** Number of `blocks` dependencies whose target is not yet done. */
+  openBlockers?: number;
+}
+
+export const DEFAULT_STATUS_WORKFLOW: StatusWorkflow = {
+  statuses: [
+    { id: 'open', category: 'open' },
+    { id: 'in_progress', category: 'active' },
+    { id: 'blocked', category: 'blocked' },
+    { id: 'closed', category: 'done' },
+  ],
+  sectionOrder: ['in_progress', 'open', 'blocked', 'closed'],
 };
 
-export function normalizeStatus(value: string | undefined | null): BeadsStatus | undefined {
+const STATUS_ID_REGEX = /^[a-z][a-z0-9_-]{0,31}$/;
+const STATUS_CATEGORIES: readonly StatusCategory[] = ['open', 'active', 'blocked', 'done'];
+
+// Workflows by project root. The status helpers below read the one for the active root.
+const workflowsByRoot = new Map<string, StatusWorkflow>();
+let activeRoot = '';
+
+/** The workflow of `projectRoot`, or of the active project when omitted. */
+export function getStatusWorkflow(projectRoot: string = activeRoot): StatusWorkflow {
+  return workflowsByRoot.get(projectRoot) ?? DEFAULT_STATUS_WORKFLOW;
+}
+
+/** Set the workflow of a project root; pass undefined to restore the built-in one. */
+export function setStatusWorkflow(workflow: StatusWorkflow | undefined, projectRoot = ''): void {
+  if (workflow) {
+    workflowsByRoot.set(projectRoot, workflow);
+  } else {
+    workflowsByRoot.delete(projectRoot);
+  }
+}
+
+/** Make the workflow of `projectRoot` the one the status helpers use. */
+export function useStatusWorkflow(projectRoot = ''): void {
+  activeRoot = projectRoot;
+}
+
+export function getWorkflowStatuses(): string[] {
+  return getStatusWorkflow().statuses.map((s) => s.id);
+}
+
+export function getStatusSectionOrder(): string[] {
+  const statuses = getWorkflowStatuses();
+  const order = (getStatusWorkflow().sectionOrder ?? []).filter((id) => statuses.includes(id));
+  return [...order, ...statuses.filter((id) => !order.includes(id))];
+}
+
+export function getStatusDefinition(status: string | undefined): StatusDefinition | undefined {
+  const normalized = normalizeStatus(status);
+  return normalized ? getStatusWorkflow().statuses.find((s) => s.id === normalized) : undefined;
+}
+
+export function isDoneStatus(status: string | undefined): boolean {
+  const definition = getStatusDefinition(status);
+  if (!definition) {
+    return false;
+  }
+  return (definition.category ?? (definition.id === 'closed' ? 'done' : undefined)) === 'done';
+}
+
+function asStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter((entry): entry is string => typeof entry === 'string').map((entry) => entry.trim().toLowerCase());
+}
+
+/**
+ * Validate an untrusted workflow definition. Invalid entries are dropped and reported; a
+ * workflow without any valid status is rejected.
+ */
+export function parseStatusWorkflow(input: unknown): { workflow?: StatusWorkflow; errors: string[] } {
+  const errors: string[] = [];
+  if (!input || typeof input !== 'object') {
+    return { errors: ['workflow must be an object'] };
+  }
+  const source = input as Record<string, unknown>;
+
+  const statuses: StatusDefinition[] = [];
+  const rawStatuses = Array.isArray(source.statuses) ? source.statuses : [];
+  for (const entry of rawStatuses) {
+    const definition = typeof entry === 'string' ? { id: entry } : (entry as Record<string, unknown> | null);
+    const id = typeof definition?.id === 'string' ? definition.id.trim().toLowerCase() : '';
+    if (!STATUS_ID_REGEX.test(id)) {
+      errors.push(`invalid status id: ${String(definition?.id ?? entry)}`);
+      continue;
+    }
+    if (statuses.some((s) => s.id === id)) {
+      errors.push(`duplicate status: ${id}`);
+      continue;
+    }
+    const status: StatusDefinition = { id };
+    if (typeof definition?.label === 'string' && definition.label.trim()) {
+      status.label = definition.label.trim();
+    }
+    if (typeof definition?.category === 'string') {
+      if ((STATUS_CATEGORIES as readonly string[]).includes(definition.category)) {
+        status.category = definition.category as StatusCategory;
+      } else {
+        errors.push(`invalid category for ${id}: ${definition.category}`);
+      }
+    }
+    statuses.push(status);
+  }
+
+  if (statuses.length === 0) {
+    errors.push('workflow must define at least one status');
+    return { errors };
+  }
+
+  const known = new Set(statuses.map((s) => s.id));
+  const keepKnown = (ids: string[] | undefined, field: string): string[] | undefined => {
+    if (!ids) {
+      return undefined;
+    }
+    const unknown = ids.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      errors.push(`${field} references unknown status: ${unknown.join(', ')}`);
+    }
+    return ids.filter((id) => known.has(id));
+  };
+
+  const workflow: StatusWorkflow = { statuses };
+  const sectionOrder = keepKnown(asStringArray(source.sectionOrder), 'sectionOrder');
+  if (sectionOrder) workflow.sectionOrder = sectionOrder;
+  const requireResolvedBlockers = keepKnown(asStringArray(source.requireResolvedBlockers), 'requireResolvedBlockers');
+  if (requireResolvedBlockers) workflow.requireResolvedBlockers = requireResolvedBlockers;
+
+  if (source.transitions && typeof source.transitions === 'object') {
+    const transitions: Record<string, string[]> = {};
+    for (const [from, targets] of Object.entries(source.transitions as Record<string, unknown>)) {
+      const key = from.trim().toLowerCase();
+      if (!known.has(key)) {
+        errors.push(`transitions references unknown status: ${from}`);
+        continue;
+      }
+      transitions[key] = keepKnown(asStringArray(targets) ?? [], `transitions.${key}`) ?? [];
+    }
+    workflow.transitions = transitions;
+  }
+
+  return { workflow, errors };
+}
+
+export function normalizeStatus(value: string | undefined | null): string | undefined {
   if (!value) {
     return undefined;
   }
   const normalized = value.trim().toLowerCase();
-  return (ALLOWED_STATUSES as readonly string[]).find((s) => s === normalized) as BeadsStatus | undefined;
+  return getStatusWorkflow().statuses.find((s) => s.id === normalized)?.id;
 }
 
-export function validateStatusChange(currentStatus: string | undefined, targetStatus: string): { allowed: boolean; reason?: string } {
+export function validateStatusChange(
+  currentStatus: string | undefined,
+  targetStatus: string,
+  context: StatusChangeContext = {}
+): { allowed: boolean; reason?: string } {
   const target = normalizeStatus(targetStatus);
   if (!target) {
     return { allowed: false, reason: 'invalid target status' };
@@ -27,28 +197,58 @@ export function validateStatusChange(currentStatus: string | undefined, targetSt
     return { allowed: false, reason: 'already in target status' };
   }
 
+  const allowedTargets = current ? getStatusWorkflow().transitions?.[current] : undefined;
+  if (allowedTargets && !allowedTargets.includes(target)) {
+    return { allowed: false, reason: `workflow does not allow ${current} → ${target}` };
+  }
+
+  if ((context.openBlockers ?? 0) > 0 && getStatusWorkflow().requireResolvedBlockers?.includes(target)) {
+    return { allowed: false, reason: 'blocking dependencies are still open' };
+  }
+
   return { allowed: true };
 }
 
-export function canTransition(currentStatus: string | undefined, targetStatus: string): boolean {
-  return validateStatusChange(currentStatus, targetStatus).allowed;
+export function canTransition(currentStatus: string | undefined, targetStatus: string, context?: StatusChangeContext): boolean {
+  return validateStatusChange(currentStatus, targetStatus, context).allowed;
+}
+
+/** Count `blocks` dependencies of the bead whose target is not in a done status. */
+export function countOpenBlockers(item: BeadItemData, items: BeadItemData[]): number {
+  const deps = (item.raw as any)?.dependencies;
+  if (!Array.isArray(deps)) {
+    return 0;
+  }
+  const byId = new Map(items.map((entry) => [entry.id, entry]));
+  return deps.filter((dep: any) => {
+    const type = dep?.dep_type || dep?.type || 'related';
+    if (type !== 'blocks') {
+      return false;
+    }
+    const target = byId.get(dep?.depends_on_id || dep?.id || dep?.issue_id);
+    return !!target && !isDoneStatus(target.status);
+  }).length;
 }
 
 export function formatStatusLabel(status: string): string {
-  const normalized = normalizeStatus(status);
-  if (!normalized) {
+  const definition = getStatusDefinition(status);
+  if (!definition) {
     return status;
   }
-  return normalized.replace('_', ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+  if (definition.label) {
+    return definition.label;
+  }
+  return definition.id.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
 }
 
-export function validateStatusSelection(input: string | undefined): BeadsStatus | undefined {
+export function validateStatusSelection(input: string | undefined): string | undefined {
   return normalizeStatus(input);
 }
 
 export function statusPriority(status: string | undefined): number {
   const normalized = normalizeStatus(status);
-  return STATUS_PRIORITY[normalized ?? ''] ?? Number.POSITIVE_INFINITY;
+  const index = getStatusWorkflow().statuses.findIndex((s) => s.id === normalized);
+  return index >= 0 ? index : Number.POSITIVE_INFINITY;
 }
 
 export function compareStatus(a?: string, b?: string): number {
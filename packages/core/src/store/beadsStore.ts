@@ -1,8 +1,10 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { BdCliClient, BdCliClientOptions } from '../cliClient';
+import { BdCliSession } from '../cliSession';
 import { CliExecutionPolicy, DEFAULT_CLI_POLICY, mergeCliPolicy } from '../config';
 import { BeadItemData, extractBeads, normalizeBead } from '../beads';
+import { BeadSearchIndex, SearchOptions, SearchResult, searchBeads } from '../search';
 import { WatchAdapter, WatcherManager, WatchSubscription } from './watchers';
 
 export interface BeadsDocument {
@@ -47,6 +49,18 @@ export interface BeadsStoreSnapshot {
   workspaces: WorkspaceState[];
 }
 
+/**
+ * Per-bead changes since the previous notification. Unchanged beads keep their previous
+ * object identity in the snapshot so consumers can skip re-rendering them.
+ */
+export interface BeadsStoreDelta {
+  added: BeadItemData[];
+  changed: BeadItemData[];
+  removed: BeadItemData[];
+}
+
+export type BeadsStoreListener = (snapshot: BeadsStoreSnapshot, delta: BeadsStoreDelta) => void;
+
 export interface BeadsStoreOptions {
   watchAdapter?: WatchAdapter;
   watchManager?: WatcherManager;
@@ -55,6 +69,8 @@ export interface BeadsStoreOptions {
   staleThresholdHours?: number;
   clock?: () => number;
   onError?: (error: unknown) => void;
+  /** Supply a long-lived bd session per workspace so exports avoid a cold start. */
+  sessionProvider?: (target: WorkspaceTarget) => BdCliSession | undefined;
 }
 
 export const DEFAULT_STALE_THRESHOLD_HOURS = 24;
@@ -182,30 +198,102 @@ export async function saveBeadsDocument(document: BeadsDocument): Promise<void>
   await fs.writeFile(document.filePath, content, 'utf8');
 }
 
-export function filterBeadsByQuery(items: BeadItemData[], query: string | undefined): BeadItemData[] {
+export function createEmptyDelta(): BeadsStoreDelta {
+  return { added: [], changed: [], removed: [] };
+}
+
+export function isEmptyDelta(delta: BeadsStoreDelta): boolean {
+  return delta.added.length === 0 && delta.changed.length === 0 && delta.removed.length === 0;
+}
+
+/** Content hash used to detect edits that did not bump `updated_at`. */
+export function computeBeadHash(bead: BeadItemData): string {
+  return JSON.stringify(bead.raw ?? bead);
+}
+
+/**
+ * Diff two item lists by id. A bead counts as changed when its `updatedAt` moved or, failing
+ * that, when its content hash differs. Returns the next list with unchanged beads replaced by
+ * their previous instances.
+ */
+export function diffBeadItems(
+  previous: BeadItemData[],
+  next: BeadItemData[],
+  previousHashes: Map<string, string> = new Map()
+): { items: BeadItemData[]; delta: BeadsStoreDelta; hashes: Map<string, string> } {
+  const delta = createEmptyDelta();
+  const hashes = new Map<string, string>();
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+
+  const items = next.map((item) => {
+    const prior = previousById.get(item.id);
+    previousById.delete(item.id);
+    if (prior === item) {
+      hashes.set(item.id, previousHashes.get(item.id) ?? computeBeadHash(item));
+      return prior;
+    }
+
+    const hash = computeBeadHash(item);
+    hashes.set(item.id, hash);
+    if (!prior) {
+      delta.added.push(item);
+      return item;
+    }
+
+    const updatedAtMoved = prior.updatedAt !== undefined && item.updatedAt !== undefined && prior.updatedAt !== item.updatedAt;
+    const priorHash = previousHashes.get(item.id) ?? computeBeadHash(prior);
+    if (updatedAtMoved || priorHash !== hash) {
+      delta.changed.push(item);
+      return item;
+    }
+    return prior;
+  });
+
+  delta.removed.push(...previousById.values());
+  return { items, delta, hashes };
+}
+
+/** Fold a newer delta into an older one, e.g. when several refreshes land before a notify. */
+export function mergeDeltas(base: BeadsStoreDelta, next: BeadsStoreDelta): BeadsStoreDelta {
+  const added = new Map(base.added.map((item) => [item.id, item]));
+  const changed = new Map(base.changed.map((item) => [item.id, item]));
+  const removed = new Map(base.removed.map((item) => [item.id, item]));
+
+  for (const item of next.added) {
+    if (removed.delete(item.id)) {
+      changed.set(item.id, item);
+    } else {
+      added.set(item.id, item);
+    }
+  }
+  for (const item of next.changed) {
+    if (added.has(item.id)) {
+      added.set(item.id, item);
+    } else {
+      changed.set(item.id, item);
+    }
+  }
+  for (const item of next.removed) {
+    if (added.delete(item.id)) {
+      continue;
+    }
+    changed.delete(item.id);
+    removed.set(item.id, item);
+  }
+
+  return { added: [...added.values()], changed: [...changed.values()], removed: [...removed.values()] };
+}
+
+/** Filter beads with the field-qualified query syntax; matches come back in relevance order. */
+export function filterBeadsByQuery(
+  items: BeadItemData[],
+  query: string | undefined,
+  options?: SearchOptions
+): BeadItemData[] {
   if (!query) {
     return items;
   }
-
-  const normalized = query.toLowerCase();
-  return items.filter((item) => {
-    const raw = item.raw as any;
-    const searchableFields = [
-      item.id,
-      item.title,
-      raw?.description || '',
-      raw?.design || '',
-      raw?.acceptance_criteria || '',
-      raw?.notes || '',
-      raw?.assignee || '',
-      item.status || '',
-      raw?.issue_type || '',
-      ...(raw?.labels || []),
-      ...(item.tags || []),
-    ];
-
-    return searchableFields.some((field) => String(field).toLowerCase().includes(normalized));
-  });
+  return searchBeads(items, query, options).map((result) => result.item);
 }
 
 type LoadResult = { items: BeadItemData[]; document: BeadsDocument };
@@ -214,8 +302,13 @@ export class BeadsStore {
   private readonly watchManager?: WatcherManager;
   private readonly ownsWatchManager: boolean;
   private readonly loader: (target: WorkspaceTarget) => Promise<LoadResult>;
-  private readonly listeners = new Set<(snapshot: BeadsStoreSnapshot) => void>();
+  private readonly listeners = new Set<BeadsStoreListener>();
   private readonly workspaceState = new Map<string, WorkspaceState>();
+  private readonly itemHashes = new Map<string, Map<string, string>>();
+  /** Last export line per bead, so unchanged lines skip JSON parsing and normalization. */
+  private readonly exportLineCache = new Map<string, Map<string, BeadItemData>>();
+  private pendingDelta: BeadsStoreDelta = createEmptyDelta();
+  private readonly searchIndex = new BeadSearchIndex();
   private readonly clock: () => number;
   private readonly staleThresholdHours: number;
 
@@ -236,7 +329,8 @@ export class BeadsStore {
     this.staleThresholdHours = options.staleThresholdHours ?? DEFAULT_STALE_THRESHOLD_HOURS;
   }
 
-  onDidChange(listener: (snapshot: BeadsStoreSnapshot) => void): () => void {
+  /** Listeners receive the full snapshot plus the per-bead delta since the last notification. */
+  onDidChange(listener: BeadsStoreListener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
@@ -252,6 +346,15 @@ export class BeadsStore {
     return this.getSnapshot().items;
   }
 
+  /** Inverted index over all loaded beads, kept current on every refresh. */
+  getSearchIndex(): BeadSearchIndex {
+    return this.searchIndex;
+  }
+
+  search(query: string, options: Omit<SearchOptions, 'index'> = {}): SearchResult[] {
+    return searchBeads(this.getItems(), query, { ...options, index: this.searchIndex });
+  }
+
   getStaleItems(thresholdHours: number = this.staleThresholdHours): BeadItemData[] {
     return this.getSnapshot().items.filter((item) => isStale(item, thresholdHours, this.clock()));
   }
@@ -272,8 +375,11 @@ export class BeadsStore {
     if (validTargets.length === 0) {
       for (const state of this.workspaceState.values()) {
         this.disposeWatchers(state);
+        this.recordItems(state, []);
       }
       this.workspaceState.clear();
+      this.itemHashes.clear();
+      this.exportLineCache.clear();
       const snapshot = this.getSnapshot();
       this.notify(snapshot);
       return snapshot;
@@ -297,11 +403,11 @@ export class BeadsStore {
     state.refreshInProgress = true;
     try {
       const result = await this.loader(state.target);
-      state.items = result.items;
+      this.recordItems(state, result.items);
       state.document = result.document;
       this.configureWatchers(state);
     } catch (error) {
-      state.items = [];
+      this.recordItems(state, []);
       delete state.document;
       this.options.onError?.(error);
     }
@@ -318,6 +424,14 @@ export class BeadsStore {
     this.notify(this.getSnapshot());
   }
 
+  private recordItems(state: WorkspaceState, nextItems: BeadItemData[]): void {
+    const { items, delta, hashes } = diffBeadItems(state.items, nextItems, this.itemHashes.get(state.target.id));
+    state.items = items;
+    this.itemHashes.set(state.target.id, hashes);
+    this.searchIndex.applyDelta(delta, state.target.id);
+    this.pendingDelta = mergeDeltas(this.pendingDelta, delta);
+  }
+
   private ensureWorkspaceState(target: WorkspaceTarget): WorkspaceState {
     const existing = this.workspaceState.get(target.id);
     if (existing) {
@@ -360,8 +474,10 @@ export class BeadsStore {
   }
 
   private notify(snapshot: BeadsStoreSnapshot): void {
+    const delta = this.pendingDelta;
+    this.pendingDelta = createEmptyDelta();
     for (const listener of this.listeners) {
-      listener(snapshot);
+      listener(snapshot, delta);
     }
   }
 
@@ -388,6 +504,10 @@ export class BeadsStore {
     if (config.commandPath) {
       clientOptions.commandPath = config.commandPath;
     }
+    const session = this.options.sessionProvider?.(target);
+    if (session) {
+      clientOptions.session = session;
+    }
     if (config.maxBufferBytes !== undefined) {
       clientOptions.maxBufferBytes = config.maxBufferBytes;
     } else if (policy.maxBufferBytes !== undefined) {
@@ -398,8 +518,15 @@ export class BeadsStore {
 
     const maxBuffer = config.maxBufferBytes ?? policy.maxBufferBytes;
     const { stdout } = await client.export(maxBuffer !== undefined ? { maxBufferBytes: maxBuffer } : {});
-    const beads = parseJsonLines(stdout);
-    const items = beads.map((entry, index) => normalizeBead(entry, index));
+    const previousLines = this.exportLineCache.get(target.id) ?? new Map<string, BeadItemData>();
+    const nextLines = new Map<string, BeadItemData>();
+    const items = splitJsonLines(stdout).map((line, index) => {
+      const item = previousLines.get(line) ?? normalizeBead(JSON.parse(line), index);
+      nextLines.set(line, item);
+      return item;
+    });
+    this.exportLineCache.set(target.id, nextLines);
+    const beads = items.map((item) => item.raw);
     items.sort(naturalSort);
     const dbPath = path.join(target.root, '.beads');
     const document: BeadsDocument = { filePath: dbPath, root: beads, beads, watchPaths: [dbPath] };
@@ -423,7 +550,7 @@ export class BeadsStore {
   }
 }
 
-function parseJsonLines(stdout: string): any[] {
+function splitJsonLines(stdout: string): string[] {
   if (!stdout || !stdout.trim()) {
     return [];
   }
@@ -431,6 +558,5 @@ function parseJsonLines(stdout: string): any[] {
   return stdout
     .trim()
     .split('\n')
-    .filter(Boolean)
-    .map((line) => JSON.parse(line));
+    .filter(Boolean);
 }
@@ -0,0 +1,204 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Advisory write lock shared by every window and agent using one `.beads` directory, including
+ * ones running in other worktrees. The lock is a JSON file created exclusively; its holder renews a
+ * lease while it works, and waiters break the lock once the lease has expired or the holding
+ * process on this machine is gone.
+ */
+export interface WriteLockHolder {
+  /** Who holds the lock, such as a worktree id; shown to waiters. */
+  owner: string;
+  pid: number;
+  host: string;
+  /** Identifies one acquisition, so a holder never releases a lock that was broken and re-taken. */
+  token: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export interface WriteLockOptions {
+  owner: string;
+  /** How long a lease lasts without renewal. */
+  leaseMs?: number;
+  /** How long `acquire` waits before giving up. */
+  timeoutMs?: number;
+  pollMs?: number;
+  /** Called when the lock is held by someone else, and again whenever the holder changes. */
+  onWait?: (holder: WriteLockHolder) => void;
+}
+
+export interface WriteLockLease {
+  readonly holder: WriteLockHolder;
+  release(): Promise<void>;
+}
+
+export const WRITE_LOCK_FILE = 'write.lock';
+export const DEFAULT_LOCK_LEASE_MS = 30000;
+export const DEFAULT_LOCK_TIMEOUT_MS = 60000;
+const DEFAULT_LOCK_POLL_MS = 200;
+
+/** Raised when the lock could not be acquired in time; carries the holder that kept it. */
+export class WriteLockTimeoutError extends Error {
+  readonly code = 'ELOCKTIMEOUT';
+
+  constructor(public readonly holder: WriteLockHolder | undefined, message = 'Timed out waiting for the beads write lock') {
+    super(message);
+    this.name = 'WriteLockTimeoutError';
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** A lock is stale once its lease expired, or sooner when its process on this host has exited. */
+export function isLockStale(
+  holder: WriteLockHolder,
+  now = Date.now(),
+  host = os.hostname(),
+  isAlive: (pid: number) => boolean = isProcessAlive
+): boolean {
+  if (holder.expiresAt <= now) {
+    return true;
+  }
+  return holder.host === host && holder.pid > 0 && !isAlive(holder.pid);
+}
+
+/**
+ * Read the current holder. A lock file that cannot be parsed (for example one caught mid-write)
+ * is reported as an unknown holder whose lease runs from the file's modification time.
+ */
+export async function readLockHolder(file: string, leaseMs = DEFAULT_LOCK_LEASE_MS): Promise<WriteLockHolder | undefined> {
+  let content: string;
+  let modifiedAt: number;
+  try {
+    [content, modifiedAt] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file).then((stats) => stats.mtimeMs)]);
+  } catch {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(content) as Partial<WriteLockHolder>;
+    if (typeof parsed.token === 'string' && typeof parsed.expiresAt === 'number') {
+      return {
+        owner: typeof parsed.owner === 'string' ? parsed.owner : 'unknown',
+        pid: typeof parsed.pid === 'number' ? parsed.pid : 0,
+        host: typeof parsed.host === 'string' ? parsed.host : '',
+        token: parsed.token,
+        acquiredAt: typeof parsed.acquiredAt === 'number' ? parsed.acquiredAt : modifiedAt,
+        expiresAt: parsed.expiresAt,
+      };
+    }
+  } catch {
+    // fall through to the unknown holder
+  }
+  return { owner: 'unknown', pid: 0, host: '', token: '', acquiredAt: modifiedAt, expiresAt: modifiedAt + leaseMs };
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class WriteLock {
+  constructor(readonly file: string, private readonly options: WriteLockOptions) {}
+
+  /** Wait for the lock, breaking stale ones, and hold it until the lease is released. */
+  async acquire(): Promise<WriteLockLease> {
+    const leaseMs = this.options.leaseMs ?? DEFAULT_LOCK_LEASE_MS;
+    const deadline = Date.now() + (this.options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS);
+    let reported: string | undefined;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    for (;;) {
+      const now = Date.now();
+      const holder: WriteLockHolder = {
+        owner: this.options.owner,
+        pid: process.pid,
+        host: os.hostname(),
+        token: randomUUID(),
+        acquiredAt: now,
+        expiresAt: now + leaseMs,
+      };
+      try {
+        await fs.writeFile(this.file, JSON.stringify(holder), { flag: 'wx' });
+        return this.hold(holder, leaseMs);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const current = await readLockHolder(this.file, leaseMs);
+      if (!current) {
+        continue;
+      }
+      if (isLockStale(current)) {
+        await this.breakLock(current);
+        continue;
+      }
+      const key = `${current.token}:${current.acquiredAt}`;
+      if (key !== reported) {
+        reported = key;
+        this.options.onWait?.(current);
+      }
+      if (Date.now() >= deadline) {
+        throw new WriteLockTimeoutError(current);
+      }
+      await delay(this.options.pollMs ?? DEFAULT_LOCK_POLL_MS);
+    }
+  }
+
+  /**
+   * Move a stale lock aside and delete it. When another waiter replaced the lock in the meantime,
+   * put the new one back instead.
+   */
+  private async breakLock(stale: WriteLockHolder): Promise<void> {
+    const aside = `${this.file}.${randomUUID()}.stale`;
+    try {
+      await fs.rename(this.file, aside);
+    } catch {
+      return;
+    }
+    const moved = await readLockHolder(aside);
+    if (moved && (moved.token !== stale.token || moved.acquiredAt !== stale.acquiredAt)) {
+      await fs.link(aside, this.file).catch(() => undefined);
+    }
+    await fs.unlink(aside).catch(() => undefined);
+  }
+
+  private hold(holder: WriteLockHolder, leaseMs: number): WriteLockLease {
+    let current = holder;
+    let released = false;
+    const renew = async () => {
+      const onDisk = await readLockHolder(this.file, leaseMs);
+      if (released || onDisk?.token !== holder.token) {
+        clearInterval(timer);
+        return;
+      }
+      current = { ...current, expiresAt: Date.now() + leaseMs };
+      await fs.writeFile(this.file, JSON.stringify(current)).catch(() => undefined);
+    };
+    const timer = setInterval(() => void renew(), Math.max(1000, Math.floor(leaseMs / 3)));
+    timer.unref?.();
+
+    return {
+      get holder() {
+        return current;
+      },
+      release: async () => {
+        released = true;
+        clearInterval(timer);
+        const onDisk = await readLockHolder(this.file, leaseMs);
+        if (onDisk?.token === holder.token) {
+          await fs.unlink(this.file).catch(() => undefined);
+        }
+      },
+    };
+  }
+}
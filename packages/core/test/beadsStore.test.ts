@@ -0,0 +1,55 @@
+import assert from 'node:assert';
+import { test } from 'node:test';
+import { normalizeBead } from '../src/beads';
+import { BeadsStore, BeadsStoreDelta, diffBeadItems, mergeDeltas } from '../src/store/beadsStore';
+
+const bead = (id: string, extra: Record<string, unknown> = {}) => normalizeBead({ id, title: id, ...extra });
+
+test('diffBeadItems reports added, changed, and removed beads and keeps unchanged instances', () => {
+  const previous = [bead('bd-1'), bead('bd-2', { updated_at: '2024-01-01' }), bead('bd-3')];
+  const next = [bead('bd-1'), bead('bd-2', { updated_at: '2024-01-02' }), bead('bd-4')];
+
+  const { items, delta } = diffBeadItems(previous, next);
+
+  assert.strictEqual(items[0], previous[0], 'unchanged bead should keep identity');
+  assert.deepStrictEqual(delta.added.map((b) => b.id), ['bd-4']);
+  assert.deepStrictEqual(delta.changed.map((b) => b.id), ['bd-2']);
+  assert.deepStrictEqual(delta.removed.map((b) => b.id), ['bd-3']);
+});
+
+test('diffBeadItems detects content edits without an updated_at bump', () => {
+  const { delta } = diffBeadItems([bead('bd-1', { status: 'open' })], [bead('bd-1', { status: 'closed' })]);
+  assert.deepStrictEqual(delta.changed.map((b) => b.id), ['bd-1']);
+});
+
+test('mergeDeltas folds remove-then-add into a change', () => {
+  const merged = mergeDeltas(
+    { added: [], changed: [], removed: [bead('bd-1')] },
+    { added: [bead('bd-1')], changed: [], removed: [] }
+  );
+  assert.deepStrictEqual(merged.changed.map((b) => b.id), ['bd-1']);
+  assert.strictEqual(merged.added.length, 0);
+  assert.strictEqual(merged.removed.length, 0);
+});
+
+test('BeadsStore emits an empty delta when a refresh changes nothing', async () => {
+  let beads = [{ id: 'bd-1', title: 'One' }];
+  const store = new BeadsStore({
+    loader: async () => ({
+      items: beads.map((entry) => normalizeBead(entry)),
+      document: { filePath: '/repo/.beads', root: beads, beads },
+    }),
+  });
+  const deltas: BeadsStoreDelta[] = [];
+  store.onDidChange((_snapshot, delta) => deltas.push(delta));
+  const target = { id: 'ws', root: '/repo' };
+
+  await store.refresh([target]);
+  await store.refresh([target]);
+  beads = [{ id: 'bd-1', title: 'Renamed' }];
+  await store.refresh([target]);
+
+  const nonEmpty = deltas.filter((d) => d.added.length + d.changed.length + d.removed.length > 0);
+  assert.deepStrictEqual(nonEmpty.map((d) => [d.added.length, d.changed.length, d.removed.length]), [[1, 0, 0], [0, 1, 0]]);
+  store.dispose();
+});
@@ -0,0 +1,221 @@
+import assert from 'node:assert';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { test } from 'node:test';
+import { BdCliClient } from '../src/cliClient';
+import { BdCliSession, BdCliSessionPool } from '../src/cliSession';
+
+function createFakeChild(onRequest: (request: { id: number; args: string[] }, reply: (payload: object) => void) => void) {
+  const child = new EventEmitter() as any;
+  child.stdin = new PassThrough();
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.kill = () => child.emit('exit', null, 'SIGTERM');
+  let buffered = '';
+  child.stdin.on('data', (chunk: Buffer) => {
+    buffered += chunk.toString();
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines.filter(Boolean)) {
+      onRequest(JSON.parse(line), (payload) => child.stdout.write(`${JSON.stringify(payload)}\n`));
+    }
+  });
+  return child;
+}
+
+test('BdCliSession multiplexes requests over one process', async () => {
+  let spawnCount = 0;
+  const replies: Array<() => void> = [];
+  const session = new BdCliSession({
+    commandPath: 'bd',
+    spawnImplementation: () => {
+      spawnCount += 1;
+      return createFakeChild((request, reply) => {
+        replies.push(() => reply({ id: request.id, stdout: request.args.join(' '), stderr: '', exitCode: 0 }));
+        if (replies.length === 2) {
+          // Answer out of order to prove responses are matched by id.
+          replies.reverse().forEach((send) => send());
+        }
+      });
+    },
+  });
+
+  const [first, second] = await Promise.all([session.exec(['list']), session.exec(['show', 'bd-1'])]);
+  assert.strictEqual(first.stdout, 'list');
+  assert.strictEqual(second.stdout, 'show bd-1');
+  assert.strictEqual(spawnCount, 1);
+  session.dispose();
+});
+
+test('BdCliClient falls back to one-shot exec when the session dies', async () => {
+  const session = new BdCliSession({
+    commandPath: 'bd',
+    spawnImplementation: () => {
+      const child = createFakeChild(() => undefined);
+      setImmediate(() => child.emit('exit', 1, null));
+      return child;
+    },
+  });
+  const oneShotCalls: string[][] = [];
+  const client = new BdCliClient({
+    session,
+    policy: { retryCount: 0, retryBackoffMs: 0 },
+    execImplementation: async (_command, args) => {
+      oneShotCalls.push(args);
+      return { stdout: 'fallback', stderr: '' };
+    },
+  });
+
+  const result = await client.run(['list']);
+  assert.strictEqual(result.stdout, 'fallback');
+  assert.deepStrictEqual(oneShotCalls, [['--no-daemon', 'list']]);
+  assert.strictEqual(session.isAlive, false);
+});
+
+test('BdCliSessionPool keeps unsupported sessions dead instead of respawning', () => {
+  let created = 0;
+  const pool = new BdCliSessionPool(() => {
+    created += 1;
+    const session = new BdCliSession({ commandPath: 'bd' });
+    session.dispose();
+    return session;
+  });
+
+  pool.get('/repo');
+  pool.get('/repo');
+  assert.strictEqual(created, 1);
+  pool.disposeAll();
+});
+
+test('BdCliSession does not retry a request that timed out', async () => {
+  let requests = 0;
+  const session = new BdCliSession({
+    commandPath: 'bd',
+    spawnImplementation: () =>
+      createFakeChild((request, reply) => {
+        requests += 1;
+        // Answer the first request only, so the server is known to speak the protocol.
+        if (requests === 1) {
+          reply({ id: request.id, stdout: '', stderr: '', exitCode: 0 });
+        }
+      }),
+  });
+  const client = new BdCliClient({
+    session,
+    policy: { timeoutMs: 20, retryCount: 2, retryBackoffMs: 0 },
+    execImplementation: async () => {
+      throw new Error('one-shot exec should not run');
+    },
+  });
+
+  await client.run(['list']);
+  await assert.rejects(client.run(['create', 'Task']), (error: any) => error.kind === 'timeout');
+  assert.strictEqual(requests, 2);
+  assert.strictEqual(session.isAlive, true);
+  session.dispose();
+});
+
+test('BdCliSession retires a server that never answers and runs the request one-shot', async () => {
+  let requests = 0;
+  let killed = false;
+  let created = 0;
+  const pool = new BdCliSessionPool(
+    () => {
+      created += 1;
+      return new BdCliSession({
+        commandPath: 'bd',
+        spawnImplementation: () => {
+          // Reads stdin but never replies, like a bd without `serve --stdio` that waits for input.
+          const child = createFakeChild(() => {
+            requests += 1;
+          });
+          child.kill = () => {
+            killed = true;
+            child.emit('exit', null, 'SIGTERM');
+          };
+          return child;
+        },
+      });
+    }
+  );
+  const session = pool.get('/repo');
+  const oneShotCalls: string[][] = [];
+  const client = new BdCliClient({
+    session,
+    policy: { timeoutMs: 20, retryCount: 0, retryBackoffMs: 0 },
+    execImplementation: async (_command, args) => {
+      oneShotCalls.push(args);
+      return { stdout: 'fallback', stderr: '' };
+    },
+  });
+
+  assert.strictEqual((await client.run(['create', 'Task'])).stdout, 'fallback');
+  assert.strictEqual((await client.run(['list'])).stdout, 'fallback');
+  assert.strictEqual(requests, 1);
+  assert.strictEqual(killed, true);
+  assert.strictEqual(session.isAlive, false);
+  assert.deepStrictEqual(oneShotCalls, [['--no-daemon', 'create', 'Task'], ['--no-daemon', 'list']]);
+  assert.strictEqual(pool.get('/repo'), session);
+  assert.strictEqual(created, 1);
+  pool.disposeAll();
+});
+
+test('BdCliSession kills a server that stops answering so the pool replaces it', async () => {
+  let requests = 0;
+  const pool = new BdCliSessionPool(
+    () =>
+      new BdCliSession({
+        commandPath: 'bd',
+        spawnImplementation: () =>
+          createFakeChild((request, reply) => {
+            requests += 1;
+            if (requests === 1) {
+              reply({ id: request.id, stdout: '', stderr: '', exitCode: 0 });
+            }
+          }),
+      })
+  );
+  const session = pool.get('/repo');
+  await session.exec(['list']);
+  for (let attempt = 0; attempt < 3; attempt++) {
+    await assert.rejects(session.exec(['list'], { timeout: 10 }), (error: any) => error.code === 'ESESSIONTIMEOUT');
+  }
+  assert.strictEqual(session.isAlive, false);
+  assert.notStrictEqual(pool.get('/repo'), session);
+  pool.disposeAll();
+});
+
+test('BdCliSession runs requests for another cwd or env as one-shot processes and drains stderr', async () => {
+  let child: any;
+  const seen: string[][] = [];
+  const session = new BdCliSession({
+    commandPath: 'bd',
+    cwd: '/repo',
+    spawnImplementation: () => {
+      child = createFakeChild((request, reply) => {
+        seen.push(request.args);
+        child.stderr.write('warming up\n');
+        reply({ id: request.id, stdout: 'session', stderr: '', exitCode: 0 });
+      });
+      return child;
+    },
+  });
+  const oneShot: string[] = [];
+  const client = new BdCliClient({
+    session,
+    policy: { retryCount: 0, retryBackoffMs: 0 },
+    execImplementation: async (_command, _args, options) => {
+      oneShot.push(options.cwd ?? '');
+      return { stdout: 'one-shot', stderr: '' };
+    },
+  });
+
+  assert.strictEqual((await client.run(['list'], { cwd: '/repo/' })).stdout, 'session');
+  assert.strictEqual((await client.run(['list'], { cwd: '/elsewhere' })).stdout, 'one-shot');
+  assert.strictEqual((await client.run(['list'], { cwd: '/repo', env: { BD_ACTOR: 'ada' } })).stdout, 'one-shot');
+  assert.deepStrictEqual(oneShot, ['/elsewhere', '/repo']);
+  assert.strictEqual(seen.length, 1);
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.strictEqual(session.stderr, 'warming up\n');
+  session.dispose();
+});
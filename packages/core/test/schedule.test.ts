@@ -0,0 +1,61 @@
+import assert from 'node:assert';
+import { test } from 'node:test';
+import { BeadItemData } from '../src/beads';
+import { analyzeSchedule, computeReadySet, topologicalOrder } from '../src/schedule';
+
+function bead(id: string, status: string, raw: Record<string, unknown> = {}): BeadItemData {
+  return { id, title: id, status, raw: { id, status, ...raw } };
+}
+
+const blocks = (id: string) => ({ depends_on_id: id, dep_type: 'blocks' });
+const childOf = (id: string) => ({ depends_on_id: id, dep_type: 'parent-child' });
+
+// epic E has children A, B, C; A blocks B; D (closed) blocks C.
+const items: BeadItemData[] = [
+  bead('E', 'open', { priority: 1 }),
+  bead('B', 'open', { estimated_minutes: 120, dependencies: [childOf('E'), blocks('A')] }),
+  bead('A', 'in_progress', { estimated_minutes: 30, dependencies: [childOf('E')] }),
+  bead('C', 'open', { estimated_minutes: 60, priority: 0, dependencies: [childOf('E'), blocks('D')] }),
+  bead('D', 'closed'),
+];
+
+test('topologicalOrder puts prerequisites first and reports cycles', () => {
+  const { order, cyclic } = topologicalOrder(items);
+  assert.deepStrictEqual(order, ['A', 'C', 'B', 'E']);
+  assert.deepStrictEqual(cyclic, []);
+
+  const loop = topologicalOrder([
+    bead('X', 'open', { dependencies: [blocks('Y')] }),
+    bead('Y', 'open', { dependencies: [blocks('X')] }),
+    bead('Z', 'open'),
+  ]);
+  assert.deepStrictEqual(loop, { order: ['Z'], cyclic: ['X', 'Y'] });
+});
+
+test('analyzeSchedule finds the longest chain and per-bead slack', () => {
+  const analysis = analyzeSchedule(items, { targetId: 'E' });
+  assert.deepStrictEqual(analysis.criticalPath, ['A', 'B', 'E']);
+  assert.strictEqual(analysis.totalDuration, 30 + 120 + 60);
+  assert.strictEqual(analysis.nodes.get('C')?.slack, 90);
+  assert.strictEqual(analysis.nodes.get('B')?.slack, 0);
+  assert.strictEqual(analysis.nodes.has('D'), false);
+});
+
+test('analyzeSchedule can weight by priority', () => {
+  const analysis = analyzeSchedule(items, { weight: 'priority' });
+  // Priority weights: E=4, B=3, A=3, C=5; C→E (9) loses to A→B→E (10).
+  assert.deepStrictEqual(analysis.criticalPath, ['A', 'B', 'E']);
+  assert.strictEqual(analysis.totalDuration, 10);
+  assert.strictEqual(analysis.nodes.get('C')?.slack, 1);
+  assert.deepStrictEqual(analyzeSchedule(items, { targetId: 'D' }).criticalPath, []);
+});
+
+test('computeReadySet matches bd ready semantics', () => {
+  const ready = computeReadySet([
+    ...items,
+    bead('F', 'open', { priority: 3, dependencies: [childOf('B')] }),
+    bead('G', 'blocked'),
+  ]);
+  // B waits on A; F inherits B's block through its parent; closed and blocked beads never show.
+  assert.deepStrictEqual(ready.map((item) => item.id), ['C', 'E', 'A']);
+});
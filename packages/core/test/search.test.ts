@@ -0,0 +1,94 @@
+import assert from 'node:assert';
+import { test } from 'node:test';
+import { normalizeBead } from '../src/beads';
+import { BeadSearchIndex, getSearchSuggestions, parseSearchQuery, searchBeads, searchIndexKey } from '../src/search';
+import { BeadsStore } from '../src/store/beadsStore';
+
+const DAY = 86_400_000;
+const NOW = Date.parse('2025-01-31T00:00:00Z');
+
+const items = [
+  normalizeBead({ id: 'bd-1', title: 'Fix login button', status: 'open', priority: 1, issue_type: 'bug', labels: ['ui'], assignee: 'sam', updated_at: new Date(NOW - DAY).toISOString() }),
+  normalizeBead({ id: 'bd-2', title: 'Write docs', description: 'Mention the login button flow', status: 'open', priority: 3, labels: ['ui', 'wontfix'], updated_at: new Date(NOW - 20 * DAY).toISOString() }),
+  normalizeBead({ id: 'bd-3', title: 'Refactor store', status: 'closed', priority: 0, issue_type: 'bug', assignee: 'alex', updated_at: new Date(NOW - 2 * DAY).toISOString() }),
+];
+
+const ids = (query: string, options = {}) => searchBeads(items, query, { now: NOW, ...options }).map((r) => r.item.id);
+
+test('parseSearchQuery splits fields, negation, comparators, and phrases', () => {
+  const { clauses, errors } = parseSearchQuery('status:open -label:wontfix priority:<2 "login button" http://x priority:high');
+
+  assert.deepStrictEqual(
+    clauses.map((c) => [c.field, c.value, c.negate, c.comparator, c.phrase]),
+    [
+      ['status', 'open', false, '=', false],
+      ['label', 'wontfix', true, '=', false],
+      ['priority', '2', false, '<', false],
+      [undefined, 'login button', false, '=', true],
+      [undefined, 'http://x', false, '=', false],
+    ]
+  );
+  assert.deepStrictEqual(errors, ['invalid priority: high']);
+});
+
+test('structured filters combine with free text', () => {
+  assert.deepStrictEqual(ids('status:open label:ui -label:wontfix'), ['bd-1']);
+  assert.deepStrictEqual(ids('type:bug priority:<=1').sort(), ['bd-1', 'bd-3']);
+  assert.deepStrictEqual(ids('assignee:@me', { currentUser: 'Alex' }), ['bd-3']);
+  assert.deepStrictEqual(ids('assignee:none'), ['bd-2']);
+  assert.deepStrictEqual(ids('updated:>7d'), ['bd-2']);
+  assert.deepStrictEqual(ids('updated:<7d -status:closed'), ['bd-1']);
+});
+
+test('free text ranks title hits above description hits, with or without an index', () => {
+  assert.deepStrictEqual(ids('"login button"'), ['bd-1', 'bd-2']);
+
+  const index = new BeadSearchIndex();
+  index.rebuild(items);
+  assert.deepStrictEqual(ids('login', { index }), ['bd-1', 'bd-2']);
+  assert.deepStrictEqual(ids('ogi', { index }), ['bd-1', 'bd-2'], 'substrings of tokens still match');
+  assert.deepStrictEqual(ids('nothing-here', { index }), []);
+});
+
+test('index follows deltas and feeds value suggestions', () => {
+  const index = new BeadSearchIndex();
+  index.rebuild(items);
+  const renamed = normalizeBead({ id: 'bd-1', title: 'Fix logout', labels: ['api'] });
+  index.applyDelta({ added: [], changed: [renamed], removed: [items[2]!] });
+
+  assert.deepStrictEqual(Array.from(index.candidates('login') ?? []), ['bd-2']);
+  assert.deepStrictEqual(index.valuesFor('label'), ['api', 'ui', 'wontfix']);
+  assert.deepStrictEqual(getSearchSuggestions('bug la', { index }).map((s) => s.value), ['bug label:']);
+  assert.deepStrictEqual(getSearchSuggestions('-label:w', { index }).map((s) => s.value), ['-label:wontfix ']);
+  assert.deepStrictEqual(getSearchSuggestions('status:', { statuses: ['open', 'closed'] }).map((s) => s.label), ['status:open', 'status:closed']);
+});
+
+test('index keys beads by workspace and finds long and removed substrings', () => {
+  const index = new BeadSearchIndex();
+  const other = normalizeBead({ id: 'bd-1', title: 'Internationalization rollout' });
+  index.rebuild(items, 'a');
+  index.add(other, 'b');
+
+  assert.strictEqual(index.size, 4);
+  assert.deepStrictEqual(Array.from(index.candidates('login') ?? []).sort(), [searchIndexKey('bd-1', 'a'), searchIndexKey('bd-2', 'a')]);
+  assert.deepStrictEqual(Array.from(index.candidates('nationalizat') ?? []), [searchIndexKey('bd-1', 'b')]);
+  assert.deepStrictEqual(Array.from(index.candidates('ternationalization') ?? []), [searchIndexKey('bd-1', 'b')]);
+  assert.deepStrictEqual(searchBeads([...items, other], 'rollout', { index }).map((r) => r.item), [other]);
+
+  index.remove('bd-1', 'a');
+  assert.deepStrictEqual(Array.from(index.candidates('button') ?? []), [searchIndexKey('bd-2', 'a')]);
+  assert.deepStrictEqual(Array.from(index.candidates('rollout') ?? []), [searchIndexKey('bd-1', 'b')]);
+});
+
+test('BeadsStore keeps its search index in sync with refreshes', async () => {
+  let loaded = items;
+  const store = new BeadsStore({ loader: async () => ({ items: loaded, document: { filePath: 'x', root: [], beads: [] } }) });
+  await store.refresh([{ id: 'ws', root: '/tmp/ws' }]);
+  assert.deepStrictEqual(store.search('login').map((r) => r.item.id), ['bd-1', 'bd-2']);
+
+  loaded = [items[2]!];
+  await store.refresh([{ id: 'ws', root: '/tmp/ws' }]);
+  assert.strictEqual(store.getSearchIndex().size, 1);
+  assert.deepStrictEqual(store.search('login'), []);
+  store.dispose();
+});
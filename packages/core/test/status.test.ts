@@ -0,0 +1,96 @@
+import assert from 'node:assert';
+import { afterEach, test } from 'node:test';
+import { normalizeBead } from '../src/beads';
+import {
+  countOpenBlockers,
+  formatStatusLabel,
+  getStatusSectionOrder,
+  normalizeStatus,
+  parseStatusWorkflow,
+  getStatusWorkflow,
+  setStatusWorkflow,
+  statusPriority,
+  useStatusWorkflow,
+  validateStatusChange,
+} from '../src/status';
+
+const teamWorkflow = {
+  statuses: ['open', 'in_progress', { id: 'review', label: 'In Review', category: 'active' }, { id: 'closed', category: 'done' }],
+  sectionOrder: ['review', 'in_progress'],
+  transitions: { open: ['in_progress'], in_progress: ['review', 'open'], review: ['closed', 'in_progress'] },
+  requireResolvedBlockers: ['closed'],
+};
+
+afterEach(() => setStatusWorkflow(undefined));
+
+test('parseStatusWorkflow keeps valid entries and reports bad ones', () => {
+  const { workflow, errors } = parseStatusWorkflow({
+    statuses: ['open', 'Bad Id', 'open', { id: 'qa', category: 'nope' }],
+    transitions: { open: ['qa', 'missing'] },
+  });
+
+  assert.deepStrictEqual(workflow?.statuses.map((s) => s.id), ['open', 'qa']);
+  assert.deepStrictEqual(workflow?.transitions, { open: ['qa'] });
+  assert.strictEqual(errors.length, 4);
+  assert.deepStrictEqual(parseStatusWorkflow({ statuses: [] }).workflow, undefined);
+});
+
+test('custom statuses drive normalization, labels, and ordering', () => {
+  setStatusWorkflow(parseStatusWorkflow(teamWorkflow).workflow);
+
+  assert.strictEqual(normalizeStatus(' Review '), 'review');
+  assert.strictEqual(normalizeStatus('blocked'), undefined);
+  assert.strictEqual(formatStatusLabel('review'), 'In Review');
+  assert.ok(statusPriority('review') < statusPriority('closed'));
+  assert.deepStrictEqual(getStatusSectionOrder(), ['review', 'in_progress', 'open', 'closed']);
+});
+
+test('validateStatusChange enforces transitions and open blockers', () => {
+  setStatusWorkflow(parseStatusWorkflow(teamWorkflow).workflow);
+
+  assert.strictEqual(validateStatusChange('open', 'in_progress').allowed, true);
+  assert.match(validateStatusChange('open', 'closed').reason ?? '', /does not allow/);
+  assert.strictEqual(validateStatusChange('review', 'closed', { openBlockers: 0 }).allowed, true);
+  assert.strictEqual(validateStatusChange('review', 'closed', { openBlockers: 1 }).reason, 'blocking dependencies are still open');
+});
+
+test('workflows are kept per project root and the active root decides', () => {
+  setStatusWorkflow(parseStatusWorkflow(teamWorkflow).workflow, '/repo/a');
+  try {
+    assert.strictEqual(normalizeStatus('review'), undefined);
+
+    useStatusWorkflow('/repo/a');
+    assert.strictEqual(normalizeStatus('review'), 'review');
+    assert.strictEqual(getStatusWorkflow('/repo/b').statuses.length, 4);
+    assert.strictEqual(getStatusWorkflow('/repo/b').statuses[2]?.id, 'blocked');
+
+    useStatusWorkflow('/repo/b');
+    assert.strictEqual(normalizeStatus('review'), undefined);
+  } finally {
+    setStatusWorkflow(undefined, '/repo/a');
+    useStatusWorkflow();
+  }
+});
+
+test('default workflow allows any transition between built-in statuses', () => {
+  assert.strictEqual(validateStatusChange('closed', 'open', { openBlockers: 3 }).allowed, true);
+  assert.strictEqual(validateStatusChange('open', 'review').allowed, false);
+});
+
+test('countOpenBlockers ignores non-blocking and done dependencies', () => {
+  const items = [
+    normalizeBead({ id: 'a', status: 'open' }),
+    normalizeBead({ id: 'b', status: 'closed' }),
+    normalizeBead({ id: 'c', status: 'in_progress' }),
+  ];
+  const item = normalizeBead({
+    id: 'x',
+    dependencies: [
+      { depends_on_id: 'a', dep_type: 'blocks' },
+      { depends_on_id: 'b', dep_type: 'blocks' },
+      { depends_on_id: 'c', dep_type: 'related' },
+    ],
+  });
+
+  assert.strictEqual(countOpenBlockers(item, items), 1);
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test } from 'node:test';
+import { WriteLock, WriteLockHolder, WriteLockTimeoutError, isLockStale, readLockHolder } from '../src/writeLock';
+
+async function tempLockFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'beads-lock-'));
+  return path.join(dir, '.beads', 'write.lock');
+}
+
+function holder(overrides: Partial<WriteLockHolder> = {}): WriteLockHolder {
+  return { owner: 'bob/beady-2', pid: 0, host: 'elsewhere', token: 'other', acquiredAt: Date.now(), expiresAt: Date.now() + 60000, ...overrides };
+}
+
+test('WriteLock records its owner and removes the file on release', async () => {
+  const file = await tempLockFile();
+  const lease = await new WriteLock(file, { owner: 'ada/beady-1' }).acquire();
+  const onDisk = await readLockHolder(file);
+  assert.strictEqual(onDisk?.owner, 'ada/beady-1');
+  assert.strictEqual(onDisk?.pid, process.pid);
+  assert.strictEqual(onDisk?.token, lease.holder.token);
+  await lease.release();
+  assert.strictEqual(await readLockHolder(file), undefined);
+});
+
+test('WriteLock waits for the holder and reports it', async () => {
+  const file = await tempLockFile();
+  const first = await new WriteLock(file, { owner: 'ada/beady-1' }).acquire();
+  const waitedOn: string[] = [];
+  const second = new WriteLock(file, { owner: 'bob/beady-2', pollMs: 10, onWait: (current) => waitedOn.push(current.owner) }).acquire();
+  setTimeout(() => void first.release(), 50);
+  const lease = await second;
+  assert.deepStrictEqual(waitedOn, ['ada/beady-1']);
+  assert.strictEqual((await readLockHolder(file))?.owner, 'bob/beady-2');
+  await lease.release();
+});
+
+test('WriteLock times out with the holder when the lock is not released', async () => {
+  const file = await tempLockFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(holder()));
+  await assert.rejects(
+    new WriteLock(file, { owner: 'ada/beady-1', timeoutMs: 30, pollMs: 10 }).acquire(),
+    (error: unknown) => error instanceof WriteLockTimeoutError && error.holder?.owner === 'bob/beady-2'
+  );
+});
+
+test('WriteLock breaks locks whose lease expired', async () => {
+  const file = await tempLockFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(holder({ expiresAt: Date.now() - 1 })));
+  const lease = await new WriteLock(file, { owner: 'ada/beady-1', timeoutMs: 100 }).acquire();
+  assert.strictEqual((await readLockHolder(file))?.owner, 'ada/beady-1');
+  await lease.release();
+});
+
+test('release leaves a lock that was broken and taken by someone else', async () => {
+  const file = await tempLockFile();
+  const lease = await new WriteLock(file, { owner: 'ada/beady-1' }).acquire();
+  await fs.writeFile(file, JSON.stringify(holder()));
+  await lease.release();
+  assert.strictEqual((await readLockHolder(file))?.owner, 'bob/beady-2');
+});
+
+test('isLockStale checks the lease and, on this host, the holding process', () => {
+  const now = 1000;
+  assert.strictEqual(isLockStale(holder({ expiresAt: now }), now, 'here', () => true), true);
+  assert.strictEqual(isLockStale(holder({ expiresAt: now + 1, host: 'here', pid: 7 }), now, 'here', () => false), true);
+  assert.strictEqual(isLockStale(holder({ expiresAt: now + 1, host: 'there', pid: 7 }), now, 'here', () => false), false);
+  assert.strictEqual(isLockStale(holder({ expiresAt: now + 1, host: 'here', pid: 7 }), now, 'here', () => true), false);
+});
+
+test('readLockHolder treats an unreadable lock as an unknown holder leased from its mtime', async () => {
+  const file = await tempLockFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, '');
+  const current = await readLockHolder(file, 5000);
+  assert.strictEqual(current?.owner, 'unknown');
+  assert.strictEqual(current ? current.expiresAt - current.acquiredAt : 0, 5000);
+});
@@ -30,6 +30,7 @@ const extensionOptions = {
 const webviewOptions = {
   entryPoints: {
     'views/issues': 'src/views/issues/index.tsx',
+    'views/board': 'src/views/board/index.tsx',
     'views/graph': 'src/views/graph/runtime.ts'
   },
   outdir: 'dist',
@@ -50,7 +51,14 @@ const webviewOptions = {
   logLevel: 'info' as const,
 };
 
+// sql.js loads its WebAssembly engine from next to the bundle at runtime
+async function copySqlWasm() {
+  await fs.promises.mkdir('dist', { recursive: true });
+  await fs.promises.copyFile('node_modules/sql.js/dist/sql-wasm.wasm', 'dist/sql-wasm.wasm');
+}
+
 async function run() {
+  await copySqlWasm();
   if (watch) {
     const ctxExt = await context(extensionOptions);
     const ctxView = await context(webviewOptions);
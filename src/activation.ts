@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
-import { BeadsTreeDataProvider } from './providers/beads/treeDataProvider';
+import { BeadsTreeDataProvider, getStatusLabels } from './providers/beads/treeDataProvider';
 import { WatcherManager } from './providers/beads/store';
 import { getWorkspaceOptions } from './utils/workspace';
 import { getBulkActionsConfig } from './utils/config';
 import { computeFeedbackEnablement } from './feedback/enablement';
 import { DependencyTreeProvider } from './dependencyTreeProvider';
 import { ActivityFeedTreeDataProvider } from './activityFeedProvider';
+import { notifyWatchedEvents } from './providers/activityFeed/notifications';
 import { BeadsWebviewProvider } from './providers/beads/webview';
 import { BeadItemData } from './utils';
 import { warnIfDependencyEditingUnsupported } from './services/runtimeEnvironment';
+import { TodoLinkProvider } from './providers/todos';
+import { BeadReferenceProvider } from './providers/beadReferences';
+import { FileAnchorsTreeProvider, SourceAnchorTracker } from './providers/anchors';
+import { BranchBeadStatus } from './providers/gitBranch';
+import { WorktreeTreeProvider } from './providers/worktrees';
+import { getMainRepoRoot, getWorktreeRoot } from './services/git';
+import { resolveProjectRoot } from './utils/workspace';
 import type {
   ActivityFeedRegistryResult,
   ConfigurationWatcher,
@@ -18,6 +26,8 @@ import type {
 export { registerCommands } from './activation/commands';
 
 const t = vscode.l10n.t;
+/** How often this window checks whether its worktree's registry entry is due for a heartbeat. */
+const WORKTREE_HEARTBEAT_MS = 15000;
 
 /**
  * Set up the main providers (Beads tree, dependency tree, webview, status bar).
@@ -93,7 +103,7 @@ export function setupProviders(
 export function setupActivityFeed(
   context: vscode.ExtensionContext,
   watchManager: WatcherManager,
-  _beadsProvider: BeadsTreeDataProvider,
+  beadsProvider: BeadsTreeDataProvider,
   options: { onDataRequested?: () => void; autoRefresh?: boolean } = {}
 ): ActivityFeedRegistryResult {
   const activityFeedProvider = new ActivityFeedTreeDataProvider(context, {
@@ -123,16 +133,161 @@ export function setupActivityFeed(
     }
   });
 
+  const activityFeedNotifications = activityFeedProvider.onDidFindNewEvents((events) => {
+    notifyWatchedEvents(context, events, {
+      items: beadsProvider.getItems(),
+      knownEvents: activityFeedProvider.getEvents(),
+    }).catch((error) => console.warn('Failed to show activity notifications:', error));
+  });
+
   context.subscriptions.push(
     { dispose: () => activityFeedProvider.dispose() },
     activityFeedView,
-    activityFeedStatus
+    activityFeedStatus,
+    activityFeedNotifications
   );
 
   return { activityFeedProvider, activityFeedView };
 }
 
 
+/**
+ * Register editor integrations: CodeLens and quick fixes on TODO comments, hover, links and
+ * completion for bead ids in any text document (including the SCM commit input), and source
+ * anchors with gutter markers and the "Issues in this File" view.
+ */
+export function setupEditorIntegrations(context: vscode.ExtensionContext, provider: BeadsTreeDataProvider): void {
+  const todoLinks = new TodoLinkProvider(() => provider.getItems());
+  const selector: vscode.DocumentSelector = [{ scheme: 'file' }, { scheme: 'untitled' }];
+  const beadReferences = new BeadReferenceProvider(() => provider.getItems(), getStatusLabels());
+  const referenceSelector: vscode.DocumentSelector = [...selector, { scheme: 'vscode-scm' }];
+  const anchors = new SourceAnchorTracker(
+    () => provider.getItems(),
+    (item, description) => provider.saveSourceAnchors(item, description),
+    context.extensionUri
+  );
+  const fileAnchors = new FileAnchorsTreeProvider(anchors);
+  context.subscriptions.push(
+    todoLinks,
+    vscode.languages.registerCodeLensProvider(selector, todoLinks),
+    vscode.languages.registerCodeActionsProvider(selector, todoLinks, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    }),
+    provider.onDidChangeTreeData(() => todoLinks.refresh()),
+    vscode.languages.registerHoverProvider(referenceSelector, beadReferences),
+    vscode.languages.registerDocumentLinkProvider(referenceSelector, beadReferences),
+    vscode.languages.registerCompletionItemProvider(referenceSelector, beadReferences, '-'),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('beady.todos')) {
+        todoLinks.refresh();
+      }
+      if (event.affectsConfiguration('beady.editor.anchorGutter')) {
+        anchors.refresh();
+      }
+    })
+  );
+
+  const fileAnchorsView = vscode.window.createTreeView('beadyFileIssues', { treeDataProvider: fileAnchors });
+  const updateFileAnchors = (): void => {
+    fileAnchors.refresh();
+    const editor = vscode.window.activeTextEditor;
+    fileAnchorsView.description = editor ? vscode.workspace.asRelativePath(editor.document.uri, false) : '';
+  };
+  context.subscriptions.push(
+    anchors,
+    fileAnchors,
+    fileAnchorsView,
+    provider.onDidChangeTreeData(() => anchors.sync()),
+    anchors.onDidChange(updateFileAnchors),
+    vscode.window.onDidChangeActiveTextEditor(updateFileAnchors),
+    vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => anchors.decorate(editor))),
+    vscode.workspace.onDidChangeTextDocument((event) => anchors.handleChange(event)),
+    vscode.workspace.onDidSaveTextDocument((document) => anchors.handleSave(document)),
+    vscode.workspace.onDidCloseTextDocument((document) => anchors.handleClose(document))
+  );
+  anchors.sync();
+}
+
+/**
+ * Show the bead for the checked-out branch in the status bar, refreshed when beads reload, HEAD
+ * moves, or the window regains focus (worktrees keep HEAD outside the project folder).
+ */
+export function setupGitIntegration(context: vscode.ExtensionContext, provider: BeadsTreeDataProvider): void {
+  const branchStatus = new BranchBeadStatus(() => provider.getItems());
+  const update = (): void => {
+    void branchStatus.update();
+  };
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (projectRoot) {
+    const headWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(projectRoot, '.git/HEAD'));
+    context.subscriptions.push(headWatcher, headWatcher.onDidChange(update), headWatcher.onDidCreate(update));
+  }
+  context.subscriptions.push(
+    branchStatus,
+    provider.onDidChangeTreeData(update),
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused) {
+        update();
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('beady.git') || event.affectsConfiguration('beady.projectRoot')) {
+        update();
+      }
+    })
+  );
+  update();
+}
+
+/**
+ * Register the "Worktrees" view. The registry lives in the main repository, so it is resolved
+ * through git (a linked worktree opened as the project still shows every worktree) and watched
+ * there; bead reloads refresh the in-flight beads under each entry. A heartbeat keeps this
+ * window's own worktree from being shown as stale.
+ */
+export function setupWorktreeView(context: vscode.ExtensionContext, provider: BeadsTreeDataProvider): void {
+  const worktrees = new WorktreeTreeProvider(() => provider.getItems());
+  const view = vscode.window.createTreeView('beadyWorktrees', { treeDataProvider: worktrees });
+  let registryWatcher: vscode.Disposable[] = [];
+  let request = 0;
+
+  const resolveRepoRoot = async (): Promise<void> => {
+    const current = ++request;
+    const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+    const repoRoot = projectRoot ? await getMainRepoRoot(projectRoot).catch(() => projectRoot) : undefined;
+    const worktreePath = projectRoot ? await getWorktreeRoot(projectRoot).catch(() => undefined) : undefined;
+    if (current !== request) {
+      return;
+    }
+    registryWatcher.forEach((disposable) => disposable.dispose());
+    registryWatcher = [];
+    if (repoRoot) {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(repoRoot, '.beads/worktrees.json'));
+      const refresh = (): void => worktrees.refresh();
+      registryWatcher = [watcher, watcher.onDidChange(refresh), watcher.onDidCreate(refresh), watcher.onDidDelete(refresh)];
+    }
+    worktrees.setRepoRoot(repoRoot, worktreePath);
+    worktrees.heartbeat();
+  };
+  const heartbeat = setInterval(() => worktrees.heartbeat(), WORKTREE_HEARTBEAT_MS);
+
+  context.subscriptions.push(
+    worktrees,
+    view,
+    { dispose: () => registryWatcher.forEach((disposable) => disposable.dispose()) },
+    { dispose: () => clearInterval(heartbeat) },
+    provider.onDidChangeTreeData(() => worktrees.refresh()),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('beady.projectRoot')) {
+        void resolveRepoRoot();
+      } else if (event.affectsConfiguration('beady.worktrees')) {
+        worktrees.refresh();
+      }
+    })
+  );
+  void resolveRepoRoot();
+}
+
 /**
  * Set up configuration and workspace watchers.
  */
@@ -160,6 +315,10 @@ export const setupConfigurationWatchers: ConfigurationWatcher = (context, provid
       void provider.refresh();
     }
 
+    if (event.affectsConfiguration('beady.workflow')) {
+      void provider.refresh();
+    }
+
     if (event.affectsConfiguration('beady.quickFilters')) {
       applyQuickFiltersContext(provider);
     }
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { ActivityEventItem } from '../activityFeedProvider';
 import { DependencyTreeProvider } from '../dependencyTreeProvider';
 import { BeadTreeItem } from '../providers/beads/items';
-import { BeadItemData } from '../utils';
+import { BeadItemData, MutationStep, buildDeleteStep } from '../utils';
 import { resolveProjectRoot } from '../utils/workspace';
 import { EventType } from '../activityFeed';
 import {
@@ -15,12 +15,21 @@ import {
   createFavoritesCommands,
   createInlineEditCommands,
   createQuickFilterCommands,
+  createSavedViewCommands,
+  createTodoCommands,
+  createAnchorCommands,
+  createGitCommands,
+  createWorktreeCommands,
+  createUndoCommands,
   selectWorkspace,
 } from '../commands';
 import { registerChatParticipants } from '../chatAgents';
 import { addDependencyCommand, removeDependencyCommand } from '../commands/dependencies';
 import { runBdCommand } from '../services/cliService';
 import { registerSendFeedbackCommand } from '../commands/sendFeedback';
+import { openBoardPanel } from '../views/panels/boardPanel';
+import { openInsightsPanel } from '../views/panels/insightsPanel';
+import { toggleDoNotDisturb } from '../providers/activityFeed/notifications';
 import type { CoreBeadsProvider } from '../commands';
 import type { ActivityFeedTreeDataProvider } from '../activityFeedProvider';
 import type { BeadsTreeDataProvider } from '../providers/beads/treeDataProvider';
@@ -133,7 +142,8 @@ function registerActivityFeedCommands(
   openBead: PanelOpeners['openBead'],
   openBeadFromFeed: PanelOpeners['openBeadFromFeed'],
   openActivityFeedPanel: any,
-  provider: BeadsTreeDataProvider
+  provider: BeadsTreeDataProvider,
+  context: vscode.ExtensionContext
 ): CommandDefinition[] {
   const openActivityFeedEvent = async (issueId?: string): Promise<void> => {
     const selectedId =
@@ -219,6 +229,10 @@ function registerActivityFeedCommands(
       id: 'beady.activityFeed.openSelected',
       handler: () => openActivityFeedEvent(),
     },
+    {
+      id: 'beady.activityFeed.toggleDoNotDisturb',
+      handler: () => toggleDoNotDisturb(context),
+    },
     {
       id: 'beady.openActivityFeedPanel',
       handler: () => {
@@ -231,6 +245,7 @@ function registerActivityFeedCommands(
 
 function registerPanelCommands(
   provider: BeadsTreeDataProvider,
+  context: vscode.ExtensionContext,
   openInProgressPanel: PanelOpeners['openInProgressPanel'],
   openBead: PanelOpeners['openBead']
 ): CommandDefinition[] {
@@ -246,6 +261,18 @@ function registerPanelCommands(
         });
       },
     },
+    {
+      id: 'beady.openBoard',
+      handler: () => openBoardPanel({
+        provider,
+        context,
+        openBead: (item: BeadItemData) => openBead(item, provider),
+      }),
+    },
+    {
+      id: 'beady.openInsights',
+      handler: () => openInsightsPanel({ provider }),
+    },
   ];
 }
 
@@ -327,9 +354,11 @@ function registerDeletionCommands(provider: BeadsTreeDataProvider, treeView: vsc
         const config = vscode.workspace.getConfiguration('beady');
         const projectRoot = resolveProjectRoot(config) || (vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd());
 
+        const deleted: MutationStep[] = [];
         try {
           for (const item of beadItems) {
             await runBdCommand(['delete', item.bead.id, '--force'], projectRoot!);
+            deleted.push(buildDeleteStep(item.bead));
           }
 
           await provider.refresh();
@@ -342,6 +371,9 @@ function registerDeletionCommands(provider: BeadsTreeDataProvider, treeView: vsc
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           void vscode.window.showErrorMessage(t('Failed to delete beads: {0}', errorMessage));
+        } finally {
+          // Deletes that did succeed stay restorable even if a later one failed.
+          provider.recordMutation(t('Delete {0} bead(s)', deleted.length), deleted);
         }
       },
     },
@@ -370,6 +402,8 @@ export const registerCommands: CommandRegistrar = (
     clearSearch: () => provider.clearSearch(),
     clearSortOrder: () => provider.clearSortOrder(),
     toggleClosedVisibility: () => Promise.resolve(provider.toggleClosedVisibility()),
+    getItems: () => provider.getItems(),
+    openBead: (item: BeadItemData) => openBead(item, provider),
   };
 
   const commandRegistry = new CommandRegistry();
@@ -380,11 +414,17 @@ export const registerCommands: CommandRegistrar = (
     ...createBulkCommands(provider, treeView, runBdCommand),
     ...createInlineEditCommands(provider as any, treeView, activityFeedView, runBdCommand),
     ...createQuickFilterCommands(provider),
+    ...createSavedViewCommands(provider, context),
+    ...createTodoCommands(provider, runBdCommand),
+    ...createAnchorCommands(provider),
+    ...createGitCommands(provider),
+    ...createWorktreeCommands(provider, runBdCommand),
     ...createExportCommands(provider, treeView),
     ...createFavoritesCommands(provider, treeView, context, runBdCommand),
+    ...createUndoCommands(provider, runBdCommand),
     ...registerDependencyTreeCommands({ provider, dependencyTreeProvider, pickBeadQuick, visualizeDependencies }),
-    ...registerActivityFeedCommands(activityFeedProvider, activityFeedView, openBead, openBeadFromFeed, openActivityFeedPanel, provider),
-    ...registerPanelCommands(provider, openInProgressPanel, openBead),
+    ...registerActivityFeedCommands(activityFeedProvider, activityFeedView, openBead, openBeadFromFeed, openActivityFeedPanel, provider, context),
+    ...registerPanelCommands(provider, context, openInProgressPanel, openBead),
     ...registerExternalReferenceCommands(provider),
     ...registerDeletionCommands(provider, treeView),
     {
@@ -3,16 +3,15 @@
  * 
  * Provides interfaces and data fetching for events from the beads SQLite database.
  * Supports event normalization, enrichment with issue titles, relative timestamps,
- * and pagination for large event histories.
+ * and pagination for large event histories. The database is read in-process through
+ * an EventSource, so no sqlite3 binary is required.
  */
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
 import { parseUtcDate } from './utils/format';
+import { SqlParams, SqliteReadError, getSqliteReader, loadSqlEngine } from './sqliteReader';
 
-const execFileAsync = promisify(execFile);
 const DEFAULT_QUERY_TIMEOUT_MS = 5000;
 
 export class ActivityFeedUnavailable extends Error {
@@ -70,6 +69,7 @@ export type EventType =
   | 'dependency_removed'
   | 'title_changed'
   | 'description_changed'
+  | 'updated'
   | 'priority_changed'
   | 'label_added'
   | 'label_removed'
@@ -128,6 +128,18 @@ export interface IssueInfo {
   status?: string;
 }
 
+/**
+ * Read access to the events and issues tables
+ */
+export interface EventSource {
+  /** Events matching the filters, newest first, honouring limit and offset */
+  listEvents(options: FetchEventsOptions): Promise<RawEventData[]>;
+  /** Number of events matching the filters, ignoring limit and offset */
+  countEvents(options: FetchEventsOptions): Promise<number>;
+  /** Titles and statuses for the given issue IDs */
+  getIssueInfo(issueIds: string[]): Promise<Map<string, IssueInfo>>;
+}
+
 /**
  * Normalize raw event type string to known EventType
  */
@@ -141,6 +153,7 @@ export function normalizeEventType(rawType: string): EventType {
     'dependency_removed': 'dependency_removed',
     'title_changed': 'title_changed',
     'description_changed': 'description_changed',
+    'updated': 'updated',
     'priority_changed': 'priority_changed',
     'label_added': 'label_added',
     'label_removed': 'label_removed',
@@ -180,6 +193,7 @@ export function getEventIcon(eventType: EventType): string {
     'dependency_removed': 'git-compare',
     'title_changed': 'edit',
     'description_changed': 'note',
+    'updated': 'edit',
     'priority_changed': 'flame',
     'label_added': 'tag',
     'label_removed': 'close',
@@ -204,6 +218,7 @@ export function getEventColor(eventType: EventType): string {
     'dependency_removed': 'event-purple',
     'title_changed': 'event-info',
     'description_changed': 'event-info',
+    'updated': 'event-info',
     'priority_changed': 'event-warning',
     'label_added': 'event-info',
     'label_removed': 'event-info',
@@ -266,6 +281,11 @@ export function generateEventDescription(
     case 'description_changed':
       return `Description updated on ${issueRef}${titlePart}`;
       
+    case 'updated': {
+      const fields = Object.keys(event.newValue ?? {}).filter((key) => key !== 'raw');
+      return `Updated ${fields.length > 0 ? fields.join(', ') : 'fields'} on ${issueRef}${titlePart}`;
+    }
+      
     case 'priority_changed': {
       const oldPriority = event.oldValue?.priority;
       const newPriority = event.newValue?.priority;
@@ -465,161 +485,157 @@ export function normalizeEvent(
 }
 
 /**
- * Fetch events from the SQLite database using sqlite3 command
+ * Build a parameterized WHERE clause for the event filters
  */
-export async function fetchEvents(
-  projectRoot: string,
-  options: FetchEventsOptions = {},
-  env: { timeoutMs?: number } = {}
-): Promise<FetchEventsResult> {
-  const {
-    limit = 50,
-    offset = 0,
-    eventTypes,
-    issueId,
-    actor,
-    afterDate,
-    beforeDate,
-  } = options;
+function buildEventFilter(options: FetchEventsOptions): { where: string; params: SqlParams } {
+  const clauses: string[] = [];
+  const params: SqlParams = [];
 
-  const dbPath = path.join(projectRoot, '.beads', 'beads.db');
-  const timeoutMs = env.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+  if (options.issueId) {
+    clauses.push('issue_id = ?');
+    params.push(options.issueId);
+  }
 
-  if (!fs.existsSync(dbPath)) {
-    throw new ActivityFeedUnavailable('Activity feed database not found', 'NO_DB');
+  if (options.actor) {
+    clauses.push('actor = ?');
+    params.push(options.actor);
   }
-  
-  // Build WHERE clauses
-  const whereClauses: string[] = [];
-  
-  if (issueId) {
-    whereClauses.push(`issue_id = '${escapeSql(issueId)}'`);
+
+  if (options.eventTypes && options.eventTypes.length > 0) {
+    clauses.push(`event_type IN (${options.eventTypes.map(() => '?').join(', ')})`);
+    params.push(...options.eventTypes);
   }
-  
-  if (actor) {
-    whereClauses.push(`actor = '${escapeSql(actor)}'`);
+
+  if (options.afterDate) {
+    clauses.push('created_at >= ?');
+    params.push(options.afterDate.toISOString());
   }
-  
-  if (eventTypes && eventTypes.length > 0) {
-    const typeList = eventTypes.map(t => `'${escapeSql(t)}'`).join(', ');
-    whereClauses.push(`event_type IN (${typeList})`);
+
+  if (options.beforeDate) {
+    clauses.push('created_at <= ?');
+    params.push(options.beforeDate.toISOString());
   }
-  
-  if (afterDate) {
-    whereClauses.push(`created_at >= '${afterDate.toISOString()}'`);
+
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+/**
+ * EventSource backed by the embedded SQLite reader for .beads/beads.db
+ */
+export class SqliteEventSource implements EventSource {
+  constructor(private readonly dbPath: string) {}
+
+  async listEvents(options: FetchEventsOptions): Promise<RawEventData[]> {
+    const { where, params } = buildEventFilter(options);
+    return getSqliteReader(this.dbPath).query<RawEventData>(
+      `SELECT id, issue_id, event_type, actor, old_value, new_value, comment, created_at
+       FROM events
+       ${where}
+       ORDER BY created_at DESC
+       LIMIT ? OFFSET ?`,
+      [...params, options.limit ?? 50, options.offset ?? 0]
+    );
   }
-  
-  if (beforeDate) {
-    whereClauses.push(`created_at <= '${beforeDate.toISOString()}'`);
+
+  async countEvents(options: FetchEventsOptions): Promise<number> {
+    const { where, params } = buildEventFilter(options);
+    const rows = await getSqliteReader(this.dbPath).query<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM events ${where}`,
+      params
+    );
+    return rows[0]?.count || 0;
   }
-  
-  const whereClause = whereClauses.length > 0 
-    ? `WHERE ${whereClauses.join(' AND ')}` 
-    : '';
-  
-  // Query for events
-  const eventsQuery = `
-    SELECT id, issue_id, event_type, actor, old_value, new_value, comment, created_at
-    FROM events
-    ${whereClause}
-    ORDER BY created_at DESC
-    LIMIT ${limit} OFFSET ${offset}
-  `;
-  
-  // Query for total count
-  const countQuery = `
-    SELECT COUNT(*) as count
-    FROM events
-    ${whereClause}
-  `;
-  
-  try {
-    // Ensure sqlite3 is available early
-    await execFileAsync('sqlite3', ['-version'], { timeout: timeoutMs });
-
-    // Execute events query
-    const { stdout: eventsOutput } = await execFileAsync('sqlite3', [
-      '-json',
-      dbPath,
-      eventsQuery
-    ], { timeout: timeoutMs });
-    
-    // Execute count query
-    const { stdout: countOutput } = await execFileAsync('sqlite3', [
-      '-json',
-      dbPath,
-      countQuery
-    ], { timeout: timeoutMs });
-    
-    const rawEvents: RawEventData[] = eventsOutput.trim() ? JSON.parse(eventsOutput) : [];
-    const countResult = countOutput.trim() ? JSON.parse(countOutput) : [{ count: 0 }];
-    const totalCount = countResult[0]?.count || 0;
-    
-    // Fetch issue info for enrichment
-    const issueIds = [...new Set(rawEvents.map(e => e.issue_id))];
-    const issueInfoMap = await fetchIssueInfo(projectRoot, issueIds);
-    
-    // Normalize events
-    const events = rawEvents.map(raw => normalizeEvent(raw, issueInfoMap));
-    
-    return {
-      events,
-      totalCount,
-      hasMore: offset + limit < totalCount,
-    };
-  } catch (error) {
-    const err: any = error;
-    if (err?.code === 'ENOENT') {
-      throw new ActivityFeedUnavailable('sqlite3 binary not found', 'NO_SQLITE');
-    }
-    if (err?.code === 'EACCES') {
-      throw new ActivityFeedUnavailable('Activity feed database is not readable (permissions)', 'NO_ACCESS');
+
+  async getIssueInfo(issueIds: string[]): Promise<Map<string, IssueInfo>> {
+    const map = new Map<string, IssueInfo>();
+    if (issueIds.length === 0) {
+      return map;
     }
-    const stderr = String(err?.stderr ?? err?.message ?? '');
-    if (/unable to open database file/i.test(stderr) || /no such file or directory/i.test(stderr)) {
-      throw new ActivityFeedUnavailable('Activity feed database not found', 'NO_DB');
+
+    try {
+      const issues = await getSqliteReader(this.dbPath).query<{ id: string; title: string; status: string }>(
+        `SELECT id, title, status FROM issues WHERE id IN (${issueIds.map(() => '?').join(', ')})`,
+        issueIds
+      );
+      for (const issue of issues) {
+        map.set(issue.id, {
+          id: issue.id,
+          title: issue.title,
+          status: issue.status,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch issue info:', error);
     }
-    throw error;
+    return map;
   }
 }
 
+function withTimeout<T>(work: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Activity feed query timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
 /**
- * Fetch issue info for a list of issue IDs
+ * Fetch events from the SQLite database through an EventSource
  */
-async function fetchIssueInfo(
+export async function fetchEvents(
   projectRoot: string,
-  issueIds: string[]
-): Promise<Map<string, IssueInfo>> {
-  if (issueIds.length === 0) {
-    return new Map();
-  }
-  
+  options: FetchEventsOptions = {},
+  env: { timeoutMs?: number; source?: EventSource } = {}
+): Promise<FetchEventsResult> {
+  const { limit = 50, offset = 0 } = options;
+
   const dbPath = path.join(projectRoot, '.beads', 'beads.db');
-  const idList = issueIds.map(id => `'${escapeSql(id)}'`).join(', ');
-  
-  const query = `
-    SELECT id, title, status
-    FROM issues
-    WHERE id IN (${idList})
-  `;
-  
-  try {
-    const { stdout } = await execFileAsync('sqlite3', ['-json', dbPath, query], { timeout: DEFAULT_QUERY_TIMEOUT_MS });
-    const issues: Array<{ id: string; title: string; status: string }> = 
-      stdout.trim() ? JSON.parse(stdout) : [];
-    
-    const map = new Map<string, IssueInfo>();
-    for (const issue of issues) {
-      map.set(issue.id, {
-        id: issue.id,
-        title: issue.title,
-        status: issue.status,
-      });
+  const timeoutMs = env.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+
+  if (!env.source && !fs.existsSync(dbPath)) {
+    throw new ActivityFeedUnavailable('Activity feed database not found', 'NO_DB');
+  }
+
+  const read = async (): Promise<FetchEventsResult> => {
+    let source = env.source;
+    if (!source) {
+      try {
+        await loadSqlEngine();
+      } catch (error) {
+        console.error('Failed to load the embedded SQLite engine:', error);
+        throw new ActivityFeedUnavailable('Embedded SQLite engine could not be loaded', 'NO_SQLITE');
+      }
+      source = new SqliteEventSource(dbPath);
     }
-    return map;
+
+    const [rawEvents, totalCount] = await Promise.all([
+      source.listEvents({ ...options, limit, offset }),
+      source.countEvents(options),
+    ]);
+
+    // Fetch issue info for enrichment
+    const issueIds = [...new Set(rawEvents.map(e => e.issue_id))];
+    const issueInfoMap = await source.getIssueInfo(issueIds);
+
+    return {
+      events: rawEvents.map(raw => normalizeEvent(raw, issueInfoMap)),
+      totalCount,
+      hasMore: offset + limit < totalCount,
+    };
+  };
+
+  try {
+    return await withTimeout(read(), timeoutMs);
   } catch (error) {
-    console.error('Failed to fetch issue info:', error);
-    return new Map();
+    if (error instanceof SqliteReadError) {
+      if (error.code === 'ENOENT') {
+        throw new ActivityFeedUnavailable('Activity feed database not found', 'NO_DB');
+      }
+      if (error.code === 'EACCES' || error.code === 'EPERM') {
+        throw new ActivityFeedUnavailable('Activity feed database is not readable (permissions)', 'NO_ACCESS');
+      }
+    }
+    throw error;
   }
 }
 
@@ -639,10 +655,3 @@ export function groupEventsByTime(events: EventData[]): Map<string, EventData[]>
   
   return groups;
 }
-
-/**
- * Escape SQL string to prevent injection
- */
-function escapeSql(str: string): string {
-  return str.replace(/'/g, "''");
-}
@@ -0,0 +1,131 @@
+/**
+ * Source anchor command handlers.
+ *
+ * - attachSelection: Link the editor selection to a bead as a `Source: path:start-end` line
+ * - revealAnchor: Open a bead's anchored file at its line range
+ */
+
+import * as vscode from 'vscode';
+import {
+  BeadItemData,
+  anchorFromSelection,
+  formatAnchorLines,
+  formatError,
+  getBeadDescription,
+  getSourceAnchors,
+  isDoneStatus,
+  isSameAnchor,
+  setSourceAnchors,
+} from '../utils';
+import { resolveProjectFile, resolveProjectRoot, toProjectRelativePath } from '../utils/workspace';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+/**
+ * Interface for providers that can store anchors on beads.
+ */
+export interface AnchorBeadsProvider {
+  getItems(): BeadItemData[];
+  /** Resolves to false when the update failed and the error was shown. */
+  updateDescription(item: BeadItemData, value: string): Promise<boolean>;
+}
+
+type BeadPick = vscode.QuickPickItem & { bead: BeadItemData };
+
+function noProjectRoot(): void {
+  void vscode.window.showErrorMessage(
+    t('Beady: No project root configured. Set "beady.projectRoot" or open a workspace folder.')
+  );
+}
+
+/**
+ * Link the active editor's selection (or cursor line) to a bead picked from the loaded beads.
+ */
+export async function attachSelection(provider: AnchorBeadsProvider): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== 'file') {
+    void vscode.window.showWarningMessage(t('Open a saved file and select the code to link first.'));
+    return;
+  }
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    noProjectRoot();
+    return;
+  }
+
+  const { start, end } = editor.selection;
+  const anchor = anchorFromSelection(toProjectRelativePath(editor.document.uri, projectRoot), start.line, end.line, end.character);
+  const location = `${anchor.path}:${formatAnchorLines(anchor)}`;
+  const picks: BeadPick[] = provider
+    .getItems()
+    .slice()
+    .sort((a, b) => Number(isDoneStatus(a.status)) - Number(isDoneStatus(b.status)) || a.id.localeCompare(b.id))
+    .map((bead) => ({ label: bead.title, description: `${bead.id} · ${bead.status ?? 'open'}`, bead }));
+  if (picks.length === 0) {
+    void vscode.window.showInformationMessage(t('No beads are loaded yet.'));
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(picks, {
+    placeHolder: t('Link {0} to which bead?', location),
+    matchOnDescription: true,
+  });
+  if (!pick) {
+    return;
+  }
+
+  const anchors = getSourceAnchors(pick.bead);
+  if (anchors.some((existing) => isSameAnchor(existing, anchor))) {
+    void vscode.window.showInformationMessage(t('{0} is already linked to {1}.', location, pick.bead.id));
+    return;
+  }
+  if (await provider.updateDescription(pick.bead, setSourceAnchors(getBeadDescription(pick.bead), [...anchors, anchor]))) {
+    void vscode.window.showInformationMessage(t('Linked {0} to {1}.', location, pick.bead.id));
+  }
+}
+
+/**
+ * Open a project file and select the anchored lines.
+ */
+export async function revealAnchor(filePath: string, startLine: number, endLine = startLine): Promise<void> {
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    noProjectRoot();
+    return;
+  }
+  try {
+    const document = await vscode.workspace.openTextDocument(resolveProjectFile(filePath, projectRoot));
+    const lastLine = Math.max(0, document.lineCount - 1);
+    const first = Math.min(Math.max(0, startLine - 1), lastLine);
+    const last = Math.min(Math.max(first, endLine - 1), lastLine);
+    const range = new vscode.Range(first, 0, last, document.lineAt(last).text.length);
+    await vscode.window.showTextDocument(document, { selection: range });
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to open {0}', filePath), error));
+  }
+}
+
+/**
+ * Create source anchor command definitions with bound dependencies.
+ */
+export function createAnchorCommands(provider: AnchorBeadsProvider): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.attachSelection',
+      handler: () => attachSelection(provider),
+      description: 'Link the editor selection to a bead',
+    },
+    {
+      id: 'beady.revealAnchor',
+      handler: (...args: unknown[]) => {
+        const [filePath, startLine, endLine] = args;
+        if (typeof filePath !== 'string' || typeof startLine !== 'number') {
+          return undefined;
+        }
+        return revealAnchor(filePath, startLine, typeof endLine === 'number' ? endLine : startLine);
+      },
+      description: 'Open the code a bead is anchored to',
+    },
+  ];
+}
@@ -7,21 +7,43 @@
  * - clearSearch: Clear active search filter
  * - clearSortOrder: Reset to default sort order
  * - toggleClosedVisibility: Show/hide closed beads
- * - createBead: Create a new bead with a title
+ * - createBead: Create a new bead through a step-by-step form
+ * - createFromTemplate: Create a new bead from a `.beads/templates/` template
  * - selectWorkspace: Select active workspace in multi-root
  */
 
 import * as vscode from 'vscode';
-import { formatError } from '../utils';
+import {
+  BEAD_TYPES,
+  BeadDraft,
+  BeadDraftValidation,
+  BeadItemData,
+  BeadTemplate,
+  TemplateValues,
+  applyBeadTemplate,
+  buildCreateBeadArgs,
+  formatError,
+  isDoneStatus,
+  parseCreatedBeadId,
+  parseLabelList,
+  resolveSearchUser,
+  validateAssigneeInput,
+  validateBeadDraft,
+  validateLabelInput,
+  validateTitleInput,
+} from '../utils';
+import { getIssueTypeIcon, getPriorityIcon, getStatusIcon } from '../views/shared/icons';
 import { resolveProjectRoot } from '../utils/workspace';
+import { TEMPLATES_DIR, loadBeadTemplates } from '../services/templates';
+import { runWithTextFiles } from '../services/textFile';
 import { CommandDefinition } from './registry';
 
 const t = vscode.l10n.t;
 
 /**
- * Type for a function that runs bd CLI commands.
+ * Type for a function that runs bd CLI commands. Runners that capture output resolve to bd's stdout.
  */
-export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<void>;
+export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
 
 /**
  * Interface for provider with core bead operations.
@@ -32,21 +54,257 @@ export interface CoreBeadsProvider {
   clearSearch(): void;
   clearSortOrder(): void;
   toggleClosedVisibility(): Promise<void>;
+  getItems(): BeadItemData[];
+  openBead(item: BeadItemData): Promise<void>;
+}
+
+const PRIORITY_LABELS = [t('Highest'), t('High'), t('Medium'), t('Low'), t('Lowest')];
+const TOTAL_STEPS = 8;
+
+function stepTitle(step: number): string {
+  return t('Create Bead ({0}/{1})', step, TOTAL_STEPS);
+}
+
+function inputMessage(field: 'title' | 'label' | 'assignee', reason?: string): string {
+  switch (reason) {
+    case 'empty':
+      return field === 'title' ? t('Title cannot be empty.') : t('Label cannot be empty.');
+    case 'too_long':
+      return field === 'title'
+        ? t('Title must be 1-{0} characters without new lines.', 256)
+        : field === 'label'
+          ? t('Label must be 1-{0} characters.', 64)
+          : t('Assignee must be 0-{0} characters.', 64);
+    case 'invalid_characters':
+      return t('The {0} contains unsupported characters.', field);
+    default:
+      return t('Invalid {0} value.', field);
+  }
+}
+
+function beadPick(item: BeadItemData): vscode.QuickPickItem & { id: string } {
+  return {
+    label: `$(${getStatusIcon(item.status)}) ${item.id}`,
+    description: item.title,
+    id: item.id,
+  };
+}
+
+/** Move the pre-selected option (e.g. from a template) to the top of the list. */
+function presetFirst<T>(picks: T[], isPreset: (pick: T) => boolean): T[] {
+  return [...picks.filter(isPreset), ...picks.filter((pick) => !isPreset(pick))];
 }
 
 /**
- * Create a new bead with user-provided title.
+ * Walk the user through title, type, priority, description, assignee, labels, parent epic and
+ * blocking dependencies, starting from `initial` when a template was chosen. Returns undefined
+ * when any step is cancelled.
  */
-export async function createBead(runCommand: RunBdCommandFn): Promise<void> {
-  const name = await vscode.window.showInputBox({
+async function collectBeadDraft(items: BeadItemData[], initial?: BeadDraft): Promise<BeadDraft | undefined> {
+  const title = await vscode.window.showInputBox({
+    title: stepTitle(1),
+    value: initial?.title ?? '',
     prompt: t('Enter a title for the new bead'),
     placeHolder: t('Implement feature X'),
+    validateInput: (value) => {
+      const result = validateTitleInput(value);
+      return result.valid ? undefined : inputMessage('title', result.reason);
+    },
   });
+  if (title === undefined) {
+    return undefined;
+  }
+  const draft: BeadDraft = { ...initial, title, labels: [], blockedBy: [] };
 
-  if (!name) {
-    return;
+  const typePick = await vscode.window.showQuickPick(
+    presetFirst(
+      BEAD_TYPES.map((type) => ({ label: `$(${getIssueTypeIcon(type)}) ${type}`, type })),
+      (pick) => pick.type === initial?.issueType
+    ),
+    { title: stepTitle(2), placeHolder: t('Issue type') }
+  );
+  if (!typePick) {
+    return undefined;
+  }
+  draft.issueType = typePick.type;
+
+  const priorityPicks = PRIORITY_LABELS.map((label, priority) => ({
+    label: `$(${getPriorityIcon(priority)}) P${priority}`,
+    description: label,
+    priority,
+  }));
+  const priorityPick = await vscode.window.showQuickPick(
+    presetFirst(priorityPicks, (pick) => pick.priority === initial?.priority),
+    { title: stepTitle(3), placeHolder: t('Priority') }
+  );
+  if (!priorityPick) {
+    return undefined;
+  }
+  draft.priority = priorityPick.priority;
+
+  // Template descriptions span several lines, which an input box would flatten; keep them as written.
+  if (!initial?.description) {
+    const description = await vscode.window.showInputBox({
+      title: stepTitle(4),
+      prompt: t('Description (optional)'),
+    });
+    if (description === undefined) {
+      return undefined;
+    }
+    draft.description = description;
+  }
+
+  const assignee = await vscode.window.showInputBox({
+    title: stepTitle(5),
+    prompt: t('Assignee (optional)'),
+    value: initial?.assignee ?? '',
+    validateInput: (value) => {
+      const result = validateAssigneeInput(value);
+      return result.valid ? undefined : inputMessage('assignee', result.reason);
+    },
+  });
+  if (assignee === undefined) {
+    return undefined;
+  }
+  draft.assignee = assignee;
+
+  const labels = await vscode.window.showInputBox({
+    title: stepTitle(6),
+    prompt: t('Labels, separated by commas (optional)'),
+    placeHolder: t('example: urgent, frontend'),
+    value: initial?.labels.join(', ') ?? '',
+    validateInput: (value) => {
+      for (const label of parseLabelList(value)) {
+        const result = validateLabelInput(label);
+        if (!result.valid) {
+          return inputMessage('label', result.reason);
+        }
+      }
+      return undefined;
+    },
+  });
+  if (labels === undefined) {
+    return undefined;
+  }
+  draft.labels = parseLabelList(labels);
+
+  const open = items.filter((item) => !isDoneStatus(item.status));
+  const epics = open.filter((item) => item.issueType === 'epic');
+  if (epics.length > 0) {
+    const none = { label: t('No parent epic'), id: '' };
+    const parentPick = await vscode.window.showQuickPick([none, ...epics.map(beadPick)], {
+      title: stepTitle(7),
+      placeHolder: t('Parent epic'),
+      matchOnDescription: true,
+    });
+    if (!parentPick) {
+      return undefined;
+    }
+    if (parentPick.id) {
+      draft.parentId = parentPick.id;
+    }
+  }
+
+  const candidates = open.filter((item) => item.id !== draft.parentId);
+  if (candidates.length > 0) {
+    const blockers = await vscode.window.showQuickPick(candidates.map(beadPick), {
+      title: stepTitle(8),
+      placeHolder: t('Issues that must finish first (optional)'),
+      canPickMany: true,
+      matchOnDescription: true,
+    });
+    if (!blockers) {
+      return undefined;
+    }
+    draft.blockedBy = blockers.map((pick) => pick.id);
+  }
+
+  return draft;
+}
+
+/**
+ * How the create flow treats repository templates: `offer` lists them next to a blank bead
+ * (skipped when there are none), `require` only lists templates.
+ */
+export type TemplateChoice = 'offer' | 'require';
+
+type TemplatePick = vscode.QuickPickItem & { template?: BeadTemplate };
+
+/** Returns undefined when cancelled, and an empty object for a blank bead. */
+async function chooseTemplate(projectRoot: string, mode: TemplateChoice): Promise<{ template?: BeadTemplate } | undefined> {
+  const { templates, errors } = await loadBeadTemplates(projectRoot);
+  if (errors.length > 0) {
+    void vscode.window.showWarningMessage(t('Some bead templates were ignored: {0}', errors.join('; ')));
+  }
+  if (templates.length === 0) {
+    if (mode === 'require') {
+      void vscode.window.showInformationMessage(t('No bead templates found. Add .md or .json files to {0}.', TEMPLATES_DIR));
+      return undefined;
+    }
+    return {};
+  }
+
+  const picks: TemplatePick[] = templates.map((template) => {
+    const pick: TemplatePick = { label: `$(${getIssueTypeIcon(template.issueType)}) ${template.name}`, template };
+    if (template.title) {
+      pick.description = template.title;
+    }
+    return pick;
+  });
+  if (mode === 'offer') {
+    picks.unshift({ label: t('$(add) Blank bead') }, { label: t('Templates'), kind: vscode.QuickPickItemKind.Separator });
+  }
+  const pick = await vscode.window.showQuickPick(picks, { placeHolder: t('Start from a template') });
+  if (!pick) {
+    return undefined;
+  }
+  return pick.template ? { template: pick.template } : {};
+}
+
+function showDraftProblem(validation: Extract<BeadDraftValidation, { ok: false }>): void {
+  void vscode.window.showWarningMessage(
+    validation.value
+      ? t('Cannot create bead: invalid {0} "{1}" ({2})', validation.field, validation.value, validation.reason)
+      : t('Cannot create bead: invalid {0} ({1})', validation.field, validation.reason)
+  );
+}
+
+/** Create one task per title under the new bead; returns the titles that failed. */
+async function createChildTasks(
+  runCommand: RunBdCommandFn,
+  provider: CoreBeadsProvider,
+  projectRoot: string,
+  parentId: string,
+  titles: string[]
+): Promise<string[]> {
+  const failed: string[] = [];
+  for (const title of titles) {
+    const validation = validateBeadDraft({ title, issueType: 'task', parentId, labels: [], blockedBy: [] }, provider.getItems());
+    if (!validation.ok) {
+      failed.push(title);
+      continue;
+    }
+    try {
+      await runCommand(buildCreateBeadArgs(validation.draft), projectRoot);
+    } catch (error) {
+      console.warn('[beads] Failed to create child task', formatError(title, error));
+      failed.push(title);
+    }
   }
+  await provider.refresh();
+  return failed;
+}
 
+/**
+ * Create a new bead from a step-by-step form, optionally pre-filled from a template in
+ * `.beads/templates/`. All fields and dependencies go into one `bd create` call, template
+ * child tasks follow under the bead bd reports it created, which then opens once it shows up in the tree.
+ */
+export async function createBead(
+  runCommand: RunBdCommandFn,
+  provider: CoreBeadsProvider,
+  templates: TemplateChoice = 'offer'
+): Promise<void> {
   const config = vscode.workspace.getConfiguration('beady');
   const projectRoot = resolveProjectRoot(config);
 
@@ -57,12 +315,56 @@ export async function createBead(runCommand: RunBdCommandFn): Promise<void> {
     return;
   }
 
+  const editor = vscode.window.activeTextEditor;
+  const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+  const choice = await chooseTemplate(projectRoot, templates);
+  if (!choice) {
+    return;
+  }
+  const values: TemplateValues = { selection };
+  const currentUser = resolveSearchUser();
+  if (currentUser) {
+    values.assignee = currentUser;
+  }
+  const applied = choice.template ? applyBeadTemplate(choice.template, values) : undefined;
+
+  const items = provider.getItems();
+  const collected = await collectBeadDraft(items, applied?.draft);
+  if (!collected) {
+    return;
+  }
+
+  const validation = validateBeadDraft(collected, items);
+  if (!validation.ok) {
+    showDraftProblem(validation);
+    return;
+  }
+  const draft = validation.draft;
+
+  let createdId: string | undefined;
   try {
-    await runCommand(['create', name], projectRoot);
-    void vscode.commands.executeCommand('beady.refresh');
-    void vscode.window.showInformationMessage(t('Created bead: {0}', name));
+    const texts = { description: draft.description, design: draft.design, acceptanceCriteria: draft.acceptanceCriteria };
+    const output = await runWithTextFiles(texts, (files) => buildCreateBeadArgs(draft, files), projectRoot, runCommand);
+    createdId = parseCreatedBeadId(output);
+    await provider.refresh();
+    void vscode.window.showInformationMessage(t('Created bead: {0}', draft.title));
   } catch (error) {
     void vscode.window.showErrorMessage(formatError(t('Failed to create bead'), error));
+    return;
+  }
+
+  if (!createdId) {
+    return;
+  }
+  if (applied && applied.children.length > 0) {
+    const failed = await createChildTasks(runCommand, provider, projectRoot, createdId, applied.children);
+    if (failed.length > 0) {
+      void vscode.window.showWarningMessage(t('Could not create child tasks: {0}', failed.join(', ')));
+    }
+  }
+  const created = provider.getItems().find((item) => item.id === createdId);
+  if (created) {
+    await provider.openBead(created);
   }
 }
 
@@ -111,8 +413,13 @@ export function createCoreBeadsCommands(
     },
     {
       id: 'beady.createBead',
-      handler: () => createBead(runCommand),
+      handler: () => createBead(runCommand, provider),
       description: 'Create a new bead',
     },
+    {
+      id: 'beady.createFromTemplate',
+      handler: () => createBead(runCommand, provider, 'require'),
+      description: 'Create a new bead from a repository template',
+    },
   ];
 }
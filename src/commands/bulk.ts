@@ -16,9 +16,15 @@ import {
   executeBulkLabelUpdate,
   BulkLabelAction,
   BulkOperationResult,
+  MutationStep,
+  buildLabelStep,
+  buildUpdateStep,
   summarizeBulkResult,
   sanitizeErrorMessage,
   validateLabelInput,
+  validateStatusChange,
+  countOpenBlockers,
+  getWorkflowStatusOptions,
 } from '../utils';
 import { resolveProjectRoot } from '../utils/workspace';
 import { CommandDefinition } from './registry';
@@ -31,7 +37,7 @@ const PROJECT_ROOT_ERROR = 'Beady: No project root configured. Set "beady.projec
 /**
  * Type for a function that runs bd CLI commands.
  */
-export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<void>;
+export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
 
 /**
  * Interface for tree items that represent beads.
@@ -45,6 +51,15 @@ export interface BeadTreeItemLike {
  */
 export interface RefreshableProvider {
   refresh(): Promise<void>;
+  /** Record completed mutations as one undoable unit. */
+  recordMutation?(label: string, steps: MutationStep[]): void;
+  /** All loaded beads; used to check blocking dependencies before status changes. */
+  getItems?(): BeadItemData[];
+}
+
+function beadHasLabel(bead: BeadItemData, label: string): boolean {
+  const labels = (bead.raw as any)?.labels;
+  return Array.isArray(labels) && labels.map(String).includes(label);
 }
 
 /**
@@ -188,6 +203,7 @@ export async function bulkUpdateStatus(
   }
 
   const selection = treeView.selection.filter(isBeadTreeItem);
+  const beadsById = new Map(selection.map((item) => [item.bead.id, item.bead]));
   const { ids, error } = buildBulkSelection(
     selection.map((item) => item.bead),
     bulkConfig.maxSelection
@@ -206,12 +222,7 @@ export async function bulkUpdateStatus(
 
   const statusLabels = getStatusLabels();
   const statusPick = await vscode.window.showQuickPick(
-    [
-      { label: statusLabels.open, value: 'open' },
-      { label: statusLabels.in_progress, value: 'in_progress' },
-      { label: statusLabels.blocked, value: 'blocked' },
-      { label: statusLabels.closed, value: 'closed' },
-    ],
+    getWorkflowStatusOptions({ ...statusLabels }),
     {
       placeHolder: t('Set status for {0} bead(s)', ids.length),
     }
@@ -236,6 +247,7 @@ export async function bulkUpdateStatus(
   }
 
   const progressTitle = t('Updating status to "{0}" for {1} bead(s)...', statusPick.label, ids.length);
+  const allItems = provider.getItems?.() ?? Array.from(beadsById.values());
 
   const result = await vscode.window.withProgress(
     { location: vscode.ProgressLocation.Notification, title: progressTitle },
@@ -244,6 +256,13 @@ export async function bulkUpdateStatus(
         ids,
         statusPick.value,
         async (id) => {
+          const bead = beadsById.get(id);
+          const transition = validateStatusChange(bead?.status, statusPick.value, {
+            openBlockers: bead ? countOpenBlockers(bead, allItems) : 0,
+          });
+          if (!transition.allowed) {
+            throw new Error(transition.reason ?? t('status change not allowed'));
+          }
           await runCommand(['update', id, '--status', statusPick.value], projectRoot);
         },
         (completed, total) => {
@@ -253,6 +272,12 @@ export async function bulkUpdateStatus(
     }
   );
 
+  const steps = result.successes
+    .map((id) => beadsById.get(id))
+    .filter((bead): bead is BeadItemData => !!bead)
+    .map((bead) => buildUpdateStep(bead, '--status', 'status', statusPick.value));
+  provider.recordMutation?.(t('Bulk status change to "{0}"', statusPick.label), steps);
+
   await provider.refresh();
   await showBulkResultSummary(actionDescription, result, projectRoot);
 }
@@ -282,6 +307,7 @@ export async function bulkUpdateLabel(
   }
 
   const selection = treeView.selection.filter(isBeadTreeItem);
+  const beadsById = new Map(selection.map((item) => [item.bead.id, item.bead]));
   const { ids, error } = buildBulkSelection(
     selection.map((item) => item.bead),
     bulkConfig.maxSelection
@@ -355,6 +381,15 @@ export async function bulkUpdateLabel(
     }
   );
 
+  // Skip beads whose label state was already the target so undo does not strip pre-existing labels.
+  const steps = result.successes
+    .filter((id) => {
+      const bead = beadsById.get(id);
+      return !bead || beadHasLabel(bead, label) === (action === 'remove');
+    })
+    .map((id) => buildLabelStep(id, action, label));
+  provider.recordMutation?.(actionDescription, steps);
+
   await provider.refresh();
   await showBulkResultSummary(actionDescription, result, projectRoot);
 }
@@ -27,7 +27,7 @@ const PROJECT_ROOT_ERROR = 'Beady: No project root configured. Set "beady.projec
 /**
  * Type for a function that runs bd CLI commands.
  */
-export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<void>;
+export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
 
 /**
  * Interface for tree items that represent beads.
@@ -0,0 +1,100 @@
+/**
+ * Git command handlers.
+ *
+ * - closeMergedBeads: Offer to close open beads whose branch is merged into the main branch
+ */
+
+import * as vscode from 'vscode';
+import { BeadItemData, findBeadIdsInBranch, formatError, isDoneStatus } from '../utils';
+import { resolveProjectRoot } from '../utils/workspace';
+import { listMergedBranches } from '../services/git';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+/**
+ * Interface for providers that can close beads.
+ */
+export interface GitBeadsProvider {
+  getItems(): BeadItemData[];
+  updateStatus(item: BeadItemData, status: string): Promise<void>;
+}
+
+type MergedPick = vscode.QuickPickItem & { bead: BeadItemData };
+
+/**
+ * List open beads with a branch merged into `beady.git.mainBranch` and close the ones the user keeps selected.
+ */
+export async function closeMergedBeads(provider: GitBeadsProvider): Promise<void> {
+  const config = vscode.workspace.getConfiguration('beady');
+  const projectRoot = resolveProjectRoot(config);
+  if (!projectRoot) {
+    void vscode.window.showErrorMessage(
+      t('Beady: No project root configured. Set "beady.projectRoot" or open a workspace folder.')
+    );
+    return;
+  }
+  const target = config.get<string>('git.mainBranch', 'main');
+
+  let merged: Set<string>;
+  try {
+    merged = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: t('Checking branches merged into {0}…', target) },
+      () => listMergedBranches(projectRoot, target)
+    );
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to read merged branches from git'), error));
+    return;
+  }
+
+  const open = provider.getItems().filter((bead) => !isDoneStatus(bead.status));
+  const openIds = open.map((bead) => bead.id);
+  const branchesById = new Map<string, string[]>();
+  merged.forEach((branch) => {
+    if (branch === target || branch.endsWith(`/${target}`)) {
+      return;
+    }
+    findBeadIdsInBranch(branch, openIds).forEach((id) => {
+      branchesById.set(id, [...(branchesById.get(id) ?? []), branch]);
+    });
+  });
+
+  const picks: MergedPick[] = open
+    .filter((bead) => branchesById.has(bead.id))
+    .map((bead) => ({
+      label: bead.title,
+      description: `${bead.id} · ${bead.status ?? 'open'}`,
+      detail: t('Merged: {0}', (branchesById.get(bead.id) ?? []).join(', ')),
+      picked: true,
+      bead,
+    }));
+  if (picks.length === 0) {
+    void vscode.window.showInformationMessage(t('No open beads have a branch merged into {0}.', target));
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(picks, {
+    canPickMany: true,
+    placeHolder: t('Close beads whose branch is merged into {0}', target),
+    matchOnDescription: true,
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+  for (const pick of selected) {
+    await provider.updateStatus(pick.bead, 'closed');
+  }
+}
+
+/**
+ * Create git command definitions with bound dependencies.
+ */
+export function createGitCommands(provider: GitBeadsProvider): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.closeMergedBeads',
+      handler: () => closeMergedBeads(provider),
+      description: 'Close beads whose branch is merged into main',
+    },
+  ];
+}
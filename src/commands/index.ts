@@ -25,7 +25,13 @@ export { createDependencyCommands, addDependencyCommand, removeDependencyCommand
 export { createExportCommands, exportBeadsCsv, exportBeadsMarkdown, BeadsProvider, BeadTreeItemLike } from './exports';
 export { createBulkCommands, bulkUpdateStatus, bulkUpdateLabel, RefreshableProvider } from './bulk';
 export { createFavoritesCommands, toggleFavorites } from './favorites';
+export { createUndoCommands, undoLastMutation, redoLastMutation, UndoableProvider } from './undo';
 export { createQuickFilterCommands, QuickFilterProvider } from './quickFilters';
+export { createSavedViewCommands, applyDefaultView, SavedViewProvider } from './savedViews';
+export { createTodoCommands, createBeadFromTodo, scanTodos, TodoBeadsProvider } from './todos';
+export { createAnchorCommands, attachSelection, revealAnchor, AnchorBeadsProvider } from './anchors';
+export { createGitCommands, closeMergedBeads, GitBeadsProvider } from './git';
+export { createWorktreeCommands, startWork, WorktreeBeadsProvider } from './worktrees';
 export {
   createInlineEditCommands,
   inlineEditTitle,
@@ -15,6 +15,10 @@ import {
   formatStatusLabel,
   validateAssigneeInput,
   executeBulkStatusUpdate,
+  MutationStep,
+  buildUpdateStep,
+  countOpenBlockers,
+  getWorkflowStatusOptions,
 } from '../utils';
 import { resolveProjectRoot } from '../utils/workspace';
 import { CommandDefinition } from './registry';
@@ -27,7 +31,7 @@ const PROJECT_ROOT_ERROR = 'Beady: No project root configured. Set "beady.projec
 /**
  * Type for a function that runs bd CLI commands.
  */
-export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<void>;
+export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
 type LabelActionPick = vscode.QuickPickItem & { action: 'add' | 'remove' };
 type StatusPick = vscode.QuickPickItem & { value: string };
 
@@ -55,6 +59,8 @@ export interface LabelEditableProvider {
   removeLabel(bead: BeadItemData, label: string): Promise<void>;
   updateAssignee(bead: BeadItemData, assignee: string): Promise<void>;
   findTreeItemById(id: string): Promise<unknown | undefined>;
+  recordMutation?(label: string, steps: MutationStep[]): void;
+  getItems?(): BeadItemData[];
   /** Internal items array - accessed for selection lookup */
   readonly items?: BeadItemData[];
 }
@@ -326,12 +332,11 @@ export async function inlineStatusQuickChange(
   }
 
   const statusLabels = getStatusLabels();
-  const statusOptions: StatusPick[] = [
-    { label: statusLabels.open, description: 'open', value: 'open' },
-    { label: statusLabels.in_progress, description: 'in_progress', value: 'in_progress' },
-    { label: statusLabels.blocked, description: 'blocked', value: 'blocked' },
-    { label: statusLabels.closed, description: 'closed', value: 'closed' },
-  ];
+  const statusOptions: StatusPick[] = getWorkflowStatusOptions({ ...statusLabels }).map((option) => ({
+    label: option.label,
+    description: option.value,
+    value: option.value,
+  }));
 
   const statusPick = await vscode.window.showQuickPick<StatusPick>(statusOptions, {
     placeHolder: t('Select a new status to apply'),
@@ -350,15 +355,35 @@ export async function inlineStatusQuickChange(
     return;
   }
 
-  const transitionable = beads.filter((bead) => validateStatusChange(bead.status, targetStatus).allowed);
-  const skipped = beads
-    .filter((bead) => !validateStatusChange(bead.status, targetStatus).allowed)
-    .map((bead) => bead.id);
+  const allItems = provider.getItems?.() ?? beads;
+  const transitionable: BeadItemData[] = [];
+  const skipped: string[] = [];
+  const disallowed: string[] = [];
+  for (const bead of beads) {
+    const transition = validateStatusChange(bead.status, targetStatus, {
+      openBlockers: countOpenBlockers(bead, allItems),
+    });
+    if (transition.allowed) {
+      transitionable.push(bead);
+    } else if (transition.reason === 'already in target status') {
+      skipped.push(bead.id);
+    } else {
+      disallowed.push(`${bead.id} (${transition.reason})`);
+    }
+  }
 
-  if (transitionable.length === 0) {
+  if (disallowed.length > 0) {
     void vscode.window.showWarningMessage(
-      t('All selected items are already in status {0}.', formatStatusLabel(targetStatus))
+      t('Cannot move to {0}: {1}', formatStatusLabel(targetStatus), disallowed.join(', '))
     );
+  }
+
+  if (transitionable.length === 0) {
+    if (disallowed.length === 0) {
+      void vscode.window.showWarningMessage(
+        t('All selected items are already in status {0}.', formatStatusLabel(targetStatus))
+      );
+    }
     return;
   }
 
@@ -396,6 +421,14 @@ export async function inlineStatusQuickChange(
     );
   }
 
+  const succeeded = new Set(summary.successes);
+  provider.recordMutation?.(
+    t('Status change to {0}', formatStatusLabel(targetStatus)),
+    transitionable
+      .filter((bead) => succeeded.has(bead.id))
+      .map((bead) => buildUpdateStep(bead, '--status', 'status', targetStatus))
+  );
+
   await provider.refresh();
 }
 
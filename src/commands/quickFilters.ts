@@ -4,6 +4,7 @@
  * These commands allow users to apply or clear quick filter presets:
  * - applyQuickFilterPreset: Show picker to apply a filter preset
  * - clearQuickFilters: Clear all active quick filters
+ * - removeQuickFilter: Remove one predicate from a stacked filter
  */
 
 import { CommandDefinition } from './registry';
@@ -14,6 +15,7 @@ import { CommandDefinition } from './registry';
 export interface QuickFilterProvider {
   applyQuickFilterPreset(): Promise<void>;
   clearQuickFilter(): void;
+  removeQuickFilter(): Promise<void>;
 }
 
 /**
@@ -37,5 +39,10 @@ export function createQuickFilterCommands(provider: QuickFilterProvider): Comman
       },
       description: 'Clear all quick filters',
     },
+    {
+      id: 'beady.removeQuickFilter',
+      handler: () => provider.removeQuickFilter(),
+      description: 'Remove one quick filter',
+    },
   ];
 }
@@ -0,0 +1,237 @@
+/**
+ * Saved view command handlers.
+ *
+ * Saved views name a combination of search query, quick filter, sort mode, closed visibility
+ * and collapsed sections:
+ * - switchView: Apply a saved view
+ * - saveView: Save the current tree state as a view (workspace or shared)
+ * - setDefaultView: Choose the view applied when the workspace opens
+ * - deleteView: Remove a saved view
+ */
+
+import * as vscode from 'vscode';
+import { SavedView, SavedViewScope, SavedViewState, formatSafeError, slugifyViewName } from '../utils';
+import { resolveProjectRoot } from '../utils/workspace';
+import {
+  SHARED_VIEWS_FILE,
+  deleteSavedView,
+  loadSavedViews,
+  setDefaultSavedView,
+  storeSavedView,
+} from '../services/savedViews';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+/**
+ * Interface for providers whose tree state can be captured and restored.
+ */
+export interface SavedViewProvider {
+  captureViewState(): SavedViewState;
+  applyViewState(state: SavedViewState, viewName?: string): void;
+}
+
+type ViewPick = vscode.QuickPickItem & { view?: SavedView; action?: 'save' };
+
+function currentProjectRoot(): string | undefined {
+  return resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+}
+
+async function loadViews(context: vscode.ExtensionContext): Promise<Awaited<ReturnType<typeof loadSavedViews>>> {
+  const collection = await loadSavedViews(context, currentProjectRoot());
+  if (collection.errors.length > 0) {
+    void vscode.window.showWarningMessage(t('Some saved views were ignored: {0}', collection.errors.join('; ')));
+  }
+  return collection;
+}
+
+function toPick(view: SavedView, defaultView: string | undefined): ViewPick {
+  const scopeLabel = view.scope === 'shared' ? t('shared') : t('workspace');
+  const pick: ViewPick = {
+    label: view.name,
+    description: view.id === defaultView ? t('{0} · default', scopeLabel) : scopeLabel,
+    view,
+  };
+  if (view.query) {
+    pick.detail = view.query;
+  }
+  return pick;
+}
+
+async function pickView(
+  context: vscode.ExtensionContext,
+  placeHolder: string
+): Promise<{ view: SavedView; defaultView?: string } | undefined> {
+  const { views, defaultView } = await loadViews(context);
+  if (views.length === 0) {
+    void vscode.window.showInformationMessage(t('No saved views yet. Use "Save Current View" to create one.'));
+    return undefined;
+  }
+  const pick = await vscode.window.showQuickPick(
+    views.map((view) => toPick(view, defaultView)),
+    { placeHolder }
+  );
+  if (!pick?.view) {
+    return undefined;
+  }
+  return defaultView ? { view: pick.view, defaultView } : { view: pick.view };
+}
+
+export async function switchSavedView(provider: SavedViewProvider, context: vscode.ExtensionContext): Promise<void> {
+  const { views, defaultView } = await loadViews(context);
+  const picks: ViewPick[] = [
+    ...views.map((view) => toPick(view, defaultView)),
+    { label: '', kind: vscode.QuickPickItemKind.Separator },
+    { label: t('$(save) Save Current View...'), action: 'save' },
+  ];
+  const pick = await vscode.window.showQuickPick(picks, { placeHolder: t('Switch to a saved view') });
+  if (!pick) {
+    return;
+  }
+  if (pick.action === 'save') {
+    await saveCurrentView(provider, context);
+    return;
+  }
+  if (pick.view) {
+    provider.applyViewState(pick.view, pick.view.name);
+  }
+}
+
+export async function saveCurrentView(provider: SavedViewProvider, context: vscode.ExtensionContext): Promise<void> {
+  const name = await vscode.window.showInputBox({
+    prompt: t('Name for this view'),
+    placeHolder: t('My in-progress bugs by epic'),
+    validateInput: (value) => (slugifyViewName(value) ? undefined : t('Enter a name with at least one letter or digit')),
+  });
+  if (!name) {
+    return;
+  }
+
+  const projectRoot = currentProjectRoot();
+  type ScopePick = vscode.QuickPickItem & { scope: SavedViewScope };
+  const scopes: ScopePick[] = [
+    { label: t('This workspace only'), scope: 'workspace' },
+  ];
+  if (projectRoot) {
+    scopes.push({ label: t('Shared with the team'), description: SHARED_VIEWS_FILE, scope: 'shared' });
+  }
+  const scopePick = scopes.length > 1
+    ? await vscode.window.showQuickPick(scopes, { placeHolder: t('Where should this view be stored?') })
+    : scopes[0];
+  if (!scopePick) {
+    return;
+  }
+
+  const view: SavedView = {
+    ...provider.captureViewState(),
+    id: slugifyViewName(name),
+    name: name.trim(),
+    scope: scopePick.scope,
+  };
+
+  const { views } = await loadSavedViews(context, projectRoot);
+  const existing = views.find((candidate) => candidate.id === view.id && candidate.scope === view.scope);
+  if (existing) {
+    const overwrite = t('Overwrite');
+    const answer = await vscode.window.showWarningMessage(
+      t('A view named "{0}" already exists. Overwrite it?', existing.name),
+      { modal: true },
+      overwrite
+    );
+    if (answer !== overwrite) {
+      return;
+    }
+  }
+
+  try {
+    await storeSavedView(context, projectRoot, view);
+    provider.applyViewState(view, view.name);
+    void vscode.window.showInformationMessage(t('Saved view "{0}"', view.name));
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatSafeError(t('Failed to save view'), error, projectRoot ? [projectRoot] : []));
+  }
+}
+
+export async function setDefaultView(context: vscode.ExtensionContext): Promise<void> {
+  const picked = await pickView(context, t('Select the view to apply when this workspace opens'));
+  if (!picked) {
+    return;
+  }
+  const clearing = picked.view.id === picked.defaultView;
+  await setDefaultSavedView(context, clearing ? undefined : picked.view.id);
+  void vscode.window.showInformationMessage(
+    clearing ? t('"{0}" is no longer the default view', picked.view.name) : t('"{0}" is now the default view', picked.view.name)
+  );
+}
+
+export async function deleteView(context: vscode.ExtensionContext): Promise<void> {
+  const picked = await pickView(context, t('Select a view to delete'));
+  if (!picked) {
+    return;
+  }
+  const remove = t('Delete');
+  const answer = await vscode.window.showWarningMessage(
+    picked.view.scope === 'shared'
+      ? t('Delete shared view "{0}" from {1}?', picked.view.name, SHARED_VIEWS_FILE)
+      : t('Delete view "{0}"?', picked.view.name),
+    { modal: true },
+    remove
+  );
+  if (answer !== remove) {
+    return;
+  }
+
+  const projectRoot = currentProjectRoot();
+  try {
+    await deleteSavedView(context, projectRoot, picked.view);
+    void vscode.window.showInformationMessage(t('Deleted view "{0}"', picked.view.name));
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatSafeError(t('Failed to delete view'), error, projectRoot ? [projectRoot] : []));
+  }
+}
+
+/**
+ * Apply the workspace's default view, if one is set. Called once the tree is ready.
+ */
+export async function applyDefaultView(provider: SavedViewProvider, context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const { views, defaultView } = await loadSavedViews(context, currentProjectRoot());
+    const view = views.find((candidate) => candidate.id === defaultView);
+    if (view) {
+      provider.applyViewState(view, view.name);
+    }
+  } catch (error) {
+    console.warn('Failed to apply default saved view:', error);
+  }
+}
+
+/**
+ * Create saved view command definitions with bound dependencies.
+ */
+export function createSavedViewCommands(
+  provider: SavedViewProvider,
+  context: vscode.ExtensionContext
+): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.switchView',
+      handler: () => switchSavedView(provider, context),
+      description: 'Switch to a saved view',
+    },
+    {
+      id: 'beady.saveView',
+      handler: () => saveCurrentView(provider, context),
+      description: 'Save the current tree state as a view',
+    },
+    {
+      id: 'beady.setDefaultView',
+      handler: () => setDefaultView(context),
+      description: 'Choose the default saved view',
+    },
+    {
+      id: 'beady.deleteView',
+      handler: () => deleteView(context),
+      description: 'Delete a saved view',
+    },
+  ];
+}
@@ -0,0 +1,195 @@
+/**
+ * TODO comment command handlers.
+ *
+ * - createBeadFromTodo: Create a bead from a TODO/FIXME/HACK comment and link the comment to it
+ * - scanTodos: List TODO comments in the workspace that have no bead yet
+ */
+
+import * as vscode from 'vscode';
+import {
+  BeadItemData,
+  TodoComment,
+  buildCreateBeadArgs,
+  buildTodoDraft,
+  findTodoComments,
+  formatError,
+  linkTodoComment,
+  parseCreatedBeadId,
+  validateBeadDraft,
+} from '../utils';
+import { resolveProjectRoot, toProjectRelativePath } from '../utils/workspace';
+import { runWithTextFile } from '../services/textFile';
+import { RunBdCommandFn } from './beads';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+const SCAN_EXCLUDE = '**/{node_modules,.git,.beads,dist,out,build,coverage}/**';
+const SCAN_MAX_FILES = 5000;
+const SCAN_MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Interface for providers that can create beads from TODO comments.
+ */
+export interface TodoBeadsProvider {
+  getItems(): BeadItemData[];
+  refresh(): Promise<void>;
+}
+
+type TodoPick = vscode.QuickPickItem & { uri: vscode.Uri; todo: TodoComment };
+
+function isTracked(todo: TodoComment, items: BeadItemData[]): boolean {
+  return !!todo.beadId && items.some((item) => item.id === todo.beadId);
+}
+
+/**
+ * Create a bead from the TODO comment on the given line (or the cursor line), then rewrite the
+ * comment to `TODO(<id>):` so it points back at the bead.
+ */
+export async function createBeadFromTodo(
+  provider: TodoBeadsProvider,
+  runCommand: RunBdCommandFn,
+  uri?: vscode.Uri,
+  line?: number
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const targetUri = uri ?? editor?.document.uri;
+  if (!targetUri) {
+    void vscode.window.showWarningMessage(t('Open a file with a TODO comment first.'));
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(targetUri);
+  const lineNumber = line ?? editor?.selection.active.line ?? 0;
+  const todo = findTodoComments(document.lineAt(lineNumber).text)[0];
+  if (!todo) {
+    void vscode.window.showWarningMessage(t('No TODO, FIXME or HACK comment on this line.'));
+    return;
+  }
+  todo.line = lineNumber;
+
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    void vscode.window.showErrorMessage(
+      t('Beady: No project root configured. Set "beady.projectRoot" or open a workspace folder.')
+    );
+    return;
+  }
+
+  const items = provider.getItems();
+  const validation = validateBeadDraft(buildTodoDraft(todo, toProjectRelativePath(targetUri, projectRoot)), items);
+  if (!validation.ok) {
+    void vscode.window.showWarningMessage(t('Cannot create bead: invalid {0} ({1})', validation.field, validation.reason));
+    return;
+  }
+
+  let createdId: string | undefined;
+  try {
+    const draft = validation.draft;
+    const output = await runWithTextFile(draft.description, (file) => buildCreateBeadArgs(draft, file ? { description: file } : {}), projectRoot, runCommand);
+    createdId = parseCreatedBeadId(output);
+    await provider.refresh();
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to create bead'), error));
+    return;
+  }
+
+  // Link only the bead bd says it created; another window may have made one with the same title.
+  if (!createdId) {
+    void vscode.window.showInformationMessage(t('Created bead: {0}', validation.draft.title));
+    return;
+  }
+
+  // Re-read the line: the document may have changed while bd was running.
+  const current = findTodoComments(document.lineAt(lineNumber).text)[0];
+  if (current && current.keyword === todo.keyword) {
+    const lineText = document.lineAt(lineNumber).text;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(targetUri, document.lineAt(lineNumber).range, linkTodoComment(lineText, current, createdId));
+    await vscode.workspace.applyEdit(edit);
+  }
+  void vscode.window.showInformationMessage(t('Created bead {0}: {1}', createdId, validation.draft.title));
+}
+
+/**
+ * Scan workspace files for TODO comments that are not linked to a known bead and let the user
+ * jump to one.
+ */
+export async function scanTodos(provider: TodoBeadsProvider): Promise<void> {
+  const items = provider.getItems();
+  const picks = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: t('Scanning for TODO comments…') },
+    async () => {
+      const files = await vscode.workspace.findFiles('**/*', SCAN_EXCLUDE, SCAN_MAX_FILES);
+      const found: TodoPick[] = [];
+      for (const uri of files) {
+        let bytes: Uint8Array;
+        try {
+          const stat = await vscode.workspace.fs.stat(uri);
+          if (stat.size > SCAN_MAX_FILE_BYTES) {
+            continue;
+          }
+          bytes = await vscode.workspace.fs.readFile(uri);
+        } catch (error) {
+          console.warn('[todos] Failed to read', uri.fsPath, error);
+          continue;
+        }
+        const content = Buffer.from(bytes).toString('utf8');
+        if (content.includes('\u0000')) {
+          continue;
+        }
+        const relative = vscode.workspace.asRelativePath(uri, false);
+        for (const todo of findTodoComments(content)) {
+          if (isTracked(todo, items)) {
+            continue;
+          }
+          found.push({
+            label: `${todo.keyword}: ${todo.text || t('(no text)')}`,
+            description: `${relative}:${todo.line + 1}`,
+            uri,
+            todo,
+          });
+        }
+      }
+      return found;
+    }
+  );
+
+  if (picks.length === 0) {
+    void vscode.window.showInformationMessage(t('Every TODO comment is linked to a bead.'));
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(picks, {
+    placeHolder: t('{0} TODO comments without a bead', picks.length),
+    matchOnDescription: true,
+  });
+  if (!pick) {
+    return;
+  }
+  const position = new vscode.Position(pick.todo.line, pick.todo.start);
+  await vscode.window.showTextDocument(pick.uri, { selection: new vscode.Range(position, position) });
+}
+
+/**
+ * Create TODO command definitions with bound dependencies.
+ */
+export function createTodoCommands(provider: TodoBeadsProvider, runCommand: RunBdCommandFn): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.createBeadFromTodo',
+      handler: (...args: unknown[]) =>
+        createBeadFromTodo(
+          provider,
+          runCommand,
+          args[0] instanceof vscode.Uri ? args[0] : undefined,
+          typeof args[1] === 'number' ? args[1] : undefined
+        ),
+      description: 'Create a bead from a TODO comment',
+    },
+    {
+      id: 'beady.scanTodos',
+      handler: () => scanTodos(provider),
+      description: 'List TODO comments without a bead',
+    },
+  ];
+}
@@ -0,0 +1,137 @@
+/**
+ * Undo/redo command handlers.
+ *
+ * Replays the mutation journal kept by the beads provider:
+ * - undo: Issue the inverse bd calls for the most recent edit
+ * - redo: Re-apply the most recently undone edit
+ */
+
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildDescriptionUpdateArgs, formatError, MutationAction, MutationJournal, PartialReplayError } from '../utils';
+import { resolveProjectRoot } from '../utils/workspace';
+import { runWithTextFile } from '../services/textFile';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+/** Error message for missing project root configuration. */
+const PROJECT_ROOT_ERROR = 'Beady: No project root configured. Set "beady.projectRoot" or open a workspace folder.';
+
+/**
+ * Type for a function that runs bd CLI commands.
+ */
+export type RunBdCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
+
+/**
+ * Interface for providers that keep a mutation journal.
+ */
+export interface UndoableProvider {
+  refresh(): Promise<void>;
+  getMutationJournal(): MutationJournal;
+}
+
+/**
+ * Run one journal action. Multi-line descriptions go through a temp file; restores write the
+ * captured bead JSON to a temp file and `bd import` it.
+ */
+export async function executeMutationAction(
+  action: MutationAction,
+  projectRoot: string,
+  runCommand: RunBdCommandFn
+): Promise<void> {
+  if ('args' in action) {
+    await runCommand(action.args, projectRoot);
+    return;
+  }
+  if ('description' in action) {
+    const { beadId, description } = action;
+    await runWithTextFile(description, (file) => buildDescriptionUpdateArgs(beadId, description, file), projectRoot, runCommand);
+    return;
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'beady-restore-'));
+  const file = path.join(dir, 'restore.jsonl');
+  try {
+    await fs.writeFile(file, `${JSON.stringify(action.restore)}\n`, 'utf8');
+    await runCommand(['import', '-i', file], projectRoot);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function replayJournal(
+  provider: UndoableProvider,
+  runCommand: RunBdCommandFn,
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  const journal = provider.getMutationJournal();
+  const entry = direction === 'undo' ? journal.peekUndo() : journal.peekRedo();
+  if (!entry) {
+    void vscode.window.showInformationMessage(direction === 'undo' ? t('Nothing to undo') : t('Nothing to redo'));
+    return;
+  }
+
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    void vscode.window.showErrorMessage(PROJECT_ROOT_ERROR);
+    return;
+  }
+
+  const execute = (action: MutationAction) => executeMutationAction(action, projectRoot, runCommand);
+  try {
+    if (direction === 'undo') {
+      await journal.undo(execute);
+    } else {
+      await journal.redo(execute);
+    }
+    void vscode.window.showInformationMessage(
+      direction === 'undo' ? t('Undid: {0}', entry.label) : t('Redid: {0}', entry.label)
+    );
+  } catch (error) {
+    let prefix = direction === 'undo' ? t('Failed to undo {0}', entry.label) : t('Failed to redo {0}', entry.label);
+    if (error instanceof PartialReplayError && error.applied.length > 0) {
+      const applied = error.applied.map((step) => step.beadId).join(', ');
+      prefix = direction === 'undo'
+        ? t('Failed to undo {0} after {1} of {2} steps ({3}); run Undo again to finish', entry.label, error.applied.length, entry.steps.length, applied)
+        : t('Failed to redo {0} after {1} of {2} steps ({3}); run Redo again to finish', entry.label, error.applied.length, entry.steps.length, applied);
+    }
+    void vscode.window.showErrorMessage(formatError(prefix, error));
+  } finally {
+    await provider.refresh();
+  }
+}
+
+/**
+ * Revert the most recent bead mutation.
+ */
+export function undoLastMutation(provider: UndoableProvider, runCommand: RunBdCommandFn): Promise<void> {
+  return replayJournal(provider, runCommand, 'undo');
+}
+
+/**
+ * Re-apply the most recently undone bead mutation.
+ */
+export function redoLastMutation(provider: UndoableProvider, runCommand: RunBdCommandFn): Promise<void> {
+  return replayJournal(provider, runCommand, 'redo');
+}
+
+/**
+ * Create undo/redo command definitions with bound dependencies.
+ */
+export function createUndoCommands(provider: UndoableProvider, runCommand: RunBdCommandFn): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.undo',
+      handler: () => undoLastMutation(provider, runCommand),
+      description: 'Undo the last bead edit',
+    },
+    {
+      id: 'beady.redo',
+      handler: () => redoLastMutation(provider, runCommand),
+      description: 'Redo the last undone bead edit',
+    },
+  ];
+}
@@ -0,0 +1,338 @@
+/**
+ * Worktree command handlers.
+ *
+ * - startWork: Create a branch and git worktree for a bead, claim it, and record the worktree
+ * - worktrees.open / prune / sync / releaseLock: Actions of the Worktrees view
+ * - checkWorktreeGuard: List worktree guard violations and apply their quick fixes
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BeadItemData, formatError, isDoneStatus, resolveSearchUser } from '../utils';
+import { resolveProjectRoot } from '../utils/workspace';
+import {
+  WorktreeEntry,
+  buildRegistryFromGit,
+  isCanonicalWorktreePath,
+  makeWorktreeId,
+  readRegistry,
+  sanitizeWorkerName,
+  syncRegistry,
+  upsertRegistryEntry,
+  worktreeLabel,
+  worktreePathFor,
+  writeRegistry,
+} from '../worktree';
+import { addWorktree, getMainRepoRoot, pruneWorktrees, refExists, removeWorktree } from '../services/git';
+import { getWorktreeStaleMs } from '../providers/worktrees';
+import { checkWorktreeGuard, pickGuardFix } from '../services/worktreeGuard';
+import { RunBdCommandFn } from './beads';
+import { CommandDefinition } from './registry';
+
+const t = vscode.l10n.t;
+
+/**
+ * Interface for providers whose beads can be started in a worktree.
+ */
+export interface WorktreeBeadsProvider {
+  getItems(): BeadItemData[];
+  refresh(): Promise<void>;
+}
+
+type BeadPick = vscode.QuickPickItem & { bead: BeadItemData };
+
+/** What the Worktrees view passes to its item commands. */
+interface WorktreeTarget {
+  entry: WorktreeEntry;
+  repoRoot: string;
+}
+
+function asWorktreeTarget(arg: unknown): WorktreeTarget | undefined {
+  const candidate = arg as Partial<WorktreeTarget> | undefined;
+  return candidate?.entry && typeof candidate.repoRoot === 'string' ? (candidate as WorktreeTarget) : undefined;
+}
+
+function resolveBeadArg(arg: unknown, items: BeadItemData[]): BeadItemData | undefined {
+  if (!arg || typeof arg !== 'object') {
+    return undefined;
+  }
+  // Tree items and hovers pass the bead; the issues webview passes `{ webviewSection: 'bead', id }`.
+  const id = (arg as { id?: unknown }).id;
+  return typeof id === 'string' ? items.find((item) => item.id === id) : undefined;
+}
+
+async function pickBead(items: BeadItemData[]): Promise<BeadItemData | undefined> {
+  const picks: BeadPick[] = items
+    .filter((bead) => !isDoneStatus(bead.status))
+    .map((bead) => ({ label: bead.title, description: `${bead.id} · ${bead.status ?? 'open'}`, bead }));
+  const pick = await vscode.window.showQuickPick(picks, {
+    placeHolder: t('Start work on which bead?'),
+    matchOnDescription: true,
+  });
+  return pick?.bead;
+}
+
+/**
+ * Start work on a bead the way `scripts/task-worktree.sh start` does: branch `<worker>/<id>` in
+ * `../worktrees/<worker>/<id>`, status in_progress with the worker as assignee, the worktree label,
+ * and an entry in `.beads/worktrees.json`. An existing worktree for the bead is reused.
+ */
+export async function startWork(provider: WorktreeBeadsProvider, runCommand: RunBdCommandFn, arg?: unknown): Promise<void> {
+  const config = vscode.workspace.getConfiguration('beady');
+  const projectRoot = resolveProjectRoot(config);
+  if (!projectRoot) {
+    void vscode.window.showErrorMessage(
+      t('Beady: No project root configured. Set "beady.projectRoot" or open a workspace folder.')
+    );
+    return;
+  }
+
+  const items = provider.getItems();
+  const bead = resolveBeadArg(arg, items) ?? (await pickBead(items));
+  if (!bead) {
+    return;
+  }
+
+  const workerInput = await vscode.window.showInputBox({
+    prompt: t('Worker name for the branch and worktree of {0}', bead.id),
+    value: sanitizeWorkerName(resolveSearchUser() ?? ''),
+    validateInput: (value) =>
+      value.trim() && sanitizeWorkerName(value) === value.trim()
+        ? undefined
+        : t('Use letters, numbers, dots, dashes and underscores.'),
+  });
+  if (workerInput === undefined) {
+    return;
+  }
+  const worker = sanitizeWorkerName(workerInput);
+
+  let repoRoot: string;
+  try {
+    repoRoot = await getMainRepoRoot(projectRoot);
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Start work needs a git repository'), error));
+    return;
+  }
+
+  const id = makeWorktreeId(worker, bead.id);
+  const worktreePath = worktreePathFor(repoRoot, worker, bead.id);
+  if (!isCanonicalWorktreePath(repoRoot, worktreePath, id)) {
+    void vscode.window.showErrorMessage(t('Cannot derive a worktree path for {0}.', id));
+    return;
+  }
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: t('Starting work on {0}…', bead.id) },
+      async () => {
+        if (fs.existsSync(worktreePath)) {
+          const known = buildRegistryFromGit(repoRoot).entries.some((entry) => entry.path === worktreePath);
+          if (!known) {
+            throw new Error(t('{0} exists but is not a git worktree.', worktreePath));
+          }
+        } else if (await refExists(repoRoot, `refs/heads/${id}`)) {
+          await addWorktree(repoRoot, worktreePath, id);
+        } else {
+          const mainBranch = config.get<string>('git.mainBranch', 'main');
+          const base = (await refExists(repoRoot, `refs/remotes/origin/${mainBranch}`)) ? `origin/${mainBranch}` : mainBranch;
+          await addWorktree(repoRoot, worktreePath, id, base);
+        }
+
+        await runCommand(['update', bead.id, '--status', 'in_progress', '--assignee', worker], projectRoot);
+        if (config.get<boolean>('autoApplyWorktreeLabel', true)) {
+          await runCommand(['label', 'add', bead.id, worktreeLabel(id)], projectRoot);
+        }
+
+        const entry = buildRegistryFromGit(repoRoot).entries.find((candidate) => candidate.path === worktreePath);
+        writeRegistry(
+          repoRoot,
+          upsertRegistryEntry(readRegistry(repoRoot), {
+            id,
+            path: worktreePath,
+            branch: id,
+            ...(entry?.commit ? { commit: entry.commit } : {}),
+            lastSeen: Date.now(),
+          })
+        );
+      }
+    );
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to start work on {0}', bead.id), error));
+    return;
+  } finally {
+    await provider.refresh();
+  }
+
+  const openLabel = t('Open in New Window');
+  const choice = await vscode.window.showInformationMessage(
+    t('Started {0} on branch {1}.', bead.id, id),
+    openLabel
+  );
+  if (choice === openLabel) {
+    await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(worktreePath), { forceNewWindow: true });
+  }
+}
+
+/**
+ * Open a worktree in a new window.
+ */
+export async function openWorktree(target: WorktreeTarget): Promise<void> {
+  await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(target.entry.path), { forceNewWindow: true });
+}
+
+/**
+ * Remove a worktree (or forget it when its directory is already gone) and drop it from the registry.
+ * Git refuses to remove a worktree with local changes unless the user confirms a forced removal.
+ */
+export async function pruneWorktree(target: WorktreeTarget): Promise<void> {
+  const { entry, repoRoot } = target;
+  const exists = fs.existsSync(entry.path);
+  if (exists) {
+    const removeLabel = t('Remove Worktree');
+    const choice = await vscode.window.showWarningMessage(
+      t('Remove the worktree at {0}? Its branch is kept.', entry.path),
+      { modal: true },
+      removeLabel
+    );
+    if (choice !== removeLabel) {
+      return;
+    }
+  }
+
+  try {
+    if (exists) {
+      try {
+        await removeWorktree(repoRoot, entry.path);
+      } catch (error) {
+        const forceLabel = t('Force Remove');
+        const choice = await vscode.window.showWarningMessage(
+          formatError(t('Git could not remove the worktree'), error),
+          { modal: true },
+          forceLabel
+        );
+        if (choice !== forceLabel) {
+          return;
+        }
+        await removeWorktree(repoRoot, entry.path, true);
+      }
+    }
+    await pruneWorktrees(repoRoot);
+    const registry = readRegistry(repoRoot);
+    if (registry) {
+      writeRegistry(repoRoot, { ...registry, entries: registry.entries.filter((candidate) => candidate.path !== entry.path) });
+    }
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to prune worktree'), error));
+  }
+}
+
+/**
+ * Rebuild `.beads/worktrees.json` from `git worktree list`, dropping stale entries and keeping the
+ * labels and locks of worktrees that are still there.
+ */
+export async function syncWorktrees(): Promise<void> {
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    return;
+  }
+  try {
+    syncRegistry(await getMainRepoRoot(projectRoot), getWorktreeStaleMs());
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Failed to sync worktrees'), error));
+  }
+}
+
+/**
+ * Clear the `lockedBy` owner of a registry entry.
+ */
+export async function releaseWorktreeLock(target: WorktreeTarget): Promise<void> {
+  const { entry, repoRoot } = target;
+  const releaseLabel = t('Release Lock');
+  const choice = await vscode.window.showWarningMessage(
+    t('Release the lock {0} holds on {1}?', entry.lockedBy ?? '', entry.path),
+    { modal: true },
+    releaseLabel
+  );
+  if (choice !== releaseLabel) {
+    return;
+  }
+  const registry = readRegistry(repoRoot);
+  const current = registry?.entries.find((candidate) => candidate.path === entry.path);
+  if (!registry || !current) {
+    return;
+  }
+  const unlocked: WorktreeEntry = { ...current };
+  delete unlocked.lockedBy;
+  writeRegistry(repoRoot, upsertRegistryEntry(registry, unlocked));
+}
+
+/**
+ * Run the worktree guard on demand, whether or not `beady.enableWorktreeGuard` is on.
+ */
+export async function checkWorktreeGuardCommand(): Promise<void> {
+  const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+  if (!projectRoot) {
+    return;
+  }
+  try {
+    const result = await checkWorktreeGuard(projectRoot);
+    if (!result) {
+      void vscode.window.showInformationMessage(t('{0} is not a git repository.', projectRoot));
+      return;
+    }
+    if (result.violations.length === 0) {
+      void vscode.window.showInformationMessage(t('Worktree guard: no violations.'));
+      return;
+    }
+    await pickGuardFix(result);
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Worktree guard failed'), error));
+  }
+}
+
+/**
+ * Create worktree command definitions with bound dependencies.
+ */
+export function createWorktreeCommands(provider: WorktreeBeadsProvider, runCommand: RunBdCommandFn): CommandDefinition[] {
+  return [
+    {
+      id: 'beady.startWork',
+      handler: (...args: unknown[]) => startWork(provider, runCommand, args[0]),
+      description: 'Create a branch and worktree for a bead and start work on it',
+    },
+    {
+      id: 'beady.worktrees.open',
+      handler: (...args: unknown[]) => {
+        const target = asWorktreeTarget(args[0]);
+        return target ? openWorktree(target) : undefined;
+      },
+      description: 'Open a worktree in a new window',
+    },
+    {
+      id: 'beady.worktrees.prune',
+      handler: (...args: unknown[]) => {
+        const target = asWorktreeTarget(args[0]);
+        return target ? pruneWorktree(target) : undefined;
+      },
+      description: 'Remove a worktree and drop it from the registry',
+    },
+    {
+      id: 'beady.worktrees.sync',
+      handler: () => syncWorktrees(),
+      description: 'Rebuild the worktree registry from git',
+    },
+    {
+      id: 'beady.worktrees.releaseLock',
+      handler: (...args: unknown[]) => {
+        const target = asWorktreeTarget(args[0]);
+        return target ? releaseWorktreeLock(target) : undefined;
+      },
+      description: 'Release the lock on a worktree',
+    },
+    {
+      id: 'beady.checkWorktreeGuard',
+      handler: () => checkWorktreeGuardCommand(),
+      description: 'List worktree guard violations and their fixes',
+    },
+  ];
+}
@@ -1,9 +1,34 @@
 import * as vscode from 'vscode';
-import { BeadItemData, buildDependencyTrees } from './utils';
+import {
+  BeadItemData,
+  ScheduleAnalysis,
+  ScheduleNode,
+  ScheduleWeight,
+  analyzeSchedule,
+  buildDependencyTrees,
+  computeReadySet,
+} from './utils';
 import { getIssueTypeIcon, getStatusIcon } from './views/shared/icons';
 
 export type DependencyDirection = 'upstream' | 'downstream';
 
+/** Schedule facts shown next to a bead: slack towards the root issue, and whether work can start now. */
+interface SchedulingHints {
+  schedule?: ScheduleNode;
+  ready: boolean;
+}
+
+function formatSchedulingHints(hints: SchedulingHints): string {
+  const parts: string[] = [];
+  if (hints.ready) {
+    parts.push(vscode.l10n.t('ready'));
+  }
+  if (hints.schedule && hints.schedule.slack > 0) {
+    parts.push(vscode.l10n.t('slack {0}', hints.schedule.slack));
+  }
+  return parts.map((part) => ` · ${part}`).join('');
+}
+
 class DependencyTreeNodeItem extends vscode.TreeItem {
   public readonly sourceId: string;
   public readonly targetId: string;
@@ -15,7 +40,8 @@ class DependencyTreeNodeItem extends vscode.TreeItem {
     parentId: string,
     direction: DependencyDirection,
     children: DependencyTreeNodeItem[],
-    bead?: BeadItemData
+    bead?: BeadItemData,
+    hints: SchedulingHints = { ready: false }
   ) {
     super(
       node.title ? `${node.id} - ${node.title}` : node.id,
@@ -28,7 +54,7 @@ class DependencyTreeNodeItem extends vscode.TreeItem {
     this.contextValue = direction === 'upstream' ? 'dependencyNodeUpstream' : 'dependencyNodeDownstream';
     const relation = direction === 'upstream' ? vscode.l10n.t('blocks this issue') : vscode.l10n.t('blocked by this issue');
     const statusIcon = bead ? getStatusIcon(bead.status) : undefined;
-    this.description = `${node.type}${statusIcon ? ` · $(${statusIcon}) ${bead?.status}` : ''}${node.missing ? ' · missing' : ''} · ${relation}`;
+    this.description = `${node.type}${statusIcon ? ` · $(${statusIcon}) ${bead?.status}` : ''}${node.missing ? ' · missing' : ''} · ${relation}${formatSchedulingHints(hints)}`;
     this.tooltip = node.missing
       ? `${node.id} (${node.type}) - ${relation}`
       : `${node.id} (${node.type})${bead?.status ? ` · ${bead.status}` : ''} · ${relation}`;
@@ -69,6 +95,34 @@ class DependencyGroupItem extends vscode.TreeItem {
   }
 }
 
+class CriticalPathNodeItem extends vscode.TreeItem {
+  constructor(bead: BeadItemData, schedule: ScheduleNode | undefined, isLast: boolean, ready: boolean) {
+    super(bead.title ? `${bead.id} - ${bead.title}` : bead.id, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'dependencyCriticalPathNode';
+    const statusIcon = getStatusIcon(bead.status);
+    this.description = `$(${statusIcon}) ${bead.status ?? 'open'}${schedule ? ` · ${vscode.l10n.t('weight {0}', schedule.duration)}` : ''}${formatSchedulingHints({ ready })}`;
+    this.tooltip = schedule
+      ? vscode.l10n.t('{0}: starts after {1}, finishes at {2}', bead.id, schedule.earliestStart, schedule.earliestFinish)
+      : bead.id;
+    this.iconPath = new vscode.ThemeIcon(isLast ? 'target' : 'arrow-small-down', new vscode.ThemeColor('charts.purple'));
+    this.command = {
+      command: 'beady.openBead',
+      title: 'Open Bead',
+      arguments: [bead],
+    };
+  }
+}
+
+class CriticalPathGroupItem extends vscode.TreeItem {
+  constructor(public readonly children: CriticalPathNodeItem[], totalDuration: number) {
+    super(vscode.l10n.t('Critical path'), vscode.TreeItemCollapsibleState.Expanded);
+    this.contextValue = 'dependencyGroupCriticalPath';
+    this.description = vscode.l10n.t('{0} issues · total {1}', children.length, totalDuration);
+    this.tooltip = vscode.l10n.t('Longest chain of unfinished work that must complete before this issue');
+    this.iconPath = new vscode.ThemeIcon('flame', new vscode.ThemeColor('charts.purple'));
+  }
+}
+
 class EmptyDependencyItem extends vscode.TreeItem {
   constructor() {
     super(vscode.l10n.t('Select an issue to view dependencies'), vscode.TreeItemCollapsibleState.None);
@@ -112,16 +166,23 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<vscode.Tr
     }
 
     if (!element) {
+      const weight = vscode.workspace.getConfiguration('beady').get<ScheduleWeight>('criticalPath.weight', 'estimate');
+      const analysis = analyzeSchedule(items, { targetId: root.id, weight });
+      const ready = new Set(computeReadySet(items).map((item) => item.id));
       const trees = buildDependencyTrees(items, this.rootId);
-      const upstreamNodes = this.buildNodes(trees.upstream, root.id, 'upstream', items);
-      const downstreamNodes = this.buildNodes(trees.downstream, root.id, 'downstream', items);
+      const upstreamNodes = this.buildNodes(trees.upstream, root.id, 'upstream', items, analysis, ready);
+      const downstreamNodes = this.buildNodes(trees.downstream, root.id, 'downstream', items, analysis, ready);
       const groups: vscode.TreeItem[] = [];
+      const criticalPath = this.buildCriticalPath(items, analysis, ready);
+      if (criticalPath) {
+        groups.push(criticalPath);
+      }
       groups.push(new DependencyGroupItem('upstream', upstreamNodes));
       groups.push(new DependencyGroupItem('downstream', downstreamNodes));
       return groups;
     }
 
-    if (element instanceof DependencyGroupItem) {
+    if (element instanceof DependencyGroupItem || element instanceof CriticalPathGroupItem) {
       return element.children;
     }
 
@@ -132,20 +193,41 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<vscode.Tr
     return [];
   }
 
+  /** Only shown when something unfinished still stands between the root and done. */
+  private buildCriticalPath(items: BeadItemData[], analysis: ScheduleAnalysis, ready: Set<string>): CriticalPathGroupItem | undefined {
+    if (analysis.criticalPath.length < 2) {
+      return undefined;
+    }
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const children = analysis.criticalPath
+      .map((id, index) => {
+        const bead = byId.get(id);
+        return bead
+          ? new CriticalPathNodeItem(bead, analysis.nodes.get(id), index === analysis.criticalPath.length - 1, ready.has(id))
+          : undefined;
+      })
+      .filter((child): child is CriticalPathNodeItem => child !== undefined);
+    return new CriticalPathGroupItem(children, analysis.totalDuration);
+  }
+
   private buildNodes(
     nodes: any[] | undefined,
     parentId: string,
     direction: DependencyDirection,
-    items: BeadItemData[]
+    items: BeadItemData[],
+    analysis: ScheduleAnalysis,
+    ready: Set<string>
   ): DependencyTreeNodeItem[] {
     if (!nodes || nodes.length === 0) {
       return [];
     }
 
     return nodes.map((node) => {
-      const childItems = this.buildNodes(node.children, node.id, direction, items);
+      const childItems = this.buildNodes(node.children, node.id, direction, items, analysis, ready);
       const bead = items.find((i) => i.id === node.id);
-      return new DependencyTreeNodeItem(node, parentId, direction, childItems, bead);
+      const schedule = analysis.nodes.get(node.id);
+      const hints: SchedulingHints = schedule ? { schedule, ready: ready.has(node.id) } : { ready: ready.has(node.id) };
+      return new DependencyTreeNodeItem(node, parentId, direction, childItems, bead, hints);
     });
   }
 }
@@ -9,17 +9,35 @@ import {
 } from './utils';
 import { ActivityFeedTreeDataProvider } from './activityFeedProvider';
 import { WatcherManager, createVsCodeWatchAdapter, findBdCommand } from './providers/beads/store';
-import { bulkUpdateLabel, bulkUpdateStatus, inlineEditLabels, inlineEditTitle, inlineStatusQuickChange, toggleFavorites } from './commands';
+import {
+  applyDefaultView,
+  bulkUpdateLabel,
+  bulkUpdateStatus,
+  inlineEditLabels,
+  inlineEditTitle,
+  inlineStatusQuickChange,
+  toggleFavorites,
+} from './commands';
 import { BeadsTreeDataProvider } from './providers/beads/treeDataProvider';
 import { BeadTreeItem, EpicTreeItem, UngroupedSectionItem } from './providers/beads/items';
 import { currentWorktreeId } from './worktree';
-import { runBdCommand } from './services/cliService';
+import { disposeBdSessions, runBdCommand } from './services/cliService';
+import { disposeWriteLockIndicator } from './services/writeLock';
+import { closeSqliteReaders } from './sqliteReader';
 import { createDependencyGraphView } from './views/graph';
 import type { GraphEdgeData } from './utils/graph';
 import { openActivityFeedPanel } from './views/panels/activityFeedPanel';
 import { openInProgressPanel } from './views/panels/inProgressPanel';
 import { openBeadPanel, openBeadFromFeed as openBeadFromFeedPanel } from './views/detail/panel';
-import { setupProviders, setupActivityFeed, registerCommands, setupConfigurationWatchers } from './activation';
+import {
+  setupProviders,
+  setupActivityFeed,
+  registerCommands,
+  setupConfigurationWatchers,
+  setupEditorIntegrations,
+  setupGitIntegration,
+  setupWorktreeView,
+} from './activation';
 
 type DependencyEdge = GraphEdgeData;
 type BeadQuickPick = vscode.QuickPickItem & { bead: BeadItemData };
@@ -42,7 +60,7 @@ function resolveCommandItem(item: any, provider: BeadsTreeDataProvider): BeadIte
 
 export function activate(context: vscode.ExtensionContext): void {
   const watchManager = new WatcherManager(createVsCodeWatchAdapter());
-  context.subscriptions.push({ dispose: () => watchManager.dispose() });
+  context.subscriptions.push({ dispose: () => watchManager.dispose() }, { dispose: () => disposeBdSessions() }, { dispose: () => disposeWriteLockIndicator() }, { dispose: () => closeSqliteReaders() });
 
   let providerRef: BeadsTreeDataProvider | undefined;
   let activationError: unknown;
@@ -129,6 +147,18 @@ export function activate(context: vscode.ExtensionContext): void {
 
     // Set up configuration watchers
     setupConfigurationWatchers(context, provider);
+
+    // CodeLens and quick fixes in the editor
+    setupEditorIntegrations(context, provider);
+
+    // Commit and branch links, and the current branch's bead in the status bar
+    setupGitIntegration(context, provider);
+
+    // Registry entries, locks and in-flight beads per worktree
+    setupWorktreeView(context, provider);
+
+    // Restore the workspace's default saved view, if any
+    void applyDefaultView(provider, context);
   } catch (error) {
     activationError = error;
     console.error('[beads] activation failed', error);
@@ -307,6 +337,7 @@ async function visualizeDependencies(provider: BeadsTreeDataProvider): Promise<v
       const contextOptions = contextId ? { contextId } : {};
       await removeDependencyCommand(provider, sourceId && targetId ? { sourceId, targetId } : undefined, contextOptions);
     },
+    onDidChangeBeads: provider.onDidChangeBeads,
   });
 }
 
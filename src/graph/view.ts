@@ -108,6 +108,7 @@ export function buildDependencyGraphHtml(
     .node-id { font-weight: 600; font-size: 13px; margin-bottom: 4px; }
     .node-title { font-size: 11px; color: var(--vscode-descriptionForeground); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 200px; }
     .node.status-blocked .node-title { color: #f14c4c; opacity: 0.9; }
+    .node.critical { box-shadow: 0 0 0 2px var(--vscode-charts-purple, #b180d7); }
     .node-chips { display: flex; gap: 6px; flex-wrap: wrap; margin-top: 6px; }
     .node .bead-chip { background: #1e1e1e; padding: 2px 8px; }
     .status-indicator { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 6px; }
@@ -119,6 +120,7 @@ export function buildDependencyGraphHtml(
     .edge { stroke: var(--vscode-panel-border); stroke-width: 2; fill: none; marker-end: url(#arrowhead); opacity: 0.8; cursor: pointer; }
     .edge.blocks { stroke: #f14c4c; stroke-width: 2.5; stroke-dasharray: 6 3; }
     .edge.selected { stroke: var(--vscode-focusBorder, #007acc); stroke-width: 3; }
+    .edge.critical { stroke: var(--vscode-charts-purple, #b180d7); stroke-width: 3.5; opacity: 1; }
     .edge-label { fill: var(--vscode-descriptionForeground); font-size: 11px; pointer-events: none; user-select: none; }
     .controls { position: fixed; top: 20px; right: 20px; display: flex; gap: 8px; align-items: center; }
     .control-button { background-color: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 8px 16px; border-radius: 4px; cursor: pointer; font-size: 12px; font-weight: 500; }
@@ -141,6 +143,8 @@ export function buildDependencyGraphHtml(
       .edge { stroke: CanvasText; }
       .edge.blocks { stroke-dasharray: 6 3; }
       .edge.selected { stroke: CanvasText; }
+      .node.critical { outline: 3px double CanvasText; box-shadow: none; }
+      .edge.critical { stroke: Highlight; stroke-width: 4; }
       .control-button { border: 1px solid CanvasText; }
       #contextMenu { border-color: CanvasText; }
     }
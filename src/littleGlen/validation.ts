@@ -1,8 +1,13 @@
 import { validateStatusSelection } from '../utils/status';
 import { validateLabelInput, validateTitleInput } from '../utils/validation';
+import type { HistoryField, HistorySide } from '../views/detail/history';
 
 const BEAD_ID_REGEX = /^[A-Za-z0-9._-]{1,64}$/;
 const MAX_URL_LENGTH = 2048;
+const MAX_PATH_LENGTH = 1024;
+/** Longest comment the detail panel will send to bd. */
+export const MAX_COMMENT_LENGTH = 20000;
+const HISTORY_FIELDS: readonly HistoryField[] = ['title', 'description', 'design', 'notes', 'status'];
 
 export type LittleGlenCommand =
   | { command: 'openBead'; beadId: string }
@@ -17,7 +22,14 @@ export type LittleGlenCommand =
   | { command: 'removeLabel'; label: string }
   | { command: 'addDependency'; issueId?: string; sourceId?: string; targetId?: string }
   | { command: 'removeDependency'; sourceId?: string; targetId?: string; contextId?: string }
-  | { command: 'deleteBead'; beadId?: string };
+  | { command: 'deleteBead'; beadId?: string }
+  | { command: 'revealAnchor'; path: string; startLine: number; endLine: number }
+  | { command: 'loadGitLinks' }
+  | { command: 'loadHistory' }
+  | { command: 'restoreHistoryValue'; eventId: number; field: HistoryField; side: HistorySide }
+  | { command: 'addComment'; text: string }
+  | { command: 'editComment'; commentId: number; text: string }
+  | { command: 'deleteComment'; commentId: number };
 
 export type AllowedLittleGlenCommand = LittleGlenCommand['command'];
 
@@ -41,6 +53,31 @@ function isSafeUrl(input: unknown): input is string {
   }
 }
 
+function isSafeAnchorPath(input: unknown): input is string {
+  return (
+    typeof input === 'string' &&
+    input.length > 0 &&
+    input.length <= MAX_PATH_LENGTH &&
+    Array.from(input).every((char) => char.charCodeAt(0) >= 0x20)
+  );
+}
+
+function isLineNumber(input: unknown): input is number {
+  return typeof input === 'number' && Number.isInteger(input) && input >= 1;
+}
+
+function isEventId(input: unknown): input is number {
+  return typeof input === 'number' && Number.isSafeInteger(input) && input >= 1;
+}
+
+function isCommentText(input: unknown): input is string {
+  return typeof input === 'string' && input.trim().length > 0 && input.length <= MAX_COMMENT_LENGTH;
+}
+
+function isHistoryField(input: unknown): input is HistoryField {
+  return typeof input === 'string' && (HISTORY_FIELDS as readonly string[]).includes(input);
+}
+
 function isSafeTitle(input: unknown): string | undefined {
   if (typeof input !== 'string') return undefined;
   const result = validateTitleInput(input);
@@ -195,6 +232,44 @@ export function validateLittleGlenMessage(
       }
       return undefined;
     }
+    case 'revealAnchor': {
+      const { path, startLine, endLine } = message;
+      if (isSafeAnchorPath(path) && isLineNumber(startLine) && isLineNumber(endLine) && endLine >= startLine) {
+        return { command, path, startLine, endLine };
+      }
+      return undefined;
+    }
+    case 'loadGitLinks':
+    case 'loadHistory':
+      return { command };
+    case 'addComment': {
+      const text = message.text;
+      if (isCommentText(text)) {
+        return { command, text };
+      }
+      return undefined;
+    }
+    case 'editComment': {
+      const { commentId, text } = message;
+      if (isEventId(commentId) && isCommentText(text)) {
+        return { command, commentId, text };
+      }
+      return undefined;
+    }
+    case 'deleteComment': {
+      const commentId = message.commentId;
+      if (isEventId(commentId)) {
+        return { command, commentId };
+      }
+      return undefined;
+    }
+    case 'restoreHistoryValue': {
+      const { eventId, field, side } = message;
+      if (isEventId(eventId) && isHistoryField(field) && (side === 'before' || side === 'after')) {
+        return { command, eventId, field, side };
+      }
+      return undefined;
+    }
     default:
       return undefined;
   }
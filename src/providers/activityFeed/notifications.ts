@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { EventData, EventType } from '../../activityFeed';
+import { BeadItemData } from '../../utils';
+import { getLocalFavorites } from '../../utils/favorites';
+import { resolveSearchUser } from '../../utils/search';
+import { matchWatchRules, WatchMatch, WatchReason, WatchRules } from './watchRules';
+
+const t = vscode.l10n.t;
+
+const DO_NOT_DISTURB_KEY = 'activityFeed.notifications.doNotDisturb';
+
+export function readWatchRules(config: vscode.WorkspaceConfiguration): WatchRules {
+  return {
+    createdByMe: config.get<boolean>('activityFeed.notifications.watchCreatedByMe', true),
+    assignedToMe: config.get<boolean>('activityFeed.notifications.watchAssignedToMe', true),
+    favorites: config.get<boolean>('activityFeed.notifications.watchFavorites', true),
+    epics: config.get<string[]>('activityFeed.notifications.watchEpics', []) ?? [],
+    eventTypes: config.get<EventType[]>('activityFeed.notifications.watchEventTypes', []) ?? [],
+  };
+}
+
+export function isDoNotDisturb(context: vscode.ExtensionContext): boolean {
+  return context.globalState.get<boolean>(DO_NOT_DISTURB_KEY, false);
+}
+
+export async function toggleDoNotDisturb(context: vscode.ExtensionContext): Promise<void> {
+  const enabled = !isDoNotDisturb(context);
+  await context.globalState.update(DO_NOT_DISTURB_KEY, enabled);
+  void vscode.window.showInformationMessage(
+    enabled
+      ? t('Activity notifications paused (do not disturb).')
+      : t('Activity notifications resumed.')
+  );
+}
+
+function reasonLabel(reason: WatchReason): string {
+  switch (reason) {
+    case 'eventType':
+      return t('watched event type');
+    case 'assignedToMe':
+      return t('assigned to you');
+    case 'createdByMe':
+      return t('created by you');
+    case 'favorite':
+      return t('favorite');
+    case 'epic':
+      return t('watched epic');
+  }
+}
+
+function openEvent(event: EventData): Thenable<unknown> {
+  return vscode.commands.executeCommand('beady.activityFeed.openEvent', event.issueId);
+}
+
+function showMatch(match: WatchMatch): void {
+  const openLabel = t('Open');
+  void vscode.window
+    .showInformationMessage(t('{0} ({1})', match.event.description, reasonLabel(match.reason)), openLabel)
+    .then((choice) => (choice === openLabel ? openEvent(match.event) : undefined));
+}
+
+async function showDigest(matches: WatchMatch[]): Promise<void> {
+  const openLabel = t('Open');
+  const feedLabel = t('Show Activity Feed');
+  const choice = await vscode.window.showInformationMessage(
+    t('{0} new events on watched beads', matches.length),
+    openLabel,
+    feedLabel
+  );
+  if (choice === feedLabel) {
+    await vscode.commands.executeCommand('activityFeed.focus');
+    return;
+  }
+  if (choice !== openLabel) {
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    matches.map((match) => ({
+      label: match.event.description,
+      description: match.event.issueTitle ?? '',
+      detail: reasonLabel(match.reason),
+      match,
+    })),
+    { placeHolder: t('Select an event to open') }
+  );
+  if (picked) {
+    await openEvent(picked.match.event);
+  }
+}
+
+/**
+ * Raise notifications for new activity feed events that match the watch rules. Up to
+ * `beady.activityFeed.notifications.digestThreshold` matches are shown one by one; more are
+ * collapsed into a single digest.
+ */
+export async function notifyWatchedEvents(
+  context: vscode.ExtensionContext,
+  events: EventData[],
+  deps: { items: BeadItemData[]; knownEvents: EventData[] }
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('beady');
+  if (!config.get<boolean>('activityFeed.notifications.enabled', true) || isDoNotDisturb(context)) {
+    return;
+  }
+
+  const matches = matchWatchRules(events, readWatchRules(config), {
+    me: resolveSearchUser(),
+    items: deps.items,
+    favorites: getLocalFavorites(context),
+    knownEvents: deps.knownEvents,
+  });
+  if (matches.length === 0) {
+    return;
+  }
+
+  const threshold = Math.max(1, config.get<number>('activityFeed.notifications.digestThreshold', 3));
+  if (matches.length > threshold) {
+    await showDigest(matches);
+    return;
+  }
+  matches.forEach(showMatch);
+}
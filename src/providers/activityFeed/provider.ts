@@ -3,7 +3,7 @@ import * as path from 'path';
 import { WatcherManager } from '@beads/core';
 import { currentWorktreeId } from '../../worktree';
 import { formatError } from '../../utils';
-import { ActivityFeedUnavailable } from '../../activityFeed';
+import { ActivityFeedUnavailable, EventData } from '../../activityFeed';
 import {
   ActivityEventItem,
   ActivityTreeItem,
@@ -34,6 +34,10 @@ export class ActivityFeedTreeDataProvider implements vscode.TreeDataProvider<Act
   private readonly onHealthChangedEmitter = new vscode.EventEmitter<ActivityFeedHealth>();
   readonly onHealthChanged = this.onHealthChangedEmitter.event;
 
+  /** Fires with the events each refresh found since the previous one, oldest first. */
+  private readonly onDidFindNewEventsEmitter = new vscode.EventEmitter<EventData[]>();
+  readonly onDidFindNewEvents = this.onDidFindNewEventsEmitter.event;
+
   private readonly store = new ActivityFeedStore();
   private debounceTimer: NodeJS.Timeout | undefined;
   private watchSubscription: { dispose(): void } | undefined;
@@ -138,6 +142,11 @@ export class ActivityFeedTreeDataProvider implements vscode.TreeDataProvider<Act
 
       this.onDidChangeTreeDataEmitter.fire();
       this.handleRefreshSuccess(eventsChanged);
+
+      const newEvents = this.store.takeNewEvents();
+      if (newEvents.length > 0) {
+        this.onDidFindNewEventsEmitter.fire(newEvents);
+      }
     } catch (error) {
       console.error('Failed to refresh activity feed:', error);
       if (reason === 'manual') {
@@ -187,6 +196,10 @@ export class ActivityFeedTreeDataProvider implements vscode.TreeDataProvider<Act
     this.onDidChangeTreeDataEmitter.fire();
   }
 
+  getEvents(): EventData[] {
+    return this.store.getEvents();
+  }
+
   getStats(): { total: number; byType: Record<string, number> } {
     return this.store.getStatsSummary();
   }
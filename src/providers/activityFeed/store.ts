@@ -29,6 +29,9 @@ export class ActivityFeedStore {
   private refreshInProgress = false;
   private pendingRefresh = false;
   private worktreeId: string | undefined;
+  private newestSeenId: number | undefined;
+  private newestSeenRoot: string | undefined;
+  private newEvents: EventData[] = [];
 
   setWorktreeId(id: string | undefined): void {
     this.worktreeId = id;
@@ -133,6 +136,7 @@ export class ActivityFeedStore {
 
       this.events = Array.from(unique.values());
       this.totalEvents = result.totalCount;
+      this.trackNewEvents(projectRoot);
     } finally {
       this.refreshInProgress = false;
       if (this.pendingRefresh) {
@@ -142,6 +146,30 @@ export class ActivityFeedStore {
     }
   }
 
+  /**
+   * Events that appeared since the previous refresh, oldest first. The first load of a project only
+   * records where the feed stands, so existing history is never reported as new.
+   */
+  takeNewEvents(): EventData[] {
+    const events = this.newEvents;
+    this.newEvents = [];
+    return events;
+  }
+
+  private trackNewEvents(projectRoot: string): void {
+    if (projectRoot !== this.newestSeenRoot) {
+      this.newestSeenRoot = projectRoot;
+      this.newestSeenId = undefined;
+      this.newEvents = [];
+    }
+    const newest = this.events.reduce((max, event) => Math.max(max, event.id), 0);
+    const seen = this.newestSeenId;
+    if (seen !== undefined) {
+      this.newEvents.push(...this.events.filter((event) => event.id > seen).sort((a, b) => a.id - b.id));
+    }
+    this.newestSeenId = Math.max(seen ?? 0, newest);
+  }
+
   clear(): void {
     this.events = [];
     this.totalEvents = 0;
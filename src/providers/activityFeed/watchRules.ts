@@ -0,0 +1,95 @@
+import { EventData, EventType } from '../../activityFeed';
+import { BeadItemData } from '../../utils';
+
+export interface WatchRules {
+  createdByMe: boolean;
+  assignedToMe: boolean;
+  favorites: boolean;
+  /** Epic ids whose descendants (and the epic itself) are watched. */
+  epics: string[];
+  /** Event types that are watched on every bead. */
+  eventTypes: EventType[];
+}
+
+export type WatchReason = 'eventType' | 'assignedToMe' | 'createdByMe' | 'favorite' | 'epic';
+
+export interface WatchContext {
+  /** The current user's bd actor name; events they caused never match. */
+  me: string | undefined;
+  items: BeadItemData[];
+  favorites: Set<string>;
+  /** Events already in the feed, used to find who created a bead when bd does not export it. */
+  knownEvents: EventData[];
+}
+
+export interface WatchMatch {
+  event: EventData;
+  reason: WatchReason;
+}
+
+function sameUser(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function createdBy(item: BeadItemData | undefined): string | undefined {
+  const value = (item?.raw as { created_by?: unknown } | undefined)?.created_by;
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function isUnderEpic(issueId: string, epics: Set<string>, itemsById: Map<string, BeadItemData>): boolean {
+  const visited = new Set<string>();
+  let current: string | undefined = issueId;
+  while (current && !visited.has(current)) {
+    if (epics.has(current)) {
+      return true;
+    }
+    visited.add(current);
+    current = itemsById.get(current)?.parentId;
+  }
+  return false;
+}
+
+/** New feed events that match at least one watch rule, each with the first rule it matched. */
+export function matchWatchRules(events: EventData[], rules: WatchRules, context: WatchContext): WatchMatch[] {
+  const itemsById = new Map(context.items.map((item) => [item.id, item]));
+  const epics = new Set(rules.epics.map((id) => id.trim()).filter(Boolean));
+  const eventTypes = new Set(rules.eventTypes);
+  const creators = new Map<string, string>();
+  for (const event of [...context.knownEvents, ...events]) {
+    if (event.eventType === 'created' && !creators.has(event.issueId)) {
+      creators.set(event.issueId, event.actor);
+    }
+  }
+
+  const reasonFor = (event: EventData): WatchReason | undefined => {
+    const item = itemsById.get(event.issueId);
+    if (eventTypes.has(event.eventType)) {
+      return 'eventType';
+    }
+    if (rules.assignedToMe && sameUser(item?.assignee, context.me)) {
+      return 'assignedToMe';
+    }
+    if (rules.createdByMe && sameUser(createdBy(item) ?? creators.get(event.issueId), context.me)) {
+      return 'createdByMe';
+    }
+    if (rules.favorites && context.favorites.has(event.issueId)) {
+      return 'favorite';
+    }
+    if (epics.size > 0 && isUnderEpic(event.issueId, epics, itemsById)) {
+      return 'epic';
+    }
+    return undefined;
+  };
+
+  const matches: WatchMatch[] = [];
+  for (const event of events) {
+    if (sameUser(event.actor, context.me)) {
+      continue;
+    }
+    const reason = reasonFor(event);
+    if (reason) {
+      matches.push({ event, reason });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import {
+  AnchorLineChange,
+  BeadAnchor,
+  BeadItemData,
+  SourceAnchor,
+  formatAnchorLines,
+  formatError,
+  getBeadDescription,
+  getSourceAnchors,
+  isDoneStatus,
+  isSameAnchor,
+  setSourceAnchors,
+  shiftSourceAnchor,
+} from '../utils';
+import { resolveProjectFile, resolveProjectRoot } from '../utils/workspace';
+import { openBeadUri } from './beadReferences';
+
+const t = vscode.l10n.t;
+/** How long after the last save of a linked document a bead's moved anchors are written. */
+const ANCHOR_SAVE_DELAY_MS = 1500;
+
+function toLineChange(change: vscode.TextDocumentContentChangeEvent): AnchorLineChange {
+  const { start, end } = change.range;
+  return {
+    startLine: start.line + 1,
+    endLine: end.line + 1,
+    endsAtLineStart: end.character === 0,
+    lineDelta: (change.text.match(/\n/g)?.length ?? 0) - (end.line - start.line),
+  };
+}
+
+/**
+ * Live positions of bead source anchors (`Source: path:start-end` description lines). Anchors
+ * follow edits in open documents, are drawn in the gutter, and are written back to the bead shortly
+ * after the document is saved, one write per bead however often it is saved; closing a document
+ * without saving drops the unsaved moves.
+ *
+ * Anchors live in the description rather than in separate bead metadata because bd has no field
+ * for extension data: description lines are what `bd show`, exports, other editors and agents
+ * already read, and TODO beads record their `Source:` line there too.
+ */
+export class SourceAnchorTracker implements vscode.Disposable {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private live = new Map<string, SourceAnchor[]>();
+  /** Beads whose live anchors differ from the ones bd has stored. */
+  private readonly moved = new Set<string>();
+  /** Beads whose anchors moved since their document was last saved. */
+  private readonly unsaved = new Set<string>();
+  private readonly pendingWrites = new Map<string, ReturnType<typeof setTimeout>>();
+  private decoration: vscode.TextEditorDecorationType | undefined;
+
+  constructor(
+    private readonly getItems: () => BeadItemData[],
+    /** Resolves to false when saving failed; the caller has shown the error. */
+    private readonly saveAnchors: (item: BeadItemData, description: string) => Promise<boolean>,
+    private readonly extensionUri: vscode.Uri,
+    private readonly saveDelayMs = ANCHOR_SAVE_DELAY_MS
+  ) {}
+
+  dispose(): void {
+    // Saved moves still reach bd; only the wait is skipped.
+    Array.from(this.pendingWrites.keys()).forEach((id) => void this.write(id));
+    this.decoration?.dispose();
+    this.onDidChangeEmitter.dispose();
+  }
+
+  /** Re-read anchors from the loaded beads, keeping moves that bd has not stored yet. */
+  sync(): void {
+    const next = new Map<string, SourceAnchor[]>();
+    this.getItems().forEach((bead) => {
+      const stored = getSourceAnchors(bead);
+      const moved = this.moved.has(bead.id) ? this.live.get(bead.id) : undefined;
+      const anchors = moved && moved.length === stored.length ? moved : stored;
+      if (moved && (anchors !== moved || anchors.every((anchor, index) => isSameAnchor(anchor, stored[index]!)))) {
+        // Anchors were added or removed elsewhere, or bd now has the moved positions.
+        this.moved.delete(bead.id);
+        if (anchors !== moved) {
+          this.unsaved.delete(bead.id);
+          this.cancelWrite(bead.id);
+        }
+      }
+      if (anchors.length > 0) {
+        next.set(bead.id, anchors);
+      }
+    });
+    this.live = next;
+    this.refresh();
+  }
+
+  /** Anchors that point into the given document, top to bottom. */
+  anchorsFor(uri: vscode.Uri): BeadAnchor[] {
+    const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+    if (!projectRoot || uri.scheme !== 'file' || this.live.size === 0) {
+      return [];
+    }
+    const byId = new Map(this.getItems().map((item) => [item.id, item]));
+    const found: BeadAnchor[] = [];
+    this.live.forEach((anchors, id) => {
+      const bead = byId.get(id);
+      anchors.forEach((anchor, index) => {
+        if (bead && resolveProjectFile(anchor.path, projectRoot).fsPath === uri.fsPath) {
+          found.push({ bead, anchor, index });
+        }
+      });
+    });
+    return found.sort((a, b) => a.anchor.startLine - b.anchor.startLine || a.bead.id.localeCompare(b.bead.id));
+  }
+
+  handleChange(event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0) {
+      return;
+    }
+    const entries = this.anchorsFor(event.document.uri);
+    if (entries.length === 0) {
+      return;
+    }
+    // Change ranges refer to the document before the event; applying them bottom-up keeps
+    // each range valid for the anchors it can still affect.
+    const changes = [...event.contentChanges].sort((a, b) => b.rangeOffset - a.rangeOffset).map(toLineChange);
+    let changed = false;
+    entries.forEach(({ bead, anchor, index }) => {
+      const next = changes.reduce((current, change) => shiftSourceAnchor(current, change), anchor);
+      if (!isSameAnchor(next, anchor)) {
+        const anchors = [...(this.live.get(bead.id) ?? [])];
+        anchors[index] = next;
+        this.live.set(bead.id, anchors);
+        this.moved.add(bead.id);
+        this.unsaved.add(bead.id);
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.refresh();
+    }
+  }
+
+  /** Schedule a write of the moved anchors of beads linked to a saved document. */
+  handleSave(document: vscode.TextDocument): void {
+    this.anchorsFor(document.uri).forEach(({ bead }) => {
+      if (this.unsaved.delete(bead.id)) {
+        this.cancelWrite(bead.id);
+        this.pendingWrites.set(bead.id, setTimeout(() => void this.write(bead.id), this.saveDelayMs));
+      }
+    });
+  }
+
+  handleClose(document: vscode.TextDocument): void {
+    const beads = this.anchorsFor(document.uri).filter(({ bead }) => this.unsaved.delete(bead.id));
+    if (beads.length > 0) {
+      // A pending write still carries the positions from the last save.
+      beads.forEach(({ bead }) => !this.pendingWrites.has(bead.id) && this.moved.delete(bead.id));
+      this.sync();
+    }
+  }
+
+  private cancelWrite(id: string): void {
+    const timer = this.pendingWrites.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingWrites.delete(id);
+    }
+  }
+
+  private async write(id: string): Promise<void> {
+    this.cancelWrite(id);
+    const bead = this.getItems().find((item) => item.id === id);
+    const anchors = this.live.get(id);
+    if (!bead || !anchors || !this.moved.has(id)) {
+      return;
+    }
+    let saved = false;
+    try {
+      saved = await this.saveAnchors(bead, setSourceAnchors(getBeadDescription(bead), anchors));
+    } catch (error) {
+      void vscode.window.showErrorMessage(formatError(t('Failed to save source anchors of {0}', bead.id), error));
+    }
+    if (!saved) {
+      // Keep the moved positions so the next save retries.
+      this.unsaved.add(id);
+    }
+  }
+
+  /** Redraw gutter markers in every visible editor and notify listeners. */
+  refresh(): void {
+    vscode.window.visibleTextEditors.forEach((editor) => this.decorate(editor));
+    this.onDidChangeEmitter.fire();
+  }
+
+  decorate(editor: vscode.TextEditor): void {
+    const enabled = vscode.workspace
+      .getConfiguration('beady', editor.document.uri)
+      .get<boolean>('editor.anchorGutter', true);
+    const entries = enabled ? this.anchorsFor(editor.document.uri) : [];
+    if (!this.decoration) {
+      if (entries.length === 0) {
+        return;
+      }
+      this.decoration = vscode.window.createTextEditorDecorationType({
+        gutterIconPath: vscode.Uri.joinPath(this.extensionUri, 'media', 'anchor.svg'),
+        gutterIconSize: 'contain',
+        isWholeLine: true,
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.infoForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+      });
+    }
+    const lastLine = Math.max(0, editor.document.lineCount - 1);
+    editor.setDecorations(
+      this.decoration,
+      entries.map(({ bead, anchor }) => ({
+        range: new vscode.Range(Math.min(anchor.startLine - 1, lastLine), 0, Math.min(anchor.endLine - 1, lastLine), 0),
+        hoverMessage: this.buildHover(bead, anchor),
+      }))
+    );
+  }
+
+  private buildHover(bead: BeadItemData, anchor: SourceAnchor): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString(`$(issues) [${bead.id}](${openBeadUri(bead.id).toString(true)}) `);
+    markdown.supportThemeIcons = true;
+    markdown.isTrusted = { enabledCommands: ['beady.openBead'] };
+    markdown.appendText(`${bead.title} · ${bead.status ?? 'open'} · ${formatAnchorLines(anchor)}`);
+    return markdown;
+  }
+}
+
+/** The "Issues in this File" view: beads anchored to the active editor's file. */
+export class FileAnchorsTreeProvider implements vscode.TreeDataProvider<BeadAnchor> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<BeadAnchor | undefined>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor(private readonly tracker: SourceAnchorTracker) {}
+
+  refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  dispose(): void {
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  getTreeItem(entry: BeadAnchor): vscode.TreeItem {
+    const { bead, anchor } = entry;
+    const item = new vscode.TreeItem(bead.title, vscode.TreeItemCollapsibleState.None);
+    item.id = `${bead.id}:${entry.index}`;
+    item.description = `${bead.id} · ${formatAnchorLines(anchor)}`;
+    item.tooltip = `${bead.id}: ${bead.title}\n${anchor.path}:${formatAnchorLines(anchor)} · ${bead.status ?? 'open'}`;
+    item.iconPath = new vscode.ThemeIcon(isDoneStatus(bead.status) ? 'pass' : 'issues');
+    item.contextValue = 'beadAnchor';
+    item.command = {
+      command: 'beady.revealAnchor',
+      title: t('Go to Code'),
+      arguments: [anchor.path, anchor.startLine, anchor.endLine],
+    };
+    return item;
+  }
+
+  getChildren(element?: BeadAnchor): BeadAnchor[] {
+    const editor = vscode.window.activeTextEditor;
+    return element || !editor ? [] : this.tracker.anchorsFor(editor.document.uri);
+  }
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import {
+  BeadHoverStrings,
+  BeadItemData,
+  buildBeadHoverHtml,
+  collectIdPrefixes,
+  findBeadReferences,
+  isDoneStatus,
+  matchesIdPrefix,
+} from '../utils';
+import { renderHoverHtml } from '../littleGlen/hover';
+import { StatusLabelMap } from '../views/detail/types';
+
+const t = vscode.l10n.t;
+const ID_WORD_PATTERN = /[A-Za-z0-9_.-]+/;
+
+export const buildBeadHoverStrings = (statusLabels: StatusLabelMap): BeadHoverStrings => ({
+  statusLabel: t('Status'),
+  assigneeLabel: t('Assignee'),
+  unassignedLabel: t('Unassigned'),
+  blockedByLabel: t('Blocked by'),
+  statusLabels,
+});
+
+export function openBeadUri(id: string): vscode.Uri {
+  // beady.openBead resolves `{ webviewSection: 'bead', id }` against the loaded beads.
+  const args = encodeURIComponent(JSON.stringify([{ webviewSection: 'bead', id }]));
+  return vscode.Uri.parse(`command:beady.openBead?${args}`);
+}
+
+/**
+ * Bead ids in any text document (code comments, markdown, the SCM commit box): hover with the
+ * bead's title, status, assignee and blockers, links that open the detail panel, and id
+ * completion after the project prefix.
+ */
+export class BeadReferenceProvider implements vscode.HoverProvider, vscode.DocumentLinkProvider, vscode.CompletionItemProvider {
+  private indexedItems: BeadItemData[] | undefined;
+  private ids = new Set<string>();
+  private byId = new Map<string, BeadItemData>();
+  private prefixes: string[] = [];
+
+  private readonly hoverStrings: BeadHoverStrings;
+
+  constructor(private readonly getItems: () => BeadItemData[], statusLabels: StatusLabelMap) {
+    this.hoverStrings = buildBeadHoverStrings(statusLabels);
+  }
+
+  private isEnabled(document: vscode.TextDocument): boolean {
+    return vscode.workspace.getConfiguration('beady', document.uri).get<boolean>('editor.beadLinks', true);
+  }
+
+  private index(): BeadItemData[] {
+    const items = this.getItems();
+    if (items !== this.indexedItems) {
+      this.indexedItems = items;
+      this.ids = new Set(items.map((item) => item.id));
+      this.byId = new Map(items.map((item) => [item.id, item]));
+      this.prefixes = collectIdPrefixes(items);
+    }
+    return items;
+  }
+
+  private buildHover(bead: BeadItemData, items: BeadItemData[]): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString(renderHoverHtml(buildBeadHoverHtml(bead, items, this.hoverStrings)));
+    markdown.supportHtml = true;
+    markdown.isTrusted = { enabledCommands: ['beady.openBead'] };
+    markdown.appendMarkdown(`\n\n[${t('Open bead')}](${openBeadUri(bead.id).toString(true)})`);
+    return markdown;
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    if (!this.isEnabled(document)) {
+      return undefined;
+    }
+    const items = this.index();
+    const reference = findBeadReferences(document.lineAt(position.line).text, this.ids).find(
+      (candidate) => candidate.start <= position.character && position.character <= candidate.end
+    );
+    const bead = reference ? this.byId.get(reference.id) : undefined;
+    if (!reference || !bead) {
+      return undefined;
+    }
+    return new vscode.Hover(
+      this.buildHover(bead, items),
+      new vscode.Range(position.line, reference.start, position.line, reference.end)
+    );
+  }
+
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    if (!this.isEnabled(document)) {
+      return [];
+    }
+    this.index();
+    const links: vscode.DocumentLink[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+      for (const reference of findBeadReferences(document.lineAt(line).text, this.ids)) {
+        const link = new vscode.DocumentLink(new vscode.Range(line, reference.start, line, reference.end), openBeadUri(reference.id));
+        link.tooltip = t('Open {0}', reference.id);
+        links.push(link);
+      }
+    }
+    return links;
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    if (!this.isEnabled(document)) {
+      return [];
+    }
+    const items = this.index();
+    const range = document.getWordRangeAtPosition(position, ID_WORD_PATTERN);
+    const typed = range ? document.getText(new vscode.Range(range.start, position)) : '';
+    if (!range || !matchesIdPrefix(typed, this.prefixes)) {
+      return [];
+    }
+    return items.map((bead) => {
+      const completion = new vscode.CompletionItem(bead.id, vscode.CompletionItemKind.Reference);
+      completion.detail = bead.title;
+      completion.range = range;
+      completion.filterText = `${bead.id} ${bead.title}`;
+      // Open work first, then by id.
+      completion.sortText = `${isDoneStatus(bead.status) ? 1 : 0}-${bead.id}`;
+      return completion;
+    });
+  }
+
+  /** Hover details are only built for the completion the user actually focuses; its label is the bead id. */
+  resolveCompletionItem(item: vscode.CompletionItem): vscode.CompletionItem {
+    const items = this.index();
+    const bead = this.byId.get(typeof item.label === 'string' ? item.label : item.label.label);
+    if (bead) {
+      item.documentation = this.buildHover(bead, items);
+    }
+    return item;
+  }
+}
@@ -10,6 +10,7 @@ export { BeadsLifecycle, BeadsRefreshEvent, BeadsErrorEvent } from './lifecycle'
 export {
   BeadsDocument,
   BeadsStore,
+  BeadsStoreDelta,
   BeadsStoreSnapshot,
   WorkspaceTarget,
   WatcherManager,
@@ -17,6 +18,7 @@ export {
   createWorkspaceTarget,
   createVsCodeWatchAdapter,
   findBdCommand,
+  isEmptyDelta,
   naturalSort,
   saveBeadsDocument,
   WorkspaceTargetInput,
@@ -333,6 +333,11 @@ export class BeadTreeItem extends vscode.TreeItem {
   getDetails(): BeadDetailItem[] {
     return this.detailItems;
   }
+
+  /** Take over the rendering of `next` so VS Code can redraw this same row object. */
+  refreshFrom(next: BeadTreeItem): void {
+    Object.assign(this, next);
+  }
 }
 
 function truncate(value: string, maxLength: number): string {
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import {
   BeadsStore,
+  BeadsStoreDelta,
   BeadsStoreSnapshot,
   WatcherManager,
   WorkspaceTarget,
@@ -12,6 +13,8 @@ import { createVsCodeWatchAdapter, createWorkspaceTarget, WorkspaceTargetInput }
  */
 export interface BeadsRefreshEvent {
   snapshot: BeadsStoreSnapshot;
+  /** Beads added, changed, or removed since the previous refresh event. */
+  delta: BeadsStoreDelta;
   targets: WorkspaceTarget[];
 }
 
@@ -58,8 +61,8 @@ export class BeadsLifecycle implements vscode.Disposable {
     }
     this.started = true;
 
-    this.storeSubscription = this.store.onDidChange((snapshot) => {
-      this._onDidRefresh.fire({ snapshot, targets: this.activeTargets });
+    this.storeSubscription = this.store.onDidChange((snapshot, delta) => {
+      this._onDidRefresh.fire({ snapshot, delta, targets: this.activeTargets });
     });
   }
 
@@ -7,12 +7,15 @@ import { promisify } from 'util';
 import {
   BeadsDocument,
   BeadsStore,
+  BeadsStoreDelta,
+  BeadsStoreOptions,
   BeadsStoreSnapshot,
   WorkspaceConfig,
   WorkspaceTarget,
   WorkspaceFavoritesConfig,
   WatchAdapter,
   WatcherManager,
+  isEmptyDelta,
   naturalSort,
   readBeadsDocument,
   saveBeadsDocument,
@@ -24,11 +27,13 @@ const execFileAsync = promisify(execFile);
 export {
   BeadsDocument,
   BeadsStore,
+  BeadsStoreDelta,
   BeadsStoreSnapshot,
   WorkspaceConfig,
   WorkspaceTarget,
   WorkspaceFavoritesConfig,
   WatcherManager,
+  isEmptyDelta,
   naturalSort,
   readBeadsDocument,
   saveBeadsDocument,
@@ -97,13 +102,18 @@ export function createVsCodeWatchAdapter(): WatchAdapter {
   };
 }
 
-export function createBeadsStore(options: { watchManager?: WatcherManager; watchAdapter?: WatchAdapter } = {}): BeadsStore {
+export function createBeadsStore(
+  options: { watchManager?: WatcherManager; watchAdapter?: WatchAdapter; sessionProvider?: BeadsStoreOptions['sessionProvider'] } = {}
+): BeadsStore {
+  const sessionOptions: Pick<BeadsStoreOptions, 'sessionProvider'> = options.sessionProvider
+    ? { sessionProvider: options.sessionProvider }
+    : {};
   if (options.watchManager) {
-    return new BeadsStore({ watchManager: options.watchManager });
+    return new BeadsStore({ watchManager: options.watchManager, ...sessionOptions });
   }
 
   const adapter = options.watchAdapter ?? createVsCodeWatchAdapter();
-  return new BeadsStore({ watchAdapter: adapter });
+  return new BeadsStore({ watchAdapter: adapter, ...sessionOptions });
 }
 
 export async function findBdCommand(configPath: string): Promise<string> {
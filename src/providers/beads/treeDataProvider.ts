@@ -11,17 +11,42 @@ import {
   validateStatusChange,
   formatStatusLabel,
   compareStatus,
+  countOpenBlockers,
+  extractDependencyLinks,
+  getStatusSectionOrder,
+  isDoneStatus,
   getFavoriteLabel,
   syncFavoritesState,
   validateTitleInput,
   validateLabelInput,
   validateStatusInput,
   validateAssigneeInput,
+  QuickFilter,
+  QuickFilterMode,
   QuickFilterPreset,
+  QuickFilterSet,
   applyQuickFilter,
-  toggleQuickFilter,
-  normalizeQuickFilter,
+  normalizeQuickFilterSet,
+  quickFilterKey,
+  removeQuickFilterPredicate,
+  getWorkflowStatusOptions,
   deriveAssigneeName,
+  MutationJournal,
+  MutationStep,
+  buildDependencyStep,
+  buildLabelStep,
+  buildDescriptionUpdateArgs,
+  buildUpdateArgs,
+  buildUpdateStep,
+  BeadPatch,
+  OptimisticEditTracker,
+  filterBeadsByQuery,
+  getSearchSuggestions,
+  getWorkflowStatuses,
+  parseSearchQuery,
+  resolveSearchUser,
+  SearchOptions,
+  SavedViewState,
 } from '../../utils';
 import { DensityMode, loadDensity, saveDensity } from '../../utils/density';
 import {
@@ -39,19 +64,26 @@ import {
 import {
   BeadsDocument,
   BeadsStore,
+  BeadsStoreDelta,
   BeadsStoreSnapshot,
   WorkspaceTarget,
   WatcherManager,
   createBeadsStore,
   createWorkspaceTarget,
   createVsCodeWatchAdapter,
+  isEmptyDelta,
   naturalSort,
   saveBeadsDocument,
 } from './store';
 import { resolveProjectRoot, findWorkspaceById, loadSavedWorkspaceSelection, saveWorkspaceSelection } from '../../utils/workspace';
-import { formatBdError, resolveBeadId, runBdCommand } from '../../services/cliService';
+import { formatBdError, getBdSession, resolveBeadId, runBdCommand } from '../../services/cliService';
+import { applyStatusWorkflow, watchStatusWorkflow } from '../../services/workflow';
+import { runWithTextFile } from '../../services/textFile';
+import { CommentChange, runCommentCommand } from '../../services/comments';
 import { getBeadDetailHtml } from '../../views/detail';
 import { BeadDetailStrings, StatusLabelMap } from '../../views/detail/types';
+import { BoardColumn, BoardLane, BoardSwimlaneMode } from '../../views/board/types';
+import { buildBoardLanes } from '../../views/board/model';
 
 const t = vscode.l10n.t;
 const PROJECT_ROOT_ERROR = t('Unable to resolve project root. Set "beady.projectRoot" or open a workspace folder.');
@@ -122,6 +154,25 @@ export const buildBeadDetailStrings = (statusLabels: StatusLabelMap): BeadDetail
   updatedLabel: t('Updated:'),
   closedLabel: t('Closed:'),
   labelsLabel: t('Labels'),
+  codeAnchorsLabel: t('Code'),
+  commitsLabel: t('Commits'),
+  branchesLabel: t('Branches'),
+  noCommitsLabel: t('No commits mention this issue'),
+  noBranchesLabel: t('No branches are named after this issue'),
+  mergedLabel: t('merged'),
+  historyLabel: t('History'),
+  historyLoadingLabel: t('Loading history…'),
+  historyEmptyLabel: t('No events recorded for this issue'),
+  restoreValueLabel: t('Restore this value'),
+  restorePreviousValueLabel: t('Restore previous value'),
+  commentsLabel: t('Comments'),
+  noCommentsLabel: t('No comments yet'),
+  addCommentLabel: t('Comment'),
+  addCommentPlaceholder: t('Add a comment (Markdown supported)...'),
+  editCommentLabel: t('Edit comment'),
+  deleteCommentLabel: t('Delete comment'),
+  saveCommentLabel: t('Save'),
+  cancelLabel: t('Cancel'),
   noLabelsLabel: t('No labels'),
   markInReviewLabel: t('Mark as In Review'),
   removeInReviewLabel: t('Remove In Review'),
@@ -140,6 +191,9 @@ export const buildBeadDetailStrings = (statusLabels: StatusLabelMap): BeadDetail
 export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemType>, vscode.TreeDragAndDropController<TreeItemType> {
   private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<TreeItemType | undefined | null | void>();
   readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private readonly onDidChangeBeadsEmitter = new vscode.EventEmitter<BeadsStoreDelta>();
+  /** Fires with the per-bead delta whenever a store refresh actually changed something. */
+  readonly onDidChangeBeads = this.onDidChangeBeadsEmitter.event;
 
   // Drag and drop support
   readonly dropMimeTypes = ['application/vnd.code.tree.beads'];
@@ -150,12 +204,24 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
   private readonly watchManager: WatcherManager;
   private readonly store: BeadsStore;
   private storeSubscription?: () => void;
+  private readonly mutationJournal = new MutationJournal();
+  private readonly optimisticEdits = new OptimisticEditTracker();
+  // Unpatched items underneath any pending optimistic edits.
+  private baseItems: BeadItemData[] = [];
+  // Explicit refreshes always re-render; watcher-driven ones are skipped when nothing changed.
+  private forceFullApply = true;
+  private workflowRoot: string | undefined;
+  private workflowWatcher: vscode.Disposable | undefined;
   private primaryConfigForFavorites: vscode.WorkspaceConfiguration | undefined;
   private openPanels: Map<string, vscode.WebviewPanel> = new Map();
   private panelHashes: Map<string, string> = new Map();
+  // Bead rows handed to VS Code since the last root render, so a store delta can refresh them in place.
+  private renderedRows: Map<string, BeadTreeItem[]> = new Map();
   private searchQuery: string = '';
+  // Name of the saved view last applied, shown in the view description
+  private activeViewName: string | undefined;
   private refreshInProgress: boolean = false;
-  private quickFilter: QuickFilterPreset | undefined;
+  private quickFilter: QuickFilterSet | undefined;
   private pendingRefresh: boolean = false;
   private staleRefreshTimer: NodeJS.Timeout | undefined;
   private treeView: vscode.TreeView<TreeItemType> | undefined;
@@ -188,9 +254,12 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
 
   constructor(private readonly context: vscode.ExtensionContext, watchManager?: WatcherManager) {
     this.watchManager = watchManager ?? new WatcherManager(createVsCodeWatchAdapter());
-    this.store = createBeadsStore({ watchManager: this.watchManager });
-    this.storeSubscription = this.store.onDidChange((snapshot) => {
-      void this.applyStoreSnapshot(snapshot);
+    this.store = createBeadsStore({
+      watchManager: this.watchManager,
+      sessionProvider: (target) => getBdSession(target.root, target.config?.commandPath ?? 'bd'),
+    });
+    this.storeSubscription = this.store.onDidChange((snapshot, delta) => {
+      void this.applyStoreSnapshot(snapshot, delta);
     });
     // Load persisted sort order
     this.loadSortOrder();
@@ -238,6 +307,18 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     }
     this.storeSubscription?.();
     this.store.dispose();
+    this.workflowWatcher?.dispose();
+    this.onDidChangeBeadsEmitter.dispose();
+  }
+
+  /** Reload when the project's `.beads/workflow.json` changes; follows project root changes. */
+  private watchWorkflowOf(projectRoot: string | undefined): void {
+    if (projectRoot === this.workflowRoot) {
+      return;
+    }
+    this.workflowWatcher?.dispose();
+    this.workflowWatcher = projectRoot ? watchStatusWorkflow(projectRoot, () => void this.refresh()) : undefined;
+    this.workflowRoot = projectRoot;
   }
 
   setTreeView(treeView: vscode.TreeView<TreeItemType>): void {
@@ -359,6 +440,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     if (this.items.length === 0) {
       await this.refresh();
     }
+    this.renderedRows.clear();
 
     const filteredItems = this.filterItems(this.items);
     const header = filteredItems.length > 0 ? [this.buildSummaryHeader(filteredItems)] : [];
@@ -414,12 +496,13 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     const thresholdHours = thresholdMinutes / 60;
     
     // Find stale items
-    const staleItems = items.filter(item => item.status !== 'closed' && isStale(item, thresholdHours));
+    const staleItems = items.filter(item => !isDoneStatus(item.status) && isStale(item, thresholdHours));
     
     // Group items by status
     const grouped: Record<string, BeadItemData[]> = {};
+    const sectionOrder = getStatusSectionOrder();
     
-    STATUS_SECTION_ORDER.forEach(status => {
+    sectionOrder.forEach(status => {
       grouped[status] = [];
     });
     
@@ -447,8 +530,8 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     }
     
     const orderedStatuses = [
-      ...STATUS_SECTION_ORDER,
-      ...Object.keys(grouped).filter(status => !STATUS_SECTION_ORDER.includes(status))
+      ...sectionOrder,
+      ...Object.keys(grouped).filter(status => !sectionOrder.includes(status))
     ];
 
     // Add status sections for non-empty groups in desired order
@@ -472,7 +555,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     
     // Find stale items so we can surface them above the tree (tasks only)
     const staleItems = items.filter(
-      item => item.issueType !== 'epic' && item.status !== 'closed' && isStale(item, thresholdHours)
+      item => item.issueType !== 'epic' && !isDoneStatus(item.status) && isStale(item, thresholdHours)
     );
     
     // Build maps for epics and their children
@@ -510,7 +593,8 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
 
     const emptyEpics: BeadItemData[] = [];
     const statusBuckets: Record<string, EpicTreeItem[]> = {};
-    STATUS_SECTION_ORDER.forEach(status => {
+    const sectionOrder = getStatusSectionOrder();
+    sectionOrder.forEach(status => {
       statusBuckets[status] = [];
     });
 
@@ -521,7 +605,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       const status = epic.status || 'open';
       const epicItem = new EpicTreeItem(epic, children, this.collapsedEpics.get(epic.id) === true);
 
-      if (children.length === 0 && status !== 'closed') {
+      if (children.length === 0 && !isDoneStatus(status)) {
         emptyEpics.push(epic);
         return;
       }
@@ -539,8 +623,11 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       sections.push(new WarningSectionItem(warningItems, thresholdMinutes, isCollapsed));
     }
 
-    // Status-ordered epic sections
-    const statusOrder = STATUS_SECTION_ORDER;
+    // Status-ordered epic sections, then any statuses outside the workflow
+    const statusOrder = [
+      ...sectionOrder,
+      ...Object.keys(statusBuckets).filter(status => !sectionOrder.includes(status))
+    ];
     statusOrder.forEach(status => {
       const epics = statusBuckets[status] || [];
       if (epics.length === 0) {
@@ -610,11 +697,15 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     }
 
     this.refreshInProgress = true;
+    this.forceFullApply = true;
     try {
       const workspaceTargets = this.buildWorkspaceTargets();
+      this.watchWorkflowOf(workspaceTargets[0]?.root);
+      await applyStatusWorkflow(workspaceTargets[0]?.root, this.primaryConfigForFavorites);
 
       if (workspaceTargets.length === 0) {
         this.items = [];
+        this.baseItems = [];
         this.document = undefined;
         this.updateBadge();
         this.onDidChangeTreeDataEmitter.fire();
@@ -665,10 +756,19 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     return workspaceTargets;
   }
 
-  private async applyStoreSnapshot(snapshot: BeadsStoreSnapshot): Promise<void> {
-    this.items = snapshot.items;
+  private async applyStoreSnapshot(snapshot: BeadsStoreSnapshot, delta?: BeadsStoreDelta): Promise<void> {
+    const previousItems = this.items;
+    this.baseItems = snapshot.items;
+    this.items = this.optimisticEdits.apply(snapshot.items);
     this.document = snapshot.workspaces[0]?.document;
 
+    // Unchanged beads keep their identity in the snapshot, so an empty delta means nothing to redraw.
+    if (delta && isEmptyDelta(delta) && !this.forceFullApply) {
+      return;
+    }
+    const partialDelta = this.forceFullApply ? undefined : delta;
+    this.forceFullApply = false;
+
     const favoritesConfig = this.primaryConfigForFavorites ?? vscode.workspace.getConfiguration('beady');
     const favoritesEnabled = favoritesConfig.get<boolean>('favorites.enabled', false);
     if (favoritesEnabled && this.items.length > 0) {
@@ -683,8 +783,81 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     }
 
     this.updateBadge();
-    this.onDidChangeTreeDataEmitter.fire();
-    this.refreshOpenPanels();
+    if (!partialDelta || !this.refreshChangedRows(previousItems, partialDelta)) {
+      this.onDidChangeTreeDataEmitter.fire();
+    }
+    this.refreshOpenPanels(partialDelta ? this.panelsAffectedBy(partialDelta, previousItems) : undefined);
+    if (delta) {
+      this.onDidChangeBeadsEmitter.fire(delta);
+    }
+  }
+
+  /**
+   * Everything that decides where a bead sits in the tree (and what the summary header and epic
+   * rows show). When it is unchanged, a delta only needs the changed rows redrawn.
+   */
+  private treeLayoutKey(items: BeadItemData[]): string {
+    const config = vscode.workspace.getConfiguration('beady');
+    const thresholdHours = config.get<number>('staleThresholdMinutes', 10) / 60;
+    return JSON.stringify(
+      this.filterItems(items).map((item) => [
+        item.id,
+        item.status,
+        deriveAssigneeName(item, ''),
+        item.parentId,
+        item.issueType,
+        item.issueType === 'epic' ? item.title : '',
+        isStale(item, thresholdHours),
+      ])
+    );
+  }
+
+  /**
+   * Redraw just the rows of changed beads. Returns false when the delta moves, adds or removes
+   * rows, in which case the caller refreshes the whole tree.
+   */
+  private refreshChangedRows(previousItems: BeadItemData[], delta: BeadsStoreDelta): boolean {
+    if (delta.added.length > 0 || delta.removed.length > 0) {
+      return false;
+    }
+    if (this.treeLayoutKey(previousItems) !== this.treeLayoutKey(this.items)) {
+      return false;
+    }
+    const currentById = new Map(this.items.map((item) => [item.id, item]));
+    for (const changed of delta.changed) {
+      const current = currentById.get(changed.id);
+      if (!current) {
+        continue;
+      }
+      for (const row of this.renderedRows.get(changed.id) ?? []) {
+        row.refreshFrom(this.buildTreeItem(current));
+        this.onDidChangeTreeDataEmitter.fire(row);
+      }
+    }
+    return true;
+  }
+
+  /** Open panels showing a changed bead, or a bead linked to one by a dependency or parent. */
+  private panelsAffectedBy(delta: BeadsStoreDelta, previousItems: BeadItemData[]): Set<string> {
+    const touched = [...delta.added, ...delta.changed, ...delta.removed];
+    const touchedIds = new Set(touched.map((item) => item.id));
+    const affected = new Set<string>();
+    const previousById = new Map(previousItems.map((item) => [item.id, item]));
+    const currentById = new Map(this.items.map((item) => [item.id, item]));
+    const linkedIds = (item: BeadItemData | undefined): string[] =>
+      item ? [...extractDependencyLinks(item.raw).map((link) => link.id), ...(item.parentId ? [item.parentId] : [])] : [];
+
+    for (const item of touched) {
+      affected.add(item.id);
+      linkedIds(item).forEach((id) => affected.add(id));
+      linkedIds(previousById.get(item.id)).forEach((id) => affected.add(id));
+    }
+    for (const beadId of this.openPanels.keys()) {
+      if (linkedIds(currentById.get(beadId)).some((id) => touchedIds.has(id))) {
+        affected.add(beadId);
+      }
+    }
+    return affected;
   }
 
   registerPanel(beadId: string, panel: vscode.WebviewPanel): void {
@@ -702,11 +875,15 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     });
   }
 
-  private refreshOpenPanels(): void {
+  /** Re-render open detail panels whose content changed, limited to `onlyIds` when given. */
+  private refreshOpenPanels(onlyIds?: Set<string>): void {
     const statusLabels = getStatusLabels();
     const beadStrings = buildBeadDetailStrings(statusLabels);
     const locale = vscode.env.language || 'en';
     this.openPanels.forEach((panel, beadId) => {
+      if (onlyIds && !onlyIds.has(beadId)) {
+        return;
+      }
       const updatedItem = this.items.find((i: BeadItemData) => i.id === beadId);
       if (!updatedItem) {
         return;
@@ -786,6 +963,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       notes: raw.notes,
       priority: raw.priority,
       labels: normalizedLabels,
+      comments: raw.comments,
     });
   }
 
@@ -800,37 +978,22 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return filtered;
     }
 
-    const query = this.searchQuery.toLowerCase();
-    filtered = filtered.filter((item) => {
-      const raw = item.raw as any;
-      const searchableFields = [
-        item.id,
-        item.title,
-        raw?.description || '',
-        raw?.design || '',
-        raw?.acceptance_criteria || '',
-        raw?.notes || '',
-        raw?.assignee || '',
-        item.status || '',
-        raw?.issue_type || '',
-        ...(raw?.labels || []),
-        ...(item.tags || []),
-      ];
-
-      return searchableFields.some(field =>
-        String(field).toLowerCase().includes(query)
-      );
-    });
+    return this.searchItems(filtered, this.searchQuery);
+  }
 
-    return filtered;
+  private searchItems(items: BeadItemData[], query: string): BeadItemData[] {
+    const options: SearchOptions = {
+      index: this.store.getSearchIndex(),
+    };
+    const currentUser = resolveSearchUser();
+    if (currentUser) {
+      options.currentUser = currentUser;
+    }
+    return filterBeadsByQuery(items, query, options);
   }
 
   async search(): Promise<void> {
-    const query = await vscode.window.showInputBox({
-      prompt: t('Search beads by ID, title, description, labels, status, etc.'),
-      placeHolder: t('Enter search query'),
-      value: this.searchQuery,
-    });
+    const query = await this.promptSearchQuery();
 
     if (query === undefined) {
       return;
@@ -839,106 +1002,152 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     this.searchQuery = query.trim();
     this.onDidChangeTreeDataEmitter.fire();
 
+    const { errors } = parseSearchQuery(this.searchQuery);
+    if (errors.length > 0) {
+      void vscode.window.showWarningMessage(t('Ignored parts of the search query: {0}', errors.join('; ')));
+    }
+
     if (this.searchQuery) {
       const count = this.filterItems(this.items).length;
       void vscode.window.showInformationMessage(t('Found {0} bead(s) matching "{1}"', count, this.searchQuery));
     }
   }
 
+  /**
+   * Search input with autocomplete for field names and known values. Picking a suggestion
+   * edits the query; accepting the first row applies it.
+   */
+  private promptSearchQuery(): Promise<string | undefined> {
+    type SearchPick = vscode.QuickPickItem & { query: string; apply: boolean };
+
+    const quickPick = vscode.window.createQuickPick<SearchPick>();
+    quickPick.title = t('Search beads');
+    quickPick.placeholder = t('Text or filters, e.g. status:open label:ui assignee:@me priority:<2 -label:wontfix updated:<7d');
+    quickPick.value = this.searchQuery;
+
+    const updateItems = (value: string) => {
+      const count = value.trim() ? this.searchItems(this.items, value).length : this.items.length;
+      const applyItem: SearchPick = {
+        label: value.trim() ? `$(search) ${value.trim()}` : t('$(close) Clear search'),
+        description: t('{0} match(es)', count),
+        alwaysShow: true,
+        query: value,
+        apply: true,
+      };
+      const suggestions = getSearchSuggestions(value, {
+        index: this.store.getSearchIndex(),
+        statuses: getWorkflowStatuses(),
+      }).map((suggestion): SearchPick => ({
+        label: suggestion.label,
+        description: suggestion.kind === 'field' ? t('filter') : t('value'),
+        alwaysShow: true,
+        query: suggestion.value,
+        apply: false,
+      }));
+      quickPick.items = [applyItem, ...suggestions];
+    };
+
+    return new Promise((resolve) => {
+      let result: string | undefined;
+      const disposables: vscode.Disposable[] = [
+        quickPick.onDidChangeValue(updateItems),
+        quickPick.onDidAccept(() => {
+          const pick = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+          if (pick && !pick.apply) {
+            quickPick.value = pick.query;
+            updateItems(pick.query);
+            return;
+          }
+          result = quickPick.value;
+          quickPick.hide();
+        }),
+        quickPick.onDidHide(() => {
+          disposables.forEach((disposable) => disposable.dispose());
+          quickPick.dispose();
+          resolve(result);
+        }),
+      ];
+      updateItems(quickPick.value);
+      quickPick.show();
+    });
+  }
+
   async applyQuickFilterPreset(): Promise<void> {
-    type QuickFilterPick = vscode.QuickPickItem & { preset?: QuickFilterPreset; key: string };
+    type QuickFilterPick = vscode.QuickPickItem & { preset?: QuickFilterPreset; mode?: QuickFilterMode; key: string };
+
+    const activeKeys = new Set((this.quickFilter?.predicates ?? []).map(quickFilterKey));
+    const separator = (label: string, key: string): QuickFilterPick => ({
+      kind: vscode.QuickPickItemKind.Separator,
+      label,
+      key
+    });
+    const toPick = (preset: QuickFilterPreset, detail?: string): QuickFilterPick => {
+      const key = quickFilterKey(preset);
+      const pick: QuickFilterPick = {
+        label: this.getQuickFilterPredicateLabel(preset),
+        description: this.getQuickFilterDescription(preset),
+        key,
+        preset,
+        picked: activeKeys.has(key)
+      };
+      if (detail) {
+        pick.detail = detail;
+      }
+      return pick;
+    };
+    const section = (label: string, key: string, presets: QuickFilterPreset[]): QuickFilterPick[] =>
+      presets.length > 0 ? [separator(label, key), ...presets.map((preset) => toPick(preset))] : [];
+
+    const statusDetails: Record<string, string> = {
+      open: t('Hides In Progress, Blocked, and Closed items'),
+      in_progress: t('Active work across issues and epics'),
+      blocked: t('Issues and epics with blocking dependencies'),
+      closed: t('Completed or archived work'),
+    };
+    const values = this.collectQuickFilterValues();
 
-    const activeKey = this.getQuickFilterKey() ?? '';
     const items: QuickFilterPick[] = [
+      separator(t('Status filters'), 'separator-status'),
+      ...getWorkflowStatuses().map((status) => toPick({ kind: 'status', value: status }, statusDetails[status])),
+      separator(t('Signals & hygiene'), 'separator-signals'),
+      toPick({ kind: 'stale' }, t('Uses the beady.staleThresholdMinutes setting')),
+      toPick({ kind: 'label' }, t('Good for triage and tag hygiene')),
+      ...section(t('Assignees'), 'separator-assignees', [
+        ...values.assignees.map((value): QuickFilterPreset => ({ kind: 'assignee', value })),
+        { kind: 'assignee' },
+      ]),
+      ...section(t('Types'), 'separator-types', values.types.map((value): QuickFilterPreset => ({ kind: 'type', value }))),
+      ...section(t('Priorities'), 'separator-priorities', values.priorities.map((value): QuickFilterPreset => ({ kind: 'priority', value }))),
+      ...section(t('Labels'), 'separator-labels', values.labels.map((value): QuickFilterPreset => ({ kind: 'label', value }))),
+      ...section(t('Epics'), 'separator-epics', values.epics.map((value): QuickFilterPreset => ({ kind: 'epic', value }))),
+      ...section(t('Worktrees'), 'separator-worktrees', values.worktrees.map((value): QuickFilterPreset => ({ kind: 'worktree', value }))),
+      separator(t('Combine'), 'separator-mode'),
       {
-        kind: vscode.QuickPickItemKind.Separator,
-        label: t('Status filters'),
-        key: 'separator-status'
-      },
-      {
-        label: t('Open'),
-        description: this.getQuickFilterDescription({ kind: 'status', value: 'open' }),
-        detail: t('Hides In Progress, Blocked, and Closed items'),
-        key: 'status:open',
-        preset: { kind: 'status', value: 'open' },
-        picked: activeKey === 'status:open'
-      },
-      {
-        label: t('In Progress'),
-        description: this.getQuickFilterDescription({ kind: 'status', value: 'in_progress' }),
-        detail: t('Active work across issues and epics'),
-        key: 'status:in_progress',
-        preset: { kind: 'status', value: 'in_progress' },
-        picked: activeKey === 'status:in_progress'
-      },
-      {
-        label: t('Blocked'),
-        description: this.getQuickFilterDescription({ kind: 'status', value: 'blocked' }),
-        detail: t('Issues and epics with blocking dependencies'),
-        key: 'status:blocked',
-        preset: { kind: 'status', value: 'blocked' },
-        picked: activeKey === 'status:blocked'
-      },
-      {
-        label: t('Closed'),
-        description: this.getQuickFilterDescription({ kind: 'status', value: 'closed' }),
-        detail: t('Completed or archived work'),
-        key: 'status:closed',
-        preset: { kind: 'status', value: 'closed' },
-        picked: activeKey === 'status:closed'
-      },
-      {
-        kind: vscode.QuickPickItemKind.Separator,
-        label: t('Signals & hygiene'),
-        key: 'separator-signals'
-      },
-      {
-        label: t('Stale in progress'),
-        description: this.getQuickFilterDescription({ kind: 'stale' }),
-        detail: t('Uses the beady.staleThresholdMinutes setting'),
-        key: 'stale',
-        preset: { kind: 'stale' },
-        picked: activeKey === 'stale'
-      },
-      {
-        label: t('Has labels'),
-        description: this.getQuickFilterDescription({ kind: 'label' }),
-        detail: t('Good for triage and tag hygiene'),
-        key: 'label',
-        preset: { kind: 'label' },
-        picked: activeKey === 'label'
-      },
-      {
-        kind: vscode.QuickPickItemKind.Separator,
-        label: t('Reset'),
-        key: 'separator-reset'
-      },
-      {
-        label: t('Show everything'),
-        description: this.getQuickFilterDescription(undefined),
-        detail: t('Lists all issues and epics'),
-        key: '',
-        picked: activeKey === ''
+        label: t('Match any (OR)'),
+        description: t('Show items matching any selected filter instead of all of them'),
+        key: 'mode:or',
+        mode: 'or',
+        picked: this.quickFilter?.mode === 'or'
       }
     ];
 
     const picker = vscode.window.createQuickPick<QuickFilterPick>();
     picker.items = items;
+    picker.canSelectMany = true;
     picker.matchOnDetail = true;
     picker.matchOnDescription = true;
     picker.placeholder = t('Filter mode (current: {0})', this.getQuickFilterLabel(this.quickFilter));
     picker.title = t('Filter mode picker');
     const preselected = items.filter(item => item.picked);
     if (preselected.length) {
-      picker.activeItems = preselected;
       picker.selectedItems = preselected;
     }
 
-    const selection = await new Promise<QuickFilterPick | undefined>((resolve) => {
+    const selection = await new Promise<readonly QuickFilterPick[] | undefined>((resolve) => {
       let finished = false;
       const accept = picker.onDidAccept(() => {
         finished = true;
-        resolve(picker.selectedItems[0]);
+        resolve(picker.selectedItems);
         picker.hide();
       });
       const hide = picker.onDidHide(() => {
@@ -957,12 +1166,10 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
-    if (!selection.preset) {
-      this.clearQuickFilter();
-      return;
-    }
-
-    const next = toggleQuickFilter(this.quickFilter, selection.preset);
+    const next = normalizeQuickFilterSet({
+      mode: selection.some((pick) => pick.mode === 'or') ? 'or' : 'and',
+      predicates: selection.flatMap((pick) => (pick.preset ? [pick.preset] : [])),
+    });
     this.setQuickFilter(next);
 
     const nextLabel = this.getQuickFilterLabel(next);
@@ -971,6 +1178,79 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     );
   }
 
+  /** Prompt for one active filter chip and remove it. */
+  async removeQuickFilter(): Promise<void> {
+    const chips = this.getQuickFilterChips();
+    if (chips.length === 0) {
+      void vscode.window.showInformationMessage(t('No quick filters are active'));
+      return;
+    }
+    const pick = chips.length === 1
+      ? chips[0]
+      : await vscode.window.showQuickPick(chips, { placeHolder: t('Select a filter to remove') });
+    if (pick) {
+      this.removeQuickFilterPredicate(pick.key);
+    }
+  }
+
+  removeQuickFilterPredicate(key: string): void {
+    this.setQuickFilter(removeQuickFilterPredicate(this.quickFilter, key));
+  }
+
+  /** Active predicates as removable chips, for the view description and the issues webview. */
+  getQuickFilterChips(): Array<{ key: string; label: string }> {
+    return (this.quickFilter?.predicates ?? []).map((preset) => ({
+      key: quickFilterKey(preset),
+      label: this.getQuickFilterPredicateLabel(preset),
+    }));
+  }
+
+  private collectQuickFilterValues(): {
+    assignees: string[];
+    types: string[];
+    priorities: number[];
+    labels: string[];
+    epics: string[];
+    worktrees: string[];
+  } {
+    const assignees = new Set<string>();
+    const types = new Set<string>();
+    const priorities = new Set<number>();
+    const labels = new Set<string>();
+    const epics = new Set<string>();
+    const worktrees = new Set<string>();
+    for (const item of this.items) {
+      const raw = item.raw as any;
+      const assignee = deriveAssigneeName(item, '');
+      if (assignee) {
+        assignees.add(assignee);
+      }
+      if (item.issueType) {
+        types.add(item.issueType);
+      }
+      if (item.issueType === 'epic') {
+        epics.add(item.id);
+      }
+      if (Number.isInteger(raw?.priority)) {
+        priorities.add(raw.priority);
+      }
+      if (Array.isArray(raw?.labels)) {
+        raw.labels.filter((label: unknown): label is string => typeof label === 'string' && label.length > 0).forEach((label: string) => labels.add(label));
+      }
+      if (typeof raw?.worktree === 'string' && raw.worktree) {
+        worktrees.add(raw.worktree);
+      }
+    }
+    const sorted = (set: Set<string>): string[] => Array.from(set).sort((a, b) => a.localeCompare(b));
+    return {
+      assignees: sorted(assignees),
+      types: sorted(types),
+      priorities: Array.from(priorities).sort((a, b) => a - b),
+      labels: sorted(labels),
+      epics: sorted(epics),
+      worktrees: sorted(worktrees),
+    };
+  }
 
   clearSearch(): void {
     this.searchQuery = '';
@@ -978,6 +1258,11 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     void vscode.window.showInformationMessage(t('Search cleared'));
   }
 
+  /** All loaded beads, unfiltered. */
+  getItems(): BeadItemData[] {
+    return this.items;
+  }
+
   getVisibleBeads(): BeadItemData[] {
     return this.applySortOrder(this.filterItems(this.items));
   }
@@ -1043,7 +1328,9 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     }
 
     const normalizedStatus = validation.value as string;
-    const transition = validateStatusChange(item.status, normalizedStatus);
+    const transition = validateStatusChange(item.status, normalizedStatus, {
+      openBlockers: countOpenBlockers(item, this.items),
+    });
     if (!transition.allowed) {
       void vscode.window.showWarningMessage(validationMessage('status', transition.reason));
       return;
@@ -1063,12 +1350,16 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { status: normalizedStatus });
     try {
       await runBdCommand(['update', itemId, '--status', normalizedStatus], projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Set status of {0}', itemId), [buildUpdateStep(item, '--status', 'status', normalizedStatus)]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Updated status to: {0}', normalizedStatus));
     } catch (error) {
-      const message = formatSafeError(t('Failed to update status'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to update status; change reverted'), error, [projectRoot]);
       console.error('Failed to update status', message);
       void vscode.window.showErrorMessage(message);
     }
@@ -1096,38 +1387,66 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { title: safeTitle });
     try {
       await runBdCommand(['update', itemId, '--title', safeTitle], projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Rename {0}', itemId), [buildUpdateStep(item, '--title', 'title', safeTitle)]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Updated title to: {0}', safeTitle));
     } catch (error) {
-      const message = formatSafeError(t('Failed to update title'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to update title; change reverted'), error, [projectRoot]);
       console.error('Failed to update title', message);
       void vscode.window.showErrorMessage(message);
     }
   }
 
-  async updateDescription(item: BeadItemData, value: string): Promise<void> {
-    await this.updateField(item, 'description', ['-d', value]);
+  /** Resolves to false when the update failed; the error has already been shown. */
+  async updateDescription(item: BeadItemData, value: string): Promise<boolean> {
+    return this.updateField(item, 'description', '-d', 'description', value);
+  }
+
+  /**
+   * Write moved source anchors into a bead's description. Anchors follow code edits rather than
+   * edits to the bead, so this records no undo step and leaves the reload to the store watcher.
+   * Resolves to false when the write failed; the error has already been shown.
+   */
+  async saveSourceAnchors(item: BeadItemData, description: string): Promise<boolean> {
+    const itemId = resolveBeadId(item);
+    const projectRoot = resolveProjectRoot(vscode.workspace.getConfiguration('beady'));
+    if (!itemId || !projectRoot) {
+      return false;
+    }
+
+    try {
+      await runWithTextFile(description, (file) => buildDescriptionUpdateArgs(itemId, description, file), projectRoot, runBdCommand);
+      return true;
+    } catch (error) {
+      const message = formatSafeError(t('Failed to save source anchors of {0}', itemId), error, [projectRoot]);
+      console.error('Failed to save source anchors', message);
+      void vscode.window.showErrorMessage(message);
+      return false;
+    }
   }
 
   async updateDesign(item: BeadItemData, value: string): Promise<void> {
-    await this.updateField(item, 'design', ['--design', value]);
+    await this.updateField(item, 'design', '--design', 'design', value);
   }
 
   async updateAcceptanceCriteria(item: BeadItemData, value: string): Promise<void> {
-    await this.updateField(item, 'acceptance criteria', ['--acceptance-criteria', value]);
+    await this.updateField(item, 'acceptance criteria', '--acceptance-criteria', 'acceptance_criteria', value);
   }
 
   async updateNotes(item: BeadItemData, value: string): Promise<void> {
-    await this.updateField(item, 'notes', ['--notes', value]);
+    await this.updateField(item, 'notes', '--notes', 'notes', value);
   }
 
-  private async updateField(item: BeadItemData, fieldName: string, args: string[]): Promise<void> {
+  private async updateField(item: BeadItemData, fieldName: string, flag: string, rawKey: string, value: string): Promise<boolean> {
     const itemId = resolveBeadId(item);
     if (!itemId) {
       void vscode.window.showWarningMessage(INVALID_ID_MESSAGE);
-      return;
+      return false;
     }
 
     const config = vscode.workspace.getConfiguration('beady');
@@ -1135,17 +1454,24 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
 
     if (!projectRoot) {
       void vscode.window.showErrorMessage(PROJECT_ROOT_ERROR);
-      return;
+      return false;
     }
 
     try {
-      await runBdCommand(['update', itemId, ...args], projectRoot);
+      if (flag === '-d') {
+        await runWithTextFile(value, (file) => buildDescriptionUpdateArgs(itemId, value, file), projectRoot, runBdCommand);
+      } else {
+        await runBdCommand(buildUpdateArgs(itemId, flag, value), projectRoot);
+      }
+      this.recordMutation(t('Edit {0} of {1}', fieldName, itemId), [buildUpdateStep(item, flag, rawKey, value)]);
       await this.refresh();
       // void vscode.window.showInformationMessage(t('Updated {0}', fieldName)); // Too noisy for auto-save
+      return true;
     } catch (error) {
       const message = formatSafeError(t('Failed to update {0}', fieldName), error, [projectRoot]);
       console.error(`Failed to update ${fieldName}`, message);
       void vscode.window.showErrorMessage(message);
+      return false;
     }
   }
 
@@ -1176,14 +1502,18 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { assignee: safeAssignee });
     try {
-      await runBdCommand(['update', itemId, '--assignee', safeAssignee], projectRoot);
+      await runBdCommand(buildUpdateArgs(itemId, '--assignee', safeAssignee), projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Assign {0}', itemId), [buildUpdateStep(item, '--assignee', 'assignee', safeAssignee)]);
       await this.refresh();
       void vscode.window.showInformationMessage(
         safeAssignee ? t('Updated assignee to: {0}', safeAssignee) : t('Cleared assignee')
       );
     } catch (error) {
-      const message = formatSafeError(t('Failed to update assignee'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to update assignee; change reverted'), error, [projectRoot]);
       console.error('Failed to update assignee', message);
       void vscode.window.showErrorMessage(message);
     }
@@ -1212,6 +1542,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
 
     try {
       await runBdCommand(['update', itemId, '--type', type], projectRoot);
+      this.recordMutation(t('Set type of {0}', itemId), [buildUpdateStep(item, '--type', 'issue_type', type)]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Updated type to: {0}', type));
     } catch (error) {
@@ -1241,12 +1572,16 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { priority });
     try {
       await runBdCommand(['update', itemId, '--priority', priority.toString()], projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Set priority of {0}', itemId), [buildUpdateStep(item, '--priority', 'priority', priority.toString())]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Updated priority to: P{0}', priority));
     } catch (error) {
-      const message = formatSafeError(t('Failed to update priority'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to update priority; change reverted'), error, [projectRoot]);
       console.error('Failed to update priority', message);
       void vscode.window.showErrorMessage(message);
     }
@@ -1274,17 +1609,58 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { addLabel: safeLabel });
     try {
       await runBdCommand(['label', 'add', itemId, safeLabel], projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Add label {0} to {1}', safeLabel, itemId), [buildLabelStep(itemId, 'add', safeLabel)]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Added label: {0}', safeLabel));
     } catch (error) {
-      const message = formatSafeError(t('Failed to add label'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to add label; change reverted'), error, [projectRoot]);
       console.error('Failed to add label', message);
       void vscode.window.showErrorMessage(message);
     }
   }
 
+  async addComment(item: BeadItemData, text: string): Promise<void> {
+    await this.changeComment(item, { kind: 'add', text }, t('Failed to add comment'));
+  }
+
+  async editComment(item: BeadItemData, commentId: number, text: string): Promise<void> {
+    await this.changeComment(item, { kind: 'edit', commentId, text }, t('Failed to edit comment'));
+  }
+
+  async deleteComment(item: BeadItemData, commentId: number): Promise<void> {
+    await this.changeComment(item, { kind: 'delete', commentId }, t('Failed to delete comment'));
+  }
+
+  private async changeComment(item: BeadItemData, change: CommentChange, failurePrefix: string): Promise<void> {
+    const itemId = resolveBeadId(item);
+    if (!itemId) {
+      void vscode.window.showWarningMessage(INVALID_ID_MESSAGE);
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('beady');
+    const projectRoot = resolveProjectRoot(config);
+
+    if (!projectRoot) {
+      void vscode.window.showErrorMessage(PROJECT_ROOT_ERROR);
+      return;
+    }
+
+    try {
+      await runCommentCommand(itemId, change, projectRoot, runBdCommand);
+      await this.refresh();
+    } catch (error) {
+      const message = formatSafeError(failurePrefix, error, [projectRoot]);
+      console.error(`Failed to ${change.kind} comment`, message);
+      void vscode.window.showErrorMessage(message);
+    }
+  }
+
   async addDependency(item: BeadItemData, targetId: string): Promise<void> {
     const config = vscode.workspace.getConfiguration('beady');
     const dependencyEditingEnabled = config.get<boolean>('enableDependencyEditing', false);
@@ -1314,6 +1690,9 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
 
     try {
       await runBdCommand(['dep', 'add', safeSourceId, safeTargetId], projectRoot);
+      this.recordMutation(t('Add dependency {0} → {1}', safeSourceId, safeTargetId), [
+        buildDependencyStep('add', safeSourceId, safeTargetId),
+      ]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Added dependency: {0} → {1}', safeSourceId, safeTargetId));
     } catch (error) {
@@ -1361,8 +1740,12 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const removedType = this.findDependencyType(safeSourceId, safeTargetId);
     try {
       await runBdCommand(['dep', 'remove', safeSourceId, safeTargetId], projectRoot);
+      this.recordMutation(t('Remove dependency {0} → {1}', safeSourceId, safeTargetId), [
+        buildDependencyStep('remove', safeSourceId, safeTargetId, removedType),
+      ]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Removed dependency: {0} → {1}', safeSourceId, safeTargetId));
     } catch (error: any) {
@@ -1400,18 +1783,71 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    const edit = this.beginOptimisticEdit(itemId, { removeLabel: safeLabel });
     try {
       await runBdCommand(['label', 'remove', itemId, safeLabel], projectRoot);
+      this.optimisticEdits.commit(edit);
+      this.recordMutation(t('Remove label {0} from {1}', safeLabel, itemId), [buildLabelStep(itemId, 'remove', safeLabel)]);
       await this.refresh();
       void vscode.window.showInformationMessage(t('Removed label: {0}', safeLabel));
     } catch (error) {
-      const message = formatSafeError(t('Failed to remove label'), error, [projectRoot]);
+      this.rollbackOptimisticEdit(edit);
+      const message = formatSafeError(t('Failed to remove label; change reverted'), error, [projectRoot]);
       console.error('Failed to remove label', message);
       void vscode.window.showErrorMessage(message);
     }
   }
 
+  /** Patch the bead in memory and re-render right away; the CLI result commits or rolls it back. */
+  private beginOptimisticEdit(beadId: string, patch: BeadPatch): number {
+    if (this.optimisticEdits.size === 0) {
+      this.baseItems = this.items;
+    }
+    const token = this.optimisticEdits.begin(beadId, patch);
+    this.items = this.optimisticEdits.apply(this.baseItems);
+    this.onDidChangeTreeDataEmitter.fire();
+    this.refreshOpenPanels();
+    return token;
+  }
+
+  private rollbackOptimisticEdit(token: number): void {
+    this.optimisticEdits.rollback(token);
+    this.items = this.optimisticEdits.apply(this.baseItems);
+    this.onDidChangeTreeDataEmitter.fire();
+    this.refreshOpenPanels();
+  }
+
+  getMutationJournal(): MutationJournal {
+    return this.mutationJournal;
+  }
+
+  /** Record a completed bd mutation so `beady.undo` can revert it. */
+  recordMutation(label: string, steps: MutationStep[]): void {
+    this.mutationJournal.record(label, steps);
+  }
+
+  private findDependencyType(sourceId: string, targetId: string): string | undefined {
+    const source = this.items.find((i) => i.id === sourceId);
+    const deps = (source?.raw as any)?.dependencies;
+    if (!Array.isArray(deps)) {
+      return undefined;
+    }
+    const match = deps.find((dep: any) => (dep?.depends_on_id || dep?.id || dep?.issue_id) === targetId);
+    return match ? match.dep_type || match.type : undefined;
+  }
+
   private createTreeItem(item: BeadItemData): BeadTreeItem {
+    const treeItem = this.buildTreeItem(item);
+    const rows = this.renderedRows.get(item.id);
+    if (rows) {
+      rows.push(treeItem);
+    } else {
+      this.renderedRows.set(item.id, [treeItem]);
+    }
+    return treeItem;
+  }
+
+  private buildTreeItem(item: BeadItemData): BeadTreeItem {
     const isExpanded = this.expandedRows.has(item.id);
     const treeItem = new BeadTreeItem(item, isExpanded, undefined, this.density);
     treeItem.contextValue = 'bead';
@@ -1460,19 +1896,27 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return;
     }
 
+    // Drop before the target item, or at the end
+    const beforeId = target instanceof BeadTreeItem ? target.bead.id : undefined;
+    this.moveInManualOrder(draggedItems, beforeId);
+  }
+
+  /**
+   * Move beads before `beforeId` (or to the end) in the manual sort order. Shared by tree
+   * drag-and-drop and board reordering.
+   */
+  moveInManualOrder(draggedItems: BeadItemData[], beforeId?: string): void {
     // Get the current filtered and sorted items
     const currentItems = this.applySortOrder(this.filterItems(this.items));
 
     // Find the drop position
     let dropIndex: number;
-    if (target && target instanceof BeadTreeItem) {
-      // Drop before the target item
-      dropIndex = currentItems.findIndex(item => item.id === target.bead.id);
+    if (beforeId) {
+      dropIndex = currentItems.findIndex(item => item.id === beforeId);
       if (dropIndex === -1) {
         return;
       }
     } else {
-      // Drop at the end
       dropIndex = currentItems.length;
     }
 
@@ -1497,6 +1941,48 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     this.onDidChangeTreeDataEmitter.fire();
   }
 
+  /** One board column per workflow status, in section order. */
+  getBoardColumns(): BoardColumn[] {
+    const labels = new Map(getWorkflowStatusOptions(getStatusLabels()).map((option) => [option.value, option.label]));
+    return getStatusSectionOrder().map((status) => ({ id: status, label: labels.get(status) ?? formatStatusLabel(status) }));
+  }
+
+  /** Board swimlanes, grouped the same way as the epic and assignee sort modes. */
+  getBoardLanes(mode: BoardSwimlaneMode): BoardLane[] {
+    const visible = this.getVisibleBeads();
+    const orderedIds = visible.map((item) => item.id);
+    const fallback = mode === 'epic'
+      ? { key: 'ungrouped', label: t('No epic') }
+      : { key: 'all', label: t('All items') };
+    if (mode === 'none') {
+      return buildBoardLanes([], orderedIds, fallback);
+    }
+
+    const groups: Array<{ key: string; label: string; ids: string[] }> = [];
+    if (mode === 'epic') {
+      for (const section of this.createEpicTree(visible)) {
+        if (section instanceof EpicStatusSectionItem) {
+          for (const epicItem of section.epics) {
+            if (epicItem.epic) {
+              groups.push({
+                key: epicItem.epic.id,
+                label: `${epicItem.epic.id} · ${epicItem.epic.title}`,
+                ids: [epicItem.epic.id, ...epicItem.children.map((child) => child.id)],
+              });
+            }
+          }
+        } else if (section instanceof UngroupedSectionItem) {
+          groups.push({ ...fallback, ids: section.children.map((child) => child.id) });
+        }
+      }
+    } else {
+      for (const section of this.createAssigneeSections(visible)) {
+        groups.push({ key: section.key, label: section.assignee, ids: section.beads.map((bead) => bead.id) });
+      }
+    }
+    return buildBoardLanes(groups, orderedIds, fallback);
+  }
+
   private loadSortOrder(): void {
     const saved = this.context.workspaceState.get<Record<string, number>>('beady.manualSortOrder');
     if (saved) {
@@ -1610,8 +2096,9 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
   }
 
   private loadQuickFilter(): void {
-    const saved = this.context.workspaceState.get<QuickFilterPreset>('beady.quickFilterPreset');
-    this.quickFilter = normalizeQuickFilter(saved);
+    // Older versions persisted a single preset; it loads as a one-predicate set.
+    const saved = this.context.workspaceState.get<QuickFilter>('beady.quickFilterPreset');
+    this.quickFilter = normalizeQuickFilterSet(saved);
     if (saved && !this.quickFilter) {
       void vscode.window.showWarningMessage(t('Ignoring invalid quick filter; showing all items.'));
     }
@@ -1624,33 +2111,36 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     this.syncClosedVisibilityContext();
   }
 
-  private getQuickFilterLabel(preset?: QuickFilterPreset): string {
-    if (!preset) {
-      return t('All items');
-    }
-
-    if (preset.kind === 'status') {
-      switch (preset.value) {
-        case 'in_progress':
-          return t('In Progress');
-        case 'blocked':
-          return t('Blocked');
-        case 'closed':
-          return t('Closed');
-        default:
-          return t('Open');
-      }
-    }
-
-    if (preset.kind === 'label') {
-      return t('Has labels');
+  private getQuickFilterPredicateLabel(preset: QuickFilterPreset): string {
+    switch (preset.kind) {
+      case 'status':
+        return getWorkflowStatusOptions(getStatusLabels()).find((option) => option.value === preset.value)?.label
+          ?? formatStatusLabel(preset.value);
+      case 'label':
+        return preset.value ? t('Label: {0}', preset.value) : t('Has labels');
+      case 'stale':
+        return t('Stale in progress');
+      case 'assignee':
+        return preset.value ? t('Assignee: {0}', preset.value) : t('Unassigned');
+      case 'type':
+        return t('Type: {0}', preset.value);
+      case 'priority':
+        return t('Priority: P{0}', preset.value);
+      case 'epic':
+        return t('Epic: {0}', preset.value);
+      case 'worktree':
+        return t('Worktree: {0}', preset.value);
+      default:
+        return t('All items');
     }
+  }
 
-    if (preset.kind === 'stale') {
-      return t('Stale in progress');
+  private getQuickFilterLabel(filter?: QuickFilterSet): string {
+    if (!filter) {
+      return t('All items');
     }
-
-    return t('All items');
+    const joiner = filter.mode === 'or' ? ` ${t('OR')} ` : ` ${t('AND')} `;
+    return filter.predicates.map((preset) => this.getQuickFilterPredicateLabel(preset)).join(joiner);
   }
 
   private getQuickFilterDescription(preset?: QuickFilterPreset): string {
@@ -1658,28 +2148,37 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
       return t('Showing issues and epics without additional filtering');
     }
 
-    if (preset.kind === 'status') {
-      switch (preset.value) {
-        case 'in_progress':
-          return t('Only issues and epics that are currently in progress');
-        case 'blocked':
-          return t('Only items whose status is Blocked');
-        case 'closed':
-          return t('Closed or completed items');
-        default:
-          return t('Open items (issues and epics)');
-      }
-    }
-
-    if (preset.kind === 'label') {
-      return t('Items that have one or more labels');
-    }
-
-    if (preset.kind === 'stale') {
-      return t('In-progress items past the stale threshold');
+    switch (preset.kind) {
+      case 'status':
+        switch (preset.value) {
+          case 'open':
+            return t('Open items (issues and epics)');
+          case 'in_progress':
+            return t('Only issues and epics that are currently in progress');
+          case 'blocked':
+            return t('Only items whose status is Blocked');
+          case 'closed':
+            return t('Closed or completed items');
+          default:
+            return t('Items whose status is {0}', this.getQuickFilterPredicateLabel(preset));
+        }
+      case 'label':
+        return preset.value ? t('Items labeled {0}', preset.value) : t('Items that have one or more labels');
+      case 'stale':
+        return t('In-progress items past the stale threshold');
+      case 'assignee':
+        return preset.value ? t('Items assigned to {0}', preset.value) : t('Items without an assignee');
+      case 'type':
+        return t('Items of type {0}', preset.value);
+      case 'priority':
+        return t('Items with priority {0}', preset.value);
+      case 'epic':
+        return t('The epic and its child items');
+      case 'worktree':
+        return t('Items claimed from this worktree');
+      default:
+        return t('Showing issues and epics without additional filtering');
     }
-
-    return t('Showing issues and epics without additional filtering');
   }
 
   syncQuickFilterContext(): void {
@@ -1710,11 +2209,16 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     const quickFiltersEnabled = vscode.workspace.getConfiguration('beady').get<boolean>('quickFilters.enabled', false);
     const parts: string[] = [];
 
+    if (this.activeViewName) {
+      parts.push(t('View: {0}', this.activeViewName));
+    }
+
     parts.push(t('Sort: {0}', this.getSortModeLabel()));
 
     if (quickFiltersEnabled) {
-      const label = this.getQuickFilterLabel(this.quickFilter);
-      parts.push(t('Filter: {0}', label || t('All items')));
+      const chips = this.getQuickFilterChips().map((chip) => `[${chip.label}]`);
+      const joiner = this.quickFilter?.mode === 'or' ? ` ${t('OR')} ` : ` ${t('AND')} `;
+      parts.push(t('Filter: {0}', chips.length > 0 ? chips.join(joiner) : t('All items')));
     }
 
     parts.push(this.showClosed ? t('Closed visible') : t('Closed hidden'));
@@ -1730,13 +2234,12 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     if (!this.quickFilter) {
       return undefined;
     }
-    const value = 'value' in this.quickFilter && this.quickFilter.value ? `:${this.quickFilter.value}` : '';
-    return `${this.quickFilter.kind}${value}`;
+    return this.quickFilter.predicates.map(quickFilterKey).join(this.quickFilter.mode === 'or' ? '|' : '+');
   }
 
-  setQuickFilter(preset: QuickFilterPreset | undefined): void {
-    const normalized = normalizeQuickFilter(preset);
-    if (preset && !normalized) {
+  setQuickFilter(filter: QuickFilter | undefined): void {
+    const normalized = normalizeQuickFilterSet(filter);
+    if (filter && !normalized) {
       void vscode.window.showWarningMessage(t('Invalid quick filter selection; showing all items.'));
     }
     this.quickFilter = normalized;
@@ -1750,7 +2253,7 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     void vscode.window.showInformationMessage(t('Quick filters cleared'));
   }
 
-  getQuickFilter(): QuickFilterPreset | undefined {
+  getQuickFilter(): QuickFilterSet | undefined {
     return this.quickFilter;
   }
 
@@ -1766,6 +2269,39 @@ export class BeadsTreeDataProvider implements vscode.TreeDataProvider<TreeItemTy
     this.onDidChangeTreeDataEmitter.fire();
   }
 
+  /** Snapshot of the filter, sort, and collapse state a saved view restores. */
+  captureViewState(): SavedViewState {
+    const state: SavedViewState = {
+      query: this.searchQuery,
+      sortMode: this.sortMode,
+      showClosed: this.showClosed,
+      collapsedSections: Array.from(this.collapsedSections),
+    };
+    if (this.quickFilter) {
+      state.quickFilter = this.quickFilter;
+    }
+    return state;
+  }
+
+  applyViewState(state: SavedViewState, viewName?: string): void {
+    this.searchQuery = state.query;
+    this.quickFilter = normalizeQuickFilterSet(state.quickFilter);
+    void this.context.workspaceState.update('beady.quickFilterPreset', this.quickFilter);
+    this.sortMode = !this.sortPickerEnabled && state.sortMode === 'assignee' ? 'id' : state.sortMode;
+    this.saveSortMode();
+    this.showClosed = state.showClosed;
+    void this.context.workspaceState.update('beady.showClosed', this.showClosed);
+    this.collapsedSections = new Set(state.collapsedSections);
+    this.saveCollapsedSections();
+    this.activeViewName = viewName;
+
+    void vscode.commands.executeCommand('setContext', 'beady.activeSavedView', viewName ?? '');
+    this.syncClosedVisibilityContext();
+    this.updateQuickFilterUi();
+    this.updateBadge();
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
 
   getActiveWorkspaceId(): string {
     return this.activeWorkspaceId;
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { BeadItemData, toViewModel } from '../../utils/beads';
-import { WebviewCommand } from '../../views/issues/types';
+import { QuickFilterChip, WebviewCommand } from '../../views/issues/types';
 import { buildCodiconLink } from '../../views/shared/assets';
 import { CMD_OPEN_BEAD, CMD_OPEN_IN_PROGRESS_PANEL, CMD_PICK_SORT_MODE } from '../../constants/commands';
 
@@ -8,6 +8,8 @@ export interface BeadsDataSource {
   onDidChangeTreeData: vscode.Event<any>;
   getVisibleBeads(): BeadItemData[];
   getSortMode(): string;
+  getQuickFilterChips?(): QuickFilterChip[];
+  removeQuickFilterPredicate?(key: string): void;
 }
 
 export class BeadsWebviewProvider implements vscode.WebviewViewProvider {
@@ -16,6 +18,7 @@ export class BeadsWebviewProvider implements vscode.WebviewViewProvider {
     'open',
     'openInProgressPanel',
     'pickSort',
+    'removeFilter',
     'ready',
   ]);
 
@@ -81,6 +84,10 @@ export class BeadsWebviewProvider implements vscode.WebviewViewProvider {
           vscode.commands.executeCommand(CMD_PICK_SORT_MODE);
           break;
         }
+        case 'removeFilter': {
+          this._dataSource.removeQuickFilterPredicate?.(message.key);
+          break;
+        }
         case 'ready': {
           this._updateWebview();
           break;
@@ -101,7 +108,8 @@ export class BeadsWebviewProvider implements vscode.WebviewViewProvider {
       type: 'update',
       beads: viewModels,
       sortMode: this._dataSource.getSortMode(),
-      density: this._getDensity ? this._getDensity() : 'default'
+      density: this._getDensity ? this._getDensity() : 'default',
+      filters: this._dataSource.getQuickFilterChips?.() ?? []
     } as any);
   }
 
@@ -153,6 +161,10 @@ export class BeadsWebviewProvider implements vscode.WebviewViewProvider {
       return undefined;
     }
 
+    if (candidate.command === 'removeFilter' && (typeof candidate.key !== 'string' || candidate.key.length > 200)) {
+      return undefined;
+    }
+
     return candidate as WebviewCommand;
   }
 }
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { BeadItemData, findBeadIdsInBranch } from '../utils';
+import { resolveProjectRoot } from '../utils/workspace';
+import { getCurrentBranch } from '../services/git';
+
+const t = vscode.l10n.t;
+
+/** Status bar entry for the bead whose id appears in the checked-out branch name. */
+export class BranchBeadStatus implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private request = 0;
+
+  constructor(private readonly getItems: () => BeadItemData[]) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+
+  async update(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('beady');
+    const projectRoot = resolveProjectRoot(config);
+    if (!projectRoot || !config.get<boolean>('git.enabled', true)) {
+      this.item.hide();
+      return;
+    }
+    const request = ++this.request;
+    const branch = await getCurrentBranch(projectRoot);
+    if (request !== this.request) {
+      return;
+    }
+
+    const items = this.getItems();
+    const [id] = branch ? findBeadIdsInBranch(branch, items.map((bead) => bead.id)) : [];
+    const bead = id ? items.find((candidate) => candidate.id === id) : undefined;
+    if (!branch || !bead) {
+      this.item.hide();
+      return;
+    }
+    this.item.text = `$(git-branch) ${bead.id}`;
+    this.item.tooltip = t('{0}: {1} ({2})\nBranch: {3}', bead.id, bead.title, bead.status ?? 'open', branch);
+    this.item.command = { command: 'beady.openBead', title: t('Open bead'), arguments: [bead] };
+    this.item.show();
+  }
+}
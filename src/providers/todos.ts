@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { BeadItemData, findTodoComments } from '../utils';
+
+const t = vscode.l10n.t;
+
+/**
+ * CodeLens and quick fix on TODO/FIXME/HACK comments: unlinked comments offer to create a bead,
+ * linked ones (`TODO(beady-123):`) show the bead and open it.
+ */
+export class TodoLinkProvider implements vscode.CodeLensProvider, vscode.CodeActionProvider {
+  private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+  constructor(private readonly getItems: () => BeadItemData[]) {}
+
+  refresh(): void {
+    this.onDidChangeCodeLensesEmitter.fire();
+  }
+
+  dispose(): void {
+    this.onDidChangeCodeLensesEmitter.dispose();
+  }
+
+  private isEnabled(document: vscode.TextDocument): boolean {
+    return vscode.workspace.getConfiguration('beady', document.uri).get<boolean>('todos.codeLens', true);
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.isEnabled(document)) {
+      return [];
+    }
+    const items = this.getItems();
+    return findTodoComments(document.getText()).map((todo) => {
+      const range = new vscode.Range(todo.line, todo.start, todo.line, todo.end);
+      const bead = todo.beadId ? items.find((item) => item.id === todo.beadId) : undefined;
+      if (bead) {
+        return new vscode.CodeLens(range, {
+          title: `$(issues) ${bead.id}: ${bead.title} · ${bead.status ?? 'open'}`,
+          command: 'beady.openBead',
+          arguments: [bead],
+        });
+      }
+      return new vscode.CodeLens(range, {
+        title: t('$(add) Create bead from {0}', todo.keyword),
+        command: 'beady.createBeadFromTodo',
+        arguments: [document.uri, todo.line],
+      });
+    });
+  }
+
+  provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    const items = this.getItems();
+    const todo = findTodoComments(document.lineAt(range.start.line).text)[0];
+    if (!todo || (todo.beadId && items.some((item) => item.id === todo.beadId))) {
+      return [];
+    }
+    const action = new vscode.CodeAction(t('Create bead from {0}', todo.keyword), vscode.CodeActionKind.QuickFix);
+    action.command = {
+      title: action.title,
+      command: 'beady.createBeadFromTodo',
+      arguments: [document.uri, range.start.line],
+    };
+    return [action];
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BeadItemData, deriveWorktreeId, findWorktreeBeads } from '../utils';
+import { WorktreeEntry, filterStaleEntries, readRegistry, touchRegistryEntries, writeRegistry } from '../worktree';
+
+const t = vscode.l10n.t;
+
+/** Minutes without a registry update after which a worktree is shown as stale. */
+export function getWorktreeStaleMs(): number {
+  const minutes = vscode.workspace.getConfiguration('beady').get<number>('worktrees.staleMinutes', 5);
+  return Math.max(1, minutes) * 60 * 1000;
+}
+
+/** A registry entry, with the repository it belongs to so commands can act on it. */
+export class WorktreeItem extends vscode.TreeItem {
+  constructor(
+    readonly entry: WorktreeEntry,
+    readonly repoRoot: string,
+    readonly beads: BeadItemData[],
+    stale: boolean
+  ) {
+    const id = deriveWorktreeId(entry);
+    const isMain = entry.path === repoRoot;
+    super(
+      isMain ? t('{0} (main)', id) : id,
+      beads.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+    );
+    const missing = !fs.existsSync(entry.path);
+    const flags = [
+      entry.branch.replace(/^refs\/heads\//, ''),
+      entry.lockedBy ? t('locked by {0}', entry.lockedBy) : undefined,
+      stale ? t('stale') : undefined,
+      missing ? t('missing') : undefined,
+    ].filter(Boolean);
+    this.id = `worktree:${entry.path}`;
+    this.description = flags.join(' · ');
+    this.iconPath = new vscode.ThemeIcon(
+      missing || stale ? 'warning' : entry.lockedBy ? 'lock' : isMain ? 'repo' : 'git-branch'
+    );
+    this.contextValue = isMain ? 'worktreeMain' : entry.lockedBy ? 'worktreeLocked' : 'worktree';
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${id}**\n\n`);
+    tooltip.appendText(`${t('Path: {0}', entry.path)}\n`);
+    tooltip.appendText(`${t('Branch: {0}', entry.branch || t('(detached)'))}\n`);
+    if (entry.commit) {
+      tooltip.appendText(`${t('Commit: {0}', entry.commit.slice(0, 12))}\n`);
+    }
+    tooltip.appendText(`${t('Last seen: {0}', new Date(entry.lastSeen).toLocaleString())}\n`);
+    if (entry.lockedBy) {
+      tooltip.appendText(`${t('Locked by: {0}', entry.lockedBy)}\n`);
+    }
+    this.tooltip = tooltip;
+  }
+}
+
+/** A bead in progress in a worktree. */
+export class WorktreeBeadItem extends vscode.TreeItem {
+  constructor(readonly bead: BeadItemData, parentPath: string) {
+    super(bead.title, vscode.TreeItemCollapsibleState.None);
+    this.id = `worktree:${parentPath}:${bead.id}`;
+    this.description = bead.id;
+    this.tooltip = `${bead.id}: ${bead.title} · ${bead.status ?? 'open'}`;
+    this.iconPath = new vscode.ThemeIcon('issues');
+    this.contextValue = 'worktreeBead';
+    this.command = { command: 'beady.openBead', title: t('Open bead'), arguments: [bead] };
+  }
+}
+
+type WorktreeNode = WorktreeItem | WorktreeBeadItem;
+
+/**
+ * The "Worktrees" view: entries of `.beads/worktrees.json` with their lock owner, staleness and the
+ * beads in progress in each. Staleness is read from the registry as stored; each window only keeps
+ * its own worktree's entry fresh, through `heartbeat`.
+ */
+export class WorktreeTreeProvider implements vscode.TreeDataProvider<WorktreeNode> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<WorktreeNode | undefined>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private repoRoot: string | undefined;
+  private worktreePath: string | undefined;
+
+  constructor(private readonly getItems: () => BeadItemData[]) {}
+
+  /** `worktreePath` is the worktree this window works in, whose entry `heartbeat` keeps fresh. */
+  setRepoRoot(repoRoot: string | undefined, worktreePath?: string): void {
+    this.repoRoot = repoRoot;
+    this.worktreePath = worktreePath;
+    this.refresh();
+  }
+
+  refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  dispose(): void {
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  /**
+   * Mark this window's worktree as seen. Other workers' entries are left to their own windows, or
+   * to an explicit sync. The registry is rewritten at most once per half stale window, which also
+   * keeps its file watcher from refreshing in a loop.
+   */
+  heartbeat(): void {
+    const { repoRoot, worktreePath } = this;
+    const registry = repoRoot && worktreePath ? readRegistry(repoRoot) : null;
+    if (!repoRoot || !worktreePath || !registry) {
+      return;
+    }
+    const own = path.resolve(worktreePath);
+    const touched = touchRegistryEntries(registry, (entry) => path.resolve(entry.path) === own, getWorktreeStaleMs() / 2);
+    if (!touched) {
+      return;
+    }
+    try {
+      writeRegistry(repoRoot, touched);
+    } catch {
+      // A read-only checkout cannot record the heartbeat; the next one tries again.
+    }
+  }
+
+  getTreeItem(element: WorktreeNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: WorktreeNode): WorktreeNode[] {
+    if (element instanceof WorktreeItem) {
+      return element.beads.map((bead) => new WorktreeBeadItem(bead, element.entry.path));
+    }
+    if (element || !this.repoRoot) {
+      return [];
+    }
+    const entries = readRegistry(this.repoRoot)?.entries ?? [];
+    const fresh = new Set(filterStaleEntries(entries, getWorktreeStaleMs()));
+    const items = this.getItems();
+    const repoRoot = this.repoRoot;
+    return entries
+      .slice()
+      .sort((a, b) => Number(b.path === repoRoot) - Number(a.path === repoRoot) || deriveWorktreeId(a).localeCompare(deriveWorktreeId(b)))
+      .map((entry) => new WorktreeItem(entry, repoRoot, findWorktreeBeads(deriveWorktreeId(entry), items), !fresh.has(entry)));
+  }
+}
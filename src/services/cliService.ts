@@ -1,10 +1,12 @@
 import * as vscode from 'vscode';
 import { sanitizeDependencyId, collectCliErrorOutput, sanitizeErrorMessage, BdCliClient } from '../utils';
+import { BdCliSession, BdCliSessionPool } from '@beads/core';
 import type { CliExecutionPolicy, BdCliClientOptions } from '@beads/core';
 import { getCliExecutionConfig } from '../utils/config';
 import { findBdCommand } from '../providers/beads/store';
 import { currentWorktreeId } from '../worktree';
 import { ensureWorkspaceTrusted, runWorktreeGuard } from './runtimeEnvironment';
+import { acquireWriteLock } from './writeLock';
 
 const t = vscode.l10n.t;
 
@@ -17,6 +19,26 @@ async function enqueueCommand<T>(key: string, task: () => Promise<T>): Promise<T
   return next;
 }
 
+const sessionPool = new BdCliSessionPool((root, commandPath) => new BdCliSession({ commandPath, cwd: root }));
+
+/**
+ * Return the shared bd session for a project root when `beady.cli.useSession` is on.
+ */
+export function getBdSession(
+  projectRoot: string,
+  commandPath: string,
+  config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('beady')
+): BdCliSession | undefined {
+  if (!config.get<boolean>('cli.useSession', false)) {
+    return undefined;
+  }
+  return sessionPool.get(projectRoot, commandPath);
+}
+
+export function disposeBdSessions(): void {
+  sessionPool.disposeAll();
+}
+
 export interface BdCommandOptions {
   workspaceFolder?: vscode.WorkspaceFolder;
   requireGuard?: boolean;
@@ -46,13 +68,14 @@ export function resolveBeadId(input: any): string | undefined {
   return sanitizeDependencyId(input?.id ?? input?.bead?.id ?? input?.issueId);
 }
 
-export async function runBdCommand(args: string[], projectRoot: string, options: BdCommandOptions = {}): Promise<void> {
+/** Run a mutating bd command; resolves to its stdout (empty when `execCli` runs it). */
+export async function runBdCommand(args: string[], projectRoot: string, options: BdCommandOptions = {}): Promise<string> {
   const workspaceFolder = options.workspaceFolder ?? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectRoot));
   const requireGuard = options.requireGuard !== false;
   const guardRunner = options.guardRunner ?? runWorktreeGuard;
   const trustChecker = options.trustChecker ?? ensureWorkspaceTrusted;
 
-  await enqueueCommand(projectRoot, async () => {
+  return enqueueCommand(projectRoot, async () => {
     await trustChecker(workspaceFolder);
 
     if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0 && !workspaceFolder) {
@@ -69,38 +92,48 @@ export async function runBdCommand(args: string[], projectRoot: string, options:
     const cliPolicy = getCliExecutionConfig(config);
     const worktreeId = currentWorktreeId(projectRoot);
 
-    if (options.execCli) {
-      const execOptions: {
-        args: string[];
-        projectRoot: string;
-        cwd?: string;
-        commandPath: string;
-        policy: CliExecutionPolicy;
-        workspaceFolder?: vscode.WorkspaceFolder;
-        worktreeId?: string;
-      } = { args, projectRoot, cwd: projectRoot, commandPath, policy: cliPolicy };
-      if (workspaceFolder) {
-        execOptions.workspaceFolder = workspaceFolder;
+    // enqueueCommand only orders commands in this window; the write lock covers other windows and worktrees
+    const lease = await acquireWriteLock(projectRoot, config);
+    try {
+      if (options.execCli) {
+        const execOptions: {
+          args: string[];
+          projectRoot: string;
+          cwd?: string;
+          commandPath: string;
+          policy: CliExecutionPolicy;
+          workspaceFolder?: vscode.WorkspaceFolder;
+          worktreeId?: string;
+        } = { args, projectRoot, cwd: projectRoot, commandPath, policy: cliPolicy };
+        if (workspaceFolder) {
+          execOptions.workspaceFolder = workspaceFolder;
+        }
+        if (worktreeId) {
+          execOptions.worktreeId = worktreeId;
+        }
+        await options.execCli(execOptions);
+        return '';
       }
+
+      const clientOptions: BdCliClientOptions = {
+        commandPath,
+        cwd: projectRoot,
+        policy: cliPolicy,
+        workspacePaths: [projectRoot],
+      };
       if (worktreeId) {
-        execOptions.worktreeId = worktreeId;
+        clientOptions.worktreeId = worktreeId;
+      }
+      const session = getBdSession(projectRoot, commandPath, config);
+      if (session) {
+        clientOptions.session = session;
       }
-      await options.execCli(execOptions);
-      return;
-    }
-
-    const clientOptions: BdCliClientOptions = {
-      commandPath,
-      cwd: projectRoot,
-      policy: cliPolicy,
-      workspacePaths: [projectRoot],
-    };
-    if (worktreeId) {
-      clientOptions.worktreeId = worktreeId;
-    }
 
-    const client = new BdCliClient(clientOptions);
+      const client = new BdCliClient(clientOptions);
 
-    await client.run(args);
+      return (await client.run(args)).stdout;
+    } finally {
+      await lease?.release();
+    }
   });
 }
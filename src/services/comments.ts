@@ -0,0 +1,108 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+const HELP_TIMEOUT_MS = 5000;
+
+export type CommentChange =
+  | { kind: 'add'; text: string }
+  | { kind: 'edit'; commentId: number; text: string }
+  | { kind: 'delete'; commentId: number };
+
+export type RunCommentCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
+
+/** Comment subcommands beyond `add` that the installed bd offers; older releases have neither. */
+export interface CommentActions {
+  edit: boolean;
+  delete: boolean;
+}
+
+export const NO_COMMENT_ACTIONS: CommentActions = { edit: false, delete: false };
+
+const detectedActions = new Map<string, Promise<CommentActions>>();
+let currentActions: CommentActions = NO_COMMENT_ACTIONS;
+
+/** Read the subcommands listed under "Available Commands:" in `bd comments --help`. */
+export function parseCommentActions(help: string): CommentActions {
+  const commands = new Set<string>();
+  let inCommands = false;
+  for (const line of help.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inCommands = /^Available Commands:/i.test(line);
+      continue;
+    }
+    const match = inCommands ? line.match(/^\s+([a-z][\w-]*)(\s|$)/) : null;
+    if (match?.[1]) {
+      commands.add(match[1]);
+    }
+  }
+  return { edit: commands.has('edit'), delete: commands.has('delete') };
+}
+
+/**
+ * Ask bd once per configured command which comment subcommands it has. Failures count as none, so
+ * the panel only offers edit and delete when bd can run them.
+ */
+export function detectCommentActions(
+  commandPathSetting: string,
+  resolveCommand: (commandPathSetting: string) => Promise<string>,
+  cwd?: string
+): Promise<CommentActions> {
+  let pending = detectedActions.get(commandPathSetting);
+  if (!pending) {
+    pending = resolveCommand(commandPathSetting)
+      .then((commandPath) => execFileAsync(commandPath, ['comments', '--help'], { cwd, timeout: HELP_TIMEOUT_MS, encoding: 'utf8' }))
+      .then(({ stdout }) => parseCommentActions(stdout))
+      .catch((error) => {
+        console.warn('[comments] Could not read bd comments --help; hiding comment edit and delete', error);
+        return NO_COMMENT_ACTIONS;
+      });
+    detectedActions.set(commandPathSetting, pending);
+  }
+  return pending.then((actions) => (currentActions = actions));
+}
+
+/** The comment actions found by the last `detectCommentActions`; none until it has run. */
+export function getCommentActions(): CommentActions {
+  return currentActions;
+}
+
+/** bd arguments for a comment change; added or edited text is read from `textFile`. */
+export function buildCommentArgs(issueId: string, change: CommentChange, textFile = ''): string[] {
+  switch (change.kind) {
+    case 'add':
+      return ['comments', 'add', issueId, '--file', textFile];
+    case 'edit':
+      return ['comments', 'edit', issueId, String(change.commentId), '--file', textFile];
+    case 'delete':
+      return ['comments', 'delete', issueId, String(change.commentId)];
+  }
+}
+
+/**
+ * Apply a comment change through bd. Comment text goes through a temp file because bd arguments
+ * cannot contain newlines.
+ */
+export async function runCommentCommand(
+  issueId: string,
+  change: CommentChange,
+  projectRoot: string,
+  runCommand: RunCommentCommandFn
+): Promise<void> {
+  if (change.kind === 'delete') {
+    await runCommand(buildCommentArgs(issueId, change), projectRoot);
+    return;
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'beady-comment-'));
+  const file = path.join(dir, 'comment.md');
+  try {
+    await fs.writeFile(file, change.text, 'utf8');
+    await runCommand(buildCommentArgs(issueId, change, file), projectRoot);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,110 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import { GIT_LOG_FORMAT, GitLinkIndex, buildGitLinkIndex, parseBranchRefs, parseGitLog } from '../utils/gitLinks';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 15000;
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+const MAX_COMMITS = 5000;
+const CACHE_TTL_MS = 30000;
+
+let cached: { projectRoot: string; ids: string; at: number; index: GitLinkIndex } | undefined;
+
+async function runGit(args: string[], projectRoot: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: projectRoot,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: GIT_MAX_BUFFER,
+    encoding: 'utf8',
+  });
+  return stdout;
+}
+
+/** The checked-out branch, or undefined when HEAD is detached or this is not a git repository. */
+export async function getCurrentBranch(projectRoot: string): Promise<string | undefined> {
+  try {
+    const branch = (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], projectRoot)).trim();
+    return branch && branch !== 'HEAD' ? branch : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The main working tree of the repository `projectRoot` belongs to (itself, unless it is a linked worktree). */
+export async function getMainRepoRoot(projectRoot: string): Promise<string> {
+  const commonDir = (await runGit(['rev-parse', '--path-format=absolute', '--git-common-dir'], projectRoot)).trim();
+  return path.dirname(commonDir);
+}
+
+/** The top of the working tree `projectRoot` is in: the linked worktree, or the main checkout. */
+export async function getWorktreeRoot(projectRoot: string): Promise<string> {
+  return path.resolve((await runGit(['rev-parse', '--show-toplevel'], projectRoot)).trim());
+}
+
+/** Whether `ref` (for example `refs/heads/ada/beady-12`) exists. */
+export async function refExists(projectRoot: string, ref: string): Promise<boolean> {
+  try {
+    await runGit(['rev-parse', '--verify', '--quiet', ref], projectRoot);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** `git worktree add`: check out an existing branch, or create `branch` from `base` when one is given. */
+export async function addWorktree(repoRoot: string, worktreePath: string, branch: string, base?: string): Promise<void> {
+  const args = base ? ['worktree', 'add', '-b', branch, worktreePath, base] : ['worktree', 'add', worktreePath, branch];
+  await runGit(args, repoRoot);
+}
+
+/** `git worktree remove`; without `force`, git refuses when the worktree has local changes. */
+export async function removeWorktree(repoRoot: string, worktreePath: string, force = false): Promise<void> {
+  await runGit(['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath], repoRoot);
+}
+
+/** `git worktree prune`: forget worktrees whose directories are gone. */
+export async function pruneWorktrees(repoRoot: string): Promise<void> {
+  await runGit(['worktree', 'prune'], repoRoot);
+}
+
+/** `git worktree list --porcelain`, parsed by `registryFromPorcelain`. */
+export async function listWorktrees(repoRoot: string): Promise<string> {
+  return runGit(['worktree', 'list', '--porcelain'], repoRoot);
+}
+
+/** Check out `branch` in `worktreePath`, creating it at HEAD (for example from a detached HEAD) when it does not exist. */
+export async function checkoutBranch(worktreePath: string, branch: string): Promise<void> {
+  const exists = await refExists(worktreePath, `refs/heads/${branch}`);
+  await runGit(exists ? ['switch', branch] : ['switch', '-c', branch], worktreePath);
+}
+
+/** `git branch -m`, run in `worktreePath` so the branch checked out there can be renamed. */
+export async function renameBranch(worktreePath: string, from: string, to: string): Promise<void> {
+  await runGit(['branch', '-m', from, to], worktreePath);
+}
+
+/** Local and remote branch names already merged into `target`. */
+export async function listMergedBranches(projectRoot: string, target: string): Promise<Set<string>> {
+  const output = await runGit(['for-each-ref', '--merged', target, '--format=%(refname)', 'refs/heads', 'refs/remotes'], projectRoot);
+  return new Set(parseBranchRefs(output).map((branch) => branch.name));
+}
+
+/**
+ * Scan recent commits on all refs and every branch name for bead ids. Results are cached for a
+ * short time per project and id set, so reopening detail panels does not re-run git.
+ */
+export async function loadGitLinks(projectRoot: string, knownIds: ReadonlySet<string>, force = false): Promise<GitLinkIndex> {
+  const ids = Array.from(knownIds).sort().join(',');
+  if (!force && cached && cached.projectRoot === projectRoot && cached.ids === ids && Date.now() - cached.at < CACHE_TTL_MS) {
+    return cached.index;
+  }
+  const [log, refs] = await Promise.all([
+    runGit(['log', '--all', `--max-count=${MAX_COMMITS}`, `--format=${GIT_LOG_FORMAT}`], projectRoot),
+    runGit(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes'], projectRoot),
+  ]);
+  const index = buildGitLinkIndex(parseGitLog(log), parseBranchRefs(refs), knownIds);
+  cached = { projectRoot, ids, at: Date.now(), index };
+  return index;
+}
@@ -1,18 +1,19 @@
 import * as vscode from 'vscode';
-import { execFile } from 'child_process';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import { promisify } from 'util';
 import { findBdCommand } from '../providers/beads/store';
 import { warnIfDependencyEditingUnsupported as warnIfDependencyEditingUnsupportedCli } from '../utils';
+import { checkWorktreeGuard, describeGuardViolation, showGuardViolations } from './worktreeGuard';
 
-const execFileAsync = promisify(execFile);
 const t = vscode.l10n.t;
 const MIN_DEPENDENCY_CLI = '0.29.0';
 
 let guardWarningShown = false;
 let dependencyVersionWarned = false;
+const guardWarningsShown = new Set<string>();
 
+/**
+ * Check the worktree guard rules before a mutating bd command. Violations with severity "error"
+ * block the command; warnings are shown once per session.
+ */
 export async function runWorktreeGuard(projectRoot: string): Promise<void> {
   const config = vscode.workspace.getConfiguration('beady');
   const guardEnabled = config.get<boolean>('enableWorktreeGuard', true);
@@ -24,14 +25,27 @@ export async function runWorktreeGuard(projectRoot: string): Promise<void> {
     return;
   }
 
-  const guardPath = path.join(projectRoot, 'scripts', 'worktree-guard.sh');
-  try {
-    await fs.access(guardPath);
-  } catch {
+  const result = await checkWorktreeGuard(projectRoot, config);
+  if (!result) {
     return;
   }
+  const errors = result.violations.filter((violation) => violation.severity === 'error');
+  if (errors.length > 0) {
+    void showGuardViolations({ ...result, violations: errors }, true);
+    throw new Error(t('Worktree guard: {0}', errors.map(describeGuardViolation).join(' ')));
+  }
 
-  await execFileAsync(guardPath, { cwd: projectRoot });
+  const warnings = result.violations.filter((violation) => {
+    const key = `${violation.rule}:${violation.path}`;
+    if (guardWarningsShown.has(key)) {
+      return false;
+    }
+    guardWarningsShown.add(key);
+    return true;
+  });
+  if (warnings.length > 0) {
+    void showGuardViolations({ ...result, violations: warnings }, false);
+  }
 }
 
 export async function ensureWorkspaceTrusted(_workspaceFolder?: vscode.WorkspaceFolder): Promise<void> {
@@ -84,4 +98,5 @@ export async function warnIfDependencyEditingUnsupported(workspaceFolder?: vscod
 export function resetRuntimeEnvironmentWarnings(): void {
   guardWarningShown = false;
   dependencyVersionWarned = false;
+  guardWarningsShown.clear();
 }
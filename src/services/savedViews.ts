@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  SavedView,
+  SavedViewScope,
+  mergeSavedViews,
+  parseSavedViews,
+  serializeSavedViews,
+} from '../utils/savedViews';
+
+export const SHARED_VIEWS_FILE = path.join('.beads', 'views.json');
+const WORKSPACE_VIEWS_KEY = 'beady.savedViews';
+
+export interface SavedViewCollection {
+  views: SavedView[];
+  defaultView?: string;
+  errors: string[];
+}
+
+async function readSharedViews(projectRoot: string | undefined): Promise<ReturnType<typeof parseSavedViews>> {
+  if (!projectRoot) {
+    return { views: [], errors: [] };
+  }
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(projectRoot, SHARED_VIEWS_FILE), 'utf8');
+  } catch {
+    return { views: [], errors: [] };
+  }
+  try {
+    return parseSavedViews(JSON.parse(content), 'shared');
+  } catch (error) {
+    return { views: [], errors: [`${SHARED_VIEWS_FILE}: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+function readWorkspaceViews(context: vscode.ExtensionContext): ReturnType<typeof parseSavedViews> {
+  return parseSavedViews(context.workspaceState.get<unknown>(WORKSPACE_VIEWS_KEY), 'workspace');
+}
+
+/** Workspace views plus views shared through `.beads/views.json`. */
+export async function loadSavedViews(
+  context: vscode.ExtensionContext,
+  projectRoot: string | undefined
+): Promise<SavedViewCollection> {
+  const workspace = readWorkspaceViews(context);
+  const shared = await readSharedViews(projectRoot);
+  return { ...mergeSavedViews(workspace, shared), errors: [...workspace.errors, ...shared.errors] };
+}
+
+/** Insert or replace a view in its scope's storage. */
+export async function storeSavedView(
+  context: vscode.ExtensionContext,
+  projectRoot: string | undefined,
+  view: SavedView
+): Promise<void> {
+  await updateScope(context, projectRoot, view.scope, (views, defaultView) => ({
+    views: [...views.filter((existing) => existing.id !== view.id), view],
+    defaultView,
+  }));
+}
+
+export async function deleteSavedView(
+  context: vscode.ExtensionContext,
+  projectRoot: string | undefined,
+  view: SavedView
+): Promise<void> {
+  await updateScope(context, projectRoot, view.scope, (views, defaultView) => ({
+    views: views.filter((existing) => existing.id !== view.id),
+    defaultView: defaultView === view.id ? undefined : defaultView,
+  }));
+}
+
+/** Set (or clear, with undefined) the default view for this workspace. */
+export async function setDefaultSavedView(context: vscode.ExtensionContext, viewId: string | undefined): Promise<void> {
+  const { views } = readWorkspaceViews(context);
+  await context.workspaceState.update(WORKSPACE_VIEWS_KEY, serializeSavedViews(views, viewId));
+}
+
+async function updateScope(
+  context: vscode.ExtensionContext,
+  projectRoot: string | undefined,
+  scope: SavedViewScope,
+  update: (views: SavedView[], defaultView: string | undefined) => { views: SavedView[]; defaultView: string | undefined }
+): Promise<void> {
+  if (scope === 'workspace') {
+    const current = readWorkspaceViews(context);
+    const next = update(current.views, current.defaultView);
+    await context.workspaceState.update(WORKSPACE_VIEWS_KEY, serializeSavedViews(next.views, next.defaultView));
+    return;
+  }
+
+  if (!projectRoot) {
+    throw new Error('Shared views need a project root.');
+  }
+  const shared = await readSharedViews(projectRoot);
+  const next = update(shared.views, shared.defaultView);
+  const filePath = path.join(projectRoot, SHARED_VIEWS_FILE);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(serializeSavedViews(next.views, next.defaultView), null, 2)}\n`, 'utf8');
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BeadTemplate, parseBeadTemplate } from '../utils/templates';
+
+export const TEMPLATES_DIR = path.join('.beads', 'templates');
+
+/** Templates from `.beads/templates/*.md` and `*.json`, sorted by name. Unreadable files are reported, not thrown. */
+export async function loadBeadTemplates(projectRoot: string | undefined): Promise<{ templates: BeadTemplate[]; errors: string[] }> {
+  if (!projectRoot) {
+    return { templates: [], errors: [] };
+  }
+  const directory = path.join(projectRoot, TEMPLATES_DIR);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch {
+    return { templates: [], errors: [] };
+  }
+
+  const templates: BeadTemplate[] = [];
+  const errors: string[] = [];
+  for (const fileName of entries.sort()) {
+    if (!/\.(md|json)$/i.test(fileName)) {
+      continue;
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(directory, fileName), 'utf8');
+    } catch (error) {
+      errors.push(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const parsed = parseBeadTemplate(fileName, content);
+    if (parsed?.template) {
+      templates.push(parsed.template);
+    } else if (parsed?.error) {
+      errors.push(parsed.error);
+    }
+  }
+  templates.sort((a, b) => a.name.localeCompare(b.name));
+  return { templates, errors };
+}
@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type RunTextCommandFn = (args: string[], projectRoot: string) => Promise<string | void>;
+
+/** True when `text` cannot be passed as a bd argument because it spans lines. */
+export function isMultilineText(text: string | undefined): boolean {
+  return !!text && /[\r\n]/.test(text);
+}
+
+/**
+ * Run a bd command that carries free text. bd arguments cannot contain newlines, so multi-line
+ * text is written to a temp file and `buildArgs` receives its path; single-line text runs as is.
+ * Resolves to whatever `runCommand` does (bd's stdout for runners that capture it).
+ */
+export async function runWithTextFile(
+  text: string | undefined,
+  buildArgs: (textFile?: string) => string[],
+  projectRoot: string,
+  runCommand: RunTextCommandFn
+): Promise<string | void> {
+  return runWithTextFiles({ text }, (files) => buildArgs(files.text), projectRoot, runCommand);
+}
+
+/**
+ * `runWithTextFile` for commands carrying several text fields: each multi-line field gets its own
+ * temp file, and `buildArgs` receives the paths by field name.
+ */
+export async function runWithTextFiles<K extends string>(
+  texts: Partial<Record<K, string | undefined>>,
+  buildArgs: (textFiles: Partial<Record<K, string>>) => string[],
+  projectRoot: string,
+  runCommand: RunTextCommandFn
+): Promise<string | void> {
+  const multiline = (Object.keys(texts) as K[]).filter((field) => isMultilineText(texts[field]));
+  if (multiline.length === 0) {
+    return runCommand(buildArgs({}), projectRoot);
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'beady-text-'));
+  try {
+    const files: Partial<Record<K, string>> = {};
+    for (const field of multiline) {
+      const file = path.join(dir, `${field}.md`);
+      await fs.writeFile(file, texts[field] ?? '', 'utf8');
+      files[field] = file;
+    }
+    return await runCommand(buildArgs(files), projectRoot);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StatusWorkflow, parseStatusWorkflow, setStatusWorkflow, useStatusWorkflow } from '../utils/status';
+
+const t = vscode.l10n.t;
+
+export const WORKFLOW_FILE = path.join('.beads', 'workflow.json');
+
+const lastWarnings = new Map<string, string>();
+
+export interface WorkflowLoadResult {
+  workflow?: StatusWorkflow;
+  source: 'settings' | 'file' | 'default';
+  errors: string[];
+}
+
+/**
+ * Resolve the status workflow for a project. `beady.workflow` in settings wins over
+ * `.beads/workflow.json`; with neither, the built-in workflow applies.
+ */
+export async function loadStatusWorkflow(
+  projectRoot: string | undefined,
+  config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('beady')
+): Promise<WorkflowLoadResult> {
+  const fromSettings = config.get<unknown>('workflow');
+  if (fromSettings && typeof fromSettings === 'object' && Object.keys(fromSettings).length > 0) {
+    const { workflow, errors } = parseStatusWorkflow(fromSettings);
+    return workflow ? { workflow, source: 'settings', errors } : { source: 'default', errors };
+  }
+
+  if (!projectRoot) {
+    return { source: 'default', errors: [] };
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(projectRoot, WORKFLOW_FILE), 'utf8');
+  } catch {
+    return { source: 'default', errors: [] };
+  }
+
+  try {
+    const { workflow, errors } = parseStatusWorkflow(JSON.parse(content));
+    return workflow ? { workflow, source: 'file', errors } : { source: 'default', errors };
+  } catch (error) {
+    return { source: 'default', errors: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+/**
+ * Load the workflow of a project root and make it the active one, warning once per distinct
+ * problem in that project.
+ */
+export async function applyStatusWorkflow(
+  projectRoot: string | undefined,
+  config?: vscode.WorkspaceConfiguration
+): Promise<WorkflowLoadResult> {
+  const root = projectRoot ?? '';
+  const result = await loadStatusWorkflow(projectRoot, config);
+  setStatusWorkflow(result.workflow, root);
+  useStatusWorkflow(root);
+
+  const warning = result.errors.join('; ');
+  if (warning && warning !== lastWarnings.get(root)) {
+    void vscode.window.showWarningMessage(t('Beady status workflow has problems: {0}', warning));
+  }
+  if (warning) {
+    lastWarnings.set(root, warning);
+  } else {
+    lastWarnings.delete(root);
+  }
+  return result;
+}
+
+/** Call `onChange` whenever `.beads/workflow.json` under the project root is created, edited or deleted. */
+export function watchStatusWorkflow(projectRoot: string, onChange: () => void): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(projectRoot, WORKFLOW_FILE));
+  const subscriptions = [watcher, watcher.onDidChange(onChange), watcher.onDidCreate(onChange), watcher.onDidDelete(onChange)];
+  return { dispose: () => subscriptions.forEach((disposable) => disposable.dispose()) };
+}
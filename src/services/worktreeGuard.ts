@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import {
+  DEFAULT_BRANCH_PATTERN,
+  DEFAULT_GUARD_OPTIONS,
+  GUARD_RULE_IDS,
+  GuardFix,
+  GuardRuleId,
+  GuardSeverity,
+  GuardViolation,
+  WorktreeGuardOptions,
+  evaluateWorktreeGuard,
+} from '../worktreeGuard';
+import { readRegistry, registryFromPorcelain, syncRegistry } from '../worktree';
+import { formatError } from '../utils';
+import { checkoutBranch, getMainRepoRoot, listWorktrees, renameBranch } from './git';
+
+const t = vscode.l10n.t;
+const SEVERITIES: GuardSeverity[] = ['error', 'warning', 'off'];
+
+export interface WorktreeGuardResult {
+  repoRoot: string;
+  violations: GuardViolation[];
+}
+
+/** Rule severities and branch pattern from `beady.worktreeGuard.*`, falling back to the defaults. */
+export function readGuardOptions(config: vscode.WorkspaceConfiguration): WorktreeGuardOptions {
+  const configured = config.get<Partial<Record<string, unknown>>>('worktreeGuard.rules', {}) ?? {};
+  const rules = { ...DEFAULT_GUARD_OPTIONS.rules };
+  GUARD_RULE_IDS.forEach((rule) => {
+    const value = configured[rule];
+    if (typeof value === 'string' && (SEVERITIES as string[]).includes(value)) {
+      rules[rule] = value as GuardSeverity;
+    }
+  });
+
+  const pattern = config.get<string>('worktreeGuard.branchPattern', DEFAULT_BRANCH_PATTERN);
+  let branchPattern = DEFAULT_GUARD_OPTIONS.branchPattern;
+  try {
+    branchPattern = new RegExp(pattern || DEFAULT_BRANCH_PATTERN);
+  } catch (error) {
+    console.warn('[beads] invalid beady.worktreeGuard.branchPattern, using the default', error);
+  }
+  return { rules, branchPattern };
+}
+
+/**
+ * Evaluate the guard rules for mutations run from `projectRoot`. Returns undefined outside a git
+ * repository, where there are no worktrees to guard.
+ */
+export async function checkWorktreeGuard(
+  projectRoot: string,
+  config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('beady')
+): Promise<WorktreeGuardResult | undefined> {
+  let repoRoot: string;
+  try {
+    repoRoot = await getMainRepoRoot(projectRoot);
+  } catch {
+    return undefined;
+  }
+  const worktrees = registryFromPorcelain(repoRoot, await listWorktrees(repoRoot)).entries;
+  const violations = evaluateWorktreeGuard(
+    { repoRoot, projectRoot, worktrees, registry: readRegistry(repoRoot) },
+    readGuardOptions(config)
+  );
+  return { repoRoot, violations };
+}
+
+const RULE_LABELS: Record<GuardRuleId, () => string> = {
+  canonicalPath: () => t('Non-canonical worktree'),
+  branchName: () => t('Branch does not match worktree'),
+  duplicate: () => t('Duplicate worktrees'),
+  mainCheckout: () => t('Main checkout'),
+  lockOwner: () => t('Worktree locked'),
+};
+
+/** One-line description of a violation. */
+export function describeGuardViolation(violation: GuardViolation): string {
+  switch (violation.rule) {
+    case 'canonicalPath':
+      return t('{0} is not under ../worktrees/<worker>/<task>.', violation.path);
+    case 'branchName':
+      return violation.actual
+        ? t('{0} is on {1}; expected {2}.', violation.path, violation.actual, violation.expected ?? '')
+        : t('{0} has no branch checked out; expected {1}.', violation.path, violation.expected ?? '');
+    case 'duplicate':
+      return t('{0} has more than one worktree: {1}.', violation.id ?? '', violation.actual ?? '');
+    case 'mainCheckout':
+      return t('Changes should be made from a task worktree, not the main checkout {0}.', violation.path);
+    case 'lockOwner':
+      return t('{0} is locked by {1}.', violation.path, violation.actual ?? '');
+  }
+}
+
+function describeFix(fix: GuardFix): string {
+  switch (fix.kind) {
+    case 'syncRegistry':
+      return t('Sync Worktree Registry');
+    case 'renameBranch':
+      return t('Rename Branch to {0}', fix.to);
+    case 'checkoutBranch':
+      return t('Check Out Branch {0}', fix.branch);
+    case 'releaseLock':
+      return t('Release Lock');
+    case 'removeWorktree':
+      return t('Remove {0}', fix.entry.path);
+    case 'startWork':
+      return t('Start Work in Worktree');
+  }
+}
+
+/** Apply a quick fix; the Worktrees view commands handle their own confirmation. */
+export async function applyGuardFix(fix: GuardFix, repoRoot: string): Promise<void> {
+  try {
+    switch (fix.kind) {
+      case 'syncRegistry':
+        syncRegistry(repoRoot);
+        return;
+      case 'renameBranch':
+        await renameBranch(fix.worktreePath, fix.from, fix.to);
+        syncRegistry(repoRoot);
+        return;
+      case 'checkoutBranch':
+        await checkoutBranch(fix.worktreePath, fix.branch);
+        syncRegistry(repoRoot);
+        return;
+      case 'releaseLock':
+        await vscode.commands.executeCommand('beady.worktrees.releaseLock', { entry: fix.entry, repoRoot });
+        return;
+      case 'removeWorktree':
+        await vscode.commands.executeCommand('beady.worktrees.prune', { entry: fix.entry, repoRoot });
+        return;
+      case 'startWork':
+        await vscode.commands.executeCommand('beady.startWork');
+        return;
+    }
+  } catch (error) {
+    void vscode.window.showErrorMessage(formatError(t('Worktree guard fix failed'), error));
+  }
+}
+
+type ViolationPick = vscode.QuickPickItem & { violation?: GuardViolation; fix?: GuardFix };
+
+/** List violations with their fixes and apply the one the user picks. */
+export async function pickGuardFix(result: WorktreeGuardResult): Promise<void> {
+  const picks: ViolationPick[] = [];
+  result.violations.forEach((violation) => {
+    picks.push({
+      label: `$(${violation.severity === 'error' ? 'error' : 'warning'}) ${RULE_LABELS[violation.rule]()}`,
+      detail: describeGuardViolation(violation),
+      violation,
+    });
+    violation.fixes.forEach((fix) => picks.push({ label: `$(lightbulb) ${describeFix(fix)}`, fix }));
+  });
+  const pick = await vscode.window.showQuickPick(picks, { placeHolder: t('Pick a fix to apply') });
+  if (pick?.fix) {
+    await applyGuardFix(pick.fix, result.repoRoot);
+  }
+}
+
+/** Notify about violations, offering the first one's fixes directly and the rest through a picker. */
+export async function showGuardViolations(result: WorktreeGuardResult, blocked: boolean): Promise<void> {
+  const [first] = result.violations;
+  if (!first) {
+    return;
+  }
+  const message = blocked
+    ? t('Worktree guard blocked the change: {0}', describeGuardViolation(first))
+    : t('Worktree guard: {0}', describeGuardViolation(first));
+  const showAll = t('Show All ({0})', result.violations.length);
+  const fixLabels = first.fixes.map(describeFix);
+  const actions = result.violations.length > 1 ? [...fixLabels, showAll] : fixLabels;
+  const choice = blocked
+    ? await vscode.window.showErrorMessage(message, ...actions)
+    : await vscode.window.showWarningMessage(message, ...actions);
+  if (choice === showAll) {
+    await pickGuardFix(result);
+    return;
+  }
+  const fix = first.fixes[fixLabels.indexOf(choice ?? '')];
+  if (fix) {
+    await applyGuardFix(fix, result.repoRoot);
+  }
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DEFAULT_LOCK_TIMEOUT_MS, WRITE_LOCK_FILE, WriteLock, WriteLockHolder, WriteLockLease, WriteLockTimeoutError } from '@beads/core';
+import { currentWorktreeId } from '../worktree';
+import { getMainRepoRoot, getWorktreeRoot } from './git';
+
+const t = vscode.l10n.t;
+
+const lockRoots = new Map<string, string>();
+let waitingItem: vscode.StatusBarItem | undefined;
+
+/** "ada/beady-12 (pid 4242 on devbox)" */
+export function describeLockHolder(holder: WriteLockHolder): string {
+  return holder.pid > 0 ? t('{0} (pid {1} on {2})', holder.owner, holder.pid, holder.host) : holder.owner;
+}
+
+/**
+ * The directory whose `.beads` the lock lives in. Worktrees share the main repository's `.beads`,
+ * so the project's place inside its worktree is mapped onto the main checkout (`<worktree>/app`
+ * becomes `<main>/app`). When that directory has no `.beads`, the project's own is used.
+ */
+export async function resolveLockRoot(projectRoot: string): Promise<string> {
+  const cached = lockRoots.get(projectRoot);
+  if (cached) {
+    return cached;
+  }
+  const root = await mapOntoMainRepo(projectRoot).catch(() => projectRoot);
+  lockRoots.set(projectRoot, root);
+  return root;
+}
+
+async function mapOntoMainRepo(projectRoot: string): Promise<string> {
+  // git reports real paths, so compare against the project's real path too.
+  const [realRoot, worktreeRoot, mainRoot] = await Promise.all([
+    fs.realpath(projectRoot),
+    getWorktreeRoot(projectRoot),
+    getMainRepoRoot(projectRoot),
+  ]);
+  const mapped = path.join(mainRoot, path.relative(worktreeRoot, realRoot));
+  try {
+    await fs.access(path.join(mapped, '.beads'));
+    return mapped;
+  } catch {
+    return projectRoot;
+  }
+}
+
+function showWaiting(holder: WriteLockHolder): void {
+  waitingItem ??= vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+  waitingItem.text = `$(lock) ${t('Waiting for {0}', holder.owner)}`;
+  waitingItem.tooltip = t(
+    'Beads write lock held by {0} since {1}',
+    describeLockHolder(holder),
+    new Date(holder.acquiredAt).toLocaleTimeString()
+  );
+  waitingItem.show();
+}
+
+function hideWaiting(): void {
+  waitingItem?.hide();
+}
+
+/**
+ * Take the cross-worktree write lock before a bd mutation, showing who holds it while waiting.
+ * Returns undefined when locking is off or there is no `.beads` directory to protect.
+ */
+export async function acquireWriteLock(
+  projectRoot: string,
+  config: vscode.WorkspaceConfiguration
+): Promise<WriteLockLease | undefined> {
+  if (!config.get<boolean>('cli.writeLock', true)) {
+    return undefined;
+  }
+  const beadsDir = path.join(await resolveLockRoot(projectRoot), '.beads');
+  try {
+    await fs.access(beadsDir);
+  } catch {
+    return undefined;
+  }
+
+  const lock = new WriteLock(path.join(beadsDir, WRITE_LOCK_FILE), {
+    owner: currentWorktreeId(projectRoot) ?? path.basename(projectRoot),
+    timeoutMs: config.get<number>('cli.writeLockTimeoutMs', DEFAULT_LOCK_TIMEOUT_MS),
+    onWait: showWaiting,
+  });
+  try {
+    return await lock.acquire();
+  } catch (error) {
+    if (error instanceof WriteLockTimeoutError) {
+      throw new Error(
+        error.holder
+          ? t('Timed out waiting for the beads write lock held by {0}', describeLockHolder(error.holder))
+          : t('Timed out waiting for the beads write lock')
+      );
+    }
+    throw error;
+  } finally {
+    hideWaiting();
+  }
+}
+
+export function disposeWriteLockIndicator(): void {
+  waitingItem?.dispose();
+  waitingItem = undefined;
+}
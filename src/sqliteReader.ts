@@ -0,0 +1,233 @@
+/**
+ * Embedded, read-only SQLite access for the beads database.
+ *
+ * SQLite runs in-process (sql.js, compiled to WebAssembly), so no sqlite3 binary is needed. sql.js
+ * works on an in-memory image of the database, which is built from the database file plus the
+ * committed frames of its write-ahead log. Each database keeps one open image that is rebuilt only
+ * when the database or WAL file changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+const WAL_HEADER_BYTES = 32;
+const WAL_FRAME_HEADER_BYTES = 24;
+const WAL_MAGIC = 0x377f0682;
+
+export type SqlParams = SqlValue[];
+
+/** Failure to read the database file, with the fs error code (ENOENT, EACCES, ...). */
+export class SqliteReadError extends Error {
+  constructor(message: string, public readonly code: string | undefined) {
+    super(message);
+    this.name = 'SqliteReadError';
+  }
+}
+
+/**
+ * WAL checksum over big- or little-endian 32-bit words, continuing from `seed`.
+ * See https://www.sqlite.org/fileformat2.html#walformat
+ */
+export function walChecksum(data: Uint8Array, bigEndian: boolean, seed: [number, number] = [0, 0]): [number, number] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let [s0, s1] = seed;
+  for (let offset = 0; offset + 8 <= data.byteLength; offset += 8) {
+    s0 = (s0 + view.getUint32(offset, !bigEndian) + s1) >>> 0;
+    s1 = (s1 + view.getUint32(offset + 4, !bigEndian) + s0) >>> 0;
+  }
+  return [s0, s1];
+}
+
+/**
+ * Apply the committed frames of a write-ahead log to a database image. Frames after the last
+ * commit, from an earlier WAL generation (other salts) or with a bad checksum are ignored, so the
+ * result is the last committed state. The header is switched to rollback-journal mode so the image
+ * opens without a WAL.
+ */
+export function applyWal(database: Uint8Array, wal: Uint8Array | undefined): Uint8Array {
+  const image = database.slice();
+  if (!wal || wal.length < WAL_HEADER_BYTES) {
+    return markRollbackJournal(image);
+  }
+  const header = new DataView(wal.buffer, wal.byteOffset, WAL_HEADER_BYTES);
+  const magic = header.getUint32(0);
+  if ((magic & 0xfffffffe) !== WAL_MAGIC) {
+    return markRollbackJournal(image);
+  }
+  const bigEndian = (magic & 1) === 1;
+  const pageSize = header.getUint32(8);
+  const salt1 = header.getUint32(16);
+  const salt2 = header.getUint32(20);
+  let checksum = walChecksum(wal.subarray(0, 24), bigEndian);
+  if (checksum[0] !== header.getUint32(24) || checksum[1] !== header.getUint32(28)) {
+    return markRollbackJournal(image);
+  }
+
+  const pending = new Map<number, Uint8Array>();
+  const committed = new Map<number, Uint8Array>();
+  let committedPages = 0;
+  const frameSize = WAL_FRAME_HEADER_BYTES + pageSize;
+  for (let offset = WAL_HEADER_BYTES; offset + frameSize <= wal.length; offset += frameSize) {
+    const frame = new DataView(wal.buffer, wal.byteOffset + offset, WAL_FRAME_HEADER_BYTES);
+    if (frame.getUint32(8) !== salt1 || frame.getUint32(12) !== salt2) {
+      break;
+    }
+    const page = wal.subarray(offset + WAL_FRAME_HEADER_BYTES, offset + frameSize);
+    checksum = walChecksum(page, bigEndian, walChecksum(wal.subarray(offset, offset + 8), bigEndian, checksum));
+    if (checksum[0] !== frame.getUint32(16) || checksum[1] !== frame.getUint32(20)) {
+      break;
+    }
+    pending.set(frame.getUint32(0), page);
+    const sizeAfterCommit = frame.getUint32(4);
+    if (sizeAfterCommit > 0) {
+      pending.forEach((data, pageNumber) => committed.set(pageNumber, data));
+      pending.clear();
+      committedPages = sizeAfterCommit;
+    }
+  }
+  if (committedPages === 0) {
+    return markRollbackJournal(image);
+  }
+
+  const result = new Uint8Array(committedPages * pageSize);
+  result.set(image.subarray(0, Math.min(image.length, result.length)));
+  committed.forEach((data, pageNumber) => {
+    if (pageNumber >= 1 && pageNumber <= committedPages) {
+      result.set(data, (pageNumber - 1) * pageSize);
+    }
+  });
+  return markRollbackJournal(result);
+}
+
+/** File format read/write versions 2 mean WAL; 1 opens the image as an ordinary database. */
+function markRollbackJournal(image: Uint8Array): Uint8Array {
+  if (image.length >= 100 && (image[18] === 2 || image[19] === 2)) {
+    image[18] = 1;
+    image[19] = 1;
+  }
+  return image;
+}
+
+let engine: Promise<SqlJsStatic> | undefined;
+
+/** The bundled extension ships the WASM next to dist/extension.js; tests load it from node_modules. */
+function locateWasm(file: string): string {
+  const bundled = path.join(__dirname, file);
+  return fs.existsSync(bundled) ? bundled : require.resolve(`sql.js/dist/${file}`);
+}
+
+export function loadSqlEngine(): Promise<SqlJsStatic> {
+  engine ??= initSqlJs({ locateFile: locateWasm }).catch((error: unknown) => {
+    engine = undefined;
+    throw error;
+  });
+  return engine;
+}
+
+function readOptional(file: string): Buffer | undefined {
+  try {
+    return fs.readFileSync(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function fileSignature(file: string): string {
+  try {
+    const stats = fs.statSync(file);
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return '-';
+  }
+}
+
+/** One read-only database image, reloaded when the database or its WAL changes on disk. */
+export class SqliteReader {
+  private database: Database | undefined;
+  private signature: string | undefined;
+  private loading: Promise<Database> | undefined;
+
+  constructor(readonly dbPath: string) {}
+
+  private currentSignature(): string {
+    return `${fileSignature(this.dbPath)}|${fileSignature(`${this.dbPath}-wal`)}`;
+  }
+
+  /** Concurrent queries share one load, so none of them is left holding a closed image. */
+  private open(): Promise<Database> {
+    const signature = this.currentSignature();
+    if (this.database && signature === this.signature) {
+      return Promise.resolve(this.database);
+    }
+    this.loading ??= this.load(signature).finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  private async load(signature: string): Promise<Database> {
+    const SQL = await loadSqlEngine();
+    let data: Buffer;
+    try {
+      data = fs.readFileSync(this.dbPath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new SqliteReadError(`Cannot read ${this.dbPath}: ${code ?? String(error)}`, code);
+    }
+    const wal = readOptional(`${this.dbPath}-wal`);
+    this.close();
+    this.database = new SQL.Database(applyWal(data, wal));
+    this.signature = signature;
+    return this.database;
+  }
+
+  /** Whether the database or WAL changed since the image was loaded. */
+  hasChanged(): boolean {
+    return this.signature !== this.currentSignature();
+  }
+
+  /** Run a parameterized query and return its rows as objects keyed by column name. */
+  async query<T extends object>(sql: string, params: SqlParams = []): Promise<T[]> {
+    const database = await this.open();
+    const statement = database.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  close(): void {
+    this.database?.close();
+    this.database = undefined;
+    this.signature = undefined;
+  }
+}
+
+const readers = new Map<string, SqliteReader>();
+
+/** The shared reader for a database file. */
+export function getSqliteReader(dbPath: string): SqliteReader {
+  const key = path.resolve(dbPath);
+  let reader = readers.get(key);
+  if (!reader) {
+    reader = new SqliteReader(key);
+    readers.set(key, reader);
+  }
+  return reader;
+}
+
+export function closeSqliteReaders(): void {
+  readers.forEach((reader) => reader.close());
+  readers.clear();
+}
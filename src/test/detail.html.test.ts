@@ -31,6 +31,12 @@ const strings = {
   notesLabel: 'Notes',
   acceptanceLabel: 'Acceptance',
   labelsLabel: 'Labels',
+  codeAnchorsLabel: 'Code',
+  commitsLabel: 'Commits',
+  branchesLabel: 'Branches',
+  noCommitsLabel: 'No commits',
+  noBranchesLabel: 'No branches',
+  mergedLabel: 'merged',
   dependencyTreeTitle: 'Deps',
   dependencyTreeUpstream: 'Upstream',
   dependencyTreeDownstream: 'Downstream',
@@ -64,4 +70,12 @@ describe('getBeadDetailHtml', () => {
     assert.ok(html.includes('bead-chip type type-epic'), 'type chip missing');
     assert.ok(html.includes('bead-chip priority priority-0'), 'priority chip missing');
   });
+
+  it('lists source anchors as reveal links', () => {
+    const anchored = { ...sample, raw: { ...sample.raw, description: 'desc\n\nSource: src/a.ts:3-5' } };
+    const html = getBeadDetailHtml(anchored, [], fakeWebview, 'nonce', strings, 'en');
+    assert.ok(html.includes('data-path="src/a.ts" data-start="3" data-end="5"'), 'anchor link missing');
+    assert.ok(html.includes('src/a.ts:L3-5'));
+    assert.ok(!getBeadDetailHtml(sample, [], fakeWebview, 'nonce', strings, 'en').includes('class="anchor-link"'));
+  });
 });
@@ -57,7 +57,7 @@ suite('Filter & assignee flows', () => {
     await provider.applyQuickFilterPreset();
 
     const active = provider.getQuickFilter();
-    assert.ok(active && active.kind === 'status' && active.value === 'in_progress');
+    assert.deepStrictEqual(active, { mode: 'and', predicates: [{ kind: 'status', value: 'in_progress' }] });
 
     const visibleIds = provider.getVisibleBeads().map((b: BeadItemData) => b.id);
     assert.deepStrictEqual(visibleIds, ['ip-1']);
@@ -100,11 +100,18 @@ describe('lazy activation lifecycle', () => {
         }),
         onDidChangeConfiguration: () => ({ dispose: () => undefined }),
         onDidChangeWorkspaceFolders: () => ({ dispose: () => undefined }),
+        onDidChangeTextDocument: () => ({ dispose: () => undefined }),
+        onDidSaveTextDocument: () => ({ dispose: () => undefined }),
+        onDidCloseTextDocument: () => ({ dispose: () => undefined }),
       },
       window: {
         showInformationMessage: () => undefined,
         showErrorMessage: () => undefined,
         showWarningMessage: () => undefined,
+        visibleTextEditors: [],
+        onDidChangeActiveTextEditor: () => ({ dispose: () => undefined }),
+        onDidChangeVisibleTextEditors: () => ({ dispose: () => undefined }),
+        onDidChangeWindowState: () => ({ dispose: () => undefined }),
         createTreeView: () => {
           counters.tree += 1;
           const visibility = new EventEmitter<{ visible: boolean }>();
@@ -122,6 +129,14 @@ describe('lazy activation lifecycle', () => {
         createStatusBarItem: () => ({ show: () => undefined, hide: () => undefined, dispose: () => undefined }),
         createWebviewPanel: () => ({ webview: { html: '' }, onDidDispose: () => ({ dispose: () => undefined }), reveal: () => undefined, dispose: () => undefined }),
       },
+      CodeActionKind: { QuickFix: 'quickfix' },
+      languages: {
+        registerCodeLensProvider: () => ({ dispose: () => undefined }),
+        registerCodeActionsProvider: () => ({ dispose: () => undefined }),
+        registerHoverProvider: () => ({ dispose: () => undefined }),
+        registerDocumentLinkProvider: () => ({ dispose: () => undefined }),
+        registerCompletionItemProvider: () => ({ dispose: () => undefined }),
+      },
       chat: { createChatParticipant: () => ({ dispose: () => undefined }) },
       lm: { selectChatModels: async () => [] },
       LanguageModelChatMessage: { User: (text: string) => ({ role: 'user', content: text }) },
@@ -176,9 +191,17 @@ describe('lazy activation lifecycle', () => {
     const moduleAny = Module as any;
     restoreLoad = moduleAny._load;
 
+    // Earlier suites may have loaded extension modules against a different vscode stub
+    const outRoot = path.resolve(__dirname, '..', '..');
+    Object.keys(require.cache).forEach((key) => {
+      if (key.startsWith(outRoot) && !key.startsWith(path.join(outRoot, 'test'))) {
+        delete require.cache[key];
+      }
+    });
+
     const stubModules: Record<string, any> = {
-      '../../activityFeedProvider': { ActivityFeedTreeDataProvider: class { onHealthChanged() { return { dispose: () => undefined }; } enableAutoRefresh() {} refresh() {} }, ActivityEventItem: class {} },
-      '../../providers/activityFeed/provider': { ActivityFeedTreeDataProvider: class { onHealthChanged() { return { dispose: () => undefined }; } enableAutoRefresh() {} refresh() {} } },
+      '../../activityFeedProvider': { ActivityFeedTreeDataProvider: class { onHealthChanged() { return { dispose: () => undefined }; } onDidFindNewEvents() { return { dispose: () => undefined }; } enableAutoRefresh() {} refresh() {} }, ActivityEventItem: class {} },
+      '../../providers/activityFeed/provider': { ActivityFeedTreeDataProvider: class { onHealthChanged() { return { dispose: () => undefined }; } onDidFindNewEvents() { return { dispose: () => undefined }; } enableAutoRefresh() {} refresh() {} } },
       '../../providers/beads/treeDataProvider': {
         BeadsTreeDataProvider: class {
           onDidChangeTreeData = () => ({ dispose: () => undefined });
@@ -190,6 +213,7 @@ describe('lazy activation lifecycle', () => {
           getActiveWorkspaceId() { return undefined; }
           setDensity() { return undefined; }
           getDensity() { return 'default'; }
+          getItems() { return []; }
         },
         getStatusLabels: () => ({}),
         buildBeadDetailStrings: () => ({}),
@@ -221,7 +245,7 @@ describe('lazy activation lifecycle', () => {
     extension.activate(context as any);
 
     assert.strictEqual(counters.webview, 1, 'webview should register once');
-    assert.strictEqual(counters.tree, 2, 'tree views should register once each');
+    assert.strictEqual(counters.tree, 4, 'tree views should register once each');
     assert.ok(counters.commands > 0, 'commands should register on activation');
     assert.strictEqual(counters.refreshes, 0, 'no data refresh should run during cold activation');
 
@@ -0,0 +1,128 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import Module = require('module');
+import { EventData, EventType } from '../../activityFeed';
+import { BeadItemData } from '../../utils';
+import { matchWatchRules, WatchRules } from '../../providers/activityFeed/watchRules';
+
+function event(id: number, issueId: string, eventType: EventType, actor = 'bob'): EventData {
+  return {
+    id,
+    issueId,
+    eventType,
+    actor,
+    oldValue: null,
+    newValue: null,
+    comment: null,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    description: `${eventType} #${issueId}`,
+    iconName: 'info',
+    colorClass: 'event-info',
+  };
+}
+
+const noRules: WatchRules = { createdByMe: false, assignedToMe: false, favorites: false, epics: [], eventTypes: [] };
+
+describe('Activity feed watch rules', () => {
+  const items: BeadItemData[] = [
+    { id: 'beads-1', title: 'Mine', assignee: 'Ada' },
+    { id: 'beads-2', title: 'Created by me', raw: { created_by: 'ada' } },
+    { id: 'beads-3', title: 'Epic', issueType: 'epic' },
+    { id: 'beads-4', title: 'Child', parentId: 'beads-3' },
+    { id: 'beads-5', title: 'Grandchild', parentId: 'beads-4' },
+    { id: 'beads-6', title: 'Other' },
+  ];
+  const context = { me: 'ada', items, favorites: new Set(['beads-6']), knownEvents: [] as EventData[] };
+
+  it('matches each rule and reports the first reason', () => {
+    const events = [
+      event(1, 'beads-1', 'status_changed'),
+      event(2, 'beads-2', 'commented'),
+      event(3, 'beads-5', 'title_changed'),
+      event(4, 'beads-6', 'label_added'),
+      event(5, 'beads-7', 'dependency_removed'),
+      event(6, 'beads-7', 'updated'),
+    ];
+    const rules: WatchRules = {
+      createdByMe: true,
+      assignedToMe: true,
+      favorites: true,
+      epics: ['beads-3'],
+      eventTypes: ['closed', 'dependency_removed'],
+    };
+    assert.deepStrictEqual(
+      matchWatchRules(events, rules, context).map((match) => [match.event.id, match.reason]),
+      [
+        [1, 'assignedToMe'],
+        [2, 'createdByMe'],
+        [3, 'epic'],
+        [4, 'favorite'],
+        [5, 'eventType'],
+      ]
+    );
+    assert.deepStrictEqual(matchWatchRules(events, noRules, context), []);
+  });
+
+  it('skips events caused by the current user', () => {
+    const events = [event(1, 'beads-7', 'closed', 'ADA'), event(2, 'beads-7', 'closed')];
+    const matches = matchWatchRules(events, { ...noRules, eventTypes: ['closed'] }, context);
+    assert.deepStrictEqual(matches.map((match) => match.event.id), [2]);
+  });
+
+  it('falls back to created events to find the creator', () => {
+    const knownEvents = [event(1, 'beads-6', 'created', 'ada')];
+    const matches = matchWatchRules([event(9, 'beads-6', 'closed')], { ...noRules, createdByMe: true }, {
+      ...context,
+      knownEvents,
+    });
+    assert.deepStrictEqual(matches.map((match) => match.reason), ['createdByMe']);
+  });
+});
+
+describe('Activity feed store new events', () => {
+  const moduleAny = Module as any;
+  const restoreLoad = moduleAny._load;
+  let feed: EventData[] = [];
+  const dropStore = () => {
+    Object.keys(require.cache).forEach((key) => {
+      if (key.includes('activityFeed') && key.includes('store')) {
+        delete require.cache[key];
+      }
+    });
+  };
+
+  before(() => {
+    dropStore();
+    moduleAny._load = (request: string, parent: any, isMain: boolean) => {
+      if (request === '../../activityFeed') {
+        return {
+          fetchEvents: async () => ({ events: feed, totalCount: feed.length, hasMore: false }),
+          groupEventsByTime: () => new Map(),
+        };
+      }
+      return restoreLoad(request, parent, isMain);
+    };
+  });
+
+  after(() => {
+    moduleAny._load = restoreLoad;
+    dropStore();
+  });
+
+  it('reports events that appear after the first load, oldest first', async () => {
+    const { ActivityFeedStore } = require('../../providers/activityFeed/store');
+    const store = new ActivityFeedStore();
+
+    feed = [event(2, 'beads-1', 'updated'), event(1, 'beads-1', 'created')];
+    await store.refresh('/repo');
+    assert.deepStrictEqual(store.takeNewEvents(), []);
+
+    feed = [event(4, 'beads-1', 'closed'), event(3, 'beads-1', 'commented'), ...feed];
+    await store.refresh('/repo');
+    assert.deepStrictEqual(store.takeNewEvents().map((e: EventData) => e.id), [3, 4]);
+    assert.deepStrictEqual(store.takeNewEvents(), []);
+
+    await store.refresh('/other');
+    assert.deepStrictEqual(store.takeNewEvents(), []);
+  });
+});
@@ -24,7 +24,7 @@ describe('Activity feed resilience', () => {
     moduleAny._load = restoreLoad;
   });
 
-  it('throws ActivityFeedUnavailable when sqlite3 binary is missing', async () => {
+  it('reads the feed in-process when no sqlite3 binary is installed', async () => {
     const moduleAny = Module as any;
     moduleAny._load = (request: string, parent: any, isMain: boolean) => {
       if (request === 'child_process') {
@@ -37,12 +37,32 @@ describe('Activity feed resilience', () => {
       return restoreLoad(request, parent, isMain);
     };
 
-    const { fetchEvents, ActivityFeedUnavailable } = require('../../activityFeed') as any;
+    const { loadSqlEngine } = require('../../sqliteReader') as typeof import('../../sqliteReader');
+    const SQL = await loadSqlEngine();
+    const db = new SQL.Database();
+    db.run(`CREATE TABLE events (id INTEGER PRIMARY KEY, issue_id TEXT, event_type TEXT, actor TEXT,
+      old_value TEXT, new_value TEXT, comment TEXT, created_at TEXT)`);
+    db.run('CREATE TABLE issues (id TEXT PRIMARY KEY, title TEXT, status TEXT)');
+    db.run("INSERT INTO issues VALUES ('beady-1', 'It''s quoted', 'open')");
+    db.run("INSERT INTO events VALUES (1, 'beady-1', 'created', 'ada', NULL, NULL, NULL, '2025-01-01T10:00:00Z')");
+    db.run("INSERT INTO events VALUES (2, 'beady-1', 'closed', 'bob', NULL, 'done', NULL, '2025-01-02T10:00:00Z')");
+    db.run("INSERT INTO events VALUES (3, 'beady-2', 'created', 'ada', NULL, NULL, NULL, '2025-01-03T10:00:00Z')");
+    const root = path.join(tmpDir, 'embedded');
+    fs.mkdirSync(path.join(root, '.beads'), { recursive: true });
+    fs.writeFileSync(path.join(root, '.beads', 'beads.db'), db.export());
+    db.close();
 
-    await assert.rejects(
-      () => fetchEvents(tmpDir),
-      (err: any) => err instanceof ActivityFeedUnavailable && err.code === 'NO_SQLITE'
-    );
+    const { fetchEvents } = require('../../activityFeed') as any;
+    const all = await fetchEvents(root, { limit: 2 });
+    assert.strictEqual(all.totalCount, 3);
+    assert.strictEqual(all.hasMore, true);
+    assert.deepStrictEqual(all.events.map((e: any) => e.id), [3, 2]);
+    assert.strictEqual(all.events[1].issueTitle, "It's quoted");
+
+    const filtered = await fetchEvents(root, { issueId: "beady-1' OR '1'='1", actor: 'ada' });
+    assert.strictEqual(filtered.totalCount, 0);
+    const byActor = await fetchEvents(root, { actor: 'ada', eventTypes: ['created'] });
+    assert.deepStrictEqual(byActor.events.map((e: any) => e.issueId), ['beady-2', 'beady-1']);
   });
 
   it('throws ActivityFeedUnavailable when database file is missing', async () => {
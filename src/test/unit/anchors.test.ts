@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import Module = require('module');
+import * as path from 'path';
+import { anchorFromSelection, formatAnchorLines, shiftSourceAnchor } from '../../utils/anchors';
+import { parseSourceAnchors, setSourceAnchors } from '../../utils/beads';
+
+describe('Source anchors', () => {
+  const anchor = { path: 'src/a.ts', startLine: 5, endLine: 8 };
+
+  it('parses single lines and ranges from Source lines', () => {
+    const description = 'Fix it.\n\nSource: src/a.ts:5-8\nSource: lib/b.ts:12\nnot Source: x.ts:1';
+    assert.deepStrictEqual(parseSourceAnchors(description), [
+      { path: 'src/a.ts', startLine: 5, endLine: 8 },
+      { path: 'lib/b.ts', startLine: 12, endLine: 12 },
+    ]);
+    assert.deepStrictEqual(parseSourceAnchors(undefined), []);
+  });
+
+  it('rewrites Source lines in place and appends new ones', () => {
+    const description = 'Fix it.\n\nSource: src/a.ts:5-8\n\nMore notes';
+    assert.strictEqual(
+      setSourceAnchors(description, [{ path: 'src/a.ts', startLine: 6, endLine: 9 }, { path: 'lib/b.ts', startLine: 2, endLine: 2 }]),
+      'Fix it.\n\nSource: src/a.ts:6-9\nSource: lib/b.ts:2\n\nMore notes'
+    );
+    assert.strictEqual(setSourceAnchors('Fix it.\n', [anchor]), 'Fix it.\n\nSource: src/a.ts:5-8');
+    assert.strictEqual(setSourceAnchors('', [anchor]), 'Source: src/a.ts:5-8');
+    assert.strictEqual(setSourceAnchors('Fix it.\n\nSource: src/a.ts:5-8', []), 'Fix it.');
+  });
+
+  it('builds 1-based anchors from selections', () => {
+    assert.deepStrictEqual(anchorFromSelection('a.ts', 4, 7, 3), { path: 'a.ts', startLine: 5, endLine: 8 });
+    assert.deepStrictEqual(anchorFromSelection('a.ts', 4, 8, 0), { path: 'a.ts', startLine: 5, endLine: 8 });
+    assert.deepStrictEqual(anchorFromSelection('a.ts', 4, 4, 0), { path: 'a.ts', startLine: 5, endLine: 5 });
+    assert.strictEqual(formatAnchorLines(anchor), 'L5-8');
+  });
+
+  it('shifts anchors for edits above and ignores edits below', () => {
+    // Two lines inserted on line 2.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 2, endLine: 2, endsAtLineStart: false, lineDelta: 2 }), { ...anchor, startLine: 7, endLine: 10 });
+    // Enter at the start of the anchor's first line pushes it down.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 5, endLine: 5, endsAtLineStart: true, lineDelta: 1 }), { ...anchor, startLine: 6, endLine: 9 });
+    // Line 3 deleted.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 3, endLine: 4, endsAtLineStart: true, lineDelta: -1 }), { ...anchor, startLine: 4, endLine: 7 });
+    assert.strictEqual(shiftSourceAnchor(anchor, { startLine: 9, endLine: 12, endsAtLineStart: false, lineDelta: -3 }), anchor);
+  });
+
+  it('grows, shrinks and collapses anchors for overlapping edits', () => {
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 6, endLine: 6, endsAtLineStart: false, lineDelta: 2 }), { ...anchor, endLine: 10 });
+    // Line 8 deleted.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 8, endLine: 9, endsAtLineStart: true, lineDelta: -1 }), { ...anchor, endLine: 7 });
+    // Lines 7-10 joined into one.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 7, endLine: 10, endsAtLineStart: false, lineDelta: -3 }), { ...anchor, endLine: 7 });
+    // Lines 4-9 deleted entirely.
+    assert.deepStrictEqual(shiftSourceAnchor(anchor, { startLine: 4, endLine: 10, endsAtLineStart: true, lineDelta: -6 }), { ...anchor, startLine: 4, endLine: 4 });
+  });
+});
+
+describe('Source anchor tracker', () => {
+  const moduleAny = Module as any;
+  const restoreLoad = moduleAny._load;
+  const vscodeStub = {
+    l10n: { t: (message: string) => message },
+    EventEmitter: class {
+      event = () => ({ dispose: () => undefined });
+      fire() {}
+      dispose() {}
+    },
+    Uri: { file: (fsPath: string) => ({ fsPath, scheme: 'file' }), parse: (value: string) => ({ toString: () => value }) },
+    window: { visibleTextEditors: [], showErrorMessage: () => undefined },
+    workspace: { getConfiguration: () => ({ get: (key: string, fallback?: unknown) => (key === 'projectRoot' ? '/repo' : fallback) }) },
+  };
+  const document = { uri: { scheme: 'file', fsPath: '/repo/src/a.ts' } };
+  const insertLine = (line: number) => ({
+    document,
+    contentChanges: [{ range: { start: { line, character: 0 }, end: { line, character: 0 } }, rangeOffset: line * 10, text: 'x\n' }],
+  });
+
+  // Earlier suites may have loaded extension modules against a different vscode stub; load fresh
+  // copies for this suite and put the earlier ones back afterwards.
+  const outRoot = path.resolve(__dirname, '..', '..');
+  const earlierModules = new Map<string, NodeModule | undefined>();
+  const swapExtensionModules = (restore: boolean) => {
+    Object.keys(require.cache).forEach((key) => {
+      if (key.startsWith(outRoot) && !key.startsWith(path.join(outRoot, 'test'))) {
+        if (!restore) {
+          earlierModules.set(key, require.cache[key]);
+        }
+        delete require.cache[key];
+      }
+    });
+    if (restore) {
+      earlierModules.forEach((cached, key) => (require.cache[key] = cached));
+    }
+  };
+
+  before(() => {
+    moduleAny._load = (request: string, parent: any, isMain: boolean) =>
+      request === 'vscode' ? vscodeStub : restoreLoad(request, parent, isMain);
+    swapExtensionModules(false);
+  });
+
+  after(() => {
+    moduleAny._load = restoreLoad;
+    swapExtensionModules(true);
+  });
+
+  it('writes moved anchors once per bead after repeated saves', async () => {
+    const { SourceAnchorTracker } = require('../../providers/anchors');
+    const bead = { id: 'beady-1', title: 'Anchored', description: 'Fix it.\n\nSource: src/a.ts:5-8', raw: {} };
+    const writes: Array<{ id: string; description: string }> = [];
+    const tracker = new SourceAnchorTracker(
+      () => [bead],
+      async (item: { id: string }, description: string) => {
+        writes.push({ id: item.id, description });
+        return true;
+      },
+      {},
+      20
+    );
+    tracker.sync();
+
+    tracker.handleChange(insertLine(0));
+    tracker.handleSave(document);
+    tracker.handleChange(insertLine(0));
+    tracker.handleSave(document);
+    tracker.handleSave(document);
+    assert.deepStrictEqual(writes, [], 'nothing is written while saves keep coming');
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepStrictEqual(writes, [{ id: 'beady-1', description: 'Fix it.\n\nSource: src/a.ts:7-10' }]);
+
+    // Until bd reports the new description, the tracker keeps the moved positions.
+    tracker.sync();
+    assert.deepStrictEqual(tracker.anchorsFor(document.uri).map(({ anchor }: any) => anchor.startLine), [7]);
+    tracker.dispose();
+  });
+});
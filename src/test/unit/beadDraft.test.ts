@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { buildCreateBeadArgs, parseCreatedBeadId, parseLabelList, validateBeadDraft } from '../../utils/beadDraft';
+import { BeadItemData } from '../../utils/beads';
+
+describe('Bead creation drafts', () => {
+  const items: BeadItemData[] = [
+    { id: 'E-1', title: 'Epic', status: 'open', issueType: 'epic', raw: {} } as BeadItemData,
+    { id: 'T-1', title: 'Schema', status: 'open', raw: {} } as BeadItemData,
+  ];
+
+  it('normalizes a full draft and builds a single create call', () => {
+    const result = validateBeadDraft(
+      {
+        title: '  Add login  ',
+        issueType: 'feature',
+        priority: 1,
+        description: 'OAuth flow',
+        assignee: 'ada',
+        labels: parseLabelList('auth, ui, auth,'),
+        parentId: 'E-1',
+        blockedBy: ['T-1', 'E-1'],
+      },
+      items
+    );
+    assert.ok(result.ok);
+    assert.deepStrictEqual(buildCreateBeadArgs(result.draft), [
+      'create', 'Add login',
+      '--type', 'feature',
+      '--priority', '1',
+      '--description', 'OAuth flow',
+      '--assignee', 'ada',
+      '--labels', 'auth,ui',
+      '--deps', 'parent-child:E-1,blocks:T-1',
+      '--json',
+    ]);
+  });
+
+  it('omits optional fields that were left blank', () => {
+    const result = validateBeadDraft({ title: 'Fix typo', description: ' ', assignee: '', labels: [], blockedBy: [] }, items);
+    assert.ok(result.ok);
+    assert.deepStrictEqual(buildCreateBeadArgs(result.draft), ['create', 'Fix typo', '--json']);
+  });
+
+  it('reports the first invalid field', () => {
+    assert.deepStrictEqual(validateBeadDraft({ title: '', labels: [], blockedBy: [] }, items), {
+      ok: false,
+      field: 'title',
+      reason: 'empty',
+    });
+    const badLabel = validateBeadDraft({ title: 'ok', labels: ['bad\tlabel'], blockedBy: [] }, items);
+    assert.strictEqual(!badLabel.ok && badLabel.field, 'label');
+    const missing = validateBeadDraft({ title: 'ok', labels: [], blockedBy: ['NOPE-9'] }, items);
+    assert.deepStrictEqual(missing, { ok: false, field: 'dependency', reason: 'not_found', value: 'NOPE-9' });
+    const invalidId = validateBeadDraft({ title: 'ok', labels: [], blockedBy: ['; rm -rf'] }, items);
+    assert.strictEqual(!invalidId.ok && invalidId.reason, 'invalid_target');
+  });
+
+  it('reads the created bead id from bd create output', () => {
+    assert.strictEqual(parseCreatedBeadId('{"id":"beads-42","title":"Fix typo"}\n'), 'beads-42');
+    assert.strictEqual(parseCreatedBeadId('[{"id":"beads-43"}]'), 'beads-43');
+    assert.strictEqual(parseCreatedBeadId('✓ Created issue: beads-44\n  Title: Fix typo'), 'beads-44');
+    assert.strictEqual(parseCreatedBeadId('{"id":"; rm -rf"}'), undefined);
+    assert.strictEqual(parseCreatedBeadId(''), undefined);
+    assert.strictEqual(parseCreatedBeadId(undefined), undefined);
+  });
+});
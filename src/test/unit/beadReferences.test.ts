@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import {
+  BeadHoverStrings,
+  buildBeadHoverHtml,
+  collectIdPrefixes,
+  findBeadReferences,
+  matchesIdPrefix,
+} from '../../utils/beadReferences';
+import { BeadItemData } from '../../utils/beads';
+
+describe('Bead id references', () => {
+  const strings: BeadHoverStrings = {
+    statusLabel: 'Status',
+    assigneeLabel: 'Assignee',
+    unassignedLabel: 'Unassigned',
+    blockedByLabel: 'Blocked by',
+    statusLabels: {},
+  };
+  const items: BeadItemData[] = [
+    { id: 'beady-j44', title: 'Hover <cards>', status: 'blocked', assignee: 'Ada', raw: { priority: 1, dependencies: [{ depends_on_id: 'beady-a1', dep_type: 'blocks' }, { depends_on_id: 'beady-a2', dep_type: 'blocks' }] } } as BeadItemData,
+    { id: 'beady-a1', title: 'Parser', status: 'open', raw: {} } as BeadItemData,
+    { id: 'beady-a2', title: 'Lexer', status: 'closed', raw: {} } as BeadItemData,
+    { id: 'bd-a3f8.1', title: 'Child', status: 'open', raw: {} } as BeadItemData,
+  ];
+  const ids = new Set(items.map((item) => item.id));
+
+  it('finds known ids and skips unknown or embedded tokens', () => {
+    const line = 'Fixes beady-j44, see bd-a3f8.1. Not beady-zzz or xbeady-a1 or beady-a1x (TODO(beady-a1))';
+    assert.deepStrictEqual(
+      findBeadReferences(line, ids).map((reference) => [reference.id, line.slice(reference.start, reference.end)]),
+      [
+        ['beady-j44', 'beady-j44'],
+        ['bd-a3f8.1', 'bd-a3f8.1'],
+        ['beady-a1', 'beady-a1'],
+      ]
+    );
+  });
+
+  it('offers completion after a known prefix', () => {
+    const prefixes = collectIdPrefixes(items);
+    assert.deepStrictEqual(prefixes.sort(), ['bd', 'beady']);
+    assert.ok(matchesIdPrefix('beady-', prefixes));
+    assert.ok(matchesIdPrefix('bea', prefixes));
+    assert.ok(!matchesIdPrefix('b', prefixes));
+    assert.ok(!matchesIdPrefix('const', prefixes));
+  });
+
+  it('renders escaped hover details with open blockers only', () => {
+    const html = buildBeadHoverHtml(items[0]!, items, strings);
+    assert.ok(html.includes('Hover &lt;cards&gt;'));
+    assert.ok(html.includes('Status: blocked · Assignee: Ada · P1'));
+    assert.ok(html.includes('<code>beady-a1</code> Parser (open)'));
+    assert.ok(!html.includes('beady-a2'));
+  });
+
+  it('takes hover labels from the strings it is given', () => {
+    const translated: BeadHoverStrings = {
+      statusLabel: 'Estado',
+      assigneeLabel: 'Asignado',
+      unassignedLabel: 'Sin asignar',
+      blockedByLabel: 'Bloqueado por',
+      statusLabels: { blocked: 'Bloqueado', open: 'Abierto' },
+    };
+    const html = buildBeadHoverHtml(items[0]!, items, translated);
+    assert.ok(html.includes('Estado: Bloqueado · Asignado: Ada · P1'));
+    assert.ok(html.includes('<p>Bloqueado por:</p>'));
+    assert.ok(html.includes('Parser (Abierto)'));
+    assert.ok(buildBeadHoverHtml(items[1]!, items, translated).includes('Estado: Abierto · Sin asignar'));
+  });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { buildBoardLanes, parseBoardCommand } from '../../views/board/model';
+
+describe('Board model', () => {
+  it('validates webview commands', () => {
+    assert.deepStrictEqual(parseBoardCommand({ command: 'move', id: 'b-1', status: 'blocked', beforeId: 'b-2' }), {
+      command: 'move',
+      id: 'b-1',
+      status: 'blocked',
+      beforeId: 'b-2',
+    });
+    assert.deepStrictEqual(parseBoardCommand({ command: 'move', id: 'b-1', status: 'open' }), { command: 'move', id: 'b-1', status: 'open' });
+    assert.deepStrictEqual(parseBoardCommand({ command: 'setSwimlanes', mode: 'epic' }), { command: 'setSwimlanes', mode: 'epic' });
+
+    assert.strictEqual(parseBoardCommand({ command: 'move', id: 'b-1' }), undefined);
+    assert.strictEqual(parseBoardCommand({ command: 'move', id: 'b-1', status: 'open', beforeId: 3 }), undefined);
+    assert.strictEqual(parseBoardCommand({ command: 'setSwimlanes', mode: 'sideways' }), undefined);
+    assert.strictEqual(parseBoardCommand({ command: 'runShell' }), undefined);
+    assert.strictEqual(parseBoardCommand('open'), undefined);
+  });
+
+  it('keeps visible order within lanes and collects unclaimed cards in the fallback lane', () => {
+    const lanes = buildBoardLanes(
+      [
+        { key: 'epic-1', label: 'Epic one', ids: ['c', 'epic-1', 'a'] },
+        { key: 'ungrouped', label: 'No epic', ids: ['b', 'hidden'] },
+      ],
+      ['a', 'b', 'c', 'epic-1', 'orphan-epic'],
+      { key: 'ungrouped', label: 'No epic' }
+    );
+
+    assert.deepStrictEqual(lanes, [
+      { key: 'epic-1', label: 'Epic one', cardIds: ['a', 'c', 'epic-1'] },
+      { key: 'ungrouped', label: 'No epic', cardIds: ['b', 'orphan-epic'] },
+    ]);
+  });
+
+  it('puts everything in one lane without groups', () => {
+    assert.deepStrictEqual(buildBoardLanes([], ['x', 'y'], { key: 'all', label: 'All items' }), [
+      { key: 'all', label: 'All items', cardIds: ['x', 'y'] },
+    ]);
+  });
+});
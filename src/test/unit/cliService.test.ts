@@ -1,4 +1,5 @@
 import * as assert from 'assert';
+import * as path from 'path';
 import Module = require('module');
 
 describe('cliService', () => {
@@ -8,6 +9,7 @@ describe('cliService', () => {
   let runBdCommand: (args: string[], projectRoot: string, options?: any) => Promise<void>;
   let guardCalls: string[] = [];
   let trustCalls: any[] = [];
+  let lockCalls: string[] = [];
 
   before(() => {
     const moduleAny = Module as any;
@@ -64,9 +66,18 @@ describe('cliService', () => {
       if (request === 'vscode') {
         return vscodeStub;
       }
-      if (request.includes('services/runtimeEnvironment')) {
+      const fromServices = String(parent?.filename ?? '').includes(`${path.sep}services${path.sep}`);
+      if (request.includes('services/runtimeEnvironment') || (fromServices && request === './runtimeEnvironment')) {
         return { ensureWorkspaceTrusted, runWorktreeGuard };
       }
+      if (fromServices && request === './writeLock') {
+        return {
+          acquireWriteLock: async (root: string) => {
+            lockCalls.push(`acquire ${root}`);
+            return { release: async () => { lockCalls.push('release'); } };
+          },
+        };
+      }
       if (request.includes('providers/beads/store')) {
         return { findBdCommand };
       }
@@ -87,6 +98,7 @@ describe('cliService', () => {
   beforeEach(() => {
     guardCalls = [];
     trustCalls = [];
+    lockCalls = [];
   });
 
   after(() => {
@@ -181,6 +193,19 @@ describe('cliService', () => {
       assert.strictEqual(secondStarted, true);
     });
 
+    it('holds the write lock while the command runs, even when it fails', async () => {
+      await runBdCommand(['update'], '/test/workspace', {
+        execCli: async () => { lockCalls.push('exec'); },
+      });
+      assert.deepStrictEqual(lockCalls, ['acquire /test/workspace', 'exec', 'release']);
+
+      lockCalls = [];
+      await assert.rejects(runBdCommand(['update'], '/test/workspace', {
+        execCli: async () => { throw new Error('bd failed'); },
+      }));
+      assert.deepStrictEqual(lockCalls, ['acquire /test/workspace', 'release']);
+    });
+
     it('skips guard when requireGuard is false', async () => {
       await runBdCommand(['noop'], '/test/workspace', {
         requireGuard: false,
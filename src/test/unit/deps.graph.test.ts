@@ -5,6 +5,7 @@ import { BeadItemData } from '@beads/core';
 import {
   buildDependencyAdjacency,
   buildDependencyTrees,
+  buildGraphPatch,
   GraphEdgeData,
   validateEdgeAddition,
   willCreateDependencyCycle,
@@ -105,6 +106,26 @@ describe('Dependency graph helpers', () => {
     assert.strictEqual(edges[0].targetTitle, 'Beta');
   });
 
+  it('dependency tree shows ready beads and slack off the critical path', async () => {
+    const { DependencyTreeProvider } = require('../../dependencyTreeProvider');
+    const blocks = (id: string) => ({ depends_on_id: id, dep_type: 'blocks' });
+    const items: BeadItemData[] = [
+      { id: 'R', title: 'Release', status: 'open', raw: { dependencies: [blocks('X'), blocks('Y')] } as any },
+      { id: 'X', title: 'Long', status: 'open', raw: { estimated_minutes: 60 } as any },
+      { id: 'Y', title: 'Short', status: 'open', raw: { estimated_minutes: 30 } as any },
+    ];
+    const provider = new DependencyTreeProvider(() => items);
+    provider.setRoot('R');
+
+    const [criticalPath, upstream] = await provider.getChildren();
+    assert.deepStrictEqual(
+      criticalPath.children.map((child: any) => child.description),
+      ['$(circle-outline) open · weight 60 · ready', '$(circle-outline) open · weight 60']
+    );
+    const hints = upstream.children.map((child: any) => [child.node.id, / · ready/.test(child.description), /slack (\d+)/.exec(child.description)?.[1]]);
+    assert.deepStrictEqual(hints, [['X', true, undefined], ['Y', true, '30']]);
+  });
+
   it('addDependencyCommand uses provided ids without prompting', async () => {
     let added: { source: string; targetId: string } | undefined;
     const items: BeadItemData[] = [
@@ -213,4 +234,23 @@ describe('Dependency graph helpers', () => {
     assert.strictEqual(down?.direction, 'downstream');
     assert.deepStrictEqual(down?.children.map((c) => c.id), ['DOWN-CHILD']);
   });
+
+  it('builds a graph patch covering changed beads and the edges that point at them', () => {
+    const items: BeadItemData[] = [
+      { id: 'A', title: 'A renamed', raw: { dependencies: [{ depends_on_id: 'B', dep_type: 'blocks' }] } } as any,
+      { id: 'B', title: 'B', raw: { dependencies: [{ depends_on_id: 'A', dep_type: 'related' }] } } as any,
+      { id: 'C', title: 'C', raw: { dependencies: [{ depends_on_id: 'D', dep_type: 'blocks' }] } } as any,
+      { id: 'E', title: 'E', raw: { dependencies: [] } } as any,
+    ];
+    const removed = { id: 'D', title: 'D', raw: {} } as any;
+
+    const patch = buildGraphPatch(items, { added: [], changed: [items[0]!], removed: [removed] });
+    assert.deepStrictEqual(patch.nodes.map((node) => node.id), ['A']);
+    assert.deepStrictEqual(patch.removedNodeIds, ['D']);
+    assert.deepStrictEqual(patch.edgeSourceIds.sort(), ['A', 'B', 'C']);
+    assert.deepStrictEqual(
+      patch.edges.map((edge) => `${edge.sourceId}->${edge.targetId}`).sort(),
+      ['A->B', 'B->A', 'C->D']
+    );
+  });
 });
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import { parseCommentActions, runCommentCommand } from '../../services/comments';
+import { validateLittleGlenMessage } from '../../littleGlen/validation';
+import { getBeadComments, renderCommentMarkdown, renderCommentsSection } from '../../views/detail/comments';
+import { BeadDetailStrings } from '../../views/detail/types';
+
+describe('Bead comments', () => {
+  it('reads the comments bd exports with an issue, oldest first', () => {
+    const comments = getBeadComments({
+      comments: [
+        { id: 2, issue_id: 'beads-1', author: 'bob', text: 'second', created_at: '2025-01-02T10:00:00Z' },
+        { id: 1, issue_id: 'beads-1', author: 'ada', text: 'first', created_at: '2025-01-01T10:00:00Z' },
+        { id: 'x', text: 'bad id' },
+        null,
+      ],
+    });
+    assert.deepStrictEqual(comments.map((comment) => [comment.id, comment.author, comment.text]), [
+      [1, 'ada', 'first'],
+      [2, 'bob', 'second'],
+    ]);
+    assert.strictEqual(comments[0]?.createdAt?.toISOString(), '2025-01-01T10:00:00.000Z');
+    assert.deepStrictEqual(getBeadComments({}), []);
+  });
+
+  it('renders markdown and drops raw HTML and unsafe links', () => {
+    const html = renderCommentMarkdown('**done** in `main`\n\n<script>alert(1)</script> [x](javascript:alert(1)) https://example.com');
+    assert.ok(html.includes('<strong>done</strong>'));
+    assert.ok(html.includes('<code>main</code>'));
+    assert.ok(!html.includes('<script>'));
+    assert.ok(html.includes('&lt;script&gt;'));
+    assert.ok(!html.includes('href="javascript:'));
+    assert.ok(html.includes('href="https://example.com"'));
+  });
+
+  it('passes comment text to bd through a temp file', async () => {
+    const calls: Array<{ args: string[]; text?: string }> = [];
+    const run = async (args: string[]) => {
+      const fileIndex = args.indexOf('--file');
+      const file = fileIndex >= 0 ? args[fileIndex + 1] : undefined;
+      calls.push({ args, ...(file ? { text: await fs.readFile(file, 'utf8') } : {}) });
+    };
+
+    await runCommentCommand('beads-1', { kind: 'add', text: 'line one\nline two' }, '/repo', run);
+    await runCommentCommand('beads-1', { kind: 'edit', commentId: 4, text: 'fixed' }, '/repo', run);
+    await runCommentCommand('beads-1', { kind: 'delete', commentId: 4 }, '/repo', run);
+
+    assert.deepStrictEqual(calls.map((call) => call.args.filter((_arg, index, all) => all[index - 1] !== '--file')), [
+      ['comments', 'add', 'beads-1', '--file'],
+      ['comments', 'edit', 'beads-1', '4', '--file'],
+      ['comments', 'delete', 'beads-1', '4'],
+    ]);
+    assert.deepStrictEqual(calls.map((call) => call.text), ['line one\nline two', 'fixed', undefined]);
+  });
+
+  it('reads the comment subcommands bd offers from its help', () => {
+    const help = [
+      'Manage comments on an issue',
+      '',
+      'Usage:',
+      '  bd comments [issue-id] [flags]',
+      '  bd comments [command]',
+      '',
+      'Available Commands:',
+      '  add         Add a comment to an issue',
+      '  delete      Delete a comment',
+      '',
+      'Flags:',
+      '  -h, --help   help for comments',
+      '  --edit       not a command',
+    ].join('\n');
+    assert.deepStrictEqual(parseCommentActions(help), { edit: false, delete: true });
+    assert.deepStrictEqual(parseCommentActions('Available Commands:\r\n  add\r\n  edit  Edit a comment\r\n'), { edit: true, delete: false });
+    assert.deepStrictEqual(parseCommentActions(''), { edit: false, delete: false });
+  });
+
+  it('only renders edit and delete buttons for supported actions', () => {
+    const strings = {
+      assigneeFallback: 'Unassigned',
+      editCommentLabel: 'Edit comment',
+      deleteCommentLabel: 'Delete comment',
+      saveCommentLabel: 'Save',
+      cancelLabel: 'Cancel',
+      noCommentsLabel: 'No comments',
+      addCommentPlaceholder: 'Add a comment',
+      addCommentLabel: 'Comment',
+    } as BeadDetailStrings;
+    const comments = [{ id: 1, author: 'ada', text: 'hi', createdAt: undefined }];
+    const buttons = (html: string) => ['comment-edit', 'comment-delete'].filter((name) => html.includes(`icon-button ${name}"`));
+    assert.deepStrictEqual(buttons(renderCommentsSection(comments, strings)), []);
+    assert.deepStrictEqual(buttons(renderCommentsSection(comments, strings, { edit: false, delete: true })), ['comment-delete']);
+    assert.deepStrictEqual(buttons(renderCommentsSection(comments, strings, { edit: true, delete: true })), ['comment-edit', 'comment-delete']);
+  });
+
+  it('validates comment messages from the panel', () => {
+    const allowed: Array<'addComment' | 'editComment' | 'deleteComment'> = ['addComment', 'editComment', 'deleteComment'];
+    assert.deepStrictEqual(validateLittleGlenMessage({ command: 'addComment', text: 'hi\nthere' }, allowed), { command: 'addComment', text: 'hi\nthere' });
+    assert.deepStrictEqual(validateLittleGlenMessage({ command: 'deleteComment', commentId: 3 }, allowed), { command: 'deleteComment', commentId: 3 });
+    assert.strictEqual(validateLittleGlenMessage({ command: 'addComment', text: '   ' }, allowed), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'editComment', commentId: 0, text: 'x' }, allowed), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'editComment', commentId: 2, text: 'x'.repeat(20001) }, allowed), undefined);
+  });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { normalizeEvent, RawEventData } from '../../activityFeed';
+import { buildBeadHistory, diffLines, findHistoryValue } from '../../views/detail/history';
+
+let nextId = 1;
+function event(eventType: string, at: string, oldValue: string | null = null, newValue: string | null = null, actor = 'ada') {
+  const raw: RawEventData = {
+    id: nextId++,
+    issue_id: 'beads-1',
+    event_type: eventType,
+    actor,
+    old_value: oldValue,
+    new_value: newValue,
+    comment: null,
+    created_at: at,
+  };
+  return normalizeEvent(raw);
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Bead history', () => {
+  const events = [
+    event('created', '2025-01-01T10:00:00Z'),
+    event('status_changed', '2025-01-01T12:00:00Z', '{"status":"open"}', '{"status":"in_progress"}', 'bob'),
+    event('title_changed', '2025-01-02T09:00:00Z', 'Old title', 'New title'),
+    event(
+      'updated',
+      '2025-01-02T10:00:00Z',
+      '{"id":"beads-1","title":"New title","notes":"first","design":"","status":"in_progress"}',
+      '{"notes":"first\\nsecond","status":"blocked"}',
+      'bob'
+    ),
+    event('closed', '2025-01-03T10:00:00Z', null, 'done'),
+  ];
+
+  it('orders entries newest first with actors and status durations', () => {
+    const history = buildBeadHistory(events, new Date('2025-01-03T13:00:00Z'));
+    assert.deepStrictEqual(history.map((entry) => entry.eventType), ['closed', 'updated', 'title_changed', 'status_changed', 'created']);
+    assert.deepStrictEqual(history.map((entry) => entry.actor), ['ada', 'bob', 'ada', 'bob', 'ada']);
+
+    const statuses = history.filter((entry) => entry.status).map((entry) => entry.status);
+    assert.deepStrictEqual(
+      statuses.map((status) => [status?.from, status?.to, (status?.durationMs ?? 0) / HOUR, status?.ongoing]),
+      [
+        ['blocked', 'closed', 3, true],
+        ['in_progress', 'blocked', 24, false],
+        ['open', 'in_progress', 22, false],
+        [undefined, 'open', 2, false],
+      ]
+    );
+  });
+
+  it('records field diffs from plain and JSON values', () => {
+    const history = buildBeadHistory(events);
+    const title = history.find((entry) => entry.eventType === 'title_changed');
+    assert.deepStrictEqual(title?.changes, [{ field: 'title', before: 'Old title', after: 'New title' }]);
+
+    const updated = history.find((entry) => entry.eventType === 'updated');
+    assert.deepStrictEqual(updated?.changes, [{ field: 'notes', before: 'first', after: 'first\nsecond' }]);
+    assert.strictEqual(history.find((entry) => entry.eventType === 'closed')?.changes.length, 0);
+  });
+
+  it('looks up values to restore', () => {
+    const history = buildBeadHistory(events);
+    const title = history.find((entry) => entry.eventType === 'title_changed');
+    const updated = history.find((entry) => entry.eventType === 'updated');
+    assert.strictEqual(findHistoryValue(history, title?.eventId ?? 0, 'title', 'before'), 'Old title');
+    assert.strictEqual(findHistoryValue(history, updated?.eventId ?? 0, 'notes', 'after'), 'first\nsecond');
+    assert.strictEqual(findHistoryValue(history, updated?.eventId ?? 0, 'status', 'before'), 'in_progress');
+    assert.strictEqual(findHistoryValue(history, updated?.eventId ?? 0, 'design', 'after'), undefined);
+    assert.strictEqual(findHistoryValue(history, 999999, 'title', 'after'), undefined);
+  });
+
+  it('diffs multi-line values line by line', () => {
+    assert.deepStrictEqual(diffLines('a\nb\nc', 'a\nc\nd'), [
+      { kind: 'same', text: 'a' },
+      { kind: 'removed', text: 'b' },
+      { kind: 'same', text: 'c' },
+      { kind: 'added', text: 'd' },
+    ]);
+  });
+});
@@ -625,6 +625,36 @@ describe('Extension tree items', () => {
     provider.dispose();
   });
 
+  it('refreshes only changed rows and affected panels for a store delta', async () => {
+    const context = createContextStub();
+    const provider = new BeadsTreeDataProvider(context as any);
+    const first = { id: 'task-1', title: 'First', issueType: 'task', status: 'open', raw: { dependencies: [] } };
+    const second = { id: 'task-2', title: 'Second', issueType: 'task', status: 'open', raw: { dependencies: [] } };
+    await (provider as any).applyStoreSnapshot({ items: [first, second], workspaces: [] }, { added: [first, second], changed: [], removed: [] });
+    await provider.getChildren();
+
+    const fired: any[] = [];
+    provider.onDidChangeTreeData((element: any) => fired.push(element));
+    const rendered: string[] = [];
+    (provider as any).openPanels = new Map([
+      ['task-1', { webview: { set html(_value: string) { rendered.push('task-1'); } } }],
+      ['task-2', { webview: { set html(_value: string) { rendered.push('task-2'); } } }],
+    ]);
+
+    const renamed = { ...first, title: 'First renamed' };
+    await (provider as any).applyStoreSnapshot({ items: [renamed, second], workspaces: [] }, { added: [], changed: [renamed], removed: [] });
+    assert.strictEqual(fired.length, 1);
+    assert.strictEqual(fired[0].bead.title, 'First renamed');
+    assert.strictEqual(fired[0].label, 'First renamed');
+    assert.deepStrictEqual(rendered, ['task-1']);
+
+    fired.length = 0;
+    const closed = { ...second, status: 'closed' };
+    await (provider as any).applyStoreSnapshot({ items: [renamed, closed], workspaces: [] }, { added: [], changed: [closed], removed: [] });
+    assert.deepStrictEqual(fired, [undefined], 'a status change moves rows, so the whole tree refreshes');
+    provider.dispose();
+  });
+
   it('derives assignee names from multiple shapes with fallback', () => {
     const direct = deriveAssigneeName({ assignee: '  Ada ' } as any, 'Unassigned');
     assert.strictEqual(direct, 'Ada');
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import {
+  applyQuickFilter,
+  normalizeQuickFilterSet,
+  quickFilterKey,
+  removeQuickFilterPredicate,
+  toggleQuickFilterPredicate,
+  QuickFilterSet,
+} from '../../utils/filters';
+import { BeadItemData } from '../../utils/beads';
+
+describe('Composable quick filters', () => {
+  const items: BeadItemData[] = [
+    { id: 'E1', title: 'Epic', status: 'open', issueType: 'epic', raw: { priority: 1, labels: [] } } as BeadItemData,
+    { id: 'A', title: 'Bug for Ada', status: 'in_progress', issueType: 'bug', assignee: 'Ada', parentId: 'E1', raw: { priority: 1, labels: ['ui'], worktree: 'wt-ada' } } as BeadItemData,
+    { id: 'B', title: 'Task for Bo', status: 'open', issueType: 'task', assignee: 'Bo', raw: { priority: 2, labels: ['ui'] } } as BeadItemData,
+    { id: 'C', title: 'Unowned bug', status: 'blocked', issueType: 'bug', raw: { priority: 0, labels: [] } } as BeadItemData,
+  ];
+
+  const ids = (filter: QuickFilterSet | undefined) => applyQuickFilter(items, filter).map((item) => item.id);
+
+  it('matches every predicate in and mode', () => {
+    const filter = normalizeQuickFilterSet({
+      mode: 'and',
+      predicates: [{ kind: 'type', value: 'bug' }, { kind: 'priority', value: 1 }],
+    });
+    assert.deepStrictEqual(ids(filter), ['A']);
+  });
+
+  it('matches any predicate in or mode', () => {
+    const filter = normalizeQuickFilterSet({
+      mode: 'or',
+      predicates: [{ kind: 'assignee', value: 'bo' }, { kind: 'status', value: 'blocked' }],
+    });
+    assert.deepStrictEqual(ids(filter), ['B', 'C']);
+  });
+
+  it('filters by unassigned, epic, label value, and worktree', () => {
+    assert.deepStrictEqual(ids(normalizeQuickFilterSet({ kind: 'assignee' })), ['E1', 'C']);
+    assert.deepStrictEqual(ids(normalizeQuickFilterSet({ kind: 'epic', value: 'E1' })), ['E1', 'A']);
+    assert.deepStrictEqual(ids(normalizeQuickFilterSet({ kind: 'label', value: 'UI' })), ['A', 'B']);
+    assert.deepStrictEqual(ids(normalizeQuickFilterSet({ kind: 'worktree', value: 'wt-ada' })), ['A']);
+  });
+
+  it('upgrades a legacy single preset and drops invalid or duplicate predicates', () => {
+    assert.deepStrictEqual(normalizeQuickFilterSet({ kind: 'status', value: 'in_progress' }), {
+      mode: 'and',
+      predicates: [{ kind: 'status', value: 'in_progress' }],
+    });
+    const normalized = normalizeQuickFilterSet({
+      mode: 'or',
+      predicates: [
+        { kind: 'stale' },
+        { kind: 'stale' },
+        { kind: 'priority', value: 9 },
+        { kind: 'status', value: '<script>' },
+      ],
+    });
+    assert.deepStrictEqual(normalized, { mode: 'or', predicates: [{ kind: 'stale' }] });
+    assert.strictEqual(normalizeQuickFilterSet({ mode: 'and', predicates: [] }), undefined);
+  });
+
+  it('toggles and removes predicates by key', () => {
+    let filter = toggleQuickFilterPredicate(undefined, { kind: 'type', value: 'bug' });
+    filter = toggleQuickFilterPredicate(filter, { kind: 'assignee' });
+    assert.deepStrictEqual(filter?.predicates.map(quickFilterKey), ['type:bug', 'assignee']);
+
+    filter = toggleQuickFilterPredicate(filter, { kind: 'type', value: 'bug' });
+    assert.deepStrictEqual(filter?.predicates.map(quickFilterKey), ['assignee']);
+
+    assert.strictEqual(removeQuickFilterPredicate(filter, 'assignee'), undefined);
+  });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { applyQuickFilter, toggleQuickFilter, QuickFilterPreset } from '../../utils/filters';
+import { applyQuickFilter, toggleQuickFilterPredicate, QuickFilterSet } from '../../utils/filters';
 import { BeadItemData } from '../../utils';
 
 describe('Quick filter presets', () => {
@@ -26,14 +26,14 @@ describe('Quick filter presets', () => {
   });
 
   it('toggles same preset off', () => {
-    const current: QuickFilterPreset = { kind: 'status', value: 'open' };
-    const next = toggleQuickFilter(current, { kind: 'status', value: 'open' });
+    const current: QuickFilterSet = { mode: 'and', predicates: [{ kind: 'status', value: 'open' }] };
+    const next = toggleQuickFilterPredicate(current, { kind: 'status', value: 'open' });
     assert.strictEqual(next, undefined);
   });
 
-  it('switches to different preset', () => {
-    const current: QuickFilterPreset = { kind: 'status', value: 'open' };
-    const next = toggleQuickFilter(current, { kind: 'label' });
-    assert.deepStrictEqual(next, { kind: 'label' });
+  it('stacks a different preset', () => {
+    const current: QuickFilterSet = { mode: 'and', predicates: [{ kind: 'status', value: 'open' }] };
+    const next = toggleQuickFilterPredicate(current, { kind: 'label' });
+    assert.deepStrictEqual(next?.predicates, [{ kind: 'status', value: 'open' }, { kind: 'label' }]);
   });
 });
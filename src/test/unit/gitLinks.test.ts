@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { buildGitLinkIndex, findBeadIdsInBranch, parseBranchRefs, parseGitLog } from '../../utils/gitLinks';
+
+describe('Git links', () => {
+  const ids = new Set(['beady-12', 'beady-123', 'beady-7.1']);
+
+  it('parses git log records with multi-line bodies', () => {
+    const output = [
+      'aaa111\x1faaa\x1fAda\x1f2026-01-02T10:00:00+00:00\x1fFix parser (beady-12)\x1f\x1e',
+      '\nbbb222\x1fbbb\x1fGrace\x1f2026-01-03T10:00:00+00:00\x1fRefactor\x1fLine one\nCloses beady-7.1\n\x1e\n',
+    ].join('');
+    const commits = parseGitLog(output);
+    assert.deepStrictEqual(commits.map((commit) => [commit.shortSha, commit.author, commit.subject, commit.body]), [
+      ['aaa', 'Ada', 'Fix parser (beady-12)', ''],
+      ['bbb', 'Grace', 'Refactor', 'Line one\nCloses beady-7.1'],
+    ]);
+  });
+
+  it('keeps local branches and remote-only branches', () => {
+    const refs = 'refs/heads/main\nrefs/heads/ada/beady-12\nrefs/remotes/origin/HEAD\nrefs/remotes/origin/main\nrefs/remotes/origin/grace/beady-123-login\n';
+    assert.deepStrictEqual(parseBranchRefs(refs), [
+      { name: 'main', remote: false },
+      { name: 'ada/beady-12', remote: false },
+      { name: 'origin/grace/beady-123-login', remote: true },
+    ]);
+  });
+
+  it('matches ids in branch names without matching longer ids', () => {
+    assert.deepStrictEqual(findBeadIdsInBranch('ada/beady-12', ids), ['beady-12']);
+    assert.deepStrictEqual(findBeadIdsInBranch('feature/beady-123-login', ids), ['beady-123']);
+    assert.deepStrictEqual(findBeadIdsInBranch('beady-7.1-fix', ids), ['beady-7.1']);
+    assert.deepStrictEqual(findBeadIdsInBranch('xbeady-12', ids), []);
+  });
+
+  it('indexes commits and branches by bead id', () => {
+    const commits = parseGitLog('c1\x1fc1\x1fAda\x1f2026-01-02\x1fbeady-12 and beady-123\x1f\x1ec2\x1fc2\x1fAda\x1f2026-01-03\x1fTidy\x1fbeady-12\x1e');
+    const index = buildGitLinkIndex(commits, [{ name: 'ada/beady-12', remote: false }], ids);
+    assert.deepStrictEqual(index.commits.get('beady-12')?.map((commit) => commit.sha), ['c1', 'c2']);
+    assert.deepStrictEqual(index.commits.get('beady-123')?.map((commit) => commit.sha), ['c1']);
+    assert.ok(!('body' in (index.commits.get('beady-12')?.[0] ?? {})));
+    assert.deepStrictEqual(index.branches.get('beady-12'), [{ name: 'ada/beady-12', remote: false }]);
+    assert.strictEqual(index.branches.get('beady-123'), undefined);
+  });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { normalizeEvent, RawEventData } from '../../activityFeed';
+import { niceMax, renderBarChart, renderLineChart, renderStackedAreaChart } from '../../views/insights/charts';
+import {
+  buildIssueHistories,
+  computeInsights,
+  filtersFromCommand,
+  parseInsightsCommand,
+  sampleDays,
+  statusAt,
+  summarizeDurations,
+} from '../../views/insights/model';
+import { InsightsIssue } from '../../views/insights/types';
+
+let nextId = 1;
+function event(issueId: string, eventType: string, at: string, newValue: string | null = null) {
+  const raw: RawEventData = {
+    id: nextId++,
+    issue_id: issueId,
+    event_type: eventType,
+    actor: 'ada',
+    old_value: null,
+    new_value: newValue,
+    comment: null,
+    created_at: at,
+  };
+  return normalizeEvent(raw);
+}
+
+const day = (d: number) => new Date(2025, 0, d);
+const local = (d: number, hour = 12) => new Date(2025, 0, d, hour).toISOString();
+
+describe('Insights model', () => {
+  const issues: InsightsIssue[] = [
+    { id: 'epic-1', title: 'Epic', status: 'open', labels: [], issueType: 'epic' },
+    { id: 'a', title: 'A', status: 'closed', labels: ['ui'], parentId: 'epic-1', assignee: 'ada' },
+    { id: 'b', title: 'B', status: 'in_progress', labels: ['ui'], parentId: 'epic-1', assignee: 'bob' },
+    { id: 'c', title: 'C', status: 'closed', labels: ['api'], assignee: 'bob', createdAt: day(2), closedAt: day(4) },
+  ];
+  const events = [
+    event('a', 'created', local(1)),
+    event('a', 'status_changed', local(2), '{"status":"in_progress"}'),
+    event('a', 'closed', local(4)),
+    event('b', 'created', local(3)),
+    event('b', 'status_changed', local(5), 'in_progress'),
+  ];
+
+  it('rebuilds status timelines from events and falls back to issue dates', () => {
+    const histories = buildIssueHistories(events, issues);
+    const a = histories.get('a');
+    assert.ok(a);
+    assert.deepStrictEqual(a.transitions.map((step) => step.status), ['open', 'in_progress', 'closed']);
+    assert.strictEqual(a.startedAt?.toISOString(), local(2));
+    assert.strictEqual(a.closedAt?.toISOString(), local(4));
+    assert.strictEqual(statusAt(a, new Date(2025, 0, 3)), 'in_progress');
+    assert.strictEqual(statusAt(a, new Date(2024, 11, 31)), undefined);
+
+    const c = histories.get('c');
+    assert.deepStrictEqual(c?.transitions.map((step) => step.status), ['open', 'closed']);
+    assert.strictEqual(c?.startedAt, undefined);
+    assert.strictEqual(histories.get('b')?.closedAt, undefined);
+  });
+
+  it('computes burn, flow, durations and throughput within the filters', () => {
+    const all = computeInsights(events, issues, { from: day(1), to: day(5) });
+    assert.deepStrictEqual(all.burn.scope, [1, 2, 3, 3, 3]);
+    assert.deepStrictEqual(all.burn.done, [0, 0, 0, 2, 2]);
+    assert.deepStrictEqual(all.burn.remaining, [1, 2, 3, 1, 1]);
+    assert.deepStrictEqual(
+      all.flow.map((series) => [series.status, series.counts]),
+      [
+        ['open', [1, 1, 2, 1, 0]],
+        ['in_progress', [0, 1, 1, 0, 1]],
+        ['closed', [0, 0, 0, 2, 2]],
+      ]
+    );
+    assert.deepStrictEqual(all.cycleTime.values, [2]);
+    assert.deepStrictEqual(all.leadTime.values.map(Math.round), [2, 3]);
+    assert.deepStrictEqual(all.throughput, [
+      { assignee: 'ada', closed: 1 },
+      { assignee: 'bob', closed: 1 },
+    ]);
+    assert.deepStrictEqual(all.labels, ['api', 'ui']);
+    assert.deepStrictEqual(all.epics, [{ id: 'epic-1', title: 'Epic' }]);
+
+    const epic = computeInsights(events, issues, { from: day(1), to: day(5), epicId: 'epic-1' });
+    assert.deepStrictEqual(epic.burn.scope, [1, 1, 2, 2, 2]);
+    const api = computeInsights(events, issues, { from: day(1), to: day(5), label: 'api' });
+    assert.deepStrictEqual(api.throughput, [{ assignee: 'bob', closed: 1 }]);
+    const later = computeInsights(events, issues, { from: day(5), to: day(6) });
+    assert.deepStrictEqual(later.throughput, []);
+  });
+
+  it('samples long ranges and summarizes durations', () => {
+    assert.strictEqual(sampleDays(day(1), day(5)).length, 5);
+    const year = sampleDays(new Date(2024, 0, 1), new Date(2024, 11, 31));
+    assert.ok(year.length <= 91);
+    assert.strictEqual(year[year.length - 1]?.getTime(), new Date(2024, 11, 31).getTime());
+
+    const stats = summarizeDurations([0.5, 3, 3, 10, 40]);
+    assert.strictEqual(stats.median, 3);
+    assert.strictEqual(stats.p85, 40);
+    assert.deepStrictEqual(stats.buckets.map((bucket) => bucket.count), [1, 0, 2, 0, 1, 0, 1]);
+  });
+
+  it('validates webview filter messages', () => {
+    const command = parseInsightsCommand({ command: 'setFilters', from: '2025-01-09', to: '2025-01-02', label: 'ui' });
+    assert.deepStrictEqual(command, { command: 'setFilters', from: '2025-01-09', to: '2025-01-02', label: 'ui' });
+    const filters = command && filtersFromCommand(command);
+    assert.strictEqual(filters?.from.getTime(), new Date(2025, 0, 2).getTime());
+    assert.strictEqual(filters?.to.getTime(), new Date(2025, 0, 9).getTime());
+
+    assert.strictEqual(parseInsightsCommand({ command: 'setFilters', from: '2025-02-30', to: '2025-03-01' }), undefined);
+    assert.strictEqual(parseInsightsCommand({ command: 'setFilters', from: 'yesterday', to: '2025-03-01' }), undefined);
+    assert.strictEqual(parseInsightsCommand({ command: 'setFilters', from: '2025-03-01', to: '2025-03-01', epicId: 7 }), undefined);
+    assert.strictEqual(parseInsightsCommand({ command: 'runShell' }), undefined);
+  });
+
+  it('renders self-contained SVG charts', () => {
+    assert.strictEqual(niceMax(3), 4);
+    assert.strictEqual(niceMax(17), 20);
+    const charts = [
+      renderLineChart('Burnup', ['Jan 1', 'Jan 2'], [{ label: 'Scope <x>', color: 'var(--vscode-charts-blue)', values: [1, 2] }]),
+      renderStackedAreaChart('Flow', ['Jan 1', 'Jan 2'], [{ label: 'Open', color: 'red', values: [1, 0] }]),
+      renderBarChart('Cycle', [{ label: '<1d', value: 3 }], 'green'),
+    ];
+    charts.forEach((svg) => {
+      assert.ok(svg.startsWith('<svg'));
+      assert.ok(!/https?:|style=/.test(svg));
+    });
+    assert.ok(charts[0]?.includes('<polyline'));
+    assert.ok(charts[0]?.includes('Scope &lt;x&gt;'));
+    assert.ok(charts[2]?.includes('&lt;1d'));
+  });
+});
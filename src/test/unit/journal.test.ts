@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {
+  MutationAction,
+  MutationJournal,
+  PartialReplayError,
+  buildDeleteStep,
+  buildDescriptionUpdateArgs,
+  buildDependencyStep,
+  buildLabelStep,
+  buildUpdateStep,
+} from '../../utils/journal';
+import { BeadItemData } from '../../utils';
+
+describe('Mutation journal', () => {
+  const bead = { id: 'A-1', title: 'Old title', status: 'open', raw: { id: 'A-1', title: 'Old title', status: 'open', priority: 1 } as any } as BeadItemData;
+
+  const collect = () => {
+    const calls: MutationAction[] = [];
+    return { calls, execute: async (action: MutationAction) => { calls.push(action); } };
+  };
+
+  it('derives inverse updates from the raw bead', () => {
+    const step = buildUpdateStep(bead, '--title', 'title', 'New title');
+    assert.deepStrictEqual(step.forward, { args: ['update', 'A-1', '--title', 'New title'] });
+    assert.deepStrictEqual(step.inverse, { args: ['update', 'A-1', '--title', 'Old title'] });
+    assert.deepStrictEqual(buildUpdateStep(bead, '--priority', 'priority', '3').inverse, { args: ['update', 'A-1', '--priority', '1'] });
+  });
+
+  it('clears fields with the --flag= form instead of an empty argument', () => {
+    const step = buildUpdateStep(bead, '-d', 'description', 'Now described');
+    assert.deepStrictEqual(step.forward, { args: ['update', 'A-1', '-d', 'Now described'] });
+    assert.deepStrictEqual(step.inverse, { args: ['update', 'A-1', '--description='] });
+    assert.deepStrictEqual(buildUpdateStep(bead, '--assignee', 'assignee', '').forward, { args: ['update', 'A-1', '--assignee='] });
+  });
+
+  it('records multi-line descriptions as description actions', () => {
+    const described = { ...bead, raw: { ...(bead.raw as object), description: 'Fix it.\n\nSource: src/a.ts:5' } } as BeadItemData;
+    const step = buildUpdateStep(described, '-d', 'description', 'Fix it.\n\nSource: src/a.ts:5\nSource: src/b.ts:1');
+    assert.deepStrictEqual(step.forward, { beadId: 'A-1', description: 'Fix it.\n\nSource: src/a.ts:5\nSource: src/b.ts:1' });
+    assert.deepStrictEqual(step.inverse, { beadId: 'A-1', description: 'Fix it.\n\nSource: src/a.ts:5' });
+    assert.deepStrictEqual(buildDescriptionUpdateArgs('A-1', 'ignored', '/tmp/text.md'), ['update', 'A-1', '--body-file', '/tmp/text.md']);
+  });
+
+  it('inverts label and dependency edits and restores deletes from JSON', () => {
+    assert.deepStrictEqual(buildLabelStep('A-1', 'add', 'urgent').inverse, { args: ['label', 'remove', 'A-1', 'urgent'] });
+    assert.deepStrictEqual(buildDependencyStep('remove', 'A-1', 'A-2', 'related').inverse, {
+      args: ['dep', 'add', 'A-1', 'A-2', '--type', 'related'],
+    });
+    assert.deepStrictEqual(buildDeleteStep(bead).inverse, { restore: bead.raw });
+  });
+
+  it('undoes bulk entries as one unit in reverse order and supports redo', async () => {
+    const journal = new MutationJournal();
+    journal.record('bulk', [buildLabelStep('A-1', 'add', 'x'), buildLabelStep('A-2', 'add', 'x')]);
+    const { calls, execute } = collect();
+
+    await journal.undo(execute);
+    assert.deepStrictEqual(calls, [{ args: ['label', 'remove', 'A-2', 'x'] }, { args: ['label', 'remove', 'A-1', 'x'] }]);
+    assert.strictEqual(journal.canUndo(), false);
+
+    await journal.redo(execute);
+    assert.strictEqual(calls.length, 4);
+    assert.strictEqual(journal.canUndo(), true);
+    assert.strictEqual(journal.canRedo(), false);
+  });
+
+  it('keeps a failed undo on the stack and clears redo on new edits', async () => {
+    const journal = new MutationJournal(2);
+    journal.record('one', [buildLabelStep('A-1', 'add', 'a')]);
+    journal.record('two', [buildLabelStep('A-1', 'add', 'b')]);
+    journal.record('three', [buildLabelStep('A-1', 'add', 'c')]);
+
+    await assert.rejects(journal.undo(async () => { throw new Error('bd failed'); }));
+    assert.strictEqual(journal.peekUndo()?.label, 'three');
+
+    await journal.undo(collect().execute);
+    journal.record('four', [buildLabelStep('A-1', 'add', 'd')]);
+    assert.strictEqual(journal.canRedo(), false);
+    assert.deepStrictEqual([journal.peekUndo()?.label], ['four']);
+  });
+
+  it('stops a failing multi-step undo and splits the entry between the stacks', async () => {
+    const journal = new MutationJournal();
+    const steps = ['A-1', 'A-2', 'A-3'].map((id) => buildLabelStep(id, 'add', 'x'));
+    journal.record('bulk', steps);
+
+    const calls: MutationAction[] = [];
+    const failOnA1 = async (action: MutationAction) => {
+      if ('args' in action && action.args.includes('A-1')) {
+        throw new Error('bd failed');
+      }
+      calls.push(action);
+    };
+    const error = await journal.undo(failOnA1).then(() => undefined, (err: unknown) => err);
+    assert.ok(error instanceof PartialReplayError);
+    assert.deepStrictEqual(error.applied.map((step) => step.beadId), ['A-2', 'A-3']);
+    assert.strictEqual(error.message, 'bd failed');
+    assert.strictEqual(calls.length, 2);
+
+    assert.deepStrictEqual(journal.peekUndo()?.steps.map((step) => step.beadId), ['A-1']);
+    assert.deepStrictEqual(journal.peekRedo()?.steps.map((step) => step.beadId), ['A-2', 'A-3']);
+
+    await journal.undo(collect().execute);
+    assert.strictEqual(journal.canUndo(), false);
+  });
+});
@@ -19,3 +19,29 @@ describe('Little Glen validation (delete)', () => {
     assert.strictEqual(msg, undefined);
   });
 });
+
+describe('Little Glen validation (anchors)', () => {
+  it('accepts revealAnchor with a path and line range', () => {
+    const msg = validateLittleGlenMessage({ command: 'revealAnchor', path: 'src/a.ts', startLine: 3, endLine: 5 }, ['revealAnchor']);
+    assert.deepStrictEqual(msg, { command: 'revealAnchor', path: 'src/a.ts', startLine: 3, endLine: 5 });
+  });
+
+  it('rejects revealAnchor with bad lines or paths', () => {
+    assert.strictEqual(validateLittleGlenMessage({ command: 'revealAnchor', path: 'src/a.ts', startLine: 0, endLine: 1 }, ['revealAnchor']), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'revealAnchor', path: 'src/a.ts', startLine: 4, endLine: 2 }, ['revealAnchor']), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'revealAnchor', path: 'a\nb', startLine: 1, endLine: 1 }, ['revealAnchor']), undefined);
+  });
+
+  it('accepts restoreHistoryValue for known fields and sides', () => {
+    const msg = validateLittleGlenMessage({ command: 'restoreHistoryValue', eventId: 12, field: 'notes', side: 'before' }, ['restoreHistoryValue']);
+    assert.deepStrictEqual(msg, { command: 'restoreHistoryValue', eventId: 12, field: 'notes', side: 'before' });
+  });
+
+  it('rejects restoreHistoryValue with unknown fields or bad ids', () => {
+    const allowed = ['restoreHistoryValue'] as const;
+    assert.strictEqual(validateLittleGlenMessage({ command: 'restoreHistoryValue', eventId: 1, field: 'assignee', side: 'after' }, [...allowed]), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'restoreHistoryValue', eventId: '1', field: 'title', side: 'after' }, [...allowed]), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'restoreHistoryValue', eventId: 1.5, field: 'title', side: 'after' }, [...allowed]), undefined);
+    assert.strictEqual(validateLittleGlenMessage({ command: 'restoreHistoryValue', eventId: 1, field: 'title', side: 'both' }, [...allowed]), undefined);
+  });
+});
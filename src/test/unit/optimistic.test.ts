@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { OptimisticEditTracker, applyBeadPatch, isPatchReflected } from '../../utils/optimistic';
+import { BeadItemData, normalizeBead } from '../../utils/beads';
+
+describe('Optimistic edits', () => {
+  const bead = (raw: Record<string, unknown>): BeadItemData => normalizeBead({ id: 'A-1', title: 'Title', status: 'open', ...raw });
+
+  it('patches raw fields and keeps derived fields consistent', () => {
+    const patched = applyBeadPatch(bead({ labels: ['x'], assignee: 'sam' }), {
+      status: 'in_progress',
+      addLabel: 'y',
+      removeLabel: 'x',
+      assignee: '',
+    }, '2025-01-01T00:00:00Z');
+
+    assert.strictEqual(patched.status, 'in_progress');
+    assert.strictEqual(patched.inProgressSince, '2025-01-01T00:00:00Z');
+    assert.deepStrictEqual(patched.tags, ['y']);
+    assert.strictEqual(patched.assignee, undefined);
+    assert.ok(isPatchReflected(patched, { status: 'in_progress', addLabel: 'y', removeLabel: 'x' }));
+  });
+
+  it('overlays pending edits on refreshed snapshots until rolled back', () => {
+    const tracker = new OptimisticEditTracker();
+    const items = [bead({})];
+    const token = tracker.begin('A-1', { title: 'New' });
+
+    // A refresh that still carries the old title must not win while the edit is pending.
+    assert.strictEqual(tracker.apply([bead({})])[0]?.title, 'New');
+
+    tracker.rollback(token);
+    assert.strictEqual(tracker.apply(items), items);
+  });
+
+  it('drops committed edits once reflected or expired', () => {
+    let now = 0;
+    const tracker = new OptimisticEditTracker(() => now, 100);
+    const reflected = tracker.begin('A-1', { status: 'closed' });
+    tracker.commit(reflected);
+    tracker.apply([bead({ status: 'closed' })]);
+    assert.strictEqual(tracker.size, 0);
+
+    const stale = tracker.begin('A-1', { title: 'Renamed' });
+    tracker.commit(stale);
+    assert.strictEqual(tracker.apply([bead({})])[0]?.title, 'Renamed');
+    now = 500;
+    assert.strictEqual(tracker.apply([bead({})])[0]?.title, 'Title');
+  });
+});
@@ -18,7 +18,7 @@ describe('runtimeEnvironment', () => {
 
     // Clear relevant caches
     Object.keys(require.cache).forEach(key => {
-      if (key.includes('runtimeEnvironment') || key.includes('beads-vscode')) {
+      if (key.includes('runtimeEnvironment') || key.includes('worktreeGuard') || key.includes('services/git') || key.includes('beads-vscode')) {
         delete require.cache[key];
       }
     });
@@ -63,6 +63,10 @@ describe('runtimeEnvironment', () => {
               options = undefined;
             }
             execFileCalls.push({ cmd, args: args || [], opts: options });
+            if (cmd === 'git') {
+              callback(new Error('fatal: not a git repository'), '', '');
+              return;
+            }
             callback(null, '', '');
           },
         };
@@ -103,17 +107,25 @@ describe('runtimeEnvironment', () => {
   after(() => {
     const moduleAny = Module as any;
     moduleAny._load = restoreLoad;
+    // Do not leave modules bound to the stubbed child_process and fs behind for later suites
+    Object.keys(require.cache).forEach(key => {
+      if (key.includes('runtimeEnvironment') || key.includes('worktreeGuard') || key.includes('services/git') || /[\\/]worktree\.js$/.test(key)) {
+        delete require.cache[key];
+      }
+    });
   });
 
   describe('runWorktreeGuard', () => {
-    it('checks for guard script existence', async () => {
+    it('checks the repository with git instead of running scripts/worktree-guard.sh', async () => {
       await runWorktreeGuard('/test/project');
-      assert.ok(fsAccessCalls.some(p => p.includes('worktree-guard.sh')));
+      assert.ok(execFileCalls.some(c => c.cmd === 'git' && c.args.includes('--git-common-dir')));
+      assert.ok(!execFileCalls.some(c => c.cmd.includes('worktree-guard.sh')));
+      assert.ok(!fsAccessCalls.some(p => p.includes('worktree-guard.sh')));
     });
 
-    it('executes guard script when it exists', async () => {
+    it('lets commands through outside a git repository', async () => {
       await runWorktreeGuard('/test/project');
-      assert.ok(execFileCalls.some(c => c.cmd.includes('worktree-guard.sh')));
+      assert.strictEqual(warningMessages.length, 0);
     });
 
     it('does nothing when guard is disabled', async () => {
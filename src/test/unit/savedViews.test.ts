@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { mergeSavedViews, parseSavedViews, serializeSavedViews, slugifyViewName } from '../../utils/savedViews';
+
+describe('Saved views', () => {
+  it('normalizes entries and reports unusable ones', () => {
+    const { views, defaultView, errors } = parseSavedViews(
+      {
+        views: [
+          { name: 'My in-progress bugs by epic', query: 'type:bug ', sortMode: 'epic', quickFilter: { kind: 'status', value: 'in_progress' } },
+          { name: 'Loose', sortMode: 'sideways', quickFilter: { kind: 'bogus' }, collapsedSections: ['closed', 3] },
+          { name: '' },
+          { id: 'loose', name: 'Duplicate' },
+        ],
+        defaultView: 'my-in-progress-bugs-by-epic',
+      },
+      'shared'
+    );
+
+    assert.deepStrictEqual(views.map((view) => view.id), ['my-in-progress-bugs-by-epic', 'loose']);
+    assert.deepStrictEqual(views[0], {
+      id: 'my-in-progress-bugs-by-epic',
+      name: 'My in-progress bugs by epic',
+      scope: 'shared',
+      query: 'type:bug',
+      sortMode: 'epic',
+      showClosed: true,
+      collapsedSections: [],
+      quickFilter: { mode: 'and', predicates: [{ kind: 'status', value: 'in_progress' }] },
+    });
+    assert.strictEqual(views[1]?.sortMode, 'id');
+    assert.strictEqual(views[1]?.quickFilter, undefined);
+    assert.deepStrictEqual(views[1]?.collapsedSections, ['closed']);
+    assert.strictEqual(defaultView, 'my-in-progress-bugs-by-epic');
+    assert.deepStrictEqual(errors, ['view is missing a name', 'duplicate view id: loose']);
+  });
+
+  it('lets workspace views and defaults shadow shared ones', () => {
+    const shared = parseSavedViews({ views: [{ name: 'Triage' }, { name: 'Backend' }], defaultView: 'backend' }, 'shared');
+    const workspace = parseSavedViews({ views: [{ name: 'Triage', sortMode: 'status' }], defaultView: 'triage' }, 'workspace');
+
+    const merged = mergeSavedViews(workspace, shared);
+    assert.deepStrictEqual(merged.views.map((view) => `${view.scope}:${view.id}`), ['workspace:triage', 'shared:backend']);
+    assert.strictEqual(merged.defaultView, 'triage');
+    assert.strictEqual(mergeSavedViews({ views: [], defaultView: 'gone' }, shared).defaultView, 'backend');
+  });
+
+  it('serializes without scope and slugifies names', () => {
+    const { views } = parseSavedViews({ views: [{ name: 'Sprint 12!' }] }, 'workspace');
+    assert.deepStrictEqual(Object.keys(serializeSavedViews(views, 'sprint-12').views[0] ?? {}).includes('scope'), false);
+    assert.strictEqual(serializeSavedViews(views, 'sprint-12').defaultView, 'sprint-12');
+    assert.strictEqual(slugifyViewName('  Sprint 12! '), 'sprint-12');
+    assert.strictEqual(slugifyViewName('!!!'), '');
+  });
+});
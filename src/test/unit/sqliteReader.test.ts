@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyWal, closeSqliteReaders, getSqliteReader, loadSqlEngine, walChecksum } from '../../sqliteReader';
+
+const PAGE_SIZE = 4096;
+
+/** A WAL holding `pages` (1-based page number → content) with a commit marker on frame `commitAt`. */
+function buildWal(pages: Array<[number, Uint8Array]>, commitAt: number, dbPages: number): Uint8Array {
+  const wal = new Uint8Array(32 + pages.length * (24 + PAGE_SIZE));
+  const view = new DataView(wal.buffer);
+  view.setUint32(0, 0x377f0682);
+  view.setUint32(4, 3007000);
+  view.setUint32(8, PAGE_SIZE);
+  view.setUint32(16, 0x1234);
+  view.setUint32(20, 0x5678);
+  let checksum = walChecksum(wal.subarray(0, 24), false);
+  view.setUint32(24, checksum[0]);
+  view.setUint32(28, checksum[1]);
+  pages.forEach(([pageNumber, data], index) => {
+    const offset = 32 + index * (24 + PAGE_SIZE);
+    view.setUint32(offset, pageNumber);
+    view.setUint32(offset + 4, index === commitAt ? dbPages : 0);
+    view.setUint32(offset + 8, 0x1234);
+    view.setUint32(offset + 12, 0x5678);
+    wal.set(data, offset + 24);
+    checksum = walChecksum(data, false, walChecksum(wal.subarray(offset, offset + 8), false, checksum));
+    view.setUint32(offset + 16, checksum[0]);
+    view.setUint32(offset + 20, checksum[1]);
+  });
+  return wal;
+}
+
+function pagesOf(image: Uint8Array): Array<[number, Uint8Array]> {
+  const pages: Array<[number, Uint8Array]> = [];
+  for (let offset = 0; offset < image.length; offset += PAGE_SIZE) {
+    pages.push([offset / PAGE_SIZE + 1, image.slice(offset, offset + PAGE_SIZE)]);
+  }
+  return pages;
+}
+
+describe('embedded sqlite reader', () => {
+  let before: Uint8Array;
+  let after: Uint8Array;
+
+  beforeEach(async () => {
+    const SQL = await loadSqlEngine();
+    const db = new SQL.Database();
+    db.run(`PRAGMA page_size = ${PAGE_SIZE}`);
+    db.run('CREATE TABLE events (id INTEGER PRIMARY KEY, issue_id TEXT)');
+    db.run("INSERT INTO events (issue_id) VALUES ('beady-1')");
+    before = db.export();
+    db.run("INSERT INTO events (issue_id) VALUES ('beady-2')");
+    after = db.export();
+    db.close();
+  });
+
+  afterEach(() => closeSqliteReaders());
+
+  async function issueIds(image: Uint8Array): Promise<string[]> {
+    const SQL = await loadSqlEngine();
+    const db = new SQL.Database(image);
+    try {
+      const result = db.exec('SELECT issue_id FROM events ORDER BY id');
+      return (result[0]?.values ?? []).map((row) => String(row[0]));
+    } finally {
+      db.close();
+    }
+  }
+
+  it('applies committed WAL frames on top of the database', async () => {
+    const pages = pagesOf(after);
+    const image = applyWal(before, buildWal(pages, pages.length - 1, pages.length));
+    assert.deepStrictEqual(await issueIds(image), ['beady-1', 'beady-2']);
+  });
+
+  it('ignores frames that were never committed', async () => {
+    const pages = pagesOf(after);
+    const image = applyWal(before, buildWal(pages, -1, pages.length));
+    assert.deepStrictEqual(await issueIds(image), ['beady-1']);
+  });
+
+  it('stops at the first frame with a bad checksum', async () => {
+    const pages = pagesOf(after);
+    const wal = buildWal(pages, pages.length - 1, pages.length);
+    wal.fill(0xff, 32 + 24, 32 + 32);
+    assert.deepStrictEqual(await issueIds(applyWal(before, wal)), ['beady-1']);
+  });
+
+  it('reloads the shared reader when the database changes on disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beady-sqlite-'));
+    const dbPath = path.join(dir, 'beads.db');
+    fs.writeFileSync(dbPath, before);
+    const reader = getSqliteReader(dbPath);
+    assert.strictEqual(reader, getSqliteReader(dbPath));
+
+    const query = 'SELECT issue_id FROM events WHERE issue_id != ? ORDER BY id';
+    assert.deepStrictEqual(await reader.query(query, ['none']), [{ issue_id: 'beady-1' }]);
+    assert.strictEqual(reader.hasChanged(), false);
+
+    const pages = pagesOf(after);
+    fs.writeFileSync(`${dbPath}-wal`, buildWal(pages, pages.length - 1, pages.length));
+    assert.strictEqual(reader.hasChanged(), true);
+    assert.deepStrictEqual(await reader.query(query, ['beady-1']), [{ issue_id: 'beady-2' }]);
+  });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import { buildSafeBdArgs } from '@beads/core';
+import { applyBeadTemplate, expandTemplatePlaceholders, parseBeadTemplate } from '../../utils/templates';
+import { buildCreateBeadArgs } from '../../utils/beadDraft';
+import { runWithTextFiles } from '../../services/textFile';
+
+describe('Bead templates', () => {
+  const epic = [
+    '---',
+    'name: Feature epic',
+    'title: "Epic: ${selection}"',
+    'type: epic',
+    'priority: P1',
+    'labels: [planning, ${assignee}]',
+    '---',
+    'Owner: ${assignee}, opened ${date}.',
+    '',
+    '## Acceptance Criteria',
+    '- [ ] Docs updated',
+    '',
+    '## Children',
+    '- [ ] Spike: ${selection}',
+    '1. Implement',
+    '',
+  ].join('\n');
+
+  it('parses markdown front matter, sections and child tasks', () => {
+    const parsed = parseBeadTemplate('feature-epic.md', epic);
+    assert.ok(parsed?.template);
+    const template = parsed.template;
+    assert.strictEqual(template.id, 'feature-epic');
+    assert.strictEqual(template.name, 'Feature epic');
+    assert.strictEqual(template.issueType, 'epic');
+    assert.strictEqual(template.priority, 1);
+    assert.deepStrictEqual(template.labels, ['planning', '${assignee}']);
+    assert.strictEqual(template.acceptanceCriteria, '- [ ] Docs updated');
+    assert.deepStrictEqual(template.children, ['Spike: ${selection}', 'Implement']);
+  });
+
+  it('expands placeholders into a create draft', () => {
+    const template = parseBeadTemplate('feature-epic.md', epic)!.template!;
+    const { draft, children } = applyBeadTemplate(template, { assignee: 'ada', date: '2026-01-02', selection: 'dark\nmode' });
+    assert.deepStrictEqual(buildCreateBeadArgs(draft), [
+      'create', 'Epic: dark mode',
+      '--type', 'epic',
+      '--priority', '1',
+      '--description', 'Owner: ada, opened 2026-01-02.',
+      '--acceptance-criteria', '- [ ] Docs updated',
+      '--labels', 'planning,ada',
+      '--json',
+    ]);
+    assert.deepStrictEqual(children, ['Spike: dark mode', 'Implement']);
+  });
+
+  it('sends multi-line template text through files so checklists keep their lines', async () => {
+    const template = parseBeadTemplate('bug.md', [
+      '---',
+      'name: Bug',
+      '---',
+      'Steps:',
+      '1. Open ${selection}',
+      '',
+      '2. Crash',
+      '',
+      '## Acceptance Criteria',
+      '- [ ] No crash',
+      '- [ ] Test added',
+    ].join('\n'))!.template!;
+    const { draft } = applyBeadTemplate({ ...template, title: 'Crash' }, { selection: 'settings' });
+
+    const flattened = buildSafeBdArgs(buildCreateBeadArgs(draft));
+    assert.ok(flattened.includes('Steps: 1. Open settings 2. Crash'));
+
+    const calls: Array<{ args: string[]; body: string; acceptance: string }> = [];
+    const texts = { description: draft.description, design: draft.design, acceptanceCriteria: draft.acceptanceCriteria };
+    await runWithTextFiles(texts, (files) => buildCreateBeadArgs(draft, files), '/repo', async (args) => {
+      const read = (flag: string) => fs.readFile(args[args.indexOf(flag) + 1]!, 'utf8');
+      calls.push({ args: buildSafeBdArgs(args), body: await read('--body-file'), acceptance: await read('--acceptance-criteria-file') });
+    });
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0]!.body, 'Steps:\n1. Open settings\n\n2. Crash');
+    assert.strictEqual(calls[0]!.acceptance, '- [ ] No crash\n- [ ] Test added');
+    assert.ok(!calls[0]!.args.includes('--description'));
+    assert.ok(!calls[0]!.args.includes('--acceptance-criteria'));
+    assert.ok(!calls[0]!.args.includes('--design-file'), 'a template without design sends no design file');
+  });
+
+  it('reads JSON templates and reports invalid ones', () => {
+    const parsed = parseBeadTemplate('bug.json', JSON.stringify({ name: 'Bug', type: 'bug', acceptance: 'Fixed', children: [{ title: 'Repro' }] }));
+    assert.strictEqual(parsed?.template?.acceptanceCriteria, 'Fixed');
+    assert.deepStrictEqual(parsed?.template?.children, ['Repro']);
+    assert.strictEqual(parseBeadTemplate('bad.json', '{"type": "saga"}')?.error, 'bad: unknown type "saga"');
+    assert.strictEqual(parseBeadTemplate('notes.txt', 'ignored'), undefined);
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    assert.strictEqual(expandTemplatePlaceholders('${date} ${branch}', { date: 'today' }), 'today ${branch}');
+  });
+});
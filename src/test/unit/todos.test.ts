@@ -0,0 +1,137 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import Module = require('module');
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { buildSafeBdArgs } from '@beads/core';
+import { buildTodoDraft, findTodoComments, linkTodoComment } from '../../utils/todos';
+import { normalizeBead } from '../../utils/beads';
+import { buildCreateBeadArgs } from '../../utils/beadDraft';
+import { runWithTextFile } from '../../services/textFile';
+
+describe('TODO comments', () => {
+  it('finds TODO, FIXME and HACK comments in common comment styles', () => {
+    const source = [
+      'const TODO_LIST = [];',
+      '  // TODO: handle retries',
+      'x = 1  # FIXME(beady-12): wrong units',
+      '/* HACK work around parser bug */',
+      '<!-- TODO: document flags -->',
+      'const ideas = "todo";',
+    ].join('\n');
+    const todos = findTodoComments(source);
+    assert.deepStrictEqual(
+      todos.map(({ line, keyword, text, beadId }) => ({ line, keyword, text, beadId })),
+      [
+        { line: 1, keyword: 'TODO', text: 'handle retries', beadId: undefined },
+        { line: 2, keyword: 'FIXME', text: 'wrong units', beadId: 'beady-12' },
+        { line: 3, keyword: 'HACK', text: 'work around parser bug', beadId: undefined },
+        { line: 4, keyword: 'TODO', text: 'document flags', beadId: undefined },
+      ]
+    );
+  });
+
+  it('links a comment to a bead and replaces an existing link', () => {
+    const [plain] = findTodoComments('  // TODO: handle retries');
+    assert.strictEqual(linkTodoComment('  // TODO: handle retries', plain!, 'beady-7'), '  // TODO(beady-7): handle retries');
+    const [linked] = findTodoComments('# FIXME(old-1): units');
+    assert.strictEqual(linkTodoComment('# FIXME(old-1): units', linked!, 'beady-8'), '# FIXME(beady-8): units');
+  });
+
+  it('drafts a bead whose description records the source location', () => {
+    const [todo] = findTodoComments('\n\n// FIXME: off by one');
+    const draft = buildTodoDraft(todo!, 'src/list.ts');
+    assert.strictEqual(draft.title, 'off by one');
+    assert.strictEqual(draft.issueType, 'bug');
+    assert.strictEqual(normalizeBead({ id: 'b-1', description: draft.description }).filePath, 'src/list.ts:3');
+  });
+
+  it('creates the bead with arguments bd accepts and the description in a file', async () => {
+    const [todo] = findTodoComments('// TODO: handle retries');
+    const draft = buildTodoDraft(todo!, 'src/net.ts');
+    let sent: { args: string[]; description: string } | undefined;
+    await runWithTextFile(draft.description, (file) => buildCreateBeadArgs(draft, file ? { description: file } : {}), '/repo', async (args) => {
+      sent = { args: buildSafeBdArgs(args), description: await fs.readFile(args[args.indexOf('--body-file') + 1]!, 'utf8') };
+    });
+    assert.deepStrictEqual(sent?.args.slice(0, 5), ['--no-daemon', 'create', 'handle retries', '--type', 'task']);
+    assert.strictEqual(sent?.description, draft.description);
+    assert.strictEqual(normalizeBead({ id: 'b-1', description: sent?.description }).filePath, 'src/net.ts:1');
+  });
+});
+
+describe('Create bead from TODO', () => {
+  const moduleAny = Module as any;
+  const restoreLoad = moduleAny._load;
+  const edits: Array<{ line: number; text: string }> = [];
+  let lines = ['// TODO: handle retries'];
+
+  const vscodeStub = {
+    l10n: { t: (message: string, ...args: unknown[]) => message.replace(/\{(\d+)\}/g, (_m, i) => String(args[Number(i)])) },
+    window: {
+      activeTextEditor: undefined,
+      showWarningMessage: () => undefined,
+      showInformationMessage: () => undefined,
+      showErrorMessage: () => undefined,
+    },
+    workspace: {
+      workspaceFolders: undefined,
+      getConfiguration: () => ({ get: (key: string) => (key === 'projectRoot' ? '/repo' : undefined) }),
+      openTextDocument: async () => ({ lineAt: (line: number) => ({ text: lines[line], range: { line } }) }),
+      asRelativePath: () => 'src/net.ts',
+      applyEdit: async (edit: any) => {
+        edits.push(...edit.replacements);
+        return true;
+      },
+    },
+    WorkspaceEdit: class {
+      replacements: Array<{ line: number; text: string }> = [];
+      replace(_uri: unknown, range: { line: number }, text: string) {
+        this.replacements.push({ line: range.line, text });
+      }
+    },
+  };
+
+  // Earlier suites may have loaded extension modules against a different vscode stub; load fresh
+  // copies for this suite and put the earlier ones back afterwards.
+  const outRoot = path.resolve(__dirname, '..', '..');
+  const earlierModules = new Map<string, NodeModule | undefined>();
+  const swapExtensionModules = (restore: boolean) => {
+    Object.keys(require.cache).forEach((key) => {
+      if (key.startsWith(outRoot) && !key.startsWith(path.join(outRoot, 'test'))) {
+        if (!restore) {
+          earlierModules.set(key, require.cache[key]);
+        }
+        delete require.cache[key];
+      }
+    });
+    if (restore) {
+      earlierModules.forEach((cached, key) => (require.cache[key] = cached));
+    }
+  };
+
+  before(() => {
+    moduleAny._load = (request: string, parent: any, isMain: boolean) =>
+      request === 'vscode' ? vscodeStub : restoreLoad(request, parent, isMain);
+    swapExtensionModules(false);
+  });
+
+  after(() => {
+    moduleAny._load = restoreLoad;
+    swapExtensionModules(true);
+  });
+
+  it('links the comment to the bead bd reports, not another bead with the same title', async () => {
+    const { createBeadFromTodo } = require('../../commands/todos');
+    // Another window created a bead with the same title while bd ran.
+    const items = [{ id: 'beady-1', title: 'handle retries' }];
+    const provider = { getItems: () => items, refresh: async () => undefined };
+    lines = ['// TODO: handle retries'];
+
+    await createBeadFromTodo(provider, async () => '{"id":"beady-2","title":"handle retries"}', { fsPath: '/repo/src/net.ts' }, 0);
+    assert.deepStrictEqual(edits, [{ line: 0, text: '// TODO(beady-2): handle retries' }]);
+
+    edits.length = 0;
+    await createBeadFromTodo(provider, async () => undefined, { fsPath: '/repo/src/net.ts' }, 0);
+    assert.deepStrictEqual(edits, [], 'without an id from bd the comment is left alone');
+  });
+});
@@ -6,6 +6,7 @@ const warnings: string[] = [];
 
 function createVscodeStub() {
   const webviewHandlers: Array<(msg: any) => void> = [];
+  const disposeHandlers: Array<() => void> = [];
   const createdPanels: any[] = [];
 
   const vscodeStub = {
@@ -20,7 +21,7 @@ function createVscodeStub() {
             html: '',
             onDidReceiveMessage: (fn: (msg: any) => void) => { webviewHandlers.push(fn); return { dispose() {} }; },
           },
-          onDidDispose: () => ({ dispose() {} }),
+          onDidDispose: (fn: () => void) => { disposeHandlers.push(fn); return { dispose() {} }; },
         };
         createdPanels.push(panel);
         return panel;
@@ -30,7 +31,7 @@ function createVscodeStub() {
     ViewColumn: { One: 1 },
   } as any;
 
-  return { vscodeStub, webviewHandlers, createdPanels };
+  return { vscodeStub, webviewHandlers, disposeHandlers, createdPanels };
 }
 
 describe('panel message validation', () => {
@@ -137,4 +138,37 @@ describe('panel message validation', () => {
     webviewHandlers[0]?.({ command: 'bad' });
     assert.ok(warnings.length > 0, 'warning should be emitted for invalid message');
   });
+
+  it('stops refreshing the insights panel once it is disposed', async () => {
+    const { vscodeStub, disposeHandlers, createdPanels } = createVscodeStub();
+    const moduleAny = Module as any;
+    restoreLoad = moduleAny._load;
+    moduleAny._load = (request: string, parent: any, isMain: boolean) => {
+      if (request === 'vscode') return vscodeStub;
+      return restoreLoad(request, parent, isMain);
+    };
+
+    delete require.cache[require.resolve('../../views/panels/insightsPanel')];
+    const panelModule = require('../../views/panels/insightsPanel');
+    const treeListeners: Array<() => void> = [];
+    let fetches = 0;
+    let release: () => void = () => undefined;
+    const opening = panelModule.openInsightsPanel({
+      provider: { getItems: () => [], onDidChangeTreeData: (fn: () => void) => { treeListeners.push(fn); return { dispose() {} }; } },
+      getProjectRoot: () => '/repo',
+      fetchEvents: () => {
+        fetches++;
+        return new Promise((resolve) => { release = () => resolve({ events: [], hasMore: false, totalCount: 0 }); });
+      },
+    });
+
+    treeListeners.forEach((fn) => { fn(); fn(); fn(); });
+    disposeHandlers.forEach((fn) => fn());
+    release();
+    await opening;
+
+    assert.strictEqual(createdPanels.length, 1, 'panel should be created');
+    assert.strictEqual(createdPanels[0].webview.html, '', 'disposed panel should not be rendered');
+    assert.strictEqual(fetches, 1, 'pending tree refreshes should be dropped on dispose');
+  });
 });
@@ -1,4 +1,6 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
 import * as assert from 'assert';
+import Module = require('module');
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
@@ -10,7 +12,16 @@ import {
   registryPath,
   writeRegistry,
   readRegistry,
+  isCanonicalWorktreePath,
+  mergeRegistryEntries,
+  sanitizeWorkerName,
+  touchRegistryEntries,
+  upsertRegistryEntry,
+  worktreeLabel,
+  worktreePathFor,
 } from '../../worktree';
+import { deriveWorktreeId, findWorktreeBeads } from '../../utils/worktree';
+import { DEFAULT_GUARD_OPTIONS, GuardRuleId, canonicalWorktreeId, evaluateWorktreeGuard } from '../../worktreeGuard';
 
 describe('worktree helpers', () => {
   it('formats worktree labels with branch when present', () => {
@@ -57,4 +68,259 @@ describe('worktree helpers', () => {
     assert.strictEqual(registryPath(tmp).startsWith(tmp), true);
   });
 
+  it('derives canonical worktree paths, worker names and labels for start work', () => {
+    const worktreePath = worktreePathFor('/code/beady', 'Marvin', 'beady-123');
+    assert.strictEqual(worktreePath, path.join('/code', 'worktrees', 'Marvin', 'beady-123'));
+    assert.ok(isCanonicalWorktreePath('/code/beady', worktreePath, 'Marvin/beady-123'));
+    assert.strictEqual(sanitizeWorkerName(' Ada Lovelace/ops '), 'Ada-Lovelace-ops');
+    assert.strictEqual(worktreeLabel('Marvin/beady-123'), 'worktree:Marvin:beady-123');
+  });
+
+  it('upserts registry entries by path', () => {
+    const entry = { id: 'a/t1', path: '/w/a/t1', branch: 'a/t1', lastSeen: 1 };
+    const first = upsertRegistryEntry(null, entry, 5);
+    assert.deepStrictEqual(first, { schemaVersion: 1, generatedAt: 5, entries: [entry] });
+    const moved = { ...entry, commit: 'abc', lastSeen: 2 };
+    assert.deepStrictEqual(upsertRegistryEntry(first, moved, 6).entries, [moved]);
+  });
+
+  it('keeps ids, labels and locks when the registry is rebuilt from git', () => {
+    const previous = {
+      schemaVersion: 1,
+      generatedAt: 1,
+      entries: [{ id: 'a/t1', name: 'Task one', path: '/w/a/t1', branch: 'a/t1', lastSeen: 1, lockedBy: 'ada' }],
+    };
+    const rebuilt = [
+      { path: '/w/a/t1/', branch: 'refs/heads/a/t1', commit: 'abc', lastSeen: 9 },
+      { path: '/w/b/t2', branch: 'refs/heads/b/t2', lastSeen: 9 },
+    ] as WorktreeEntry[];
+    assert.deepStrictEqual(mergeRegistryEntries(previous, rebuilt), [
+      { id: 'a/t1', name: 'Task one', path: '/w/a/t1/', branch: 'refs/heads/a/t1', commit: 'abc', lastSeen: 9, lockedBy: 'ada' },
+      { path: '/w/b/t2', branch: 'refs/heads/b/t2', lastSeen: 9 },
+    ]);
+    assert.deepStrictEqual(mergeRegistryEntries(null, rebuilt), rebuilt);
+  });
+
+  it('marks live registry entries as seen at most once per interval', () => {
+    const live = { id: 'a/t1', path: '/w/a/t1', branch: 'a/t1', lastSeen: 0 };
+    const gone = { id: 'a/t2', path: '/w/a/t2', branch: 'a/t2', lastSeen: 0 };
+    const registry = { schemaVersion: 1, generatedAt: 0, entries: [live, gone] };
+    const touched = touchRegistryEntries(registry, (entry) => entry === live, 100, 500);
+    assert.deepStrictEqual(touched, { schemaVersion: 1, generatedAt: 500, entries: [{ ...live, lastSeen: 500 }, gone] });
+    assert.strictEqual(touchRegistryEntries(touched!, () => true, 100, 550)?.entries.map((e) => e.lastSeen).join(), '500,550');
+    assert.strictEqual(touchRegistryEntries(touched!, (entry) => entry.id === 'a/t1', 100, 550), undefined);
+  });
+
+  it('derives worktree ids for registry entries synced from git', () => {
+    assert.strictEqual(deriveWorktreeId({ id: 'ada/beady-1', path: '/x' }), 'ada/beady-1');
+    assert.strictEqual(deriveWorktreeId({ path: '/code/worktrees/ada/beady-2' }), 'ada/beady-2');
+    assert.strictEqual(deriveWorktreeId({ path: 'C:\\code\\worktrees\\ada\\beady-3' }), 'ada/beady-3');
+    assert.strictEqual(deriveWorktreeId({ path: '/code/beady' }), 'beady');
+  });
+
+  it('finds the in-progress beads of a worktree', () => {
+    const items = [
+      { id: 'beady-1', title: 'Task', status: 'in_progress' },
+      { id: 'beady-2', title: 'Labelled', status: 'in_progress', tags: ['worktree:ada:beady-1'] },
+      { id: 'beady-3', title: 'Field', status: 'in_progress', raw: { worktree: 'ada/beady-1' } },
+      { id: 'beady-4', title: 'Open', status: 'open', tags: ['worktree:ada:beady-1'] },
+      { id: 'beady-5', title: 'Elsewhere', status: 'in_progress' },
+    ];
+    assert.deepStrictEqual(
+      findWorktreeBeads('ada/beady-1', items).map((bead) => bead.id),
+      ['beady-1', 'beady-2', 'beady-3']
+    );
+  });
+
+});
+
+describe('worktree guard rules', () => {
+  const repoRoot = path.join(path.sep, 'code', 'beady');
+  const worktreesRoot = path.join(path.sep, 'code', 'worktrees');
+  const main = { id: '', path: repoRoot, branch: 'refs/heads/main', lastSeen: 1 };
+  const worktree = (worker: string, task: string, branch = `${worker}/${task}`) => ({
+    id: '',
+    path: path.join(worktreesRoot, worker, task),
+    branch: `refs/heads/${branch}`,
+    lastSeen: 1,
+  });
+  const rules = (violations: Array<{ rule: GuardRuleId }>) => violations.map((violation) => violation.rule);
+
+  it('derives canonical ids only for paths under ../worktrees/<worker>/<task>', () => {
+    assert.strictEqual(canonicalWorktreeId(repoRoot, path.join(worktreesRoot, 'ada', 'beady-1')), 'ada/beady-1');
+    assert.strictEqual(canonicalWorktreeId(repoRoot, path.join(worktreesRoot, 'ada')), undefined);
+    assert.strictEqual(canonicalWorktreeId(repoRoot, path.join(path.sep, 'tmp', 'ada', 'beady-1')), undefined);
+  });
+
+  it('passes a canonical worktree on its own branch', () => {
+    const current = worktree('ada', 'beady-1');
+    assert.deepStrictEqual(
+      evaluateWorktreeGuard({ repoRoot, projectRoot: current.path, worktrees: [main, current], registry: null }),
+      []
+    );
+  });
+
+  it('flags non-canonical checkouts and mismatched branches with fixes', () => {
+    const renamed = worktree('ada', 'beady-1', 'feature/x');
+    const violations = evaluateWorktreeGuard({
+      repoRoot,
+      projectRoot: path.join(path.sep, 'tmp', 'scratch'),
+      worktrees: [main, renamed],
+      registry: null,
+    });
+    assert.deepStrictEqual(rules(violations), ['canonicalPath', 'branchName']);
+    assert.deepStrictEqual(violations[1]?.fixes, [
+      { kind: 'renameBranch', worktreePath: renamed.path, from: 'feature/x', to: 'ada/beady-1' },
+    ]);
+  });
+
+  it('only blocks on violations in the current checkout', () => {
+    const current = worktree('ada', 'beady-1');
+    const other = worktree('bob', 'beady-2', 'feature/x');
+    const options = { ...DEFAULT_GUARD_OPTIONS, rules: { ...DEFAULT_GUARD_OPTIONS.rules, branchName: 'error' as const } };
+    const violations = evaluateWorktreeGuard(
+      { repoRoot, projectRoot: current.path, worktrees: [main, current, other], registry: null },
+      options
+    );
+    assert.deepStrictEqual(violations.map((violation) => [violation.rule, violation.severity]), [['branchName', 'warning']]);
+    const own = evaluateWorktreeGuard({ repoRoot, projectRoot: other.path, worktrees: [main, current, other], registry: null }, options);
+    assert.deepStrictEqual(own.map((violation) => [violation.rule, violation.severity]), [['branchName', 'error']]);
+  });
+
+  it('offers to check out the canonical branch on a detached HEAD', () => {
+    const detached = { ...worktree('ada', 'beady-1'), branch: '' };
+    const violations = evaluateWorktreeGuard({ repoRoot, projectRoot: detached.path, worktrees: [main, detached], registry: null });
+    assert.deepStrictEqual(violations.map((violation) => [violation.rule, violation.severity]), [['branchName', 'warning']]);
+    assert.deepStrictEqual(violations[0]?.fixes, [{ kind: 'checkoutBranch', worktreePath: detached.path, branch: 'ada/beady-1' }]);
+  });
+
+  it('flags duplicate worktrees for a task and offers to remove the others', () => {
+    const mine = worktree('ada', 'beady-1');
+    const theirs = worktree('bob', 'beady-1');
+    const violations = evaluateWorktreeGuard({ repoRoot, projectRoot: mine.path, worktrees: [main, mine, theirs], registry: null });
+    assert.deepStrictEqual(rules(violations), ['duplicate']);
+    assert.deepStrictEqual(violations[0]?.fixes, [{ kind: 'removeWorktree', entry: theirs }]);
+  });
+
+  it('warns about the main checkout once task worktrees exist', () => {
+    const input = { repoRoot, projectRoot: repoRoot, registry: null };
+    assert.deepStrictEqual(evaluateWorktreeGuard({ ...input, worktrees: [main] }), []);
+    const violations = evaluateWorktreeGuard({ ...input, worktrees: [main, worktree('ada', 'beady-1')] });
+    assert.deepStrictEqual(violations.map((violation) => [violation.rule, violation.severity]), [['mainCheckout', 'warning']]);
+  });
+
+  it('blocks workers that do not hold the lock', () => {
+    const current = worktree('ada', 'beady-1');
+    const registry = { schemaVersion: 1, generatedAt: 1, entries: [{ ...current, id: 'ada/beady-1', lockedBy: 'merge' }] };
+    const input = { repoRoot, projectRoot: current.path, worktrees: [main, current] };
+    const violations = evaluateWorktreeGuard({ ...input, registry });
+    assert.deepStrictEqual(rules(violations), ['lockOwner']);
+    assert.strictEqual(violations[0]?.actual, 'merge');
+    const ownLock = { ...registry, entries: [{ ...current, id: 'ada/beady-1', lockedBy: 'ada' }] };
+    assert.deepStrictEqual(evaluateWorktreeGuard({ ...input, registry: ownLock }), []);
+  });
+
+  it('honours rule severities and the branch pattern', () => {
+    const current = worktree('ada', 'beady-1');
+    const options = {
+      rules: { ...DEFAULT_GUARD_OPTIONS.rules, canonicalPath: 'off' as const },
+      branchPattern: /^[a-z]+\/beady-\d+$/,
+    };
+    assert.deepStrictEqual(
+      evaluateWorktreeGuard({ repoRoot, projectRoot: '/tmp/elsewhere', worktrees: [main, current], registry: null }, options),
+      []
+    );
+    const upper = worktree('Ada', 'beady-2');
+    assert.deepStrictEqual(
+      rules(evaluateWorktreeGuard({ repoRoot, projectRoot: upper.path, worktrees: [main, upper], registry: null }, options)),
+      ['branchName']
+    );
+  });
+});
+
+describe('Worktrees view', () => {
+  const moduleAny = Module as any;
+  const restoreLoad = moduleAny._load;
+  const vscodeStub = {
+    l10n: { t: (message: string, ...args: unknown[]) => message.replace(/\{(\d+)\}/g, (_m, i) => String(args[Number(i)])) },
+    TreeItem: class {
+      constructor(public label: string, public collapsibleState: number) {}
+    },
+    TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+    ThemeIcon: class {
+      constructor(public id: string) {}
+    },
+    MarkdownString: class {
+      appendMarkdown() {}
+      appendText() {}
+    },
+    EventEmitter: class {
+      event = () => ({ dispose: () => undefined });
+      fire() {}
+      dispose() {}
+    },
+    workspace: { getConfiguration: () => ({ get: (_key: string, fallback?: unknown) => fallback }) },
+  };
+
+  // Earlier suites may have loaded extension modules against a different vscode stub; load fresh
+  // copies for this suite and put the earlier ones back afterwards.
+  const outRoot = path.resolve(__dirname, '..', '..');
+  const earlierModules = new Map<string, NodeModule | undefined>();
+  const swapExtensionModules = (restore: boolean) => {
+    Object.keys(require.cache).forEach((key) => {
+      if (key.startsWith(outRoot) && !key.startsWith(path.join(outRoot, 'test'))) {
+        if (!restore) {
+          earlierModules.set(key, require.cache[key]);
+        }
+        delete require.cache[key];
+      }
+    });
+    if (restore) {
+      earlierModules.forEach((cached, key) => (require.cache[key] = cached));
+    }
+  };
+
+  before(() => {
+    moduleAny._load = (request: string, parent: any, isMain: boolean) =>
+      request === 'vscode' ? vscodeStub : restoreLoad(request, parent, isMain);
+    swapExtensionModules(false);
+  });
+
+  after(() => {
+    moduleAny._load = restoreLoad;
+    swapExtensionModules(true);
+  });
+
+  it('shows staleness as stored and heartbeats only its own worktree', () => {
+    const { WorktreeTreeProvider } = require('../../providers/worktrees');
+    const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'beady-worktrees-'));
+    try {
+      const own = path.join(repoRoot, 'own');
+      const other = path.join(repoRoot, 'other');
+      [own, other].forEach((dir) => fs.mkdirSync(dir));
+      const longAgo = Date.now() - 60 * 60 * 1000;
+      writeRegistry(repoRoot, {
+        schemaVersion: 1,
+        generatedAt: longAgo,
+        entries: [
+          { id: 'ada/own', path: own, branch: 'ada/own', lastSeen: longAgo },
+          { id: 'bob/other', path: other, branch: 'bob/other', lastSeen: longAgo },
+        ],
+      });
+      const provider = new WorktreeTreeProvider(() => []);
+      provider.setRepoRoot(repoRoot, own);
+
+      const before = fs.readFileSync(registryPath(repoRoot), 'utf8');
+      assert.deepStrictEqual(provider.getChildren().map((item: any) => item.description.includes('stale')), [true, true]);
+      assert.strictEqual(fs.readFileSync(registryPath(repoRoot), 'utf8'), before, 'listing does not rewrite the registry');
+
+      provider.heartbeat();
+      const lastSeen = readRegistry(repoRoot)!.entries.map((entry) => entry.lastSeen);
+      assert.ok(lastSeen[0]! > longAgo);
+      assert.strictEqual(lastSeen[1], longAgo, 'other workers keep their own lastSeen');
+      assert.deepStrictEqual(provider.getChildren().map((item: any) => item.description.includes('stale')), [false, true]);
+    } finally {
+      fs.rmSync(repoRoot, { recursive: true, force: true });
+    }
+  });
 });
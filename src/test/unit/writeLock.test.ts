@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import Module = require('module');
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Write lock root', () => {
+  const moduleAny = Module as any;
+  const restoreLoad = moduleAny._load;
+  const vscodeStub = { l10n: { t: (message: string) => message } };
+  let tmp: string;
+  let resolveLockRoot: (projectRoot: string) => Promise<string>;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+
+  before(() => {
+    moduleAny._load = (request: string, parent: any, isMain: boolean) =>
+      request === 'vscode' ? vscodeStub : restoreLoad(request, parent, isMain);
+    delete require.cache[require.resolve('../../services/writeLock')];
+    ({ resolveLockRoot } = require('../../services/writeLock'));
+
+    tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'beady-lock-')));
+    const main = path.join(tmp, 'main');
+    fs.mkdirSync(path.join(main, 'app', '.beads'), { recursive: true });
+    fs.mkdirSync(path.join(main, 'tools'), { recursive: true });
+    git(tmp, 'init', '-q', main);
+    git(main, 'commit', '-q', '--allow-empty', '-m', 'init');
+    git(main, 'worktree', 'add', '-q', path.join(tmp, 'feature'));
+    fs.mkdirSync(path.join(tmp, 'feature', 'app'));
+    fs.mkdirSync(path.join(tmp, 'feature', 'tools', '.beads'), { recursive: true });
+  });
+
+  after(() => {
+    moduleAny._load = restoreLoad;
+    delete require.cache[require.resolve('../../services/writeLock')];
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('keeps a project in a subdirectory of the main checkout on its own .beads', async () => {
+    assert.strictEqual(await resolveLockRoot(path.join(tmp, 'main', 'app')), path.join(tmp, 'main', 'app'));
+  });
+
+  it('maps a project in a subdirectory of a worktree onto the same directory of the main checkout', async () => {
+    assert.strictEqual(await resolveLockRoot(path.join(tmp, 'feature', 'app')), path.join(tmp, 'main', 'app'));
+  });
+
+  it('falls back to the project when the main checkout has no .beads there', async () => {
+    assert.strictEqual(await resolveLockRoot(path.join(tmp, 'feature', 'tools')), path.join(tmp, 'feature', 'tools'));
+  });
+});
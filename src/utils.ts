@@ -12,7 +12,17 @@ export * from './utils/dependencies';
 export * from './utils/markdown';
 export * from './utils/favorites';
 export * from './utils/status';
+export * from './utils/search';
+export * from './utils/savedViews';
 export * from './utils/csv';
 export * from './utils/validation';
+export * from './utils/beadDraft';
+export * from './utils/templates';
+export * from './utils/todos';
+export * from './utils/beadReferences';
 export * from './utils/graph';
 export * from './utils/filters';
+export * from './utils/journal';
+export * from './utils/optimistic';
+export * from './utils/anchors';
+export * from './utils/gitLinks';
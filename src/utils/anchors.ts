@@ -0,0 +1,73 @@
+import { BeadItemData, SourceAnchor, parseSourceAnchors } from './beads';
+
+/** An edit described in anchor terms: the 1-based lines it replaced and how many lines it added. */
+export interface AnchorLineChange {
+  startLine: number;
+  endLine: number;
+  /** The replaced range ends at column 0 of `endLine`, so that line's text is untouched. */
+  endsAtLineStart: boolean;
+  lineDelta: number;
+}
+
+/** A bead's anchor into a file, with its position in the bead's `Source:` list. */
+export interface BeadAnchor {
+  bead: BeadItemData;
+  anchor: SourceAnchor;
+  index: number;
+}
+
+/**
+ * Anchor for an editor selection given 0-based positions. A selection that ends at column 0 of a
+ * later line (whole-line selections) does not include that line.
+ */
+export function anchorFromSelection(
+  path: string,
+  startLine: number,
+  endLine: number,
+  endCharacter: number
+): SourceAnchor {
+  const last = endLine > startLine && endCharacter === 0 ? endLine - 1 : endLine;
+  return { path, startLine: startLine + 1, endLine: last + 1 };
+}
+
+/**
+ * Move an anchor through an edit. Edits above it shift it, edits below leave it alone, and edits
+ * that overlap it grow or shrink it; an anchor whose lines were deleted collapses onto the edit.
+ */
+export function shiftSourceAnchor(anchor: SourceAnchor, change: AnchorLineChange): SourceAnchor {
+  const { startLine, endLine, endsAtLineStart, lineDelta } = change;
+  if (endLine < anchor.startLine || (endLine === anchor.startLine && endsAtLineStart)) {
+    return lineDelta === 0
+      ? anchor
+      : { ...anchor, startLine: anchor.startLine + lineDelta, endLine: anchor.endLine + lineDelta };
+  }
+  if (startLine > anchor.endLine) {
+    return anchor;
+  }
+  const nextStart = Math.min(anchor.startLine, startLine);
+  const nextEnd = endLine > anchor.endLine
+    ? endLine + lineDelta - (endsAtLineStart ? 1 : 0)
+    : anchor.endLine + lineDelta;
+  return { ...anchor, startLine: nextStart, endLine: Math.max(nextStart, nextEnd) };
+}
+
+/** Whether two anchors cover the same lines of the same file. */
+export function isSameAnchor(a: SourceAnchor, b: SourceAnchor): boolean {
+  return a.path === b.path && a.startLine === b.startLine && a.endLine === b.endLine;
+}
+
+
+/** The description text a bead's `Source:` anchors live in. */
+export function getBeadDescription(bead: BeadItemData): string {
+  return bead.description ?? (bead.raw as { description?: string } | undefined)?.description ?? '';
+}
+
+/** A bead's anchors, in description order. */
+export function getSourceAnchors(bead: BeadItemData): SourceAnchor[] {
+  return parseSourceAnchors(getBeadDescription(bead));
+}
+
+/** `L12` or `L12-18`. */
+export function formatAnchorLines(anchor: SourceAnchor): string {
+  return anchor.endLine > anchor.startLine ? `L${anchor.startLine}-${anchor.endLine}` : `L${anchor.startLine}`;
+}
@@ -0,0 +1,201 @@
+import { BeadItemData } from './beads';
+import { DependencyValidationReason, sanitizeDependencyId, validateDependencyAddWithReason } from './dependencies';
+import { validateAssigneeInput, validateLabelInput, validateTitleInput } from './validation';
+
+export const BEAD_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'] as const;
+
+/** Everything the create flow collects before running `bd create`. */
+export interface BeadDraft {
+  title: string;
+  issueType?: string;
+  priority?: number;
+  description?: string;
+  design?: string;
+  acceptanceCriteria?: string;
+  assignee?: string;
+  labels: string[];
+  parentId?: string;
+  /** Beads that must finish before the new one can start. */
+  blockedBy: string[];
+}
+
+export type BeadDraftField = 'title' | 'type' | 'priority' | 'assignee' | 'label' | 'parent' | 'dependency';
+
+export type BeadDraftValidation =
+  | { ok: true; draft: BeadDraft }
+  | { ok: false; field: BeadDraftField; reason: string; value?: string };
+
+// Stand-in source id for dependency checks; the new bead has no id until bd assigns one.
+const NEW_BEAD_ID = 'new-bead';
+
+function dependencyProblem(
+  items: BeadItemData[],
+  targetId: string
+): DependencyValidationReason | 'not_found' | undefined {
+  const result = validateDependencyAddWithReason(items, NEW_BEAD_ID, targetId);
+  if (!result.ok) {
+    return result.reason ?? 'invalid_target';
+  }
+  return items.some((item) => item.id === targetId.trim()) ? undefined : 'not_found';
+}
+
+/** Split a comma separated label list, dropping blanks. */
+export function parseLabelList(input: string | undefined): string[] {
+  return (input ?? '')
+    .split(',')
+    .map((label) => label.trim())
+    .filter((label) => label.length > 0);
+}
+
+/**
+ * Validate and normalize a draft against the current beads. Returns the first problem found so
+ * the caller can send the user back to that step.
+ */
+export function validateBeadDraft(draft: BeadDraft, items: BeadItemData[]): BeadDraftValidation {
+  const title = validateTitleInput(draft.title);
+  if (!title.valid || !title.value) {
+    return { ok: false, field: 'title', reason: title.reason ?? 'invalid' };
+  }
+  const normalized: BeadDraft = { title: title.value, labels: [], blockedBy: [] };
+
+  if (draft.issueType !== undefined) {
+    if (!(BEAD_TYPES as readonly string[]).includes(draft.issueType)) {
+      return { ok: false, field: 'type', reason: 'invalid', value: draft.issueType };
+    }
+    normalized.issueType = draft.issueType;
+  }
+
+  if (draft.priority !== undefined) {
+    if (!Number.isInteger(draft.priority) || draft.priority < 0 || draft.priority > 4) {
+      return { ok: false, field: 'priority', reason: 'invalid', value: String(draft.priority) };
+    }
+    normalized.priority = draft.priority;
+  }
+
+  const textFields = ['description', 'design', 'acceptanceCriteria'] as const;
+  for (const field of textFields) {
+    const value = draft[field]?.trim();
+    if (value) {
+      normalized[field] = value;
+    }
+  }
+
+  if (draft.assignee !== undefined) {
+    const assignee = validateAssigneeInput(draft.assignee);
+    if (!assignee.valid) {
+      return { ok: false, field: 'assignee', reason: assignee.reason ?? 'invalid', value: draft.assignee };
+    }
+    if (assignee.value) {
+      normalized.assignee = assignee.value;
+    }
+  }
+
+  for (const label of draft.labels) {
+    const result = validateLabelInput(label);
+    if (!result.valid || !result.value) {
+      return { ok: false, field: 'label', reason: result.reason ?? 'invalid', value: label };
+    }
+    if (!normalized.labels.includes(result.value)) {
+      normalized.labels.push(result.value);
+    }
+  }
+
+  if (draft.parentId) {
+    const problem = dependencyProblem(items, draft.parentId);
+    if (problem) {
+      return { ok: false, field: 'parent', reason: problem, value: draft.parentId };
+    }
+    normalized.parentId = draft.parentId.trim();
+  }
+
+  for (const targetId of draft.blockedBy) {
+    const problem = dependencyProblem(items, targetId);
+    if (problem) {
+      return { ok: false, field: 'dependency', reason: problem, value: targetId };
+    }
+    const id = targetId.trim();
+    if (!normalized.blockedBy.includes(id) && id !== normalized.parentId) {
+      normalized.blockedBy.push(id);
+    }
+  }
+
+  return { ok: true, draft: normalized };
+}
+
+/** Join the lines of a text field, since bd arguments cannot contain newlines. */
+export function flattenFieldText(text: string): string {
+  return text.split(/\s*\r?\n\s*/).filter(Boolean).join(' ');
+}
+
+/** Temp files holding the multi-line text fields of a draft, by field. */
+export type BeadDraftTextFiles = Partial<Record<'description' | 'design' | 'acceptanceCriteria', string>>;
+
+/**
+ * Arguments for a single `bd create` that sets every field and dependency at once, so a failure
+ * never leaves a half-configured bead behind. Text fields with a file in `textFiles` are read from
+ * it, keeping their line breaks (a template's checklist stays a checklist); the others are
+ * flattened to one line. `--json` makes bd print the new bead, so `parseCreatedBeadId` can tell
+ * which one it created.
+ */
+export function buildCreateBeadArgs(draft: BeadDraft, textFiles: BeadDraftTextFiles = {}): string[] {
+  const args = ['create', draft.title];
+  if (draft.issueType) {
+    args.push('--type', draft.issueType);
+  }
+  if (draft.priority !== undefined) {
+    args.push('--priority', String(draft.priority));
+  }
+  if (textFiles.description) {
+    args.push('--body-file', textFiles.description);
+  } else if (draft.description) {
+    args.push('--description', flattenFieldText(draft.description));
+  }
+  if (textFiles.design) {
+    args.push('--design-file', textFiles.design);
+  } else if (draft.design) {
+    args.push('--design', flattenFieldText(draft.design));
+  }
+  if (textFiles.acceptanceCriteria) {
+    args.push('--acceptance-criteria-file', textFiles.acceptanceCriteria);
+  } else if (draft.acceptanceCriteria) {
+    args.push('--acceptance-criteria', flattenFieldText(draft.acceptanceCriteria));
+  }
+  if (draft.assignee) {
+    args.push('--assignee', draft.assignee);
+  }
+  if (draft.labels.length > 0) {
+    args.push('--labels', draft.labels.join(','));
+  }
+  const deps = [
+    ...(draft.parentId ? [`parent-child:${draft.parentId}`] : []),
+    ...draft.blockedBy.map((id) => `blocks:${id}`),
+  ];
+  if (deps.length > 0) {
+    args.push('--deps', deps.join(','));
+  }
+  args.push('--json');
+  return args;
+}
+
+/**
+ * Id of the bead `bd create` made, from its `--json` output or, for a bd that ignores `--json`,
+ * its "Created issue: <id>" line. Undefined when the output names no bead.
+ */
+export function parseCreatedBeadId(output: string | void): string | undefined {
+  const text = (output ?? '').trim();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    const created = Array.isArray(parsed) ? parsed[0] : parsed;
+    const id = (created as { id?: unknown } | undefined)?.id;
+    if (typeof id === 'string') {
+      return sanitizeDependencyId(id);
+    }
+  } catch {
+    // Not JSON; look for the printed id below.
+  }
+  const match = text.match(/Created issue:\s*(\S+)/i);
+  return match?.[1] ? sanitizeDependencyId(match[1]) : undefined;
+}
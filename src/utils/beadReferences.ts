@@ -0,0 +1,94 @@
+import { BeadItemData, deriveAssigneeName } from './beads';
+import { extractDependencyLinks } from './dependencies';
+import { escapeHtml } from './format';
+import { isDoneStatus } from './status';
+
+/** A bead id mentioned in text, with its column range on the line. */
+export interface BeadReference {
+  id: string;
+  start: number;
+  end: number;
+}
+
+// prefix-suffix ids such as beady-j44 or bd-a3f8.1; the lookarounds keep matches off longer tokens.
+const BEAD_REFERENCE_PATTERN = /(?<![A-Za-z0-9_.-])[A-Za-z][A-Za-z0-9_]*-[A-Za-z0-9]+(?:\.[0-9]+)*(?![A-Za-z0-9_-])/g;
+
+/** Id prefixes in use (`beady` for `beady-j44`), used to decide when to offer completion. */
+export function collectIdPrefixes(items: BeadItemData[]): string[] {
+  const prefixes = new Set<string>();
+  items.forEach((item) => {
+    const dash = item.id.indexOf('-');
+    if (dash > 0) {
+      prefixes.add(item.id.slice(0, dash));
+    }
+  });
+  return Array.from(prefixes);
+}
+
+/** Known bead ids mentioned in a line of text. Unknown id-shaped tokens are ignored. */
+export function findBeadReferences(text: string, knownIds: ReadonlySet<string>): BeadReference[] {
+  const references: BeadReference[] = [];
+  for (const match of text.matchAll(BEAD_REFERENCE_PATTERN)) {
+    const id = match[0];
+    if (knownIds.has(id)) {
+      references.push({ id, start: match.index ?? 0, end: (match.index ?? 0) + id.length });
+    }
+  }
+  return references;
+}
+
+/** Whether `typed` is worth completing: a known prefix, or the start of one (two characters or more). */
+export function matchesIdPrefix(typed: string, prefixes: string[]): boolean {
+  const lower = typed.toLowerCase();
+  return prefixes.some((prefix) => {
+    const candidate = prefix.toLowerCase();
+    return lower.startsWith(`${candidate}-`) || (lower.length >= 2 && candidate.startsWith(lower));
+  });
+}
+
+/** Unfinished beads that block this one. */
+export function getOpenBlockers(bead: BeadItemData, items: BeadItemData[]): BeadItemData[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return extractDependencyLinks(bead.raw)
+    .filter((link) => link.type === 'blocks')
+    .map((link) => byId.get(link.id))
+    .filter((blocker): blocker is BeadItemData => !!blocker && !isDoneStatus(blocker.status));
+}
+
+/** Localized labels for the bead hover; built with `vscode.l10n.t` by the provider. */
+export interface BeadHoverStrings {
+  statusLabel: string;
+  assigneeLabel: string;
+  unassignedLabel: string;
+  blockedByLabel: string;
+  /** Display names for status values; unknown statuses are shown as stored. */
+  statusLabels: Partial<Record<string, string>>;
+}
+
+/**
+ * Hover body for a bead mention: id and title, status, assignee and priority, and open blockers.
+ * Values are escaped here; callers still pass the result through `renderHoverHtml`.
+ */
+export function buildBeadHoverHtml(bead: BeadItemData, items: BeadItemData[], strings: BeadHoverStrings): string {
+  const raw = bead.raw as { priority?: unknown } | undefined;
+  const statusText = (status: string | undefined): string => escapeHtml(strings.statusLabels[status ?? 'open'] ?? status ?? 'open');
+  const meta = [`${escapeHtml(strings.statusLabel)}: ${statusText(bead.status)}`];
+  const assignee = deriveAssigneeName(bead, '');
+  meta.push(assignee ? `${escapeHtml(strings.assigneeLabel)}: ${escapeHtml(assignee)}` : escapeHtml(strings.unassignedLabel));
+  if (typeof raw?.priority === 'number') {
+    meta.push(`P${raw.priority}`);
+  }
+
+  const parts = [
+    `<p><strong>${escapeHtml(bead.id)}</strong> · ${escapeHtml(bead.title)}</p>`,
+    `<p>${meta.join(' · ')}</p>`,
+  ];
+  const blockers = getOpenBlockers(bead, items);
+  if (blockers.length > 0) {
+    const list = blockers
+      .map((blocker) => `<li><code>${escapeHtml(blocker.id)}</code> ${escapeHtml(blocker.title)} (${statusText(blocker.status)})</li>`)
+      .join('');
+    parts.push(`<p>${escapeHtml(strings.blockedByLabel)}:</p><ul>${list}</ul>`);
+  }
+  return parts.join('');
+}
@@ -4,11 +4,16 @@ import { BeadViewModel } from '../views/issues/types';
 export {
   BeadItemData,
   extractBeads,
+  formatSourceLine,
   normalizeBead,
+  parseSourceAnchors,
+  parseSourceLine,
   pickAssignee,
   pickFirstKey,
   pickTags,
   pickValue,
+  setSourceAnchors,
+  SourceAnchor,
   stripBeadIdPrefix,
 } from '@beads/core';
 
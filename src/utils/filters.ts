@@ -1,11 +1,36 @@
-import { BeadItemData } from './beads';
+import { BeadItemData, deriveAssigneeName } from './beads';
 import { isStale } from './stale';
 import { sanitizeInlineText } from './sanitize';
+import { normalizeStatus } from './status';
 
+/** One quick filter predicate. */
 export type QuickFilterPreset =
-  | { kind: 'status'; value: 'open' | 'in_progress' | 'blocked' | 'closed' }
+  | { kind: 'status'; value: string }
   | { kind: 'label'; value?: string }
-  | { kind: 'stale' };
+  | { kind: 'stale' }
+  /** Without a value, matches unassigned beads. */
+  | { kind: 'assignee'; value?: string }
+  | { kind: 'type'; value: string }
+  | { kind: 'priority'; value: number }
+  /** The epic and its children. */
+  | { kind: 'epic'; value: string }
+  | { kind: 'worktree'; value: string };
+
+export type QuickFilterMode = 'and' | 'or';
+
+/** Stacked predicates; `and` requires every predicate to match, `or` any of them. */
+export interface QuickFilterSet {
+  mode: QuickFilterMode;
+  predicates: QuickFilterPreset[];
+}
+
+/** A single predicate (the legacy persisted shape) or a stacked set. */
+export type QuickFilter = QuickFilterPreset | QuickFilterSet;
+
+function safeText(value: unknown): string | undefined {
+  const sanitized = typeof value === 'string' ? sanitizeInlineText(value) : '';
+  return sanitized.length > 0 ? sanitized : undefined;
+}
 
 export function normalizeQuickFilter(preset?: QuickFilterPreset): QuickFilterPreset | undefined {
   if (!preset) {
@@ -14,60 +39,135 @@ export function normalizeQuickFilter(preset?: QuickFilterPreset): QuickFilterPre
 
   switch (preset.kind) {
     case 'status': {
-      const allowed: Array<'open' | 'in_progress' | 'blocked' | 'closed'> = ['open', 'in_progress', 'blocked', 'closed'];
-      return allowed.includes(preset.value) ? { kind: 'status', value: preset.value } : undefined;
+      const status = typeof preset.value === 'string' ? normalizeStatus(preset.value) : undefined;
+      return status ? { kind: 'status', value: status } : undefined;
     }
     case 'label': {
-      const safeValue = typeof preset.value === 'string' ? sanitizeInlineText(preset.value) : undefined;
-      if (safeValue && safeValue.length > 0) {
-        return { kind: 'label', value: safeValue };
-      }
-      return { kind: 'label' };
+      const safeValue = safeText(preset.value);
+      return safeValue ? { kind: 'label', value: safeValue } : { kind: 'label' };
     }
     case 'stale':
       return { kind: 'stale' };
+    case 'assignee': {
+      const safeValue = safeText(preset.value);
+      return safeValue ? { kind: 'assignee', value: safeValue } : { kind: 'assignee' };
+    }
+    case 'type':
+    case 'epic':
+    case 'worktree': {
+      const safeValue = safeText(preset.value);
+      return safeValue ? ({ kind: preset.kind, value: safeValue } as QuickFilterPreset) : undefined;
+    }
+    case 'priority': {
+      const priority = Number(preset.value);
+      return Number.isInteger(priority) && priority >= 0 && priority <= 4 ? { kind: 'priority', value: priority } : undefined;
+    }
     default:
       return undefined;
   }
 }
 
-export function applyQuickFilter(items: BeadItemData[], preset?: QuickFilterPreset): BeadItemData[] {
-  const safePreset = normalizeQuickFilter(preset);
-  if (!safePreset) {
-    return items;
+/** Stable identity of a predicate, e.g. `status:blocked`, `label`, `priority:1`. */
+export function quickFilterKey(preset: QuickFilterPreset): string {
+  return 'value' in preset && preset.value !== undefined ? `${preset.kind}:${preset.value}` : preset.kind;
+}
+
+export function isQuickFilterSet(filter: QuickFilter | undefined): filter is QuickFilterSet {
+  return !!filter && typeof filter === 'object' && Array.isArray((filter as QuickFilterSet).predicates);
+}
+
+/**
+ * Coerce a single predicate or a set into a validated, de-duplicated set. Returns undefined when
+ * nothing valid remains.
+ */
+export function normalizeQuickFilterSet(filter: QuickFilter | undefined): QuickFilterSet | undefined {
+  if (!filter) {
+    return undefined;
+  }
+  const source = isQuickFilterSet(filter) ? filter : { mode: 'and' as const, predicates: [filter] };
+  const predicates: QuickFilterPreset[] = [];
+  const seen = new Set<string>();
+  for (const candidate of source.predicates) {
+    const normalized = normalizeQuickFilter(candidate);
+    if (normalized && !seen.has(quickFilterKey(normalized))) {
+      seen.add(quickFilterKey(normalized));
+      predicates.push(normalized);
+    }
   }
+  if (predicates.length === 0) {
+    return undefined;
+  }
+  return { mode: source.mode === 'or' ? 'or' : 'and', predicates };
+}
 
-  switch (safePreset.kind) {
+function itemLabels(item: BeadItemData): string[] {
+  const labels = (item.raw as any)?.labels;
+  return Array.isArray(labels) ? labels : [];
+}
+
+function matchesPredicate(item: BeadItemData, preset: QuickFilterPreset): boolean {
+  const raw = item.raw as any;
+  switch (preset.kind) {
     case 'status':
-      return items.filter((item) => (item.status || 'open') === safePreset.value);
+      return (item.status || 'open') === preset.value;
     case 'label':
-      return items.filter((item) => {
-        const labels: string[] = Array.isArray((item.raw as any)?.labels) ? (item.raw as any).labels : [];
-        if (safePreset.value) {
-          return labels.some((label) => label && sanitizeInlineText(label).toLowerCase() === safePreset.value?.toLowerCase());
-        }
-        return labels.length > 0;
-      });
-    case 'stale': {
-      return items.filter((item) => isStale(item));
+      if (preset.value) {
+        return itemLabels(item).some(
+          (label) => label && sanitizeInlineText(label).toLowerCase() === preset.value?.toLowerCase()
+        );
+      }
+      return itemLabels(item).length > 0;
+    case 'stale':
+      return isStale(item);
+    case 'assignee': {
+      const assignee = deriveAssigneeName(item, '').toLowerCase();
+      return preset.value ? assignee === preset.value.toLowerCase() : !assignee;
     }
+    case 'type':
+      return (item.issueType ?? raw?.issue_type ?? '').toLowerCase() === preset.value.toLowerCase();
+    case 'priority':
+      return Number(raw?.priority) === preset.value;
+    case 'epic':
+      return item.id === preset.value || item.parentId === preset.value;
+    case 'worktree':
+      return raw?.worktree === preset.value;
     default:
-      return items;
+      return true;
   }
 }
 
-export function toggleQuickFilter(current: QuickFilterPreset | undefined, selected: QuickFilterPreset): QuickFilterPreset | undefined {
-  if (!current) {
-    return selected;
+export function applyQuickFilter(items: BeadItemData[], filter?: QuickFilter): BeadItemData[] {
+  const set = normalizeQuickFilterSet(filter);
+  if (!set) {
+    return items;
   }
 
-  if (current.kind === selected.kind) {
-    const currentValue = 'value' in current ? current.value : undefined;
-    const selectedValue = 'value' in selected ? selected.value : undefined;
-    if (currentValue === selectedValue) {
-      return undefined;
-    }
-  }
+  return items.filter((item) =>
+    set.mode === 'or'
+      ? set.predicates.some((predicate) => matchesPredicate(item, predicate))
+      : set.predicates.every((predicate) => matchesPredicate(item, predicate))
+  );
+}
 
-  return selected;
+/** Add the predicate to the set, or remove it when already active. */
+export function toggleQuickFilterPredicate(
+  current: QuickFilterSet | undefined,
+  selected: QuickFilterPreset
+): QuickFilterSet | undefined {
+  const key = quickFilterKey(selected);
+  const predicates = current?.predicates ?? [];
+  const next = predicates.some((predicate) => quickFilterKey(predicate) === key)
+    ? predicates.filter((predicate) => quickFilterKey(predicate) !== key)
+    : [...predicates, selected];
+  return normalizeQuickFilterSet({ mode: current?.mode ?? 'and', predicates: next });
+}
+
+export function removeQuickFilterPredicate(current: QuickFilterSet | undefined, key: string): QuickFilterSet | undefined {
+  if (!current) {
+    return undefined;
+  }
+  return normalizeQuickFilterSet({
+    mode: current.mode,
+    predicates: current.predicates.filter((predicate) => quickFilterKey(predicate) !== key),
+  });
 }
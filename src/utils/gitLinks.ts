@@ -0,0 +1,107 @@
+import { findBeadReferences } from './beadReferences';
+
+/** A commit whose message mentions at least one bead. */
+export interface GitCommit {
+  sha: string;
+  shortSha: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+/** A local branch, or a remote branch with no local counterpart. */
+export interface GitBranch {
+  name: string;
+  remote: boolean;
+}
+
+/** Commits and branches that reference each bead, keyed by bead id. */
+export interface GitLinkIndex {
+  commits: Map<string, GitCommit[]>;
+  branches: Map<string, GitBranch[]>;
+}
+
+/** `git log --format` producing one record per commit: fields split by \x1f, records by \x1e. */
+export const GIT_LOG_FORMAT = '%H%x1f%h%x1f%an%x1f%aI%x1f%s%x1f%b%x1e';
+
+interface ParsedCommit extends GitCommit {
+  body: string;
+}
+
+/** Parse `git log --format=${GIT_LOG_FORMAT}` output. */
+export function parseGitLog(output: string): ParsedCommit[] {
+  return output
+    .split('\x1e')
+    .map((record) => record.replace(/^\s+/, ''))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [sha = '', shortSha = '', author = '', date = '', subject = '', body = ''] = record.split('\x1f');
+      return { sha, shortSha, author, date, subject, body: body.trim() };
+    })
+    .filter((commit) => commit.sha.length > 0);
+}
+
+/**
+ * Parse `git for-each-ref --format=%(refname) refs/heads refs/remotes`. Remote branches that have
+ * a local branch of the same name, and symbolic `HEAD` refs, are dropped.
+ */
+export function parseBranchRefs(output: string): GitBranch[] {
+  const local = new Set<string>();
+  const remote: Array<{ name: string; shortName: string }> = [];
+  output.split(/\r?\n/).forEach((line) => {
+    const ref = line.trim();
+    if (ref.startsWith('refs/heads/')) {
+      local.add(ref.slice('refs/heads/'.length));
+    } else if (ref.startsWith('refs/remotes/')) {
+      const name = ref.slice('refs/remotes/'.length);
+      const slash = name.indexOf('/');
+      const shortName = slash > 0 ? name.slice(slash + 1) : '';
+      if (shortName && shortName !== 'HEAD') {
+        remote.push({ name, shortName });
+      }
+    }
+  });
+  return [
+    ...Array.from(local, (name) => ({ name, remote: false })),
+    ...remote.filter((branch) => !local.has(branch.shortName)).map((branch) => ({ name: branch.name, remote: true })),
+  ];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Known bead ids in a branch name such as `ada/beady-12` or `feature/beady-12-login`. Unlike
+ * message text, an id may be followed by `-words`, but not by more id characters (`beady-123`).
+ */
+export function findBeadIdsInBranch(branch: string, knownIds: Iterable<string>): string[] {
+  const found: string[] = [];
+  for (const id of knownIds) {
+    if (branch.includes(id) && new RegExp(`(?:^|[^A-Za-z0-9_.])${escapeRegExp(id)}(?![A-Za-z0-9_]|\\.[0-9])`).test(branch)) {
+      found.push(id);
+    }
+  }
+  return found;
+}
+
+/** Group commits (by message) and branches (by name) under the beads they mention. */
+export function buildGitLinkIndex(commits: ParsedCommit[], branches: GitBranch[], knownIds: ReadonlySet<string>): GitLinkIndex {
+  const index: GitLinkIndex = { commits: new Map(), branches: new Map() };
+  commits.forEach(({ body, ...commit }) => {
+    const ids = new Set(findBeadReferences(`${commit.subject}\n${body}`, knownIds).map((reference) => reference.id));
+    ids.forEach((id) => {
+      const list = index.commits.get(id) ?? [];
+      list.push(commit);
+      index.commits.set(id, list);
+    });
+  });
+  branches.forEach((branch) => {
+    findBeadIdsInBranch(branch.name, knownIds).forEach((id) => {
+      const list = index.branches.get(id) ?? [];
+      list.push(branch);
+      index.branches.set(id, list);
+    });
+  });
+  return index;
+}
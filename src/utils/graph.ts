@@ -6,10 +6,20 @@ export {
   DependencyTrees,
   GraphEdgeData,
   GraphNodeData,
+  GraphPatch,
+  ScheduleAnalysis,
+  ScheduleNode,
+  ScheduleOptions,
+  ScheduleWeight,
+  analyzeSchedule,
   buildDependencyAdjacency,
+  buildGraphPatch,
   buildDependencyTrees,
   collectDependencyEdges,
+  computeReadySet,
+  getScheduleDuration,
   mapBeadsToGraphNodes,
+  topologicalOrder,
   validateEdgeAddition,
   willCreateDependencyCycle,
 } from '@beads/core';
@@ -0,0 +1,231 @@
+import { BeadItemData } from './beads';
+
+/**
+ * A single bd invocation, a multi-line description update (run through a temp file), or a full
+ * bead restore from its captured JSON (used to undo deletes).
+ */
+export type MutationAction =
+  | { args: string[] }
+  | { beadId: string; description: string }
+  | { restore: Record<string, unknown> };
+
+export interface MutationStep {
+  beadId: string;
+  forward: MutationAction;
+  inverse: MutationAction;
+}
+
+/** One undoable unit. Bulk operations record all of their steps in a single entry. */
+export interface MutationEntry {
+  label: string;
+  steps: MutationStep[];
+  timestamp: number;
+}
+
+export type MutationExecutor = (action: MutationAction) => Promise<void>;
+
+/**
+ * Raised when an undo or redo stops partway. `applied` steps ran and moved to the opposite stack;
+ * the rest stay where they were so the command can be retried.
+ */
+export class PartialReplayError extends Error {
+  constructor(
+    public readonly entry: MutationEntry,
+    public readonly applied: MutationStep[],
+    public readonly cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'PartialReplayError';
+  }
+}
+
+export const DEFAULT_JOURNAL_LIMIT = 50;
+
+function rawField(item: BeadItemData, key: string): unknown {
+  const raw = item.raw as Record<string, unknown> | undefined;
+  return raw && typeof raw === 'object' ? raw[key] : undefined;
+}
+
+function rawString(item: BeadItemData, key: string, fallback = ''): string {
+  const value = rawField(item, key);
+  return typeof value === 'string' ? value : fallback;
+}
+
+const LONG_UPDATE_FLAGS: Record<string, string> = { '-d': '--description', '-a': '--assignee', '-p': '--priority', '-s': '--status', '-t': '--type' };
+
+/**
+ * Arguments for `bd update <id> <flag> <value>`. bd rejects empty arguments, so an empty value
+ * clears the field with `--flag=` instead.
+ */
+export function buildUpdateArgs(beadId: string, flag: string, value: string): string[] {
+  if (value.trim() === '') {
+    return ['update', beadId, `${LONG_UPDATE_FLAGS[flag] ?? flag}=`];
+  }
+  return ['update', beadId, flag, value];
+}
+
+/**
+ * Arguments for a description update. Multi-line text cannot be an argument, so it is read from
+ * `textFile` when given (see runWithTextFile).
+ */
+export function buildDescriptionUpdateArgs(beadId: string, value: string, textFile?: string): string[] {
+  return textFile ? ['update', beadId, '--body-file', textFile] : buildUpdateArgs(beadId, '-d', value);
+}
+
+function buildUpdateAction(beadId: string, flag: string, value: string): MutationAction {
+  if ((flag === '-d' || flag === '--description') && /[\r\n]/.test(value)) {
+    return { beadId, description: value };
+  }
+  return { args: buildUpdateArgs(beadId, flag, value) };
+}
+
+/**
+ * Build a step for `bd update <id> <flag> <value>`, taking the previous value from the bead's raw JSON.
+ */
+export function buildUpdateStep(item: BeadItemData, flag: string, rawKey: string, nextValue: string): MutationStep {
+  let previous: string;
+  if (rawKey === 'status') {
+    previous = item.status ?? rawString(item, 'status', 'open');
+  } else if (rawKey === 'priority') {
+    const value = rawField(item, 'priority');
+    previous = value === undefined || value === null ? '2' : String(value);
+  } else {
+    previous = rawString(item, rawKey);
+  }
+
+  return {
+    beadId: item.id,
+    forward: buildUpdateAction(item.id, flag, nextValue),
+    inverse: buildUpdateAction(item.id, flag, previous),
+  };
+}
+
+export function buildLabelStep(beadId: string, action: 'add' | 'remove', label: string): MutationStep {
+  const opposite = action === 'add' ? 'remove' : 'add';
+  return {
+    beadId,
+    forward: { args: ['label', action, beadId, label] },
+    inverse: { args: ['label', opposite, beadId, label] },
+  };
+}
+
+export function buildDependencyStep(
+  action: 'add' | 'remove',
+  sourceId: string,
+  targetId: string,
+  type?: string
+): MutationStep {
+  const addArgs = ['dep', 'add', sourceId, targetId];
+  if (type && type !== 'blocks') {
+    addArgs.push('--type', type);
+  }
+  const removeArgs = ['dep', 'remove', sourceId, targetId];
+  return {
+    beadId: sourceId,
+    forward: { args: action === 'add' ? addArgs : removeArgs },
+    inverse: { args: action === 'add' ? removeArgs : addArgs },
+  };
+}
+
+/** Deletes are undone by re-importing the JSON captured before the delete ran. */
+export function buildDeleteStep(item: BeadItemData): MutationStep {
+  const raw = item.raw && typeof item.raw === 'object' ? { ...(item.raw as Record<string, unknown>) } : { id: item.id, title: item.title };
+  return {
+    beadId: item.id,
+    forward: { args: ['delete', item.id, '--force'] },
+    inverse: { restore: raw },
+  };
+}
+
+/**
+ * Bounded undo/redo stacks of bead mutations. Recording a new entry clears the redo stack.
+ */
+export class MutationJournal {
+  private undoStack: MutationEntry[] = [];
+  private redoStack: MutationEntry[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_JOURNAL_LIMIT) {}
+
+  record(label: string, steps: MutationStep[], timestamp: number = Date.now()): void {
+    if (steps.length === 0) {
+      return;
+    }
+    this.undoStack.push({ label, steps, timestamp });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  peekUndo(): MutationEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  peekRedo(): MutationEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Apply the inverse of the latest entry, last step first. If a step fails, the steps already
+   * undone move to the redo stack, the rest stay on the undo stack, and a PartialReplayError is thrown.
+   */
+  async undo(execute: MutationExecutor): Promise<MutationEntry | undefined> {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return undefined;
+    }
+    let pending = entry.steps.length;
+    try {
+      for (; pending > 0; pending--) {
+        await execute(entry.steps[pending - 1]!.inverse);
+      }
+    } catch (error) {
+      const applied = entry.steps.slice(pending);
+      this.pushPart(this.undoStack, entry, entry.steps.slice(0, pending));
+      this.pushPart(this.redoStack, entry, applied);
+      throw new PartialReplayError(entry, applied, error);
+    }
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /** Re-apply the latest undone entry in order; failures are split the same way as in undo. */
+  async redo(execute: MutationExecutor): Promise<MutationEntry | undefined> {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return undefined;
+    }
+    let done = 0;
+    try {
+      for (; done < entry.steps.length; done++) {
+        await execute(entry.steps[done]!.forward);
+      }
+    } catch (error) {
+      const applied = entry.steps.slice(0, done);
+      this.pushPart(this.redoStack, entry, entry.steps.slice(done));
+      this.pushPart(this.undoStack, entry, applied);
+      throw new PartialReplayError(entry, applied, error);
+    }
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  private pushPart(stack: MutationEntry[], entry: MutationEntry, steps: MutationStep[]): void {
+    if (steps.length > 0) {
+      stack.push({ ...entry, steps });
+    }
+  }
+}
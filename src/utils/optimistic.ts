@@ -0,0 +1,135 @@
+import { BeadItemData, normalizeBead } from './beads';
+
+/** Inline edits that can be shown before the bd CLI confirms them. */
+export interface BeadPatch {
+  status?: string;
+  title?: string;
+  priority?: number;
+  assignee?: string;
+  addLabel?: string;
+  removeLabel?: string;
+}
+
+/** Committed edits are dropped once a refresh reflects them, or after this long regardless. */
+export const OPTIMISTIC_COMMIT_TTL_MS = 10_000;
+
+function rawLabels(raw: Record<string, unknown>): string[] {
+  return Array.isArray(raw.labels) ? raw.labels.map(String) : [];
+}
+
+/**
+ * Return a copy of the bead with the patch applied to its raw JSON, re-normalized so derived
+ * fields (tags, assignee, inProgressSince) stay consistent.
+ */
+export function applyBeadPatch(item: BeadItemData, patch: BeadPatch, now: string = new Date().toISOString()): BeadItemData {
+  const raw: Record<string, unknown> =
+    item.raw && typeof item.raw === 'object' ? { ...(item.raw as Record<string, unknown>) } : { id: item.id, title: item.title };
+
+  if (patch.status !== undefined) raw.status = patch.status;
+  if (patch.title !== undefined) raw.title = patch.title;
+  if (patch.priority !== undefined) raw.priority = patch.priority;
+  if (patch.assignee !== undefined) {
+    if (patch.assignee) {
+      raw.assignee = patch.assignee;
+    } else {
+      delete raw.assignee;
+    }
+  }
+  if (patch.addLabel !== undefined || patch.removeLabel !== undefined) {
+    const labels = rawLabels(raw).filter((label) => label !== patch.removeLabel);
+    if (patch.addLabel !== undefined && !labels.includes(patch.addLabel)) {
+      labels.push(patch.addLabel);
+    }
+    raw.labels = labels;
+  }
+  raw.updated_at = now;
+
+  const next = normalizeBead(raw);
+  next.id = item.id;
+  if (item.idKey) next.idKey = item.idKey;
+  if (item.childCount !== undefined) next.childCount = item.childCount;
+  return next;
+}
+
+/** True when a refreshed bead already carries the patched values. */
+export function isPatchReflected(item: BeadItemData, patch: BeadPatch): boolean {
+  const raw = (item.raw as Record<string, unknown>) ?? {};
+  if (patch.status !== undefined && item.status !== patch.status) return false;
+  if (patch.title !== undefined && item.title !== patch.title) return false;
+  if (patch.priority !== undefined && Number(raw.priority) !== patch.priority) return false;
+  if (patch.assignee !== undefined && (item.assignee ?? '') !== patch.assignee) return false;
+  const tags = item.tags ?? [];
+  if (patch.addLabel !== undefined && !tags.includes(patch.addLabel)) return false;
+  if (patch.removeLabel !== undefined && tags.includes(patch.removeLabel)) return false;
+  return true;
+}
+
+interface PendingEdit {
+  beadId: string;
+  patch: BeadPatch;
+  committedAt?: number;
+}
+
+/**
+ * Tracks in-flight inline edits and overlays them on incoming snapshots, so a refresh that
+ * lands before bd finishes does not flicker the old value back.
+ */
+export class OptimisticEditTracker {
+  private readonly pending = new Map<number, PendingEdit>();
+  private nextToken = 1;
+
+  constructor(
+    private readonly clock: () => number = Date.now,
+    private readonly commitTtlMs: number = OPTIMISTIC_COMMIT_TTL_MS
+  ) {}
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  begin(beadId: string, patch: BeadPatch): number {
+    const token = this.nextToken++;
+    this.pending.set(token, { beadId, patch });
+    return token;
+  }
+
+  /** The CLI accepted the edit; keep overlaying it until a refresh shows it. */
+  commit(token: number): void {
+    const edit = this.pending.get(token);
+    if (edit) {
+      edit.committedAt = this.clock();
+    }
+  }
+
+  rollback(token: number): void {
+    this.pending.delete(token);
+  }
+
+  /** Overlay pending edits on the given items. Returns the same array when nothing is pending. */
+  apply(items: BeadItemData[]): BeadItemData[] {
+    if (this.pending.size === 0) {
+      return items;
+    }
+
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const now = this.clock();
+    for (const [token, edit] of this.pending) {
+      const base = byId.get(edit.beadId);
+      if (edit.committedAt !== undefined && (!base || isPatchReflected(base, edit.patch) || now - edit.committedAt > this.commitTtlMs)) {
+        this.pending.delete(token);
+      }
+    }
+    if (this.pending.size === 0) {
+      return items;
+    }
+
+    const patched = new Map<string, BeadItemData>();
+    for (const edit of this.pending.values()) {
+      const current = patched.get(edit.beadId) ?? byId.get(edit.beadId);
+      if (current) {
+        patched.set(edit.beadId, applyBeadPatch(current, edit.patch));
+      }
+    }
+    return items.map((item) => patched.get(item.id) ?? item);
+  }
+}
@@ -0,0 +1,126 @@
+import { QuickFilter, QuickFilterSet, normalizeQuickFilterSet } from './filters';
+import { sanitizeInlineText } from './sanitize';
+
+export type SavedViewSortMode = 'id' | 'status' | 'epic' | 'assignee';
+export type SavedViewScope = 'workspace' | 'shared';
+
+/** Everything a saved view restores in the Tasks tree. */
+export interface SavedViewState {
+  query: string;
+  quickFilter?: QuickFilterSet;
+  sortMode: SavedViewSortMode;
+  showClosed: boolean;
+  collapsedSections: string[];
+}
+
+export interface SavedView extends SavedViewState {
+  id: string;
+  name: string;
+  scope: SavedViewScope;
+}
+
+/** Shape of `.beads/views.json` and of the workspace state entry. */
+export interface SavedViewsDocument {
+  views: Array<Omit<SavedView, 'scope'>>;
+  defaultView?: string;
+}
+
+const SORT_MODES: readonly SavedViewSortMode[] = ['id', 'status', 'epic', 'assignee'];
+const MAX_VIEW_NAME_LENGTH = 80;
+
+export function slugifyViewName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+}
+
+/** Validate one view entry; returns undefined (with a reason) when it cannot be used. */
+export function normalizeSavedView(input: unknown, scope: SavedViewScope): { view?: SavedView; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'view must be an object' };
+  }
+  const source = input as Record<string, unknown>;
+  const name = typeof source.name === 'string' ? sanitizeInlineText(source.name).slice(0, MAX_VIEW_NAME_LENGTH) : '';
+  if (!name) {
+    return { error: 'view is missing a name' };
+  }
+  const id = slugifyViewName(typeof source.id === 'string' && source.id ? source.id : name);
+  if (!id) {
+    return { error: `view "${name}" has no usable id` };
+  }
+
+  const view: SavedView = {
+    id,
+    name,
+    scope,
+    query: typeof source.query === 'string' ? source.query.trim() : '',
+    sortMode: SORT_MODES.includes(source.sortMode as SavedViewSortMode) ? (source.sortMode as SavedViewSortMode) : 'id',
+    showClosed: typeof source.showClosed === 'boolean' ? source.showClosed : true,
+    collapsedSections: Array.isArray(source.collapsedSections)
+      ? source.collapsedSections.filter((key): key is string => typeof key === 'string')
+      : [],
+  };
+  const quickFilter = normalizeQuickFilterSet(source.quickFilter as QuickFilter | undefined);
+  if (quickFilter) {
+    view.quickFilter = quickFilter;
+  }
+  return { view };
+}
+
+export function parseSavedViews(
+  input: unknown,
+  scope: SavedViewScope
+): { views: SavedView[]; defaultView?: string; errors: string[] } {
+  const errors: string[] = [];
+  const views: SavedView[] = [];
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const entries = Array.isArray(source.views) ? source.views : [];
+
+  for (const entry of entries) {
+    const { view, error } = normalizeSavedView(entry, scope);
+    if (!view) {
+      errors.push(error ?? 'invalid view');
+      continue;
+    }
+    if (views.some((existing) => existing.id === view.id)) {
+      errors.push(`duplicate view id: ${view.id}`);
+      continue;
+    }
+    views.push(view);
+  }
+
+  const result: { views: SavedView[]; defaultView?: string; errors: string[] } = { views, errors };
+  // A workspace default may name a shared view, so it is resolved in mergeSavedViews.
+  if (typeof source.defaultView === 'string' && source.defaultView) {
+    result.defaultView = source.defaultView;
+  }
+  return result;
+}
+
+export function serializeSavedViews(views: SavedView[], defaultView?: string): SavedViewsDocument {
+  const document: SavedViewsDocument = {
+    views: views.map(({ scope: _scope, ...view }) => view),
+  };
+  if (defaultView) {
+    document.defaultView = defaultView;
+  }
+  return document;
+}
+
+/**
+ * Combine workspace and shared views. A workspace view shadows a shared view with the same id,
+ * and a workspace default wins over the shared default.
+ */
+export function mergeSavedViews(
+  workspace: { views: SavedView[]; defaultView?: string },
+  shared: { views: SavedView[]; defaultView?: string }
+): { views: SavedView[]; defaultView?: string } {
+  const localIds = new Set(workspace.views.map((view) => view.id));
+  const views = [...workspace.views, ...shared.views.filter((view) => !localIds.has(view.id))];
+  const defaultView = [workspace.defaultView, shared.defaultView].find(
+    (id) => id !== undefined && views.some((view) => view.id === id)
+  );
+  return defaultView ? { views, defaultView } : { views };
+}
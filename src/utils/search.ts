@@ -0,0 +1,19 @@
+export {
+  BeadSearchIndex,
+  ParsedSearchQuery,
+  SEARCH_FIELDS,
+  SearchClause,
+  SearchField,
+  SearchOptions,
+  SearchResult,
+  SearchSuggestion,
+  filterBeadsByQuery,
+  getSearchSuggestions,
+  parseSearchQuery,
+  searchBeads,
+} from '@beads/core';
+
+/** Name `@me` resolves to in search queries: the bd actor, falling back to the OS user. */
+export function resolveSearchUser(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.BD_ACTOR || env.USER || env.USERNAME || undefined;
+}
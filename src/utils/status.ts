@@ -1,12 +1,39 @@
+import { formatStatusLabel, getStatusWorkflow } from '@beads/core';
+
 export {
   ALLOWED_STATUSES,
   BeadsStatus,
+  DEFAULT_STATUS_WORKFLOW,
+  StatusCategory,
+  StatusChangeContext,
+  StatusDefinition,
+  StatusWorkflow,
   canTransition,
   compareStatus,
+  countOpenBlockers,
   formatPriorityLabel,
   formatStatusLabel,
+  getStatusDefinition,
+  getStatusSectionOrder,
+  getStatusWorkflow,
+  getWorkflowStatuses,
+  isDoneStatus,
   normalizeStatus,
+  parseStatusWorkflow,
+  setStatusWorkflow,
   statusPriority,
+  useStatusWorkflow,
   validateStatusChange,
   validateStatusSelection,
 } from '@beads/core';
+
+/**
+ * Status choices for pickers and dropdowns, in workflow order. Built-in statuses use the
+ * caller's localized labels; custom ones use their workflow label.
+ */
+export function getWorkflowStatusOptions(localizedLabels: Partial<Record<string, string>> = {}): Array<{ value: string; label: string }> {
+  return getStatusWorkflow().statuses.map((status) => ({
+    value: status.id,
+    label: status.label ?? localizedLabels[status.id] ?? formatStatusLabel(status.id),
+  }));
+}
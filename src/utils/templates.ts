@@ -0,0 +1,222 @@
+import { BEAD_TYPES, BeadDraft, parseLabelList } from './beadDraft';
+import { sanitizeInlineText } from './sanitize';
+
+/**
+ * A reusable shape of work from `.beads/templates/`. Text fields may contain `${assignee}`,
+ * `${date}` and `${selection}` placeholders.
+ */
+export interface BeadTemplate {
+  id: string;
+  name: string;
+  title: string;
+  issueType?: string;
+  priority?: number;
+  assignee?: string;
+  labels: string[];
+  description?: string;
+  design?: string;
+  acceptanceCriteria?: string;
+  /** Titles of child tasks created under the new bead (usually an epic). */
+  children: string[];
+}
+
+export interface TemplateValues {
+  assignee?: string;
+  /** Defaults to today, formatted YYYY-MM-DD. */
+  date?: string;
+  selection?: string;
+}
+
+const MAX_TEMPLATE_NAME_LENGTH = 80;
+
+type MarkdownSection = 'description' | 'design' | 'acceptanceCriteria' | 'children';
+
+const SECTION_HEADINGS: Record<string, MarkdownSection> = {
+  description: 'description',
+  design: 'design',
+  'acceptance criteria': 'acceptanceCriteria',
+  acceptance: 'acceptanceCriteria',
+  children: 'children',
+  tasks: 'children',
+};
+
+function templateId(fileName: string): string {
+  return fileName.replace(/\.(md|json)$/i, '');
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toLabels(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((label): label is string => typeof label === 'string').map((label) => label.trim()).filter(Boolean);
+  }
+  return typeof value === 'string' ? parseLabelList(value.replace(/^\[|\]$/g, '')) : [];
+}
+
+function toChildren(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((child) => (typeof child === 'string' ? child : (child as { title?: unknown } | null)?.title))
+    .filter((title): title is string => typeof title === 'string' && title.trim().length > 0)
+    .map((title) => title.trim());
+}
+
+/** Build a template from already-parsed fields, checking type and priority. */
+function normalizeTemplate(id: string, source: Record<string, unknown>): { template?: BeadTemplate; error?: string } {
+  const name = sanitizeInlineText(optionalText(source.name) ?? id).slice(0, MAX_TEMPLATE_NAME_LENGTH);
+  const template: BeadTemplate = {
+    id,
+    name,
+    title: optionalText(source.title) ?? '',
+    labels: toLabels(source.labels),
+    children: toChildren(source.children),
+  };
+
+  const type = optionalText(source.type ?? source.issueType);
+  if (type) {
+    if (!(BEAD_TYPES as readonly string[]).includes(type)) {
+      return { error: `${id}: unknown type "${type}"` };
+    }
+    template.issueType = type;
+  }
+
+  if (source.priority !== undefined && source.priority !== '') {
+    const priority = Number(String(source.priority).replace(/^p/i, ''));
+    if (!Number.isInteger(priority) || priority < 0 || priority > 4) {
+      return { error: `${id}: priority must be 0-4` };
+    }
+    template.priority = priority;
+  }
+
+  const fields = ['assignee', 'description', 'design', 'acceptanceCriteria'] as const;
+  for (const field of fields) {
+    const value = optionalText(source[field]);
+    if (value) {
+      template[field] = value;
+    }
+  }
+  return { template };
+}
+
+/**
+ * Parse a markdown template: `key: value` front matter (name, title, type, priority, labels,
+ * assignee) followed by `## Description`, `## Design`, `## Acceptance Criteria` and `## Children`
+ * sections. Text before the first heading is the description; children are list items.
+ */
+export function parseMarkdownTemplate(id: string, content: string): { template?: BeadTemplate; error?: string } {
+  const source: Record<string, unknown> = {};
+  let body = content.replace(/\r\n/g, '\n');
+
+  const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(body);
+  if (frontMatter) {
+    for (const line of frontMatter[1]!.split('\n')) {
+      const match = /^([A-Za-z]+)\s*:\s*(.*)$/.exec(line.trim());
+      if (match) {
+        source[match[1]!] = match[2]!.trim().replace(/^(["'])(.*)\1$/, '$2');
+      }
+    }
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const sections: Record<MarkdownSection, string[]> = { description: [], design: [], acceptanceCriteria: [], children: [] };
+  let current: MarkdownSection = 'description';
+  for (const line of body.split('\n')) {
+    const heading = /^##\s+(.+?)\s*$/.exec(line);
+    const section = heading ? SECTION_HEADINGS[heading[1]!.toLowerCase()] : undefined;
+    if (section) {
+      current = section;
+      continue;
+    }
+    sections[current].push(line);
+  }
+
+  source.description = sections.description.join('\n');
+  source.design = sections.design.join('\n');
+  source.acceptanceCriteria = sections.acceptanceCriteria.join('\n');
+  source.children = sections.children
+    .map((line) => /^\s*(?:[-*]|\d+\.)\s+(?:\[[ xX]\]\s+)?(.+)$/.exec(line)?.[1])
+    .filter((title): title is string => !!title);
+
+  return normalizeTemplate(id, source);
+}
+
+/** Parse a JSON template with the same fields as the markdown front matter plus body sections. */
+export function parseJsonTemplate(id: string, content: string): { template?: BeadTemplate; error?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { error: `${id}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: `${id}: template must be an object` };
+  }
+  const source = { ...(parsed as Record<string, unknown>) };
+  source.acceptanceCriteria ??= source.acceptance;
+  return normalizeTemplate(id, source);
+}
+
+/** Parse a template file by extension; other files are ignored. */
+export function parseBeadTemplate(fileName: string, content: string): { template?: BeadTemplate; error?: string } | undefined {
+  const id = templateId(fileName);
+  if (/\.md$/i.test(fileName)) {
+    return parseMarkdownTemplate(id, content);
+  }
+  if (/\.json$/i.test(fileName)) {
+    return parseJsonTemplate(id, content);
+  }
+  return undefined;
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Replace known placeholders; unknown ones are left as written. */
+export function expandTemplatePlaceholders(text: string, values: TemplateValues): string {
+  const replacements: Record<string, string> = {
+    assignee: values.assignee ?? '',
+    date: values.date ?? formatDate(new Date()),
+    selection: values.selection ?? '',
+  };
+  return text.replace(/\$\{(\w+)\}/g, (match, key: string) => replacements[key] ?? match);
+}
+
+/**
+ * Turn a template into a draft for the create flow, plus the child task titles. Single-line
+ * fields get whitespace (e.g. from a multi-line selection) collapsed.
+ */
+export function applyBeadTemplate(template: BeadTemplate, values: TemplateValues): { draft: BeadDraft; children: string[] } {
+  const inline = (text: string) => expandTemplatePlaceholders(text, values).replace(/\s+/g, ' ').trim();
+  const block = (text: string) => expandTemplatePlaceholders(text, values).trim();
+
+  const draft: BeadDraft = {
+    title: inline(template.title),
+    labels: template.labels.map(inline).filter(Boolean),
+    blockedBy: [],
+  };
+  if (template.issueType) {
+    draft.issueType = template.issueType;
+  }
+  if (template.priority !== undefined) {
+    draft.priority = template.priority;
+  }
+  if (template.assignee) {
+    draft.assignee = inline(template.assignee);
+  }
+  if (template.description) {
+    draft.description = block(template.description);
+  }
+  if (template.design) {
+    draft.design = block(template.design);
+  }
+  if (template.acceptanceCriteria) {
+    draft.acceptanceCriteria = block(template.acceptanceCriteria);
+  }
+  return { draft, children: template.children.map(inline).filter(Boolean) };
+}
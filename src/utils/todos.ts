@@ -0,0 +1,77 @@
+import { formatSourceLine } from './beads';
+import { BeadDraft } from './beadDraft';
+
+export const TODO_KEYWORDS = ['TODO', 'FIXME', 'HACK'] as const;
+export type TodoKeyword = (typeof TODO_KEYWORDS)[number];
+
+/** A TODO/FIXME/HACK comment found on one line of a document. */
+export interface TodoComment {
+  /** Zero-based line number. */
+  line: number;
+  keyword: TodoKeyword;
+  text: string;
+  /** Bead id from a `TODO(beady-123):` link, if the comment already has one. */
+  beadId?: string;
+  /** Column where the keyword starts. */
+  start: number;
+  /** Column just past the keyword and its `(id)` link, where a new link is inserted. */
+  end: number;
+}
+
+const TITLE_MAX_LENGTH = 256;
+
+// The keyword must follow a comment marker (//, #, /*, *, --, ;, <!--) so identifiers such as
+// TODO_KEYWORDS are not picked up.
+const TODO_PATTERN = /(?:\/\/+|#|\/\*+|^\s*\*|--|;|<!--)\s*(TODO|FIXME|HACK)(?:\(([A-Za-z0-9._-]{1,64})\))?(?=[\s:(]|$)\s*:?\s*(.*)$/;
+
+function trimCommentEnd(text: string): string {
+  return text.replace(/\s*(?:\*\/|-->)\s*$/, '').trim();
+}
+
+/** Find TODO comments in a document, one per line at most. */
+export function findTodoComments(content: string): TodoComment[] {
+  const todos: TodoComment[] = [];
+  content.split(/\r?\n/).forEach((lineText, line) => {
+    const match = TODO_PATTERN.exec(lineText);
+    if (!match) {
+      return;
+    }
+    const keyword = match[1] as TodoKeyword;
+    const start = match.index + match[0].indexOf(keyword);
+    const todo: TodoComment = {
+      line,
+      keyword,
+      text: trimCommentEnd(match[3] ?? ''),
+      start,
+      end: start + keyword.length + (match[2] ? match[2].length + 2 : 0),
+    };
+    if (match[2]) {
+      todo.beadId = match[2];
+    }
+    todos.push(todo);
+  });
+  return todos;
+}
+
+/** Rewrite `TODO:` to `TODO(<beadId>):` on the comment's line. */
+export function linkTodoComment(lineText: string, todo: TodoComment, beadId: string): string {
+  const keywordEnd = todo.start + todo.keyword.length;
+  return `${lineText.slice(0, keywordEnd)}(${beadId})${lineText.slice(todo.end)}`;
+}
+
+/**
+ * Draft for a bead tracking the comment: the comment text becomes the title (FIXME files a bug)
+ * and the description records where it came from. The description spans lines, so create the
+ * bead through runWithTextFile.
+ */
+export function buildTodoDraft(todo: TodoComment, relativePath: string): BeadDraft {
+  const line = todo.line + 1;
+  const title = (todo.text || `${todo.keyword} in ${relativePath}:${line}`).slice(0, TITLE_MAX_LENGTH);
+  return {
+    title,
+    issueType: todo.keyword === 'FIXME' ? 'bug' : 'task',
+    description: `${todo.keyword} comment in ${relativePath}.\n\n${formatSourceLine(relativePath, line)}`,
+    labels: [],
+    blockedBy: [],
+  };
+}
@@ -38,6 +38,22 @@ export function resolveProjectRoot(
 }
 
 
+/**
+ * Path of a file relative to the project root with forward slashes, as stored in `Source:` lines.
+ * Files outside the project fall back to the workspace-relative path.
+ */
+export function toProjectRelativePath(uri: vscode.Uri, projectRoot: string): string {
+  const relative = path.relative(projectRoot, uri.fsPath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    ? relative.split(path.sep).join('/')
+    : vscode.workspace.asRelativePath(uri, false);
+}
+
+/** Resolve a stored (project-relative or absolute) file path back to a file URI. */
+export function resolveProjectFile(filePath: string, projectRoot: string): vscode.Uri {
+  return vscode.Uri.file(path.isAbsolute(filePath) ? filePath : path.join(projectRoot, ...filePath.split('/')));
+}
+
 export interface WorkspaceOption {
   id: string;
   label: string;
@@ -1,4 +1,7 @@
 import * as path from 'path';
+import { worktreeLabel } from '../worktree';
+import { BeadItemData } from './beads';
+import { getStatusDefinition } from './status';
 
 /**
  * Redact absolute workspace paths from a log string. Handles POSIX and Windows separators
@@ -23,3 +26,35 @@ export function redactWorkspacePaths(log: string, workspacePaths: string[]): str
 function escapeRegex(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
+
+/** Worktree id for a registry entry: its own id, or `worker/task` from a canonical `worktrees/<worker>/<task>` path. */
+export function deriveWorktreeId(entry: { id?: string; path: string }): string {
+  if (entry.id) {
+    return entry.id;
+  }
+  const match = entry.path.replace(/\\/g, '/').match(/worktrees\/([^/]+)\/([^/]+)\/?$/);
+  return match ? `${match[1]}/${match[2]}` : path.basename(entry.path);
+}
+
+/**
+ * Beads in progress in a worktree: the task its id names (`worker/<task>`), or beads carrying its
+ * `worktree:` label or a `worktree` field that names it.
+ */
+export function findWorktreeBeads(worktreeId: string, items: BeadItemData[]): BeadItemData[] {
+  const taskId = worktreeId.split('/').slice(1).join('/');
+  const label = worktreeLabel(worktreeId);
+  return items.filter((bead) => {
+    const definition = getStatusDefinition(bead.status);
+    const category = definition?.category ?? (definition?.id === 'in_progress' ? 'active' : undefined);
+    if (category !== 'active') {
+      return false;
+    }
+    const raw = bead.raw as { worktree?: unknown; labels?: unknown } | undefined;
+    return (
+      bead.id === taskId ||
+      raw?.worktree === worktreeId ||
+      (Array.isArray(raw?.labels) && raw.labels.includes(label)) ||
+      (bead.tags ?? []).includes(label)
+    );
+  });
+}
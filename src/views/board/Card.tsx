@@ -0,0 +1,62 @@
+import React from 'react';
+import { BeadViewModel } from '../issues/types';
+import { getIssueTypeToken, getPriorityToken } from '../shared/theme';
+
+interface CardProps {
+  bead: BeadViewModel;
+  dropTarget: boolean;
+  onOpen: (id: string) => void;
+  onDragStart: (id: string) => void;
+  onDragOver: (event: React.DragEvent, id: string) => void;
+  onDrop: (event: React.DragEvent, beforeId: string) => void;
+}
+
+export const Card: React.FC<CardProps> = ({ bead, dropTarget, onOpen, onDragStart, onDragOver, onDrop }) => {
+  const priorityToken = getPriorityToken(bead.priority);
+  const issueTypeToken = getIssueTypeToken(bead.issueType);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onOpen(bead.id);
+    }
+  };
+
+  return (
+    <div
+      className={`board-card ${bead.isStale ? 'stale' : ''} ${dropTarget ? 'drop-before' : ''}`}
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.setData('text/plain', bead.id);
+        event.dataTransfer.effectAllowed = 'move';
+        onDragStart(bead.id);
+      }}
+      onDragOver={(event) => onDragOver(event, bead.id)}
+      onDrop={(event) => onDrop(event, bead.id)}
+      onClick={() => onOpen(bead.id)}
+      onKeyDown={handleKeyDown}
+      role="button"
+      tabIndex={0}
+      aria-label={`${bead.id} ${bead.title}`}
+    >
+      <div className="board-card-title" title={bead.title}>{bead.title}</div>
+      <div className="board-card-meta">
+        <span className="bead-chip id sm">
+          <span className="chip-label">{bead.id}</span>
+        </span>
+        <span className={`bead-chip type type-${issueTypeToken.id} sm`} aria-label={`Type ${issueTypeToken.label}`}>
+          <span className={`codicon codicon-${issueTypeToken.icon}`} aria-hidden="true" />
+        </span>
+        <span className={`bead-chip priority priority-${priorityToken.id} sm`} aria-label={`Priority ${priorityToken.label}`}>
+          <span className="chip-label">{priorityToken.label}</span>
+        </span>
+        {bead.assignee && (
+          <span className="bead-chip assignee sm" aria-label={`Assignee ${bead.assignee.name}`} title={bead.assignee.name}>
+            <span className="codicon codicon-account" aria-hidden="true" />
+            <span className="chip-label">{bead.assignee.initials ?? bead.assignee.name}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
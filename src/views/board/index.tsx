@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { Card } from './Card';
+import { BeadViewModel } from '../issues/types';
+import { BoardColumn, BoardCommand, BoardLane, BoardMessage, BoardSwimlaneMode } from './types';
+import './style.css';
+
+// Provided by VS Code inside the webview
+declare function acquireVsCodeApi(): {
+  postMessage: (message: BoardCommand) => void;
+  getState: () => any;
+  setState: (state: any) => void;
+};
+
+const vscode = acquireVsCodeApi();
+
+const SWIMLANE_OPTIONS: Array<{ mode: BoardSwimlaneMode; label: string }> = [
+  { mode: 'none', label: 'No swimlanes' },
+  { mode: 'epic', label: 'Swimlanes by epic' },
+  { mode: 'assignee', label: 'Swimlanes by assignee' },
+];
+
+/** Identifies a drop slot: a column within a lane, optionally before a card. */
+interface DropSlot {
+  lane: string;
+  status: string;
+  beforeId?: string;
+}
+
+const App: React.FC = () => {
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [lanes, setLanes] = useState<BoardLane[]>([]);
+  const [cards, setCards] = useState<Map<string, BeadViewModel>>(new Map());
+  const [swimlanes, setSwimlanes] = useState<BoardSwimlaneMode>('none');
+  const [dragging, setDragging] = useState<string | undefined>();
+  const [slot, setSlot] = useState<DropSlot | undefined>();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const handler = (event: MessageEvent<BoardMessage>) => {
+      const message = event.data;
+      if (!message || typeof message !== 'object' || message.type !== 'update' || !Array.isArray(message.cards)) {
+        return;
+      }
+      setColumns(message.columns);
+      setLanes(message.lanes);
+      setCards(new Map(message.cards.map((card) => [card.id, card])));
+      setSwimlanes(message.swimlanes);
+      setLoading(false);
+    };
+
+    window.addEventListener('message', handler);
+    vscode.postMessage({ command: 'ready' });
+    return () => window.removeEventListener('message', handler);
+  }, []);
+
+  const endDrag = () => {
+    setDragging(undefined);
+    setSlot(undefined);
+  };
+
+  const allowDrop = (event: React.DragEvent, next: DropSlot) => {
+    if (!dragging) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    if (slot?.lane !== next.lane || slot.status !== next.status || slot.beforeId !== next.beforeId) {
+      setSlot(next);
+    }
+  };
+
+  const drop = (event: React.DragEvent, target: DropSlot) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const id = event.dataTransfer.getData('text/plain') || dragging;
+    endDrag();
+    if (!id || id === target.beforeId) {
+      return;
+    }
+    const command: BoardCommand = target.beforeId
+      ? { command: 'move', id, status: target.status, beforeId: target.beforeId }
+      : { command: 'move', id, status: target.status };
+    vscode.postMessage(command);
+  };
+
+  const open = (id: string) => vscode.postMessage({ command: 'open', id });
+
+  const renderCell = (lane: BoardLane, column: BoardColumn) => {
+    const cellCards = lane.cardIds
+      .map((id) => cards.get(id))
+      .filter((card): card is BeadViewModel => !!card && card.status === column.id);
+    const isTarget = slot?.lane === lane.key && slot.status === column.id;
+
+    return (
+      <div
+        key={column.id}
+        className={`board-cell ${isTarget && !slot?.beforeId ? 'drop-end' : ''}`}
+        onDragOver={(event) => allowDrop(event, { lane: lane.key, status: column.id })}
+        onDrop={(event) => drop(event, { lane: lane.key, status: column.id })}
+      >
+        {cellCards.map((card) => (
+          <Card
+            key={card.id}
+            bead={card}
+            dropTarget={isTarget && slot?.beforeId === card.id}
+            onOpen={open}
+            onDragStart={setDragging}
+            onDragOver={(event, beforeId) => allowDrop(event, { lane: lane.key, status: column.id, beforeId })}
+            onDrop={(event, beforeId) => drop(event, { lane: lane.key, status: column.id, beforeId })}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const columnCount = (status: string) =>
+    Array.from(cards.values()).filter((card) => card.status === status).length;
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="board" onDragEnd={endDrag}>
+      <div className="board-toolbar">
+        <span className="board-count">{cards.size} tasks</span>
+        <select
+          className="board-swimlanes"
+          value={swimlanes}
+          aria-label="Swimlanes"
+          onChange={(event) => vscode.postMessage({ command: 'setSwimlanes', mode: event.target.value as BoardSwimlaneMode })}
+        >
+          {SWIMLANE_OPTIONS.map((option) => (
+            <option key={option.mode} value={option.mode}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="board-grid" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(220px, 1fr))` }}>
+        {columns.map((column) => (
+          <div key={column.id} className="board-column-header">
+            <span className="board-column-title">{column.label}</span>
+            <span className="board-column-count">{columnCount(column.id)}</span>
+          </div>
+        ))}
+        {lanes.map((lane) => (
+          <React.Fragment key={lane.key}>
+            {swimlanes !== 'none' && (
+              <div className="board-lane-header" style={{ gridColumn: `1 / span ${columns.length}` }}>
+                <span className="codicon codicon-chevron-down" aria-hidden="true" />
+                <span>{lane.label}</span>
+                <span className="board-column-count">{lane.cardIds.length}</span>
+              </div>
+            )}
+            {columns.map((column) => renderCell(lane, column))}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const root = createRoot(document.getElementById('root')!);
+root.render(<App />);
@@ -0,0 +1,75 @@
+import { BoardCommand, BoardLane, BoardSwimlaneMode } from './types';
+
+const SWIMLANE_MODES: readonly BoardSwimlaneMode[] = ['none', 'epic', 'assignee'];
+const MAX_ID_LENGTH = 200;
+
+export function isBoardSwimlaneMode(value: unknown): value is BoardSwimlaneMode {
+  return typeof value === 'string' && SWIMLANE_MODES.includes(value as BoardSwimlaneMode);
+}
+
+function isShortString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+/** Validate a message posted by the board webview. */
+export function parseBoardCommand(raw: unknown): BoardCommand | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const candidate = raw as Record<string, unknown>;
+  switch (candidate.command) {
+    case 'ready':
+      return { command: 'ready' };
+    case 'open':
+      return isShortString(candidate.id) ? { command: 'open', id: candidate.id } : undefined;
+    case 'move': {
+      if (!isShortString(candidate.id) || !isShortString(candidate.status)) {
+        return undefined;
+      }
+      if (candidate.beforeId !== undefined && !isShortString(candidate.beforeId)) {
+        return undefined;
+      }
+      return candidate.beforeId !== undefined
+        ? { command: 'move', id: candidate.id, status: candidate.status, beforeId: candidate.beforeId }
+        : { command: 'move', id: candidate.id, status: candidate.status };
+    }
+    case 'setSwimlanes':
+      return isBoardSwimlaneMode(candidate.mode) ? { command: 'setSwimlanes', mode: candidate.mode } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Turn tree groupings into board lanes. Cards keep the order of `orderedIds` (the tree's visible
+ * order, including manual sort), and ids no group claimed land in the `fallback` lane.
+ */
+export function buildBoardLanes(
+  groups: Array<{ key: string; label: string; ids: string[] }>,
+  orderedIds: string[],
+  fallback: { key: string; label: string }
+): BoardLane[] {
+  const position = new Map(orderedIds.map((id, index) => [id, index]));
+  const byPosition = (a: string, b: string) => (position.get(a) ?? 0) - (position.get(b) ?? 0);
+  const claimed = new Set<string>();
+  const lanes: BoardLane[] = [];
+
+  for (const group of groups) {
+    const cardIds = group.ids.filter((id) => position.has(id) && !claimed.has(id)).sort(byPosition);
+    cardIds.forEach((id) => claimed.add(id));
+    if (cardIds.length > 0) {
+      lanes.push({ key: group.key, label: group.label, cardIds });
+    }
+  }
+
+  const leftovers = orderedIds.filter((id) => !claimed.has(id));
+  if (leftovers.length > 0) {
+    const existing = lanes.find((lane) => lane.key === fallback.key);
+    if (existing) {
+      existing.cardIds = [...existing.cardIds, ...leftovers].sort(byPosition);
+    } else {
+      lanes.push({ key: fallback.key, label: fallback.label, cardIds: leftovers });
+    }
+  }
+  return lanes;
+}
@@ -0,0 +1,31 @@
+import { BeadViewModel } from '../issues/types';
+
+export type BoardSwimlaneMode = 'none' | 'epic' | 'assignee';
+
+export interface BoardColumn {
+  /** Status id the column represents. */
+  id: string;
+  label: string;
+}
+
+export interface BoardLane {
+  key: string;
+  label: string;
+  /** Card ids in display order. */
+  cardIds: string[];
+}
+
+export type BoardMessage = {
+  type: 'update';
+  columns: BoardColumn[];
+  lanes: BoardLane[];
+  cards: BeadViewModel[];
+  swimlanes: BoardSwimlaneMode;
+};
+
+export type BoardCommand =
+  | { command: 'ready' }
+  | { command: 'open'; id: string }
+  /** Drop a card into a column, before `beforeId` or at the end. */
+  | { command: 'move'; id: string; status: string; beforeId?: string }
+  | { command: 'setSwimlanes'; mode: BoardSwimlaneMode };
@@ -0,0 +1,85 @@
+import MarkdownIt from 'markdown-it';
+import { formatRelativeTimeDetailed } from '../../activityFeed';
+import { MAX_COMMENT_LENGTH } from '../../littleGlen/validation';
+import { escapeHtml, parseUtcDate } from '../../utils/format';
+import { sanitizeMarkdown } from '../../utils/sanitize';
+import { CommentActions, NO_COMMENT_ACTIONS } from '../../services/comments';
+import { BeadDetailStrings } from './types';
+
+export interface BeadComment {
+  id: number;
+  author: string;
+  text: string;
+  createdAt: Date | undefined;
+}
+
+// Raw HTML in comments is shown as text; links and formatting come from markdown only.
+const markdown = new MarkdownIt({ html: false, linkify: true, breaks: true });
+
+/** Comments from the `comments` array bd includes in its export, oldest first. */
+export function getBeadComments(raw: unknown): BeadComment[] {
+  const entries = (raw as { comments?: unknown } | undefined)?.comments;
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  return entries
+    .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+    .filter((entry) => typeof entry.id === 'number' && typeof entry.text === 'string')
+    .map((entry) => {
+      const createdAt = typeof entry.created_at === 'string' ? parseUtcDate(entry.created_at) : undefined;
+      return {
+        id: entry.id as number,
+        author: typeof entry.author === 'string' ? entry.author : '',
+        text: entry.text as string,
+        createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+      };
+    })
+    .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.id - b.id);
+}
+
+export function renderCommentMarkdown(text: string): string {
+  return sanitizeMarkdown(markdown.render(text));
+}
+
+function renderComment(comment: BeadComment, strings: BeadDetailStrings, actions: CommentActions, now: Date): string {
+  const time = comment.createdAt
+    ? `<span class="comment-time" title="${escapeHtml(comment.createdAt.toISOString())}">${escapeHtml(formatRelativeTimeDetailed(comment.createdAt, now))}</span>`
+    : '';
+  return `<div class="comment" data-comment-id="${comment.id}">
+                    <div class="comment-head">
+                        <span class="comment-author">${escapeHtml(comment.author || strings.assigneeFallback)}</span>
+                        ${time}
+                        ${actions.edit ? `<button class="icon-button comment-edit" title="${escapeHtml(strings.editCommentLabel)}"><span class="codicon codicon-edit"></span></button>` : ''}
+                        ${actions.delete ? `<button class="icon-button comment-delete" title="${escapeHtml(strings.deleteCommentLabel)}"><span class="codicon codicon-trash"></span></button>` : ''}
+                    </div>
+                    <div class="comment-body">${renderCommentMarkdown(comment.text)}</div>
+                    <div class="comment-editor" hidden>
+                        <textarea class="editable-field">${escapeHtml(comment.text)}</textarea>
+                        <div class="comment-actions">
+                            <button class="comment-save">${escapeHtml(strings.saveCommentLabel)}</button>
+                            <button class="comment-cancel">${escapeHtml(strings.cancelLabel)}</button>
+                        </div>
+                    </div>
+                </div>`;
+}
+
+/** The comment thread and the box for a new comment; edit and delete buttons only for the actions bd supports. */
+export function renderCommentsSection(
+  comments: BeadComment[],
+  strings: BeadDetailStrings,
+  actions: CommentActions = NO_COMMENT_ACTIONS,
+  now: Date = new Date()
+): string {
+  const thread = comments.length > 0
+    ? comments.map((comment) => renderComment(comment, strings, actions, now)).join('\n                ')
+    : `<div class="empty">${escapeHtml(strings.noCommentsLabel)}</div>`;
+  return `<div class="comment-list" id="commentList">
+                ${thread}
+            </div>
+            <div class="comment-compose">
+                <textarea class="editable-field" id="newComment" maxlength="${MAX_COMMENT_LENGTH}" placeholder="${escapeHtml(strings.addCommentPlaceholder)}"></textarea>
+                <div class="comment-actions">
+                    <button id="addCommentButton">${escapeHtml(strings.addCommentLabel)}</button>
+                </div>
+            </div>`;
+}
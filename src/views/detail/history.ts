@@ -0,0 +1,192 @@
+import type { EventData, ParsedEventValue } from '../../activityFeed';
+
+/** Text fields whose edits are shown as diffs and can be restored. */
+export const HISTORY_TEXT_FIELDS = ['title', 'description', 'design', 'notes'] as const;
+export type HistoryTextField = (typeof HISTORY_TEXT_FIELDS)[number];
+export type HistoryField = HistoryTextField | 'status';
+export type HistorySide = 'before' | 'after';
+
+export interface HistoryChange {
+  field: HistoryTextField;
+  /** Undefined when the event does not record the earlier value. */
+  before: string | undefined;
+  after: string | undefined;
+}
+
+export interface HistoryStatusChange {
+  from: string | undefined;
+  to: string;
+  /** Time spent in `to` until the next status change, or until now while it is still current. */
+  durationMs: number;
+  ongoing: boolean;
+}
+
+export interface HistoryEntry {
+  eventId: number;
+  eventType: EventData['eventType'];
+  actor: string;
+  at: Date;
+  description: string;
+  /** Codicon of the event type, as in the activity feed. */
+  iconName: string;
+  comment: string | null;
+  changes: HistoryChange[];
+  status: HistoryStatusChange | undefined;
+}
+
+export type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/** Beyond this many lines per side a diff is shown as a full replacement. */
+const MAX_DIFF_LINES = 400;
+
+function stringField(value: ParsedEventValue | null, key: string): string | undefined {
+  const field = value?.[key];
+  return typeof field === 'string' ? field : undefined;
+}
+
+/** Plain (non-JSON) values such as `bd update --title` writes carry only `raw`. */
+function isPlainValue(value: ParsedEventValue | null): boolean {
+  return !!value && Object.keys(value).length === 1;
+}
+
+function textChanges(event: EventData): HistoryChange[] {
+  const dedicated: Partial<Record<EventData['eventType'], HistoryTextField>> = {
+    title_changed: 'title',
+    description_changed: 'description',
+  };
+  const plainField = dedicated[event.eventType];
+  return HISTORY_TEXT_FIELDS.flatMap((field): HistoryChange[] => {
+    if (field === plainField && (isPlainValue(event.newValue) || isPlainValue(event.oldValue))) {
+      const before = isPlainValue(event.oldValue) ? event.oldValue?.raw ?? undefined : stringField(event.oldValue, field);
+      const after = isPlainValue(event.newValue) ? event.newValue?.raw ?? undefined : stringField(event.newValue, field);
+      return [{ field, before, after }];
+    }
+    const after = stringField(event.newValue, field);
+    if (after === undefined) {
+      return [];
+    }
+    const before = stringField(event.oldValue, field);
+    return before === after ? [] : [{ field, before, after }];
+  });
+}
+
+function statusOf(value: ParsedEventValue | null): string | undefined {
+  return stringField(value, 'status') ?? (isPlainValue(value) ? value?.raw ?? undefined : undefined);
+}
+
+/** The status an event moves the issue into, if it changes status at all. */
+function targetStatus(event: EventData): string | undefined {
+  switch (event.eventType) {
+    case 'created':
+      return stringField(event.newValue, 'status') ?? 'open';
+    case 'closed':
+      return 'closed';
+    case 'reopened':
+      return stringField(event.newValue, 'status') ?? 'open';
+    case 'status_changed':
+      return statusOf(event.newValue);
+    case 'updated':
+      return stringField(event.newValue, 'status');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the timeline of one bead from its events, newest first. Text edits carry the values on
+ * both sides; status changes carry how long the bead stayed in the new status.
+ */
+export function buildBeadHistory(events: EventData[], now: Date = new Date()): HistoryEntry[] {
+  const ordered = [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  const entries: HistoryEntry[] = [];
+  let current: HistoryStatusChange | undefined;
+  let currentSince = 0;
+
+  ordered.forEach((event) => {
+    const to = targetStatus(event);
+    let status: HistoryStatusChange | undefined;
+    if (to && to !== current?.to) {
+      const from = current?.to ?? (event.eventType === 'created' ? undefined : statusOf(event.oldValue));
+      if (current) {
+        current.durationMs = event.createdAt.getTime() - currentSince;
+        current.ongoing = false;
+      }
+      status = { from, to, durationMs: 0, ongoing: true };
+      current = status;
+      currentSince = event.createdAt.getTime();
+    }
+    entries.push({
+      eventId: event.id,
+      eventType: event.eventType,
+      actor: event.actor,
+      at: event.createdAt,
+      description: event.description,
+      iconName: event.iconName,
+      comment: event.comment,
+      changes: textChanges(event),
+      status,
+    });
+  });
+
+  if (current) {
+    current.durationMs = Math.max(0, now.getTime() - currentSince);
+  }
+  return entries.reverse();
+}
+
+/** The value a restore request refers to, or undefined when that side of the change is unknown. */
+export function findHistoryValue(
+  entries: HistoryEntry[],
+  eventId: number,
+  field: HistoryField,
+  side: HistorySide
+): string | undefined {
+  const entry = entries.find((candidate) => candidate.eventId === eventId);
+  if (!entry) {
+    return undefined;
+  }
+  if (field === 'status') {
+    return side === 'after' ? entry.status?.to : entry.status?.from;
+  }
+  return entry.changes.find((change) => change.field === field)?.[side];
+}
+
+/** Line diff between two values (longest common subsequence). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text): DiffLine => ({ kind: 'removed', text })),
+      ...b.map((text): DiffLine => ({ kind: 'added', text })),
+    ];
+  }
+  const width = b.length + 1;
+  const lengths = new Array<number>((a.length + 1) * width).fill(0);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+        : Math.max(lengths[(i + 1) * width + j] ?? 0, lengths[i * width + j + 1] ?? 0);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] ?? '' });
+      i++;
+      j++;
+    } else if ((lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0)) {
+      lines.push({ kind: 'removed', text: a[i] ?? '' });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: b[j] ?? '' });
+      j++;
+    }
+  }
+  a.slice(i).forEach((text) => lines.push({ kind: 'removed', text }));
+  b.slice(j).forEach((text) => lines.push({ kind: 'added', text }));
+  return lines;
+}
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { escapeHtml } from '../../utils';
+import { diffLines, HistoryChange, HistoryEntry, HistoryField, HistorySide, HistoryTextField } from './history';
+import { BeadDetailStrings } from './types';
+import { getStatusLabel } from './utils';
+
+const t = vscode.l10n.t;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export function formatDuration(ms: number): string {
+  if (ms < MINUTE) {
+    return t('<1m');
+  }
+  if (ms < HOUR) {
+    return t('{0}m', Math.floor(ms / MINUTE));
+  }
+  if (ms < DAY) {
+    return t('{0}h {1}m', Math.floor(ms / HOUR), Math.floor((ms % HOUR) / MINUTE));
+  }
+  return t('{0}d {1}h', Math.floor(ms / DAY), Math.floor((ms % DAY) / HOUR));
+}
+
+function fieldLabel(field: HistoryTextField, strings: BeadDetailStrings): string {
+  const labels: Record<HistoryTextField, string> = {
+    title: t('Title'),
+    description: strings.descriptionLabel,
+    design: strings.designLabel,
+    notes: strings.notesLabel,
+  };
+  return labels[field];
+}
+
+function restoreButton(
+  entry: HistoryEntry,
+  field: HistoryField,
+  side: HistorySide,
+  value: string | undefined,
+  current: Partial<Record<HistoryField, string>>,
+  strings: BeadDetailStrings
+): string {
+  if (value === undefined || value === (current[field] ?? '')) {
+    return '';
+  }
+  const label = side === 'after' ? strings.restoreValueLabel : strings.restorePreviousValueLabel;
+  return `<button class="history-restore" data-event-id="${entry.eventId}" data-field="${field}" data-side="${side}">${escapeHtml(label)}</button>`;
+}
+
+function renderDiff(change: HistoryChange): string {
+  const before = change.before ?? '';
+  const after = change.after ?? '';
+  if (!before.includes('\n') && !after.includes('\n')) {
+    return `<div class="history-diff">${before ? `<del>${escapeHtml(before)}</del>` : ''}${after ? `<ins>${escapeHtml(after)}</ins>` : ''}</div>`;
+  }
+  const lines = diffLines(before, after).map((line) => {
+    const marker = line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' ';
+    return `<div class="diff-line diff-${line.kind}">${marker} ${escapeHtml(line.text)}</div>`;
+  });
+  return `<div class="history-diff multiline">${lines.join('')}</div>`;
+}
+
+function renderEntry(
+  entry: HistoryEntry,
+  current: Partial<Record<HistoryField, string>>,
+  strings: BeadDetailStrings,
+  locale: string
+): string {
+  const status = entry.status;
+  const statusHtml = status
+    ? `<div class="history-status">
+        <span>${escapeHtml(status.from ? `${getStatusLabel(status.from, strings)} → ${getStatusLabel(status.to, strings)}` : getStatusLabel(status.to, strings))}</span>
+        <span class="history-duration">${escapeHtml(
+          status.ongoing
+            ? t('{0} so far', formatDuration(status.durationMs))
+            : t('{0} in {1}', formatDuration(status.durationMs), getStatusLabel(status.to, strings))
+        )}</span>
+        ${restoreButton(entry, 'status', 'after', status.to, current, strings)}
+      </div>`
+    : '';
+  const changesHtml = entry.changes
+    .map((change) => `<div class="history-change">
+        <div class="history-field">${escapeHtml(fieldLabel(change.field, strings))}</div>
+        ${renderDiff(change)}
+        <div class="history-actions">
+          ${restoreButton(entry, change.field, 'before', change.before, current, strings)}
+          ${restoreButton(entry, change.field, 'after', change.after, current, strings)}
+        </div>
+      </div>`)
+    .join('');
+
+  return `<li class="history-entry">
+      <div class="history-head">
+        <span class="codicon codicon-${escapeHtml(entry.iconName)}"></span>
+        <span class="history-actor">${escapeHtml(entry.actor || strings.assigneeFallback)}</span>
+        <span class="history-time" title="${escapeHtml(entry.at.toISOString())}">${escapeHtml(entry.at.toLocaleString(locale))}</span>
+      </div>
+      <div class="history-summary">${escapeHtml(entry.description)}</div>
+      ${statusHtml}
+      ${changesHtml}
+      ${entry.comment ? `<div class="history-comment">${escapeHtml(entry.comment)}</div>` : ''}
+    </li>`;
+}
+
+/**
+ * Timeline markup for the History tab, newest first. Restore buttons are left out where the value
+ * is unknown or already current.
+ */
+export function renderHistoryTimeline(
+  entries: HistoryEntry[],
+  current: Partial<Record<HistoryField, string>>,
+  strings: BeadDetailStrings,
+  locale: string
+): string {
+  if (entries.length === 0) {
+    return `<div class="empty">${escapeHtml(strings.historyEmptyLabel)}</div>`;
+  }
+  return `<ol class="history-list">${entries.map((entry) => renderEntry(entry, current, strings, locale)).join('')}</ol>`;
+}
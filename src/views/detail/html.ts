@@ -1,5 +1,16 @@
 import * as vscode from 'vscode';
-import { BeadItemData, buildDependencyTrees, sanitizeInlineText, escapeHtml, deriveAssigneeName } from '../../utils';
+import {
+  BeadItemData,
+  buildDependencyTrees,
+  sanitizeInlineText,
+  escapeHtml,
+  deriveAssigneeName,
+  formatAnchorLines,
+  getSourceAnchors,
+  getWorkflowStatusOptions,
+} from '../../utils';
+import { getCommentActions } from '../../services/comments';
+import { getBeadComments, renderCommentsSection } from './comments';
 import { BeadDetailStrings } from './types';
 import { getStatusLabel, renderBranchSection } from './utils';
 import { buildSharedStyles, getIssueTypeToken, getPriorityToken, getStatusToken } from '../shared/theme';
@@ -26,7 +37,9 @@ export function getBeadDetailHtml(
   const assigneeRaw = deriveAssigneeName(item, strings.assigneeFallback);
   const assignee = sanitizeInlineText(assigneeRaw) || strings.assigneeFallback;
   const labels = raw?.labels || [];
+  const anchors = getSourceAnchors(item);
   const dependencyEditingEnabled = vscode.workspace.getConfiguration('beady').get<boolean>('enableDependencyEditing', false);
+  const gitEnabled = vscode.workspace.getConfiguration('beady').get<boolean>('git.enabled', true);
   const issueTypeToken = getIssueTypeToken(issueType);
   const statusToken = getStatusToken(item.status);
   const priorityToken = getPriorityToken(priority);
@@ -45,6 +58,9 @@ export function getBeadDetailHtml(
   const hasAnyDeps = hasUpstream || hasDownstream;
 
   const statusDisplay = getStatusLabel(item.status, { ...strings, statusLabels }) || statusLabels.open;
+  const statusOptionsHtml = getWorkflowStatusOptions(statusLabels)
+    .map((option) => `<div class="status-option" data-status="${escapeHtml(option.value)}">${escapeHtml(option.label)}</div>`)
+    .join('\n');
 
   const codiconHost = 'https://microsoft.github.io';
   const codiconCss = `${codiconHost}/vscode-codicons/dist/codicon.css`;
@@ -303,6 +319,40 @@ export function getBeadDetailHtml(
         .external-link:hover {
             text-decoration: underline;
         }
+        .anchor-list {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+        }
+        .anchor-link {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            color: var(--vscode-textLink-foreground);
+            text-decoration: none;
+        }
+        .anchor-link:hover {
+            text-decoration: underline;
+        }
+        .git-list {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+        }
+        .git-row {
+            display: flex;
+            gap: 8px;
+            align-items: baseline;
+            font-size: 12px;
+        }
+        .git-row code {
+            font-family: var(--vscode-editor-font-family);
+            color: var(--vscode-textLink-foreground);
+        }
+        .git-meta {
+            color: var(--vscode-descriptionForeground);
+            margin-left: auto;
+            white-space: nowrap;
+        }
         /* Status Dropdown */
         .status-wrapper {
             position: relative;
@@ -355,6 +405,148 @@ export function getBeadDetailHtml(
             outline: 1px solid var(--vscode-focusBorder);
             border-color: var(--vscode-focusBorder);
         }
+        /* Comments */
+        .comment-list {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            margin-bottom: 8px;
+        }
+        .comment {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 6px 10px;
+        }
+        .comment-head {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: var(--font-size-meta);
+        }
+        .comment-author {
+            font-weight: 600;
+        }
+        .comment-time {
+            color: var(--vscode-descriptionForeground);
+            margin-right: auto;
+        }
+        .comment-body p {
+            margin: 4px 0;
+        }
+        .comment-body pre {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 6px 8px;
+            overflow-x: auto;
+        }
+        .comment-actions {
+            display: flex;
+            gap: 6px;
+            justify-content: flex-end;
+            margin-top: 4px;
+        }
+        .comment-actions button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+            font-family: inherit;
+            padding: 3px 10px;
+        }
+        .comment-actions .comment-cancel {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        /* Tabs */
+        .tabs {
+            display: flex;
+            gap: 4px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            margin-bottom: var(--spacing-unit);
+        }
+        .tab {
+            background: none;
+            border: none;
+            border-bottom: 2px solid transparent;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+            font-family: inherit;
+            padding: 4px 10px;
+        }
+        .tab.active {
+            color: var(--vscode-foreground);
+            border-bottom-color: var(--vscode-focusBorder);
+        }
+        /* History Timeline */
+        .history-list {
+            list-style: none;
+            margin: 0;
+            padding: 0 0 0 12px;
+            border-left: 2px solid var(--vscode-panel-border);
+        }
+        .history-entry {
+            margin-bottom: var(--spacing-unit);
+            padding-left: 8px;
+        }
+        .history-head {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            font-size: var(--font-size-meta);
+            color: var(--vscode-descriptionForeground);
+        }
+        .history-actor {
+            color: var(--vscode-foreground);
+            font-weight: 600;
+        }
+        .history-time {
+            margin-left: auto;
+        }
+        .history-status, .history-actions {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-top: 4px;
+        }
+        .history-duration, .history-field, .history-comment {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .history-change {
+            margin-top: 6px;
+        }
+        .history-diff {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            white-space: pre-wrap;
+            background-color: var(--vscode-textBlockQuote-background);
+            padding: 4px 8px;
+            border-radius: 2px;
+        }
+        .history-diff del, .diff-removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        .history-diff ins, .diff-added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+            text-decoration: none;
+        }
+        .history-diff del + ins::before {
+            content: ' → ';
+            color: var(--vscode-descriptionForeground);
+        }
+        .history-restore {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+            font-family: inherit;
+            font-size: 11px;
+            padding: 2px 8px;
+        }
+        .history-restore:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
     </style>
 </head>
 <body>
@@ -371,10 +563,7 @@ export function getBeadDetailHtml(
                                 <span class="codicon codicon-chevron-down caret"></span>
                             </div>
                             <div class="status-dropdown" id="statusDropdown">
-                                <div class="status-option" data-status="open">${statusLabels.open}</div>
-                                <div class="status-option" data-status="in_progress">${statusLabels.in_progress}</div>
-                                <div class="status-option" data-status="blocked">${statusLabels.blocked}</div>
-                                <div class="status-option" data-status="closed">${statusLabels.closed}</div>
+                                ${statusOptionsHtml}
                             </div>
                         </div>
                         <div class="status-wrapper">
@@ -447,48 +636,83 @@ export function getBeadDetailHtml(
             </div>
         </div>
 
-        <div class="section">
-            <div class="section-title">${strings.descriptionLabel}</div>
-            <textarea class="editable-field" id="description" placeholder="Add a description...">${escapeHtml(description)}</textarea>
+        <div class="tabs" role="tablist">
+            <button class="tab active" id="detailsTabButton" data-tab="details" role="tab">${strings.detailsLabel}</button>
+            <button class="tab" id="historyTabButton" data-tab="history" role="tab">${strings.historyLabel}</button>
         </div>
 
-        <div class="section">
-            <div class="section-title">${strings.acceptanceLabel}</div>
-            <textarea class="editable-field" id="acceptanceCriteria" placeholder="List clear acceptance checks (Given/When/Then or bullet list)...">${escapeHtml(acceptanceCriteria)}</textarea>
-        </div>
+        <div class="tab-panel" id="detailsTab">
+            <div class="section">
+                <div class="section-title">${strings.descriptionLabel}</div>
+                <textarea class="editable-field" id="description" placeholder="Add a description...">${escapeHtml(description)}</textarea>
+            </div>
 
-        <div class="section">
-            <div class="section-title">${strings.designLabel}</div>
-            <textarea class="editable-field" id="design" placeholder="Capture design rationale: flows, states, constraints, open questions...">${escapeHtml(design)}</textarea>
-        </div>
+            <div class="section">
+                <div class="section-title">${strings.acceptanceLabel}</div>
+                <textarea class="editable-field" id="acceptanceCriteria" placeholder="List clear acceptance checks (Given/When/Then or bullet list)...">${escapeHtml(acceptanceCriteria)}</textarea>
+            </div>
 
-        <div class="section">
-            <div class="section-title">${strings.notesLabel}</div>
-            <textarea class="editable-field" id="notes" placeholder="Add notes...">${escapeHtml(notes)}</textarea>
-        </div>
+            <div class="section">
+                <div class="section-title">${strings.designLabel}</div>
+                <textarea class="editable-field" id="design" placeholder="Capture design rationale: flows, states, constraints, open questions...">${escapeHtml(design)}</textarea>
+            </div>
 
-        <div class="section">
-            <div class="section-title">${strings.labelsLabel}</div>
-            <div class="tags" id="labelsContainer">
-                ${labels.map((l: string) => `<span class="tag" data-label="${escapeHtml(l)}">${escapeHtml(l)}<span class="tag-remove" onclick="removeLabel('${escapeHtml(l)}')">×</span></span>`).join('')}
-                <button class="icon-button" id="addLabelButton" title="${strings.addLabelLabel}">
-                    <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M14 7v1H8v6H7V8H1V7h6V1h1v6h6z"/></svg>
-                </button>
+            <div class="section">
+                <div class="section-title">${strings.notesLabel}</div>
+                <textarea class="editable-field" id="notes" placeholder="Add notes...">${escapeHtml(notes)}</textarea>
             </div>
-        </div>
 
-        <div class="section">
-            <div class="section-title">${strings.dependencyTreeTitle}</div>
-            <div class="tree-container">
-                ${renderBranchSection('upstream', treeData.upstream, strings.dependencyTreeUpstream, item.id, strings, dependencyEditingEnabled)}
-                ${renderBranchSection('downstream', treeData.downstream, strings.dependencyTreeDownstream, item.id, strings, dependencyEditingEnabled)}
-                ${!hasAnyDeps ? `<div class="empty">${strings.dependencyEmptyLabel}</div>` : ''}
+            <div class="section">
+                <div class="section-title">${strings.labelsLabel}</div>
+                <div class="tags" id="labelsContainer">
+                    ${labels.map((l: string) => `<span class="tag" data-label="${escapeHtml(l)}">${escapeHtml(l)}<span class="tag-remove" onclick="removeLabel('${escapeHtml(l)}')">×</span></span>`).join('')}
+                    <button class="icon-button" id="addLabelButton" title="${strings.addLabelLabel}">
+                        <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M14 7v1H8v6H7V8H1V7h6V1h1v6h6z"/></svg>
+                    </button>
+                </div>
             </div>
-            ${dependencyEditingEnabled ? `
-            <div class="tree-actions" style="margin-top: 8px;" id="treeActions">
-                <button class="icon-button" id="addUpstreamButton" title="${strings.addUpstreamLabel}">+ Upstream</button>
-                <button class="icon-button" id="addDownstreamButton" title="${strings.addDownstreamLabel}">+ Downstream</button>
+
+            ${anchors.length > 0 ? `
+            <div class="section">
+                <div class="section-title">${strings.codeAnchorsLabel}</div>
+                <div class="anchor-list">
+                    ${anchors.map((anchor) => `<a class="anchor-link" href="#" data-path="${escapeHtml(anchor.path)}" data-start="${anchor.startLine}" data-end="${anchor.endLine}">${escapeHtml(anchor.path)}:${formatAnchorLines(anchor)}</a>`).join('')}
+                </div>
             </div>` : ''}
+
+            ${gitEnabled ? `
+            <div class="section">
+                <div class="section-title">${strings.commitsLabel}</div>
+                <div class="git-list" id="gitCommits"><div class="empty">${strings.noCommitsLabel}</div></div>
+            </div>
+
+            <div class="section">
+                <div class="section-title">${strings.branchesLabel}</div>
+                <div class="git-list" id="gitBranches" data-merged-label="${escapeHtml(strings.mergedLabel)}"><div class="empty">${strings.noBranchesLabel}</div></div>
+            </div>` : ''}
+
+            <div class="section">
+                <div class="section-title">${strings.dependencyTreeTitle}</div>
+                <div class="tree-container">
+                    ${renderBranchSection('upstream', treeData.upstream, strings.dependencyTreeUpstream, item.id, strings, dependencyEditingEnabled)}
+                    ${renderBranchSection('downstream', treeData.downstream, strings.dependencyTreeDownstream, item.id, strings, dependencyEditingEnabled)}
+                    ${!hasAnyDeps ? `<div class="empty">${strings.dependencyEmptyLabel}</div>` : ''}
+                </div>
+                ${dependencyEditingEnabled ? `
+                <div class="tree-actions" style="margin-top: 8px;" id="treeActions">
+                    <button class="icon-button" id="addUpstreamButton" title="${strings.addUpstreamLabel}">+ Upstream</button>
+                    <button class="icon-button" id="addDownstreamButton" title="${strings.addDownstreamLabel}">+ Downstream</button>
+                </div>` : ''}
+            </div>
+
+            <div class="section">
+                <div class="section-title">${strings.commentsLabel}</div>
+                ${renderCommentsSection(getBeadComments(raw), strings, getCommentActions())}
+            </div>
+        </div>
+
+        <div class="tab-panel history" id="historyTab" hidden>
+            <div class="empty">${strings.historyLoadingLabel}</div>
         </div>
     </div>
     <script nonce="${nonce}">
@@ -501,9 +725,48 @@ export function getBeadDetailHtml(
 
         document.getElementById('toggle-compact').addEventListener('click', () => {
             document.body.classList.toggle('compact');
-            const isCompact = document.body.classList.contains('compact');
-            vscode.setState({ ...state, compact: isCompact });
+            state.compact = document.body.classList.contains('compact');
+            vscode.setState(state);
+        });
+
+        // Tabs: the history is read the first time its tab is shown (and again after each re-render)
+        const historyTab = document.getElementById('historyTab');
+        let historyRequested = false;
+        function showTab(name) {
+            document.querySelectorAll('.tab').forEach(tab => {
+                tab.classList.toggle('active', tab.getAttribute('data-tab') === name);
+            });
+            document.getElementById('detailsTab').hidden = name !== 'details';
+            historyTab.hidden = name !== 'history';
+            state.tab = name;
+            vscode.setState(state);
+            if (name === 'history' && !historyRequested) {
+                historyRequested = true;
+                vscode.postMessage({ command: 'loadHistory' });
+            }
+        }
+        document.querySelectorAll('.tab').forEach(tab => {
+            tab.addEventListener('click', () => showTab(tab.getAttribute('data-tab')));
+        });
+        historyTab.addEventListener('click', (event) => {
+            const button = event.target.closest('.history-restore');
+            if (!button) { return; }
+            vscode.postMessage({
+                command: 'restoreHistoryValue',
+                eventId: parseInt(button.getAttribute('data-event-id'), 10),
+                field: button.getAttribute('data-field'),
+                side: button.getAttribute('data-side'),
+            });
         });
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message && message.type === 'history') {
+                historyTab.innerHTML = message.html;
+            }
+        });
+        if (state.tab === 'history') {
+            showTab('history');
+        }
 
         function copyToClipboard(text) {
             navigator.clipboard.writeText(text);
@@ -532,6 +795,97 @@ export function getBeadDetailHtml(
             }
         }
 
+        document.querySelectorAll('.anchor-link').forEach(link => {
+            link.addEventListener('click', (event) => {
+                event.preventDefault();
+                vscode.postMessage({
+                    command: 'revealAnchor',
+                    path: link.getAttribute('data-path'),
+                    startLine: parseInt(link.getAttribute('data-start'), 10),
+                    endLine: parseInt(link.getAttribute('data-end'), 10),
+                });
+            });
+        });
+
+        function gitRow(code, text, meta, title) {
+            const row = document.createElement('div');
+            row.className = 'git-row';
+            row.title = title;
+            const codeEl = document.createElement('code');
+            codeEl.textContent = code;
+            const textEl = document.createElement('span');
+            textEl.textContent = text;
+            const metaEl = document.createElement('span');
+            metaEl.className = 'git-meta';
+            metaEl.textContent = meta;
+            row.append(codeEl, textEl, metaEl);
+            return row;
+        }
+
+        const gitCommits = document.getElementById('gitCommits');
+        const gitBranches = document.getElementById('gitBranches');
+        if (gitCommits && gitBranches) {
+            window.addEventListener('message', (event) => {
+                const message = event.data;
+                if (!message || message.type !== 'gitLinks') { return; }
+                if (message.commits.length > 0) {
+                    gitCommits.replaceChildren(...message.commits.map((commit) => gitRow(
+                        commit.shortSha,
+                        commit.subject,
+                        commit.author + ' · ' + new Date(commit.date).toLocaleDateString(),
+                        commit.sha
+                    )));
+                }
+                if (message.branches.length > 0) {
+                    const mergedLabel = gitBranches.getAttribute('data-merged-label') || '';
+                    gitBranches.replaceChildren(...message.branches.map((branch) => gitRow(
+                        branch.name,
+                        '',
+                        branch.merged ? mergedLabel : '',
+                        branch.name
+                    )));
+                }
+            });
+            vscode.postMessage({ command: 'loadGitLinks' });
+        }
+
+        // Comments: bd writes them; the panel re-renders with the new thread on the next refresh
+        const newComment = document.getElementById('newComment');
+        document.getElementById('addCommentButton').addEventListener('click', () => {
+            const text = newComment.value;
+            if (!text.trim()) { return; }
+            vscode.postMessage({ command: 'addComment', text });
+            newComment.value = '';
+        });
+        document.getElementById('commentList').addEventListener('click', (event) => {
+            const button = event.target.closest('button');
+            const comment = event.target.closest('.comment');
+            if (!button || !comment) { return; }
+            const commentId = parseInt(comment.getAttribute('data-comment-id'), 10);
+            const body = comment.querySelector('.comment-body');
+            const editor = comment.querySelector('.comment-editor');
+            const textarea = editor.querySelector('textarea');
+            if (button.classList.contains('comment-edit')) {
+                body.hidden = true;
+                editor.hidden = false;
+                textarea.style.height = 'auto';
+                textarea.style.height = textarea.scrollHeight + 'px';
+                textarea.focus();
+            } else if (button.classList.contains('comment-cancel')) {
+                textarea.value = textarea.defaultValue;
+                editor.hidden = true;
+                body.hidden = false;
+            } else if (button.classList.contains('comment-save')) {
+                if (textarea.value.trim() && textarea.value !== textarea.defaultValue) {
+                    vscode.postMessage({ command: 'editComment', commentId, text: textarea.value });
+                }
+                editor.hidden = true;
+                body.hidden = false;
+            } else if (button.classList.contains('comment-delete')) {
+                vscode.postMessage({ command: 'deleteComment', commentId });
+            }
+        });
+
         function removeLabel(label) {
             vscode.postMessage({ command: 'removeLabel', label });
         }
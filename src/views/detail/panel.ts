@@ -1,20 +1,96 @@
 import * as vscode from 'vscode';
 import { AllowedLittleGlenCommand, validateLittleGlenMessage } from '../../littleGlen/validation';
 import { addDependencyCommand, removeDependencyCommand } from '../../commands/dependencies';
-import { editAssignee } from '../../commands';
+import { editAssignee, revealAnchor } from '../../commands';
 import { resolveProjectRoot } from '../../utils/workspace';
-import { formatError, BeadItemData, validateLabelInput } from '../../utils';
+import { formatError, BeadItemData, escapeHtml, getSourceAnchors, validateLabelInput } from '../../utils';
+import { ActivityFeedUnavailable, fetchEvents } from '../../activityFeed';
 import { getBeadDetailHtml } from './html';
+import { buildBeadHistory, findHistoryValue, HistoryEntry, HistoryField } from './history';
+import { renderHistoryTimeline } from './historyHtml';
+import { BeadDetailStrings } from './types';
 import { buildBeadDetailStrings, getStatusLabels, BeadsTreeDataProvider } from '../../providers/beads/treeDataProvider';
 import { runBdCommand } from '../../services/cliService';
+import { listMergedBranches, loadGitLinks } from '../../services/git';
+import { detectCommentActions, getCommentActions } from '../../services/comments';
+import { findBdCommand } from '../../providers/beads/store';
 
 const t = vscode.l10n.t;
 const PROJECT_ROOT_ERROR = t('Unable to resolve project root. Set "beady.projectRoot" or open a workspace folder.');
+/** Older events than this are left out of the History tab. */
+const HISTORY_EVENT_LIMIT = 500;
 
 function createNonce(): string {
   return Math.random().toString(36).slice(2, 15) + Math.random().toString(36).slice(2, 15);
 }
 
+/** Send the commits and branches that mention this bead to the panel. Git failures leave the sections empty. */
+async function postGitLinks(panel: vscode.WebviewPanel, item: BeadItemData, provider: BeadsTreeDataProvider): Promise<void> {
+  const config = vscode.workspace.getConfiguration('beady');
+  const projectRoot = resolveProjectRoot(config);
+  if (!projectRoot) {
+    return;
+  }
+  const items = (provider['items'] as BeadItemData[] | undefined) ?? [item];
+  try {
+    const [index, merged] = await Promise.all([
+      loadGitLinks(projectRoot, new Set(items.map((bead) => bead.id))),
+      listMergedBranches(projectRoot, config.get<string>('git.mainBranch', 'main')).catch(() => new Set<string>()),
+    ]);
+    await panel.webview.postMessage({
+      type: 'gitLinks',
+      commits: index.commits.get(item.id) ?? [],
+      branches: (index.branches.get(item.id) ?? []).map((branch) => ({ ...branch, merged: merged.has(branch.name) })),
+    });
+  } catch (error) {
+    console.warn('[DetailPanel] Failed to read git links', error);
+  }
+}
+
+function currentHistoryValues(item: BeadItemData): Partial<Record<HistoryField, string>> {
+  const raw = item.raw as any;
+  return {
+    title: item.title,
+    description: raw?.description ?? '',
+    design: raw?.design ?? '',
+    notes: raw?.notes ?? '',
+    status: item.status ?? 'open',
+  };
+}
+
+/**
+ * Render this bead's events into the History tab. Returns the entries so restore requests can be
+ * resolved against what the user saw; a missing or unreadable database shows its reason instead.
+ */
+async function postHistory(
+  panel: vscode.WebviewPanel,
+  item: BeadItemData,
+  provider: BeadsTreeDataProvider,
+  strings: BeadDetailStrings,
+  locale: string
+): Promise<HistoryEntry[]> {
+  const config = vscode.workspace.getConfiguration('beady');
+  const projectRoot = resolveProjectRoot(config);
+  const current = ((provider['items'] as BeadItemData[] | undefined) ?? []).find((bead) => bead.id === item.id) ?? item;
+  let entries: HistoryEntry[] = [];
+  let html: string;
+  if (!projectRoot) {
+    html = `<div class="empty">${escapeHtml(PROJECT_ROOT_ERROR)}</div>`;
+  } else {
+    try {
+      const timeoutMs = config.get<number>('activityFeed.queryTimeoutMs', 5000);
+      const result = await fetchEvents(projectRoot, { issueId: item.id, limit: HISTORY_EVENT_LIMIT }, { timeoutMs });
+      entries = buildBeadHistory(result.events);
+      html = renderHistoryTimeline(entries, currentHistoryValues(current), strings, locale);
+    } catch (error) {
+      const reason = error instanceof ActivityFeedUnavailable ? error.message : formatError(t('Failed to read events'), error);
+      html = `<div class="empty">${escapeHtml(reason)}</div>`;
+    }
+  }
+  await panel.webview.postMessage({ type: 'history', html });
+  return entries;
+}
+
 export async function openBeadPanel(
   item: BeadItemData,
   provider: BeadsTreeDataProvider,
@@ -45,11 +121,28 @@ export async function openBeadPanel(
   const statusLabels = getStatusLabels();
   const beadStrings = buildBeadDetailStrings(statusLabels);
   const locale = vscode.env.language || 'en';
-  panel.webview.html = getBeadDetailHtml(item, allItems, panel.webview, nonce, beadStrings, locale)
-    .replace('<body', `<body data-density="${density}"${density === 'compact' ? ' class="compact"' : ''}`);
+  const render = (bead: BeadItemData): string =>
+    getBeadDetailHtml(bead, provider['items'] as BeadItemData[], panel.webview, nonce, beadStrings, locale)
+      .replace('<body', `<body data-density="${density}"${density === 'compact' ? ' class="compact"' : ''}`);
+  const renderedActions = getCommentActions();
+  panel.webview.html = render(item);
 
   provider.registerPanel(item.id, panel);
 
+  // Comment edit and delete stay hidden until bd is known to support them.
+  let disposed = false;
+  panel.onDidDispose(() => {
+    disposed = true;
+  });
+  const config = vscode.workspace.getConfiguration('beady');
+  void detectCommentActions(config.get<string>('commandPath', 'bd'), findBdCommand, resolveProjectRoot(config)).then((actions) => {
+    if (disposed || (actions.edit === renderedActions.edit && actions.delete === renderedActions.delete)) {
+      return;
+    }
+    const current = ((provider['items'] as BeadItemData[] | undefined) ?? []).find((bead) => bead.id === item.id) ?? item;
+    panel.webview.html = render(current);
+  });
+
   const allowedCommands: AllowedLittleGlenCommand[] = [
     'updateStatus',
     'updateTitle',
@@ -67,7 +160,15 @@ export async function openBeadPanel(
     'deleteBead',
     'openBead',
     'openExternalUrl',
+    'revealAnchor',
+    'loadGitLinks',
+    'loadHistory',
+    'restoreHistoryValue',
+    'addComment',
+    'editComment',
+    'deleteComment',
   ];
+  let history: HistoryEntry[] = [];
 
   const registerMessageHandler = typeof panel.webview?.onDidReceiveMessage === 'function'
     ? panel.webview.onDidReceiveMessage.bind(panel.webview)
@@ -188,6 +289,62 @@ export async function openBeadPanel(
       case 'openExternalUrl':
         await vscode.env.openExternal(vscode.Uri.parse(validated.url));
         return;
+      case 'revealAnchor':
+        // Only open locations this bead actually links to.
+        if (getSourceAnchors(item).some((anchor) => anchor.path === validated.path)) {
+          await revealAnchor(validated.path, validated.startLine, validated.endLine);
+        }
+        return;
+      case 'loadGitLinks':
+        await postGitLinks(panel, item, provider);
+        return;
+      case 'addComment':
+        await provider.addComment(item, validated.text);
+        return;
+      case 'editComment':
+        await provider.editComment(item, validated.commentId, validated.text);
+        return;
+      case 'deleteComment': {
+        const deleteLabel = t('Delete');
+        const answer = await vscode.window.showWarningMessage(
+          t('Delete this comment from {0}?', item.id),
+          { modal: true },
+          deleteLabel
+        );
+        if (answer === deleteLabel) {
+          await provider.deleteComment(item, validated.commentId);
+        }
+        return;
+      }
+      case 'loadHistory':
+        history = await postHistory(panel, item, provider, beadStrings, locale);
+        return;
+      case 'restoreHistoryValue': {
+        const value = findHistoryValue(history, validated.eventId, validated.field, validated.side);
+        if (value === undefined) {
+          void vscode.window.showWarningMessage(t('That value is no longer in the history of {0}.', item.id));
+          return;
+        }
+        switch (validated.field) {
+          case 'title':
+            await provider.updateTitle(item, value);
+            break;
+          case 'description':
+            await provider.updateDescription(item, value);
+            break;
+          case 'design':
+            await provider.updateDesign(item, value);
+            break;
+          case 'notes':
+            await provider.updateNotes(item, value);
+            break;
+          case 'status':
+            await provider.updateStatus(item, value);
+            break;
+        }
+        history = await postHistory(panel, item, provider, beadStrings, locale);
+        return;
+      }
     }
   });
 }
@@ -31,6 +31,25 @@ export interface BeadDetailStrings {
   updatedLabel: string;
   closedLabel: string;
   labelsLabel: string;
+  codeAnchorsLabel: string;
+  commitsLabel: string;
+  branchesLabel: string;
+  noCommitsLabel: string;
+  noBranchesLabel: string;
+  mergedLabel: string;
+  historyLabel: string;
+  historyLoadingLabel: string;
+  historyEmptyLabel: string;
+  restoreValueLabel: string;
+  restorePreviousValueLabel: string;
+  commentsLabel: string;
+  noCommentsLabel: string;
+  addCommentLabel: string;
+  addCommentPlaceholder: string;
+  editCommentLabel: string;
+  deleteCommentLabel: string;
+  saveCommentLabel: string;
+  cancelLabel: string;
   noLabelsLabel: string;
   markInReviewLabel: string;
   removeInReviewLabel: string;
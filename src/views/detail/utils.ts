@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { BeadDetailStrings, StatusLabelMap } from './types';
-import { escapeHtml } from '../../utils';
+import { escapeHtml, formatStatusLabel } from '../../utils';
 
 const t = vscode.l10n.t;
 
@@ -26,7 +26,7 @@ export const getStatusLabel = (status: string | undefined, strings: BeadDetailSt
     return '';
   }
   const key = status as keyof StatusLabelMap;
-  return strings?.statusLabels?.[key] ?? status;
+  return strings?.statusLabels?.[key] ?? formatStatusLabel(status);
 };
 
 export const renderBranch = (
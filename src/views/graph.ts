@@ -8,8 +8,9 @@
 
 import * as vscode from 'vscode';
 import type { BeadItemData } from '../utils';
+import type { BeadsStoreDelta } from '@beads/core';
 import type { DependencyTreeStrings, GraphNodeData, GraphEdgeData } from '../utils/graph';
-import { mapBeadsToGraphNodes, collectDependencyEdges } from '../utils/graph';
+import { mapBeadsToGraphNodes, collectDependencyEdges, analyzeSchedule, buildGraphPatch, ScheduleWeight } from '../utils/graph';
 import { buildDependencyGraphHtml } from '../graph/view';
 import { validateLittleGlenMessage, AllowedLittleGlenCommand } from '../littleGlen/validation';
 
@@ -53,6 +54,11 @@ export interface GraphViewDependencies {
    * @param contextId Context bead ID for picking dependency to remove
    */
   removeDependency: (sourceId?: string, targetId?: string, contextId?: string) => Promise<void>;
+
+  /**
+   * Optional store delta event; the graph is sent a patch with just the changed beads.
+   */
+  onDidChangeBeads?: vscode.Event<BeadsStoreDelta>;
 }
 
 /**
@@ -95,8 +101,13 @@ export function getStatusLabels(): StatusLabelMap {
 }
 
 /**
- * Render the dependency graph HTML with current state.
+ * Longest blocking chain across unfinished beads, highlighted in the graph.
  */
+export function getGraphCriticalPath(items: BeadItemData[]): string[] {
+  const weight = vscode.workspace.getConfiguration('beady').get<ScheduleWeight>('criticalPath.weight', 'estimate');
+  return analyzeSchedule(items, { weight }).criticalPath;
+}
+
 /**
  * Create and show the dependency graph webview.
  *
@@ -137,6 +148,7 @@ export function createDependencyGraphView(deps: GraphViewDependencies): GraphVie
       payload: {
         nodes,
         edges,
+        criticalPath: getGraphCriticalPath(items),
         dependencyEditingEnabled,
         localized: {
           emptyTitle: dependencyStrings.emptyTitle,
@@ -179,6 +191,7 @@ export function createDependencyGraphView(deps: GraphViewDependencies): GraphVie
           payload: {
             nodes: mapBeadsToGraphNodes(items),
             edges: collectDependencyEdges(items),
+            criticalPath: getGraphCriticalPath(items),
             dependencyEditingEnabled,
             localized: {
               emptyTitle: dependencyStrings.emptyTitle,
@@ -196,6 +209,7 @@ export function createDependencyGraphView(deps: GraphViewDependencies): GraphVie
         payload: {
           nodes: mapBeadsToGraphNodes(items),
           edges: collectDependencyEdges(items),
+          criticalPath: getGraphCriticalPath(items),
           dependencyEditingEnabled,
           localized: {
             emptyTitle: dependencyStrings.emptyTitle,
@@ -207,6 +221,11 @@ export function createDependencyGraphView(deps: GraphViewDependencies): GraphVie
     }
   });
 
+  if (deps.onDidChangeBeads) {
+    const beadsSubscription = deps.onDidChangeBeads((delta) => postDependencyGraphPatch(panel, deps.getItems(), delta));
+    panel.onDidDispose(() => beadsSubscription.dispose());
+  }
+
   // Kick off handshake
   sendGraphData();
 
@@ -232,6 +251,7 @@ export function refreshDependencyGraphView(
     payload: {
       nodes: mapBeadsToGraphNodes(items),
       edges: collectDependencyEdges(items),
+      criticalPath: getGraphCriticalPath(items),
       dependencyEditingEnabled,
       localized: {
         emptyTitle: dependencyStrings.emptyTitle,
@@ -241,3 +261,25 @@ export function refreshDependencyGraphView(
     }
   });
 }
+
+/**
+ * Send an open graph the beads a store refresh added, changed or removed, plus the recomputed
+ * critical path.
+ *
+ * @param panel The webview panel to patch
+ * @param items Current list of bead items
+ * @param delta What the refresh changed
+ */
+export function postDependencyGraphPatch(
+  panel: vscode.WebviewPanel,
+  items: BeadItemData[],
+  delta: BeadsStoreDelta
+): void {
+  void panel.webview.postMessage({
+    type: 'patch',
+    payload: {
+      ...buildGraphPatch(items, delta),
+      criticalPath: getGraphCriticalPath(items),
+    },
+  });
+}
@@ -14,22 +14,36 @@ type GraphLocalized = {
 
 type GraphMessage =
   | { type: 'init'; payload: GraphPayload }
-  | { type: 'update'; payload: GraphPayload };
+  | { type: 'update'; payload: GraphPayload }
+  | { type: 'patch'; payload: GraphPatchPayload };
 
 type GraphNode = GraphNodeData & { issueType?: string; status?: string; title?: string };
 
 type GraphPayload = {
   nodes: GraphNode[];
   edges: GraphEdgeData[];
+  /** Longest blocking chain, first bead to last. */
+  criticalPath?: string[];
   dependencyEditingEnabled: boolean;
   localized: GraphLocalized;
 };
 
+/** Beads changed by a store refresh; edges of `edgeSourceIds` are replaced by `edges`. */
+type GraphPatchPayload = {
+  nodes: GraphNode[];
+  removedNodeIds: string[];
+  edgeSourceIds: string[];
+  edges: GraphEdgeData[];
+  criticalPath?: string[];
+};
+
 const vscode = acquireVsCodeApi();
 
 let nodes: GraphNode[] = [];
 let edges: GraphEdgeData[] = [];
 let dependencyEditingEnabled = false;
+let criticalNodes = new Set<string>();
+let criticalLinks = new Set<string>();
 let localized: GraphLocalized = {
   emptyTitle: 'No beads found',
   emptyDescription: 'The visualizer received 0 nodes.',
@@ -71,6 +85,7 @@ const typeIconMap: Record<string, string> = {
 
 let domReady = false;
 let pendingPayload: GraphPayload | null = null;
+let pendingPatches: GraphPatchPayload[] = [];
 let listenersAttached = false;
 
 function restoreState() {
@@ -91,6 +106,34 @@ function applyPayload(payload: GraphPayload) {
   edges = payload.edges || [];
   dependencyEditingEnabled = !!payload.dependencyEditingEnabled;
   localized = payload.localized || localized;
+  applyGraphData(payload.criticalPath);
+}
+
+function applyPatch(patch: GraphPatchPayload) {
+  const removed = new Set(patch.removedNodeIds || []);
+  const replacedSources = new Set(patch.edgeSourceIds || []);
+  const byId = new Map<string, GraphNode>();
+  nodes.forEach((node) => {
+    if (!removed.has(node.id)) {
+      byId.set(node.id, node);
+    }
+  });
+  (patch.nodes || []).forEach((node) => byId.set(node.id, node));
+  nodes = Array.from(byId.values());
+  edges = edges
+    .filter((edge) => !replacedSources.has(edge.sourceId) && !removed.has(edge.sourceId) && !removed.has(edge.targetId))
+    .concat(patch.edges || []);
+  removed.forEach((id) => nodePositions.delete(id));
+  applyGraphData(patch.criticalPath);
+}
+
+function applyGraphData(criticalPathIds: string[] | undefined) {
+  const criticalPath = Array.isArray(criticalPathIds) ? criticalPathIds : [];
+  criticalNodes = new Set(criticalPath);
+  criticalLinks = new Set();
+  criticalPath.slice(1).forEach((id, index) => {
+    criticalLinks.add(criticalPath[index] + '\u0000' + id);
+  });
 
   incomingCounts = new Map();
   outgoingCounts = new Map();
@@ -254,7 +297,7 @@ function calculateLayout() {
 
 function createNode(node: GraphNode): HTMLDivElement {
   const div = document.createElement('div');
-  div.className = 'node status-' + (node.status || 'open');
+  div.className = 'node status-' + (node.status || 'open') + (criticalNodes.has(node.id) ? ' critical' : '');
   div.dataset.nodeId = node.id;
   div.setAttribute('role', 'button');
   div.setAttribute('tabindex', '0');
@@ -423,7 +466,10 @@ function drawEdge(edge: GraphEdgeData) {
 
   const pathEl = document.createElementNS('http://www.w3.org/2000/svg', 'path');
   pathEl.setAttribute('d', path);
-  pathEl.setAttribute('class', 'edge ' + (edge.type || ''));
+  // Edges point either way along the chain depending on the dependency type.
+  const critical = criticalLinks.has(edge.sourceId + '\u0000' + edge.targetId)
+    || criticalLinks.has(edge.targetId + '\u0000' + edge.sourceId);
+  pathEl.setAttribute('class', 'edge ' + (edge.type || '') + (critical ? ' critical' : ''));
   pathEl.setAttribute('data-from', edge.sourceId);
   pathEl.setAttribute('data-to', edge.targetId);
   const labelId = 'edge-label-' + (edge.sourceId + '-' + edge.targetId).replace(/[^a-zA-Z0-9_-]/g, '_');
@@ -646,17 +692,26 @@ function bindControls() {
 }
 
 function handleMessage(event: MessageEvent<GraphMessage>) {
-  if (!event.data || (event.data.type !== 'init' && event.data.type !== 'update')) {
+  const message = event.data;
+  if (!message || (message.type !== 'init' && message.type !== 'update' && message.type !== 'patch')) {
     return;
   }
-  const payload = event.data.payload;
-  if (!payload) return;
+  if (!message.payload) return;
   if (!domReady) {
-    pendingPayload = payload;
+    if (message.type === 'patch') {
+      pendingPatches.push(message.payload);
+    } else {
+      pendingPayload = message.payload;
+      pendingPatches = [];
+    }
     return;
   }
   try {
-    applyPayload(payload);
+    if (message.type === 'patch') {
+      applyPatch(message.payload);
+    } else {
+      applyPayload(message.payload);
+    }
   } catch (err: any) {
     if (containerEl) {
       containerEl.replaceChildren();
@@ -678,6 +733,8 @@ function boot() {
     applyPayload(pendingPayload);
     pendingPayload = null;
   }
+  pendingPatches.forEach((patch) => applyPatch(patch));
+  pendingPatches = [];
 }
 
 window.addEventListener('message', handleMessage);
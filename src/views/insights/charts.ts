@@ -0,0 +1,166 @@
+import { escapeHtml } from '../../utils/format';
+
+/**
+ * Inline SVG charts for the insights panel. Everything is drawn here as markup, so the webview
+ * needs no script libraries, fonts or network access. Colors are given as presentation attributes
+ * because the panel's CSP does not allow inline style attributes.
+ */
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+export interface ChartBar {
+  label: string;
+  value: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 40 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const Y_TICKS = 4;
+const MAX_X_LABELS = 7;
+const MAX_POINT_MARKERS = 45;
+
+/** Round the axis maximum up to a value that divides evenly into the tick count. */
+export function niceMax(max: number): number {
+  if (max <= Y_TICKS) {
+    return Y_TICKS;
+  }
+  const rough = max / Y_TICKS;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  return Math.ceil(step) * Y_TICKS;
+}
+
+const round = (value: number): string => String(Math.round(value * 10) / 10);
+
+function formatTick(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function frame(title: string, yMax: number, xLabels: Array<{ x: number; label: string }>, body: string): string {
+  const grid: string[] = [];
+  for (let tick = 0; tick <= Y_TICKS; tick++) {
+    const value = (yMax / Y_TICKS) * tick;
+    const y = MARGIN.top + PLOT_HEIGHT - (PLOT_HEIGHT / Y_TICKS) * tick;
+    grid.push(
+      `<line class="grid" x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${round(y)}" y2="${round(y)}"></line>`,
+      `<text class="axis" x="${MARGIN.left - 6}" y="${round(y + 4)}" text-anchor="end">${formatTick(value)}</text>`
+    );
+  }
+  const labels = xLabels.map(
+    ({ x, label }) =>
+      `<text class="axis" x="${round(x)}" y="${HEIGHT - 8}" text-anchor="middle">${escapeHtml(label)}</text>`
+  );
+  return `<svg class="chart" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeHtml(title)}">
+  <title>${escapeHtml(title)}</title>
+  ${grid.join('\n  ')}
+  ${body}
+  ${labels.join('\n  ')}
+</svg>`;
+}
+
+function pointX(index: number, count: number): number {
+  return count <= 1 ? MARGIN.left + PLOT_WIDTH / 2 : MARGIN.left + (PLOT_WIDTH / (count - 1)) * index;
+}
+
+function pointY(value: number, yMax: number): number {
+  return MARGIN.top + PLOT_HEIGHT - (value / yMax) * PLOT_HEIGHT;
+}
+
+/** At most MAX_X_LABELS evenly spaced labels, always including the first and last. */
+function pickXLabels(labels: string[], position: (index: number) => number): Array<{ x: number; label: string }> {
+  if (labels.length === 0) {
+    return [];
+  }
+  const step = Math.max(1, Math.ceil((labels.length - 1) / (MAX_X_LABELS - 1)));
+  const picked: Array<{ x: number; label: string }> = [];
+  for (let index = 0; index < labels.length; index += step) {
+    picked.push({ x: position(index), label: labels[index] ?? '' });
+  }
+  const lastIndex = labels.length - 1;
+  if (lastIndex % step !== 0) {
+    picked.pop();
+    picked.push({ x: position(lastIndex), label: labels[lastIndex] ?? '' });
+  }
+  return picked;
+}
+
+export function renderLineChart(title: string, xLabels: string[], series: ChartSeries[]): string {
+  const count = xLabels.length;
+  const yMax = niceMax(Math.max(0, ...series.flatMap((entry) => entry.values)));
+  const body = series
+    .map((entry) => {
+      const points = entry.values.map((value, index) => `${round(pointX(index, count))},${round(pointY(value, yMax))}`);
+      const markers =
+        count <= MAX_POINT_MARKERS
+          ? entry.values
+              .map(
+                (value, index) =>
+                  `<circle cx="${round(pointX(index, count))}" cy="${round(pointY(value, yMax))}" r="2.5" fill="${entry.color}"><title>${escapeHtml(
+                    `${entry.label} · ${xLabels[index] ?? ''}: ${value}`
+                  )}</title></circle>`
+              )
+              .join('')
+          : '';
+      return `<polyline fill="none" stroke="${entry.color}" stroke-width="2" points="${points.join(' ')}"></polyline>${markers}`;
+    })
+    .join('\n  ');
+  return frame(title, yMax, pickXLabels(xLabels, (index) => pointX(index, count)), body);
+}
+
+/** Series are stacked bottom-up in the order given. */
+export function renderStackedAreaChart(title: string, xLabels: string[], series: ChartSeries[]): string {
+  const count = xLabels.length;
+  const totals = xLabels.map((_label, index) => series.reduce((sum, entry) => sum + (entry.values[index] ?? 0), 0));
+  const yMax = niceMax(Math.max(0, ...totals));
+  const baseline = xLabels.map(() => 0);
+  const body = series
+    .map((entry) => {
+      const lower = baseline.map((value, index) => `${round(pointX(index, count))},${round(pointY(value, yMax))}`);
+      entry.values.forEach((value, index) => {
+        baseline[index] = (baseline[index] ?? 0) + value;
+      });
+      const upper = baseline.map((value, index) => `${round(pointX(index, count))},${round(pointY(value, yMax))}`);
+      const last = entry.values[entry.values.length - 1] ?? 0;
+      return `<polygon fill="${entry.color}" fill-opacity="0.7" stroke="${entry.color}" points="${[...upper, ...lower.reverse()].join(' ')}"><title>${escapeHtml(
+        `${entry.label}: ${last}`
+      )}</title></polygon>`;
+    })
+    .join('\n  ');
+  return frame(title, yMax, pickXLabels(xLabels, (index) => pointX(index, count)), body);
+}
+
+export function renderBarChart(title: string, bars: ChartBar[], color: string): string {
+  const yMax = niceMax(Math.max(0, ...bars.map((bar) => bar.value)));
+  const slot = PLOT_WIDTH / Math.max(1, bars.length);
+  const barWidth = Math.min(48, slot * 0.7);
+  const center = (index: number) => MARGIN.left + slot * index + slot / 2;
+  const body = bars
+    .map((bar, index) => {
+      const y = pointY(bar.value, yMax);
+      return `<rect x="${round(center(index) - barWidth / 2)}" y="${round(y)}" width="${round(barWidth)}" height="${round(
+        MARGIN.top + PLOT_HEIGHT - y
+      )}" fill="${color}"><title>${escapeHtml(`${bar.label}: ${bar.value}`)}</title></rect>`;
+    })
+    .join('\n  ');
+  const labels = bars.map((bar, index) => ({ x: center(index), label: bar.label }));
+  return frame(title, yMax, labels, body);
+}
+
+/** Legend entries with SVG swatches, which, unlike inline styles, the CSP allows. */
+export function renderLegend(series: Array<Pick<ChartSeries, 'label' | 'color'>>): string {
+  return `<div class="legend">${series
+    .map(
+      (entry) =>
+        `<span class="legend-item"><svg width="10" height="10" aria-hidden="true"><rect width="10" height="10" rx="2" fill="${entry.color}"></rect></svg>${escapeHtml(
+          entry.label
+        )}</span>`
+    )
+    .join('')}</div>`;
+}
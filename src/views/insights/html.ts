@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import { escapeHtml } from '../../utils/format';
+import { formatStatusLabel, getStatusDefinition, StatusCategory } from '../../utils/status';
+import { buildSharedStyles, STATUS_TOKENS, StatusId } from '../shared/theme';
+import { ChartSeries, renderBarChart, renderLegend, renderLineChart, renderStackedAreaChart } from './charts';
+import { formatDateInput } from './model';
+import { DurationStats, InsightsData, InsightsFilters } from './types';
+
+const t = vscode.l10n.t;
+
+const CATEGORY_STATUS: Record<StatusCategory, StatusId> = {
+  open: 'open',
+  active: 'in_progress',
+  blocked: 'blocked',
+  done: 'closed',
+};
+const EXTRA_COLORS = ['var(--vscode-charts-purple)', 'var(--vscode-charts-orange)', 'var(--vscode-charts-green)'];
+const MAX_BAR_LABEL = 14;
+
+/** Built-in statuses use their theme color; custom ones borrow their category's. */
+function statusColor(status: string, index: number): string {
+  const token = STATUS_TOKENS[status as StatusId];
+  if (token) {
+    return token.color;
+  }
+  const category = getStatusDefinition(status)?.category;
+  return category ? STATUS_TOKENS[CATEGORY_STATUS[category]].color : EXTRA_COLORS[index % EXTRA_COLORS.length] ?? '';
+}
+
+function formatDays(value: number | undefined): string {
+  return value === undefined ? '—' : t('{0}d', value < 10 ? value.toFixed(1) : Math.round(value));
+}
+
+function truncate(label: string): string {
+  return label.length > MAX_BAR_LABEL ? `${label.slice(0, MAX_BAR_LABEL - 1)}…` : label;
+}
+
+function card(title: string, summary: string, chart: string): string {
+  return `<section class="card">
+    <header><h2>${escapeHtml(title)}</h2>${summary ? `<span class="summary">${summary}</span>` : ''}</header>
+    ${chart}
+  </section>`;
+}
+
+function durationCard(title: string, stats: DurationStats, color: string): string {
+  const summary = escapeHtml(
+    t('{0} issues · median {1} · 85th percentile {2}', stats.values.length, formatDays(stats.median), formatDays(stats.p85))
+  );
+  return card(title, summary, renderBarChart(title, stats.buckets.map((bucket) => ({ label: bucket.label, value: bucket.count })), color));
+}
+
+function option(value: string, label: string, selected: boolean): string {
+  return `<option value="${escapeHtml(value)}"${selected ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+}
+
+/**
+ * The insights dashboard: burndown/burnup, cumulative flow, cycle and lead time distributions and
+ * throughput per assignee, all rendered as inline SVG.
+ */
+export function getInsightsPanelHtml(
+  data: InsightsData,
+  filters: InsightsFilters,
+  eventCount: number,
+  cspSource: string,
+  nonce: string,
+  locale: string
+): string {
+  const xLabels = data.days.map((day) => day.toLocaleDateString(locale, { month: 'short', day: 'numeric' }));
+  const burnupSeries: ChartSeries[] = [
+    { label: t('Scope'), color: 'var(--vscode-charts-blue)', values: data.burn.scope },
+    { label: t('Completed'), color: 'var(--vscode-charts-green)', values: data.burn.done },
+  ];
+  const burndownSeries: ChartSeries[] = [
+    { label: t('Remaining'), color: 'var(--vscode-charts-orange)', values: data.burn.remaining },
+  ];
+  const flowSeries: ChartSeries[] = data.flow.map((series, index) => ({
+    label: formatStatusLabel(series.status),
+    color: statusColor(series.status, index),
+    values: series.counts,
+  }));
+  const throughputTotal = data.throughput.reduce((sum, entry) => sum + entry.closed, 0);
+  const scopeLabel = filters.epicId
+    ? data.epics.find((epic) => epic.id === filters.epicId)?.title ?? filters.epicId
+    : t('All issues');
+
+  const charts = [
+    card(t('Burndown'), escapeHtml(scopeLabel), renderLineChart(t('Burndown'), xLabels, burndownSeries) + renderLegend(burndownSeries)),
+    card(t('Burnup'), escapeHtml(scopeLabel), renderLineChart(t('Burnup'), xLabels, burnupSeries) + renderLegend(burnupSeries)),
+    card(t('Cumulative Flow'), '', renderStackedAreaChart(t('Cumulative Flow'), xLabels, flowSeries) + renderLegend(flowSeries)),
+    durationCard(t('Cycle Time'), data.cycleTime, 'var(--vscode-charts-yellow)'),
+    durationCard(t('Lead Time'), data.leadTime, 'var(--vscode-charts-purple)'),
+    card(
+      t('Throughput per Assignee'),
+      escapeHtml(t('{0} closed', throughputTotal)),
+      renderBarChart(
+        t('Throughput per Assignee'),
+        data.throughput.map((entry) => ({ label: truncate(entry.assignee || t('Unassigned')), value: entry.closed })),
+        'var(--vscode-charts-green)'
+      )
+    ),
+  ];
+
+  const csp = [
+    "default-src 'none'",
+    `img-src ${cspSource} data:`,
+    `style-src 'nonce-${nonce}'`,
+    `script-src 'nonce-${nonce}'`,
+  ].join('; ');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <title>${escapeHtml(t('Beads Insights'))}</title>
+  <style nonce="${nonce}">
+    ${buildSharedStyles()}
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+      padding: 16px 18px;
+      margin: 0;
+    }
+    .toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: end;
+      gap: 12px;
+      margin-bottom: 16px;
+    }
+    .toolbar h1 {
+      font-size: 18px;
+      margin: 0 auto 0 0;
+    }
+    .toolbar label {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+    .toolbar input, .toolbar select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 3px 6px;
+      font-family: inherit;
+    }
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(420px, 1fr));
+      gap: 16px;
+    }
+    .card {
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 6px;
+      padding: 12px;
+    }
+    .card header {
+      display: flex;
+      justify-content: space-between;
+      align-items: baseline;
+      gap: 8px;
+    }
+    .card h2 {
+      font-size: 13px;
+      margin: 0 0 8px 0;
+    }
+    .summary, .note, .axis {
+      color: var(--vscode-descriptionForeground);
+    }
+    .summary {
+      font-size: 11px;
+    }
+    .chart {
+      width: 100%;
+      height: auto;
+    }
+    .chart .axis {
+      font-size: 10px;
+      fill: var(--vscode-descriptionForeground);
+    }
+    .chart .grid {
+      stroke: var(--vscode-panel-border);
+      stroke-width: 1;
+    }
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      font-size: 11px;
+      margin-top: 4px;
+    }
+    .legend-item {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+    }
+    .note {
+      font-size: 11px;
+      margin-top: 16px;
+    }
+  </style>
+</head>
+<body>
+  <form class="toolbar" id="filters">
+    <h1>${escapeHtml(t('Beads Insights'))}</h1>
+    <label>${escapeHtml(t('From'))}<input type="date" name="from" value="${formatDateInput(filters.from)}"></label>
+    <label>${escapeHtml(t('To'))}<input type="date" name="to" value="${formatDateInput(filters.to)}"></label>
+    <label>${escapeHtml(t('Label'))}<select name="label">
+      ${option('', t('Any label'), !filters.label)}
+      ${data.labels.map((label) => option(label, label, label === filters.label)).join('')}
+    </select></label>
+    <label>${escapeHtml(t('Epic'))}<select name="epicId">
+      ${option('', t('All issues'), !filters.epicId)}
+      ${data.epics.map((epic) => option(epic.id, `${epic.id} · ${epic.title}`, epic.id === filters.epicId)).join('')}
+    </select></label>
+  </form>
+  <div class="grid">
+    ${charts.join('\n    ')}
+  </div>
+  <p class="note">${escapeHtml(
+    t('Derived from {0} created, status change and close events. Cycle time runs from the first move to an active status until closing; lead time from creation until closing.', eventCount)
+  )}</p>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById('filters');
+    form.addEventListener('change', () => {
+      const data = new FormData(form);
+      vscode.postMessage({
+        command: 'setFilters',
+        from: data.get('from') || '',
+        to: data.get('to') || '',
+        label: data.get('label') || undefined,
+        epicId: data.get('epicId') || undefined,
+      });
+    });
+    form.addEventListener('submit', (event) => event.preventDefault());
+  </script>
+</body>
+</html>`;
+}
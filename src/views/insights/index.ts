@@ -0,0 +1,3 @@
+export { getInsightsPanelHtml } from './html';
+export { computeInsights, defaultInsightsFilters, filtersFromCommand, parseInsightsCommand, toInsightsIssue } from './model';
+export type { InsightsData, InsightsFilters } from './types';
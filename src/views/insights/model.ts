@@ -0,0 +1,362 @@
+import type { EventData } from '../../activityFeed';
+import { BeadItemData, deriveAssigneeName } from '../../utils/beads';
+import { getStatusDefinition, getWorkflowStatuses, isDoneStatus, normalizeStatus } from '../../utils/status';
+import {
+  DistributionBucket,
+  DurationStats,
+  InsightsCommand,
+  InsightsData,
+  InsightsFilters,
+  InsightsIssue,
+  IssueHistory,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Longer ranges are sampled less often than daily so the charts stay readable. */
+const MAX_SAMPLES = 90;
+const DURATION_BUCKETS: Array<{ label: string; maxDays: number }> = [
+  { label: '<1d', maxDays: 1 },
+  { label: '1-2d', maxDays: 2 },
+  { label: '2-4d', maxDays: 4 },
+  { label: '4-7d', maxDays: 7 },
+  { label: '1-2w', maxDays: 14 },
+  { label: '2-4w', maxDays: 28 },
+  { label: '4w+', maxDays: Infinity },
+];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_FILTER_LENGTH = 200;
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Project a tree item onto the fields the insights need. */
+export function toInsightsIssue(item: BeadItemData): InsightsIssue {
+  const raw = (item.raw ?? {}) as Record<string, unknown>;
+  const issue: InsightsIssue = {
+    id: item.id,
+    title: item.title,
+    status: normalizeStatus(item.status) ?? item.status ?? 'open',
+    labels: item.tags ?? [],
+  };
+  const assignee = deriveAssigneeName(item, '');
+  if (assignee) {
+    issue.assignee = assignee;
+  }
+  if (item.parentId) {
+    issue.parentId = item.parentId;
+  }
+  if (item.issueType) {
+    issue.issueType = item.issueType;
+  }
+  const createdAt = parseDate(raw.created_at);
+  const closedAt = parseDate(raw.closed_at);
+  if (createdAt) {
+    issue.createdAt = createdAt;
+  }
+  if (closedAt) {
+    issue.closedAt = closedAt;
+  }
+  return issue;
+}
+
+function statusFromValue(value: EventData['newValue']): string | undefined {
+  const candidate = value?.status ?? value?.raw ?? undefined;
+  if (typeof candidate !== 'string' || !candidate.trim()) {
+    return undefined;
+  }
+  return normalizeStatus(candidate) ?? candidate.trim().toLowerCase();
+}
+
+/**
+ * Rebuild each issue's status timeline. `created` opens an issue, `closed` and `reopened` move it
+ * to closed and open, and `status_changed` to its new status. Issues whose history does not reach
+ * back to creation are anchored on the created/closed dates of their record.
+ */
+export function buildIssueHistories(events: EventData[], issues: InsightsIssue[]): Map<string, IssueHistory> {
+  const histories = new Map<string, IssueHistory>();
+  const historyFor = (id: string): IssueHistory => {
+    let history = histories.get(id);
+    if (!history) {
+      history = { id, transitions: [], createdAt: undefined, startedAt: undefined, closedAt: undefined };
+      histories.set(id, history);
+    }
+    return history;
+  };
+
+  const ordered = events
+    .filter((event) => !Number.isNaN(event.createdAt.getTime()))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  for (const event of ordered) {
+    const history = historyFor(event.issueId);
+    switch (event.eventType) {
+      case 'created':
+        history.createdAt ??= event.createdAt;
+        history.transitions.push({ at: event.createdAt, status: 'open' });
+        break;
+      case 'closed':
+        history.transitions.push({ at: event.createdAt, status: 'closed' });
+        break;
+      case 'reopened':
+        history.transitions.push({ at: event.createdAt, status: 'open' });
+        break;
+      case 'status_changed': {
+        const status = statusFromValue(event.newValue);
+        if (status) {
+          history.transitions.push({ at: event.createdAt, status });
+        }
+        break;
+      }
+    }
+  }
+
+  for (const issue of issues) {
+    const history = historyFor(issue.id);
+    const first = history.transitions[0];
+    if (issue.createdAt && !history.createdAt && (!first || issue.createdAt < first.at)) {
+      history.transitions.unshift({ at: issue.createdAt, status: 'open' });
+    }
+    const last = history.transitions[history.transitions.length - 1];
+    if (issue.closedAt && isDoneStatus(issue.status) && (!last || (!isDoneStatus(last.status) && last.at <= issue.closedAt))) {
+      history.transitions.push({ at: issue.closedAt, status: issue.status });
+    }
+  }
+
+  histories.forEach((history) => {
+    const [first] = history.transitions;
+    const last = history.transitions[history.transitions.length - 1];
+    history.createdAt ??= first?.at;
+    history.startedAt = history.transitions.find(
+      (transition) => getStatusDefinition(transition.status)?.category === 'active'
+    )?.at;
+    history.closedAt = last && isDoneStatus(last.status) ? last.at : undefined;
+  });
+  return histories;
+}
+
+/** Status at `at`, or undefined when the issue did not exist yet. */
+export function statusAt(history: IssueHistory, at: Date): string | undefined {
+  let status: string | undefined;
+  for (const transition of history.transitions) {
+    if (transition.at > at) {
+      break;
+    }
+    status = transition.status;
+  }
+  return status;
+}
+
+const startOfDay = (day: Date): Date => new Date(day.getFullYear(), day.getMonth(), day.getDate());
+const endOfDay = (day: Date): Date => new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, 0, 0, 0, -1);
+
+/** Local-midnight sample days from `from` to `to`, at most MAX_SAMPLES of them. */
+export function sampleDays(from: Date, to: Date): Date[] {
+  const start = startOfDay(from);
+  const end = startOfDay(to);
+  const span = Math.max(0, Math.round((end.getTime() - start.getTime()) / DAY_MS));
+  const step = Math.max(1, Math.ceil((span + 1) / MAX_SAMPLES));
+  const days: Date[] = [];
+  for (let offset = 0; offset <= span; offset += step) {
+    days.push(new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset));
+  }
+  const last = days[days.length - 1];
+  if (!last || last.getTime() !== end.getTime()) {
+    days.push(end);
+  }
+  return days;
+}
+
+function percentile(sorted: number[], fraction: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1));
+  return sorted[index];
+}
+
+export function summarizeDurations(values: number[]): DurationStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const buckets: DistributionBucket[] = DURATION_BUCKETS.map((bucket) => ({ label: bucket.label, count: 0 }));
+  for (const value of sorted) {
+    const index = DURATION_BUCKETS.findIndex((bucket) => value < bucket.maxDays);
+    const bucket = buckets[index];
+    if (bucket) {
+      bucket.count += 1;
+    }
+  }
+  const stats: DurationStats = { values: sorted, buckets };
+  const median = percentile(sorted, 0.5);
+  const p85 = percentile(sorted, 0.85);
+  if (median !== undefined) {
+    stats.median = median;
+  }
+  if (p85 !== undefined) {
+    stats.p85 = p85;
+  }
+  return stats;
+}
+
+/** Statuses to stack in the cumulative flow diagram: the workflow's order, then any others seen. */
+function flowStatuses(histories: IssueHistory[]): string[] {
+  const statuses = [...getWorkflowStatuses()];
+  histories.forEach((history) =>
+    history.transitions.forEach((transition) => {
+      if (!statuses.includes(transition.status)) {
+        statuses.push(transition.status);
+      }
+    })
+  );
+  return statuses;
+}
+
+/**
+ * Compute every chart for the filtered issues. Epics are containers, so they are only used to
+ * scope the other issues and never counted themselves.
+ */
+export function computeInsights(events: EventData[], issues: InsightsIssue[], filters: InsightsFilters): InsightsData {
+  const histories = buildIssueHistories(events, issues);
+  const issueById = new Map(issues.map((issue) => [issue.id, issue]));
+  const epics = issues
+    .filter((issue) => issue.issueType === 'epic')
+    .map((issue) => ({ id: issue.id, title: issue.title }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const labels = [...new Set(issues.flatMap((issue) => issue.labels))].sort((a, b) => a.localeCompare(b));
+
+  const inScope = (history: IssueHistory): boolean => {
+    const issue = issueById.get(history.id);
+    if (issue?.issueType === 'epic') {
+      return false;
+    }
+    if (filters.label && !issue?.labels.includes(filters.label)) {
+      return false;
+    }
+    return !filters.epicId || issue?.parentId === filters.epicId;
+  };
+  const scoped = [...histories.values()].filter(inScope);
+
+  const days = sampleDays(filters.from, filters.to);
+  const statuses = flowStatuses(scoped);
+  const flow = statuses.map((status) => ({ status, counts: days.map(() => 0) }));
+  const burn = { scope: days.map(() => 0), done: days.map(() => 0), remaining: days.map(() => 0) };
+  days.forEach((day, index) => {
+    const at = endOfDay(day);
+    for (const history of scoped) {
+      const status = statusAt(history, at);
+      if (!status) {
+        continue;
+      }
+      burn.scope[index] = (burn.scope[index] ?? 0) + 1;
+      if (isDoneStatus(status)) {
+        burn.done[index] = (burn.done[index] ?? 0) + 1;
+      }
+      const series = flow[statuses.indexOf(status)];
+      if (series) {
+        series.counts[index] = (series.counts[index] ?? 0) + 1;
+      }
+    }
+    burn.remaining[index] = (burn.scope[index] ?? 0) - (burn.done[index] ?? 0);
+  });
+
+  const rangeStart = startOfDay(filters.from);
+  const rangeEnd = endOfDay(filters.to);
+  const closedInRange = scoped.filter(
+    (history) => history.closedAt && history.closedAt >= rangeStart && history.closedAt <= rangeEnd
+  );
+  const daysBetween = (start: Date, end: Date) => Math.max(0, (end.getTime() - start.getTime()) / DAY_MS);
+  const cycleTimes = closedInRange
+    .filter((history) => history.startedAt && history.closedAt)
+    .map((history) => daysBetween(history.startedAt as Date, history.closedAt as Date));
+  const leadTimes = closedInRange
+    .filter((history) => history.createdAt && history.closedAt)
+    .map((history) => daysBetween(history.createdAt as Date, history.closedAt as Date));
+
+  const perAssignee = new Map<string, number>();
+  closedInRange.forEach((history) => {
+    const assignee = issueById.get(history.id)?.assignee ?? '';
+    perAssignee.set(assignee, (perAssignee.get(assignee) ?? 0) + 1);
+  });
+  const throughput = [...perAssignee.entries()]
+    .map(([assignee, closed]) => ({ assignee, closed }))
+    .sort((a, b) => b.closed - a.closed || a.assignee.localeCompare(b.assignee));
+
+  return {
+    days,
+    burn,
+    flow: flow.filter((series) => series.counts.some((count) => count > 0)),
+    cycleTime: summarizeDurations(cycleTimes),
+    leadTime: summarizeDurations(leadTimes),
+    throughput,
+    labels,
+    epics,
+  };
+}
+
+/** YYYY-MM-DD in local time, the format of `<input type="date">`. */
+export function formatDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Local midnight of a YYYY-MM-DD date, or undefined when it is not one. */
+export function parseDateInput(value: string): Date | undefined {
+  if (!DATE_PATTERN.test(value)) {
+    return undefined;
+  }
+  const [year, month, day] = value.split('-').map(Number) as [number, number, number];
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : undefined;
+}
+
+/** The last `days` days up to today. */
+export function defaultInsightsFilters(now = new Date(), days = 30): InsightsFilters {
+  const to = startOfDay(now);
+  return { from: new Date(to.getFullYear(), to.getMonth(), to.getDate() - (days - 1)), to };
+}
+
+function isOptionalFilter(value: unknown): value is string | undefined {
+  return value === undefined || (typeof value === 'string' && value.length <= MAX_FILTER_LENGTH);
+}
+
+/** Validate a message posted by the insights webview. */
+export function parseInsightsCommand(raw: unknown): InsightsCommand | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const candidate = raw as Record<string, unknown>;
+  if (candidate.command !== 'setFilters') {
+    return undefined;
+  }
+  const { from, to, label, epicId } = candidate;
+  if (typeof from !== 'string' || typeof to !== 'string' || !parseDateInput(from) || !parseDateInput(to)) {
+    return undefined;
+  }
+  if (!isOptionalFilter(label) || !isOptionalFilter(epicId)) {
+    return undefined;
+  }
+  const command: InsightsCommand = { command: 'setFilters', from, to };
+  if (label) {
+    command.label = label;
+  }
+  if (epicId) {
+    command.epicId = epicId;
+  }
+  return command;
+}
+
+/** Apply a validated setFilters command, keeping `from` on or before `to`. */
+export function filtersFromCommand(command: InsightsCommand): InsightsFilters {
+  const from = parseDateInput(command.from) as Date;
+  const to = parseDateInput(command.to) as Date;
+  const filters: InsightsFilters = from <= to ? { from, to } : { from: to, to: from };
+  if (command.label) {
+    filters.label = command.label;
+  }
+  if (command.epicId) {
+    filters.epicId = command.epicId;
+  }
+  return filters;
+}
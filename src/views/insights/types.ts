@@ -0,0 +1,62 @@
+export interface InsightsIssue {
+  id: string;
+  title: string;
+  status: string;
+  assignee?: string;
+  labels: string[];
+  parentId?: string;
+  issueType?: string;
+  /** From the issue record; used when the event history does not reach back to creation. */
+  createdAt?: Date;
+  closedAt?: Date;
+}
+
+/** Status timeline of one issue, rebuilt from its created/closed/reopened/status_changed events. */
+export interface IssueHistory {
+  id: string;
+  /** Status changes in time order; the issue does not exist before the first one. */
+  transitions: Array<{ at: Date; status: string }>;
+  createdAt: Date | undefined;
+  /** First time the issue entered an active status such as in_progress. */
+  startedAt: Date | undefined;
+  /** When the issue was last closed, if it is closed at the end of its history. */
+  closedAt: Date | undefined;
+}
+
+export interface InsightsFilters {
+  /** First day of the range (local midnight). */
+  from: Date;
+  /** Last day of the range (local midnight); the whole day is included. */
+  to: Date;
+  label?: string;
+  /** Limit every chart to the children of this epic. */
+  epicId?: string;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface DurationStats {
+  /** Durations in days, one per issue closed in the range. */
+  values: number[];
+  median?: number;
+  p85?: number;
+  buckets: DistributionBucket[];
+}
+
+export interface InsightsData {
+  /** Sample days on the x axis; each value counts the state at the end of that day. */
+  days: Date[];
+  burn: { scope: number[]; done: number[]; remaining: number[] };
+  flow: Array<{ status: string; counts: number[] }>;
+  cycleTime: DurationStats;
+  leadTime: DurationStats;
+  throughput: Array<{ assignee: string; closed: number }>;
+  /** Filter choices. */
+  labels: string[];
+  epics: Array<{ id: string; title: string }>;
+}
+
+export type InsightsCommand = { command: 'setFilters'; from: string; to: string; label?: string; epicId?: string };
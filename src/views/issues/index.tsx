@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import { Row } from './Row';
 import { Section } from './Section';
-import { BeadViewModel, WebviewMessage, WebviewCommand } from './types';
+import { BeadViewModel, QuickFilterChip, WebviewMessage, WebviewCommand } from './types';
 import './style.css';
 
 // VS Code API
@@ -27,6 +27,7 @@ const vscode = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : win
 const App: React.FC = () => {
   const [beads, setBeads] = useState<BeadViewModel[]>([]);
   const [sortMode, setSortMode] = useState<string>('id');
+  const [filters, setFilters] = useState<QuickFilterChip[]>([]);
   const [compact, setCompact] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -45,6 +46,7 @@ const App: React.FC = () => {
       if (typeof message.sortMode === 'string') {
         setSortMode(message.sortMode);
       }
+      setFilters(Array.isArray(message.filters) ? message.filters : []);
       setLoading(false);
     };
 
@@ -70,6 +72,10 @@ const App: React.FC = () => {
     vscode.postMessage({ command: 'openInProgressPanel' } as any);
   };
 
+  const handleRemoveFilter = (key: string) => {
+    vscode.postMessage({ command: 'removeFilter', key });
+  };
+
   const renderSection = (title: string, items: BeadViewModel[], icon: string, className: string = '', defaultCollapsed = false) => {
     if (items.length === 0) return null;
     return (
@@ -186,6 +192,23 @@ const App: React.FC = () => {
           </button>
         </div>
       </div>
+      {filters.length > 0 && (
+        <div className="bead-filter-chips">
+          {filters.map(filter => (
+            <span key={filter.key} className="bead-chip filter-chip">
+              <span className="chip-label">{filter.label}</span>
+              <button
+                className="filter-chip-remove"
+                onClick={() => handleRemoveFilter(filter.key)}
+                title={`Remove filter ${filter.label}`}
+                aria-label={`Remove filter ${filter.label}`}
+              >
+                <span className="codicon codicon-close" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
       <div className="bead-list">
         {renderGroups()}
       </div>
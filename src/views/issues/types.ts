@@ -21,8 +21,14 @@ export interface BeadViewModel {
   };
 }
 
+/** An active quick filter predicate, rendered as a removable chip. */
+export interface QuickFilterChip {
+  key: string;
+  label: string;
+}
+
 export type WebviewMessage =
-  | { type: 'update'; beads: BeadViewModel[]; sortMode?: string; density?: 'default' | 'compact' }
+  | { type: 'update'; beads: BeadViewModel[]; sortMode?: string; density?: 'default' | 'compact'; filters?: QuickFilterChip[] }
   | { type: 'config'; config: { showClosed: boolean; sortMode: string } };
 
 export type WebviewCommand =
@@ -33,4 +39,5 @@ export type WebviewCommand =
   | { command: 'log'; text: string }
   | { command: 'pickSort' }
   | { command: 'openInProgressPanel' }
+  | { command: 'removeFilter'; key: string }
   | { command: 'ready' };
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import type { BeadsTreeDataProvider } from '../../providers/beads/treeDataProvider';
+import { BeadItemData, toViewModel } from '../../utils/beads';
+import { buildCodiconLink } from '../shared/assets';
+import { buildSharedStyles } from '../shared/theme';
+import { isBoardSwimlaneMode, parseBoardCommand } from '../board/model';
+import { BoardMessage, BoardSwimlaneMode } from '../board/types';
+
+const t = vscode.l10n.t;
+const SWIMLANES_KEY = 'beady.boardSwimlanes';
+
+export interface BoardPanelDeps {
+  provider: BeadsTreeDataProvider;
+  context: vscode.ExtensionContext;
+  openBead: (item: BeadItemData) => Promise<void>;
+}
+
+let activePanel: vscode.WebviewPanel | undefined;
+
+function getNonce(): string {
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let text = '';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
+
+export function buildBoardHtml(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+  const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'views', 'board.js'));
+  const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'views', 'board.css'));
+  const nonce = getNonce();
+
+  const csp = [
+    "default-src 'none'",
+    `img-src ${webview.cspSource} https: data:`,
+    `script-src 'nonce-${nonce}' ${webview.cspSource}`,
+    `style-src ${webview.cspSource} https: 'nonce-${nonce}'`,
+    `font-src ${webview.cspSource} https: data:`,
+    "connect-src 'none'",
+    "frame-src 'none'"
+  ].join('; ');
+
+  return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="${csp}">
+      <link href="${styleUri}" rel="stylesheet" nonce="${nonce}">
+      ${buildCodiconLink()}
+      <style nonce="${nonce}">${buildSharedStyles()}</style>
+      <title>Beads Board</title>
+    </head>
+    <body>
+      <div id="root">Loading...</div>
+      <script nonce="${nonce}" src="${scriptUri}"></script>
+    </body>
+    </html>`;
+}
+
+/**
+ * Open (or reveal) the Kanban board. Columns follow the status workflow; dragging a card to
+ * another column runs the regular status update, and dropping within a column reorders it
+ * through the tree's manual sort order.
+ */
+export async function openBoardPanel(deps: BoardPanelDeps): Promise<void> {
+  const { provider, context, openBead } = deps;
+
+  if (activePanel) {
+    activePanel.reveal();
+    return;
+  }
+
+  const panel = vscode.window.createWebviewPanel(
+    'beadyBoard',
+    t('Beads Board'),
+    (vscode.ViewColumn && vscode.ViewColumn.One) || 1,
+    {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [context.extensionUri],
+    }
+  );
+  activePanel = panel;
+  panel.webview.html = buildBoardHtml(panel.webview, context.extensionUri);
+
+  const storedMode = context.workspaceState.get<BoardSwimlaneMode>(SWIMLANES_KEY);
+  let swimlanes: BoardSwimlaneMode = isBoardSwimlaneMode(storedMode) ? storedMode : 'none';
+
+  const postUpdate = (): void => {
+    const message: BoardMessage = {
+      type: 'update',
+      columns: provider.getBoardColumns(),
+      lanes: provider.getBoardLanes(swimlanes),
+      cards: provider.getVisibleBeads().map(toViewModel),
+      swimlanes,
+    };
+    void panel.webview.postMessage(message);
+  };
+
+  const subscription = provider.onDidChangeTreeData(() => postUpdate());
+  panel.onDidDispose(() => {
+    subscription.dispose();
+    if (activePanel === panel) {
+      activePanel = undefined;
+    }
+  });
+
+  panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+    const message = parseBoardCommand(raw);
+    if (!message) {
+      console.warn('[boardPanel] Ignoring invalid message');
+      return;
+    }
+
+    switch (message.command) {
+      case 'ready':
+        postUpdate();
+        return;
+      case 'setSwimlanes':
+        swimlanes = message.mode;
+        void context.workspaceState.update(SWIMLANES_KEY, swimlanes);
+        postUpdate();
+        return;
+      case 'open': {
+        const item = provider.getVisibleBeads().find((bead) => bead.id === message.id);
+        if (item) {
+          await openBead(item);
+        }
+        return;
+      }
+      case 'move': {
+        const item = provider.getItems().find((bead) => bead.id === message.id);
+        if (!item) {
+          void vscode.window.showWarningMessage(t('Issue {0} not found', message.id));
+          return;
+        }
+        if ((item.status || 'open') !== message.status) {
+          await provider.updateStatus(item, message.status);
+          // A rejected transition leaves the status (and the card) where it was.
+          const updated = provider.getItems().find((bead) => bead.id === message.id);
+          if ((updated?.status || 'open') !== message.status) {
+            postUpdate();
+            return;
+          }
+        }
+        provider.moveInManualOrder([item], message.beforeId);
+        return;
+      }
+    }
+  });
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import type { BeadsTreeDataProvider } from '../../providers/beads/treeDataProvider';
+import { ActivityFeedUnavailable, EventData, EventType, fetchEvents as defaultFetchEvents } from '../../activityFeed';
+import { resolveProjectRoot } from '../../utils/workspace';
+import { formatError } from '../../utils';
+import {
+  InsightsFilters,
+  computeInsights,
+  defaultInsightsFilters,
+  filtersFromCommand,
+  getInsightsPanelHtml,
+  parseInsightsCommand,
+  toInsightsIssue,
+} from '../insights';
+
+const t = vscode.l10n.t;
+const INSIGHTS_EVENT_TYPES: EventType[] = ['created', 'closed', 'reopened', 'status_changed'];
+/** Enough history for every chart; older events fall back to the issues' created/closed dates. */
+const INSIGHTS_EVENT_LIMIT = 20000;
+/** Bead reloads come in bursts; wait for them to settle before re-reading the event history. */
+const REFRESH_DEBOUNCE_MS = 1000;
+
+export interface InsightsPanelDeps {
+  provider: BeadsTreeDataProvider;
+  fetchEvents?: typeof defaultFetchEvents;
+  getProjectRoot?: () => string | undefined;
+  locale?: string;
+}
+
+let activePanel: vscode.WebviewPanel | undefined;
+
+function getNonce(): string {
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let text = '';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
+
+/**
+ * Open (or reveal) the insights dashboard. Charts are computed from the activity feed's
+ * created/status/closed events plus the loaded issues, and redrawn when the filters or issues change
+ * (issue changes are debounced, since each one re-reads the event history).
+ */
+export async function openInsightsPanel(deps: InsightsPanelDeps): Promise<void> {
+  const {
+    provider,
+    fetchEvents = defaultFetchEvents,
+    getProjectRoot = () => resolveProjectRoot(vscode.workspace.getConfiguration('beady')),
+    locale = vscode.env.language || 'en',
+  } = deps;
+
+  if (activePanel) {
+    activePanel.reveal();
+    return;
+  }
+
+  const panel = vscode.window.createWebviewPanel(
+    'beadyInsights',
+    t('Beads Insights'),
+    (vscode.ViewColumn && vscode.ViewColumn.One) || 1,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+  activePanel = panel;
+
+  let filters: InsightsFilters = defaultInsightsFilters();
+  let warned = false;
+  let disposed = false;
+  let refreshTimer: NodeJS.Timeout | undefined;
+
+  const loadEvents = async (): Promise<EventData[]> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return [];
+    }
+    try {
+      const timeoutMs = vscode.workspace.getConfiguration('beady').get<number>('activityFeed.queryTimeoutMs', 5000);
+      const result = await fetchEvents(projectRoot, { eventTypes: INSIGHTS_EVENT_TYPES, limit: INSIGHTS_EVENT_LIMIT }, { timeoutMs });
+      return result.events;
+    } catch (error) {
+      if (!warned) {
+        warned = true;
+        const reason = error instanceof ActivityFeedUnavailable ? error.message : formatError(t('Failed to read events'), error);
+        void vscode.window.showWarningMessage(t('Insights use issue dates only: {0}', reason));
+      }
+      return [];
+    }
+  };
+
+  let events: EventData[] = [];
+  const render = (): void => {
+    if (disposed) {
+      return;
+    }
+    const issues = provider.getItems().map(toInsightsIssue);
+    const data = computeInsights(events, issues, filters);
+    panel.webview.html = getInsightsPanelHtml(data, filters, events.length, panel.webview.cspSource, getNonce(), locale);
+  };
+  const refresh = async (): Promise<void> => {
+    try {
+      const loaded = await loadEvents();
+      if (disposed) {
+        return;
+      }
+      events = loaded;
+      render();
+    } catch (error) {
+      console.error('[insightsPanel] Failed to refresh insights', error);
+    }
+  };
+
+  const subscription = provider.onDidChangeTreeData(() => {
+    if (refreshTimer) {
+      clearTimeout(refreshTimer);
+    }
+    refreshTimer = setTimeout(() => {
+      refreshTimer = undefined;
+      void refresh();
+    }, REFRESH_DEBOUNCE_MS);
+  });
+  panel.onDidDispose(() => {
+    disposed = true;
+    if (refreshTimer) {
+      clearTimeout(refreshTimer);
+    }
+    subscription.dispose();
+    if (activePanel === panel) {
+      activePanel = undefined;
+    }
+  });
+
+  panel.webview.onDidReceiveMessage((raw: unknown) => {
+    const message = parseInsightsCommand(raw);
+    if (!message) {
+      console.warn('[insightsPanel] Ignoring invalid message');
+      return;
+    }
+    filters = filtersFromCommand(message);
+    render();
+  });
+
+  await refresh();
+}
@@ -62,7 +62,11 @@ export const buildRegistryFromGit = (repoRoot: string, now = Date.now()): Worktr
     cwd: repoRoot,
     encoding: 'utf8',
   });
+  return registryFromPorcelain(repoRoot, porcelain, now);
+};
 
+/** Registry for the output of `git worktree list --porcelain`, for callers that run git themselves. */
+export const registryFromPorcelain = (repoRoot: string, porcelain: string, now = Date.now()): WorktreeRegistry => {
   const entries = parsePorcelain(porcelain)
     .map((e) => ({
       ...e,
@@ -100,6 +104,60 @@ export const readRegistry = (repoRoot: string): WorktreeRegistry | null => {
   }
 };
 
+/** Canonical location for a task worktree: `<repo>/../worktrees/<worker>/<task>`. */
+export const worktreePathFor = (repoRoot: string, worker: string, taskId: string) =>
+  path.join(path.resolve(repoRoot), '..', 'worktrees', worker, taskId);
+
+/** Worker names become a path segment and branch prefix, so keep them to `[A-Za-z0-9._-]`. */
+export const sanitizeWorkerName = (name: string) =>
+  name.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[-.]+|[-.]+$/g, '');
+
+/** bd labels cannot contain `/`, so worktree `worker/task` is labelled `worktree:worker:task`. */
+export const worktreeLabel = (id: string) => `worktree:${id.replace(/\//g, ':')}`;
+
+/** Add or replace (by path) a registry entry, starting a new registry when there is none. */
+export const upsertRegistryEntry = (registry: WorktreeRegistry | null, entry: WorktreeEntry, now = Date.now()): WorktreeRegistry => ({
+  schemaVersion: registry?.schemaVersion ?? REGISTRY_SCHEMA_VERSION,
+  generatedAt: now,
+  entries: [...(registry?.entries ?? []).filter((e) => e.path !== entry.path), entry],
+});
+
+/**
+ * Carry the id, label and lock of previously registered worktrees over to entries rebuilt from git,
+ * which only know the path, branch and commit.
+ */
+export const mergeRegistryEntries = (previous: WorktreeRegistry | null, entries: WorktreeEntry[]): WorktreeEntry[] => {
+  const byPath = new Map((previous?.entries ?? []).map((entry) => [path.resolve(entry.path), entry]));
+  return entries.map((entry) => {
+    const known = byPath.get(path.resolve(entry.path));
+    return {
+      ...entry,
+      ...(!entry.id && known?.id ? { id: known.id } : {}),
+      ...(known?.name ? { name: known.name } : {}),
+      ...(known?.lockedBy ? { lockedBy: known.lockedBy } : {}),
+    };
+  });
+};
+
+/**
+ * Mark live entries as seen now. Entries seen within `minAgeMs` are left alone so a refresh does
+ * not rewrite the registry every time; returns undefined when nothing changed.
+ */
+export const touchRegistryEntries = (
+  registry: WorktreeRegistry,
+  isLive: (entry: WorktreeEntry) => boolean,
+  minAgeMs: number,
+  now = Date.now()
+): WorktreeRegistry | undefined => {
+  let changed = false;
+  const entries = registry.entries.map((entry) => {
+    if (now - entry.lastSeen < minAgeMs || !isLive(entry)) return entry;
+    changed = true;
+    return { ...entry, lastSeen: now };
+  });
+  return changed ? { ...registry, entries, generatedAt: now } : undefined;
+};
+
 export const formatWorktreeLabel = (entry: WorktreeEntry) => {
   const parts = [entry.id];
   if (entry.branch) parts.push(`(${entry.branch})`);
@@ -113,7 +171,7 @@ export const filterStaleEntries = (entries: WorktreeEntry[], staleAfterMs: numbe
 
 export const syncRegistry = (repoRoot: string, staleAfterMs = 5 * 60 * 1000) => {
   const fresh = buildRegistryFromGit(repoRoot);
-  fresh.entries = filterStaleEntries(fresh.entries, staleAfterMs);
+  fresh.entries = filterStaleEntries(mergeRegistryEntries(readRegistry(repoRoot), fresh.entries), staleAfterMs);
   writeRegistry(repoRoot, fresh);
   return fresh;
 };
@@ -166,7 +224,7 @@ export const auditWorktrees = (repoRoot: string, staleAfterMs = 5 * 60 * 1000) =
     }
   }
 
-  const filtered = filterStaleEntries(fresh.entries, staleAfterMs);
+  const filtered = filterStaleEntries(mergeRegistryEntries(registry, fresh.entries), staleAfterMs);
   writeRegistry(repoRoot, { ...fresh, entries: filtered, generatedAt: now });
 
   return { issues, registry: { ...fresh, entries: filtered } };
@@ -176,10 +234,17 @@ export default {
   makeWorktreeId,
   isCanonicalWorktreePath,
   buildRegistryFromGit,
+  registryFromPorcelain,
   registryPath,
   writeRegistry,
   readRegistry,
   formatWorktreeLabel,
   filterStaleEntries,
   syncRegistry,
+  worktreePathFor,
+  sanitizeWorkerName,
+  worktreeLabel,
+  upsertRegistryEntry,
+  mergeRegistryEntries,
+  touchRegistryEntries,
 };
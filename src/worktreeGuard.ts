@@ -0,0 +1,168 @@
+import path from 'path';
+import { WorktreeEntry, WorktreeRegistry, isCanonicalWorktreePath } from './worktree';
+
+/** Rules from docs/worktree-guard-spec.md. */
+export type GuardRuleId = 'canonicalPath' | 'branchName' | 'duplicate' | 'mainCheckout' | 'lockOwner';
+export type GuardSeverity = 'error' | 'warning' | 'off';
+
+export const GUARD_RULE_IDS: GuardRuleId[] = ['canonicalPath', 'branchName', 'duplicate', 'mainCheckout', 'lockOwner'];
+
+/** Remediations a violation can offer; the extension turns them into quick fixes. */
+export type GuardFix =
+  | { kind: 'syncRegistry' }
+  | { kind: 'renameBranch'; worktreePath: string; from: string; to: string }
+  | { kind: 'checkoutBranch'; worktreePath: string; branch: string }
+  | { kind: 'releaseLock'; entry: WorktreeEntry }
+  | { kind: 'removeWorktree'; entry: WorktreeEntry }
+  | { kind: 'startWork' };
+
+export interface GuardViolation {
+  rule: GuardRuleId;
+  severity: Exclude<GuardSeverity, 'off'>;
+  /** Worktree the violation is about. */
+  path: string;
+  /** Canonical `worker/task` id of that worktree, when its path has one. */
+  id?: string;
+  /** What was found: the branch, the lock owner, or the duplicate paths. */
+  actual?: string;
+  /** What the rule expects, such as the canonical branch name. */
+  expected?: string;
+  fixes: GuardFix[];
+}
+
+export interface WorktreeGuardOptions {
+  rules: Record<GuardRuleId, GuardSeverity>;
+  branchPattern: RegExp;
+}
+
+export const DEFAULT_BRANCH_PATTERN = '^[A-Za-z0-9._-]+/[A-Za-z0-9._-]+$';
+
+export const DEFAULT_GUARD_OPTIONS: WorktreeGuardOptions = {
+  rules: {
+    canonicalPath: 'warning',
+    branchName: 'warning',
+    duplicate: 'warning',
+    mainCheckout: 'warning',
+    lockOwner: 'error',
+  },
+  branchPattern: new RegExp(DEFAULT_BRANCH_PATTERN),
+};
+
+export interface WorktreeGuardInput {
+  /** Main working tree of the repository. */
+  repoRoot: string;
+  /** Checkout the mutation runs from. */
+  projectRoot: string;
+  /** Entries of `git worktree list` (see `registryFromPorcelain`): the main checkout and canonical worktrees. */
+  worktrees: WorktreeEntry[];
+  /** `.beads/worktrees.json`, if any. */
+  registry: WorktreeRegistry | null;
+}
+
+/** `worker/task` for a path under `<repo>/../worktrees/<worker>/<task>`, otherwise undefined. */
+export const canonicalWorktreeId = (repoRoot: string, worktreePath: string): string | undefined => {
+  if (!isCanonicalWorktreePath(repoRoot, worktreePath)) return undefined;
+  const relative = path.relative(path.join(path.resolve(repoRoot), '..', 'worktrees'), path.resolve(worktreePath));
+  const segments = relative.split(path.sep);
+  return segments.length === 2 && segments.every(Boolean) ? segments.join('/') : undefined;
+};
+
+const shortBranch = (branch: string) => branch.replace(/^refs\/heads\//, '');
+
+/**
+ * Check the worktree invariants of the guard spec: canonical paths, branches named after their
+ * path, one worktree per task, no mutations from the main checkout once task worktrees are in use,
+ * and registry locks held by the worker that mutates. Only violations about `projectRoot` keep an
+ * "error" severity; problems in other worktrees are reported as warnings so they never block it.
+ */
+export const evaluateWorktreeGuard = (
+  input: WorktreeGuardInput,
+  options: WorktreeGuardOptions = DEFAULT_GUARD_OPTIONS
+): GuardViolation[] => {
+  const repoRoot = path.resolve(input.repoRoot);
+  const projectRoot = path.resolve(input.projectRoot);
+  const registryEntries = input.registry?.entries ?? [];
+  const taskWorktrees = input.worktrees.filter((entry) => path.resolve(entry.path) !== repoRoot);
+  const violations: GuardViolation[] = [];
+  const report = (
+    rule: GuardRuleId,
+    violation: Omit<GuardViolation, 'rule' | 'severity'>,
+    current = path.resolve(violation.path) === projectRoot
+  ) => {
+    const severity = options.rules[rule];
+    if (severity !== 'off') {
+      violations.push({ rule, severity: current ? severity : 'warning', ...violation });
+    }
+  };
+
+  if (projectRoot !== repoRoot && !canonicalWorktreeId(repoRoot, projectRoot)) {
+    report('canonicalPath', { path: projectRoot, fixes: [{ kind: 'startWork' }] });
+  }
+  registryEntries
+    .filter((entry) => path.resolve(entry.path) !== repoRoot && !canonicalWorktreeId(repoRoot, entry.path))
+    .forEach((entry) => report('canonicalPath', { path: entry.path, fixes: [{ kind: 'syncRegistry' }] }));
+
+  taskWorktrees.forEach((entry) => {
+    const id = canonicalWorktreeId(repoRoot, entry.path);
+    if (!id) return;
+    const branch = shortBranch(entry.branch);
+    if (branch !== id || !options.branchPattern.test(branch)) {
+      report('branchName', {
+        path: entry.path,
+        id,
+        actual: branch,
+        expected: id,
+        fixes: !branch
+          ? [{ kind: 'checkoutBranch', worktreePath: entry.path, branch: id }]
+          : branch !== id
+            ? [{ kind: 'renameBranch', worktreePath: entry.path, from: branch, to: id }]
+            : [],
+      });
+    }
+  });
+  registryEntries.forEach((entry) => {
+    const id = canonicalWorktreeId(repoRoot, entry.path);
+    if (id && entry.id && entry.id !== id) {
+      report('branchName', { path: entry.path, id, actual: entry.id, expected: id, fixes: [{ kind: 'syncRegistry' }] });
+    }
+  });
+
+  const byTask = new Map<string, WorktreeEntry[]>();
+  taskWorktrees.forEach((entry) => {
+    const task = canonicalWorktreeId(repoRoot, entry.path)?.split('/')[1];
+    if (task) {
+      byTask.set(task, [...(byTask.get(task) ?? []), entry]);
+    }
+  });
+  byTask.forEach((entries, task) => {
+    if (entries.length > 1) {
+      report('duplicate', {
+        path: entries[0]?.path ?? '',
+        id: task,
+        actual: entries.map((entry) => entry.path).join(', '),
+        fixes: entries
+          .filter((entry) => path.resolve(entry.path) !== projectRoot)
+          .map((entry) => ({ kind: 'removeWorktree' as const, entry })),
+      }, entries.some((entry) => path.resolve(entry.path) === projectRoot));
+    }
+  });
+
+  if (projectRoot === repoRoot && taskWorktrees.some((entry) => canonicalWorktreeId(repoRoot, entry.path))) {
+    report('mainCheckout', { path: repoRoot, fixes: [{ kind: 'startWork' }] });
+  }
+
+  const currentId = canonicalWorktreeId(repoRoot, projectRoot);
+  const worker = currentId?.split('/')[0];
+  const lock = registryEntries.find((entry) => path.resolve(entry.path) === projectRoot && entry.lockedBy);
+  if (lock?.lockedBy && lock.lockedBy !== worker) {
+    report('lockOwner', {
+      path: projectRoot,
+      ...(currentId ? { id: currentId } : {}),
+      actual: lock.lockedBy,
+      ...(worker ? { expected: worker } : {}),
+      fixes: [{ kind: 'releaseLock', entry: lock }],
+    });
+  }
+
+  return violations;
+};